@@ -0,0 +1,8 @@
+// Types for collab-relay.mjs, so tests can start a relay
+
+export interface Relay {
+  port: number;
+  close: () => Promise<void>;
+}
+
+export function startRelay(options?: { port?: number; host?: string }): Promise<Relay>;
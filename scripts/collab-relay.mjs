@@ -0,0 +1,55 @@
+// Minimal relay for real-time collaboration, for development and tests
+// Clients connect to ws://host:port/<room> and every message is forwarded to the other clients in the
+// same room. The relay keeps no document state; clients sync with each other (see src/services/syncProvider.ts).
+//
+//   npm run collab-relay            (listens on port 1234, or $PORT)
+//   VITE_COLLAB_URL=ws://localhost:1234 npm run dev
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { pathToFileURL } from 'url';
+
+// Resolves once listening, with the port (useful with port 0) and a close function
+export function startRelay({ port = 1234, host } = {}) {
+  const server = new WebSocketServer({ port, host });
+  const rooms = new Map();
+
+  server.on('connection', (socket, request) => {
+    const room = decodeURIComponent((request.url || '/').slice(1)) || 'default';
+    if (!rooms.has(room)) rooms.set(room, new Set());
+    const clients = rooms.get(room);
+    clients.add(socket);
+
+    socket.on('message', (message, isBinary) => {
+      clients.forEach(client => {
+        if (client !== socket && client.readyState === WebSocket.OPEN) {
+          client.send(message, { binary: isBinary });
+        }
+      });
+    });
+
+    socket.on('close', () => {
+      clients.delete(socket);
+      if (clients.size === 0) rooms.delete(room);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      resolve({
+        port: server.address().port,
+        close: () =>
+          new Promise(done => {
+            server.clients.forEach(client => client.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startRelay({ port: Number(process.env.PORT) || 1234 }).then(({ port }) => {
+    console.log(`🔗 Collaboration relay listening on ws://localhost:${port}`);
+  });
+}
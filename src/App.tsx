@@ -3,21 +3,48 @@ import { useAppStore } from './store/useAppStore';
 import { googleAuth } from './services/googleAuth';
 import { googleDriveService } from './services/googleDriveService';
 import { storageService } from './services/storageService';
+import { localBackend } from './services/localBackend';
+import { StorageBackend, ProjectLockedError, canEditProject } from './services/storageBackend';
+import { saveQueue } from './services/saveQueue';
+import { migrateProject, MigrationResult, NewerProjectVersionError } from './services/projectMigrations';
+import { validateProject, repairProject, formatIssue, ValidationReport } from './services/projectValidation';
+import { importLegacyStoryboard, importLegacyMaps } from './services/legacyImport';
+import { storeSnapshot } from './services/projectSnapshots';
+import { collaborationService } from './services/collaborationService';
+import { WebSocketSyncProvider } from './services/syncProvider';
 import Sidebar from './components/Sidebar/Sidebar';
 import WindowManager from './components/WindowManager/WindowManager';
 import SimpleSignIn from './components/Auth/SimpleSignIn';
 import ProjectSelectionModal from './components/Setup/ProjectSelectionModal';
+import UnlockProjectDialog from './components/Setup/UnlockProjectDialog';
+import RecoveryKeyDialog from './components/Setup/RecoveryKeyDialog';
 import GlobalSaveStatus from './components/GlobalSaveStatus';
-import { Menu, PanelLeft } from 'lucide-react';
+import ReconnectBanner from './components/ReconnectBanner';
+import ConflictResolutionDialog from './components/ConflictResolutionDialog';
+import BrokenReferencesDialog from './components/BrokenReferencesDialog';
+import ValidationReportDialog from './components/ValidationReportDialog';
+import { Menu, PanelLeft, Lock } from 'lucide-react';
+
+// Set when the user chose to work without Google Drive
+const LOCAL_MODE_KEY = 'storyboard_local_mode';
+// Without a connection the Google scripts never load, so stop waiting for Drive after this long
+const DRIVE_INIT_TIMEOUT = 15000;
 
 function App() {
   const { sidebarOpen, setSidebarOpen, theme, toggleSidebar } = useAppStore();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [isLocalMode, setIsLocalMode] = useState(() => localStorage.getItem(LOCAL_MODE_KEY) === 'true');
   const [isInitializing, setIsInitializing] = useState(true);
   const [showProjectSelection, setShowProjectSelection] = useState(false);
   const [currentProjectFolderId, setCurrentProjectFolderId] = useState<string | null>(null);
   const [isLoadingProject, setIsLoadingProject] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState({ stage: '', progress: 0 });
+  const [readOnlyReason, setReadOnlyReason] = useState<string | null>(null);
+  const [loadReport, setLoadReport] = useState<ValidationReport | null>(null);
+  // An encrypted project waiting for its passphrase
+  const [lockedProject, setLockedProject] = useState<{ folderId: string; name: string; backend: StorageBackend } | null>(null);
+  // Shown once after a new project was encrypted
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
 
   // Check authentication status on mount
   useEffect(() => {
@@ -30,12 +57,26 @@ function App() {
       
       // Initialize Google Drive service
       console.log('🔧 Initializing Google Drive service...');
-      await googleDriveService.initialize();
-      console.log('✅ Google Drive service initialized');
+      const isDriveReady = await Promise.race([
+        googleDriveService.initialize().then(() => true),
+        new Promise<boolean>(resolve => setTimeout(() => resolve(false), DRIVE_INIT_TIMEOUT)),
+      ]).catch(error => {
+        console.warn('⚠️ Google Drive service failed to initialize:', error);
+        return false;
+      });
+      if (isDriveReady) {
+        console.log('✅ Google Drive service initialized');
+      } else {
+        console.warn('⚠️ Google Drive is not reachable');
+      }
       
       // Check both Google Auth AND Google Drive API access
       const isGoogleAuth = googleAuth.isAuthenticated();
-      const isDriveAuth = googleDriveService.isAuthenticated();
+      if (isDriveReady && isGoogleAuth && !googleDriveService.isAuthenticated()) {
+        // The Drive token expired since the last visit; renew it without asking when Google allows
+        await googleDriveService.refreshToken();
+      }
+      const isDriveAuth = isDriveReady && googleDriveService.isAuthenticated();
       console.log('🔐 Google Auth status:', isGoogleAuth);
       console.log('🔐 Drive Auth status:', isDriveAuth);
       
@@ -43,9 +84,9 @@ function App() {
       const isAuth = isGoogleAuth && isDriveAuth;
       setIsAuthenticated(isAuth);
       
-      if (isAuth) {
+      if (isAuth || isLocalMode) {
         // ALWAYS show project selection - never auto-load
-        console.log('🔐 User authenticated - showing project selection');
+        console.log(isAuth ? '🔐 User authenticated - showing project selection' : '💻 Working locally - showing project selection');
         setShowProjectSelection(true);
         // Clear any previously stored project to force selection
         localStorage.removeItem('current_project_folder_id');
@@ -64,28 +105,92 @@ function App() {
     }
   };
 
-  const loadProjectFromDrive = async (folderId: string) => {
+  // Resolves to whether the project could be opened
+  const loadProject = async (folderId: string, backend: StorageBackend): Promise<boolean> => {
     setIsLoadingProject(true);
     try {
       setLoadingProgress({ stage: 'Loading project data...', progress: 10 });
-      console.log('📥 Loading project data from folder:', folderId);
+      console.log(`📥 Loading project data from ${backend.name}:`, folderId);
       
-      const projectData = await googleDriveService.loadProjectFromFolder(folderId);
+      const projectData = await backend.loadProject(folderId);
       console.log('✅ Project data loaded:', projectData.projectName);
       setLoadingProgress({ stage: 'Loading documents...', progress: 40 });
       
       // Load documents separately from the project folder
       console.log('📄 Loading documents from folder...');
-      const documents = await googleDriveService.loadDocumentsFromFolder(folderId);
+      const documents = await backend.loadDocuments(folderId);
       console.log('✅ Loaded', documents.length, 'documents');
       setLoadingProgress({ stage: 'Initializing project...', progress: 80 });
       
       // Merge documents into project data
       projectData.documents = documents;
+
+      // Projects shared without edit access open read-only
+      const role = backend.getRole ? await backend.getRole(folderId) : 'owner';
       
-      console.log('💾 Initializing storage service with Google Drive data...');
-      await storageService.initialize(projectData);
-      console.log('✅ Project loaded from Google Drive with', documents.length, 'documents');
+      // Upgrade files written by older versions; files from newer versions can only be viewed
+      let migration: MigrationResult | null = null;
+      try {
+        migration = migrateProject(projectData);
+      } catch (error) {
+        if (!(error instanceof NewerProjectVersionError)) throw error;
+        if (!window.confirm(`${error.message}.\n\nOpen it read-only? Changes will not be saved.`)) {
+          throw error;
+        }
+      }
+
+      // Check what was downloaded so one malformed file can't crash every window
+      const loadedData = migration ? migration.data : projectData;
+      const report = validateProject(loadedData);
+      const validData = report.valid ? loadedData : repairProject(loadedData, 'repair');
+      if (!report.valid) {
+        console.warn(`⚠️ Repaired ${report.issues.length} problem(s) in the project:`, report.issues.map(formatIssue));
+        setLoadReport(report);
+      }
+
+      if (!migration) {
+        console.warn('🔒 Opening project read-only, it was saved by a newer version');
+        storageService.setBackend(null, null);
+        storageService.setReadOnly(true);
+        await storageService.initialize(validData);
+        setReadOnlyReason('Saved by a newer version of the app – changes will not be saved');
+      } else if (!canEditProject(role)) {
+        console.warn(`🔒 Opening project read-only, it was shared with you as ${role}`);
+        // Upgrades and repairs only happen in memory; the owner's copy is left as it is
+        storageService.setBackend(backend, folderId);
+        storageService.setReadOnly(true, role === 'commenter');
+        await storageService.initialize(validData);
+        setReadOnlyReason(`Shared with you as ${role} – ask the owner for edit access`);
+      } else {
+        storageService.setReadOnly(false);
+        setReadOnlyReason(null);
+
+        if (migration.migrated || !report.valid) {
+          setLoadingProgress({ stage: 'Upgrading project format...', progress: 85 });
+          // Snapshot the original project in case the upgrade or repair goes wrong
+          if (migration.migrated) {
+            await storeSnapshot(backend, folderId, projectData, `Before upgrade from format ${migration.fromVersion}`, 'migration');
+          } else {
+            await storeSnapshot(backend, folderId, projectData, 'Before repair', 'repair');
+          }
+        }
+
+        console.log(`💾 Initializing storage service with ${backend.name} data...`);
+        storageService.setBackend(backend, folderId);
+        // Edits that never reached the backend (offline, failed saves) are still in the outbox;
+        // the stored copy stays the merge base for them
+        const withPending = await saveQueue.applyPending(folderId, validData);
+        await storageService.initialize(withPending, validData);
+        if (migration.migrated || !report.valid) {
+          // Write the upgraded or repaired project back
+          await storageService.saveAll();
+        }
+        console.log(`✅ Project loaded from ${backend.name} with`, documents.length, 'documents');
+
+        // Bring over any storyboard and maps still stored in the old local database
+        await importLegacyStoryboard();
+        await importLegacyMaps();
+      }
       
       // Sync settings from storage to app store after project loads
       const loadedSettings = storageService.getSettings();
@@ -94,62 +199,85 @@ function App() {
       setTheme(loadedSettings.theme);
       setTooltipFields(loadedSettings.tooltipFields);
       console.log('✅ Settings synced to app store');
+
+      // Edit together in real time when a collaboration server is configured (see scripts/collab-relay.mjs)
+      const collabUrl = import.meta.env.VITE_COLLAB_URL;
+      // Updates go through the relay as they are, so encrypted projects are not shared live
+      const encrypted = migration && (await backend.isProjectEncrypted?.(folderId));
+      if (collabUrl && migration && !encrypted) {
+        const user = googleAuth.getCurrentUser();
+        collaborationService.start(folderId, new WebSocketSyncProvider(collabUrl), {
+          id: user?.email || `guest-${Math.random().toString(36).slice(2, 8)}`,
+          name: user?.name || 'Guest',
+          picture: user?.picture,
+        });
+      } else {
+        collaborationService.stop();
+      }
       setLoadingProgress({ stage: 'Complete!', progress: 100 });
       
       // Small delay to show completion before hiding loader
       await new Promise(resolve => setTimeout(resolve, 300));
+      return true;
     } catch (error) {
-      console.error('❌ Error loading project from Google Drive:', error);
-      console.error('Error details:', error);
+      if (error instanceof ProjectLockedError) {
+        console.log('🔒 Project is encrypted, asking for its passphrase');
+        setLockedProject({ folderId, name: localStorage.getItem('current_project_name') || 'Project', backend });
+      } else {
+        console.error(`❌ Error loading project from ${backend.name}:`, error);
+        console.error('Error details:', error);
+      }
       // If loading fails, show project selection
       setShowProjectSelection(true);
+      return false;
     } finally {
       setIsLoadingProject(false);
       setLoadingProgress({ stage: '', progress: 0 });
     }
   };
 
-  const handleSelectProject = async (folderId: string, folderName: string) => {
+  const handleSelectProject = async (folderId: string, folderName: string, backend: StorageBackend) => {
     try {
       setCurrentProjectFolderId(folderId);
       localStorage.setItem('current_project_folder_id', folderId);
       localStorage.setItem('current_project_name', folderName);
       
-      // Load project data from Google Drive
-      await loadProjectFromDrive(folderId);
-      
-      setShowProjectSelection(false);
+      if (await loadProject(folderId, backend)) {
+        setShowProjectSelection(false);
+      }
     } catch (error) {
       console.error('Error selecting project:', error);
       alert('Failed to load project. Please try again.');
     }
   };
 
-  const handleCreateProject = async (projectName: string) => {
+  const handleCreateProject = async (projectName: string, backend: StorageBackend, passphrase?: string) => {
     try {
-      // Create folder in Google Drive
-      const folderId = await googleDriveService.createProjectFolder(projectName);
-      
-      // Get default project data and save it
-      const defaultData = storageService.getData();
-      defaultData.projectName = projectName;
-      
-      await googleDriveService.saveProjectToFolder(folderId, defaultData, true); // Force save for new project
+      // Create the project (a Drive folder or a record on this device) with default project data
+      let folderId: string;
+      if (passphrase) {
+        // Encrypted from the first file written; the new project is unlocked, so it opens without asking
+        // for the passphrase again
+        const created = await backend.createEncryptedProject!(projectName, storageService.getDefaultData(), passphrase);
+        folderId = created.projectId;
+        setNewRecoveryKey(created.recoveryKey);
+      } else {
+        folderId = await backend.createProject(projectName, storageService.getDefaultData());
+      }
       
       // Set as current project
-      await handleSelectProject(folderId, projectName);
+      await handleSelectProject(folderId, projectName, backend);
     } catch (error) {
       console.error('Error creating project:', error);
       throw error;
     }
   };
 
-  const handleDeleteProject = async (folderId: string, folderName: string) => {
+  const handleDeleteProject = async (folderId: string, folderName: string, backend: StorageBackend) => {
     try {
-      console.log('🗑️ Deleting project:', folderName);
+      console.log(`🗑️ Deleting project from ${backend.name}:`, folderName);
       
-      // Delete the project folder from Google Drive
-      await googleDriveService.deleteProjectFolder(folderId);
+      await backend.deleteProject(folderId);
       
       // If this was the current project, clear it
       const currentFolderId = localStorage.getItem('current_project_folder_id');
@@ -167,6 +295,19 @@ function App() {
     }
   };
 
+  const handleWorkLocally = () => {
+    console.log('💻 Working locally without Google Drive');
+    localStorage.setItem(LOCAL_MODE_KEY, 'true');
+    setIsLocalMode(true);
+    setShowProjectSelection(true);
+  };
+
+  // Leave local mode and go back to the sign-in screen
+  const handleConnectDrive = () => {
+    localStorage.removeItem(LOCAL_MODE_KEY);
+    window.location.reload();
+  };
+
   // Apply theme to document
   useEffect(() => {
     const isDark = theme === 'dark';
@@ -203,8 +344,8 @@ function App() {
     );
   }
 
-  if (!isAuthenticated) {
-    return <SimpleSignIn />;
+  if (!isAuthenticated && !isLocalMode) {
+    return <SimpleSignIn onWorkLocally={localBackend.isAvailable() ? handleWorkLocally : undefined} />;
   }
 
   // Show loading indicator when loading project
@@ -233,11 +374,27 @@ function App() {
   // ALWAYS show project selection modal when authenticated - user must choose a project
   if (showProjectSelection || !currentProjectFolderId) {
     return (
-      <ProjectSelectionModal 
-        onSelectProject={handleSelectProject}
-        onCreateProject={handleCreateProject}
-        onDeleteProject={handleDeleteProject}
-      />
+      <>
+        <ProjectSelectionModal 
+          isDriveAvailable={!!isAuthenticated}
+          onSelectProject={handleSelectProject}
+          onCreateProject={handleCreateProject}
+          onDeleteProject={handleDeleteProject}
+          onConnectDrive={handleConnectDrive}
+        />
+        {lockedProject && (
+          <UnlockProjectDialog
+            backend={lockedProject.backend}
+            projectId={lockedProject.folderId}
+            projectName={lockedProject.name}
+            onUnlocked={() => {
+              setLockedProject(null);
+              handleSelectProject(lockedProject.folderId, lockedProject.name, lockedProject.backend);
+            }}
+            onCancel={() => setLockedProject(null)}
+          />
+        )}
+      </>
     );
   }
 
@@ -292,8 +449,44 @@ function App() {
         </div>
       )}
 
+      {/* Read-only banner */}
+      {readOnlyReason && (
+        <div className="fixed top-0 left-1/2 transform -translate-x-1/2 z-50 mt-2 px-4 py-2 bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 border border-amber-300 dark:border-amber-700 rounded-lg shadow-sm flex items-center space-x-2 text-sm">
+          <Lock className="w-4 h-4" />
+          <span>Read-only: {readOnlyReason}</span>
+        </div>
+      )}
+
       {/* Global Save Status Indicator */}
       <GlobalSaveStatus />
+
+      {/* Shown when the Google Drive session expired and saves are waiting */}
+      <ReconnectBanner />
+
+      {/* Shown when a save had to be merged with changes made elsewhere */}
+      <ConflictResolutionDialog />
+
+      {/* Shown when records point at entities that no longer exist */}
+      <BrokenReferencesDialog />
+
+      {/* Shown once after a new project was encrypted */}
+      {newRecoveryKey && (
+        <RecoveryKeyDialog
+          recoveryKey={newRecoveryKey}
+          projectName={storageService.getData().projectName}
+          onClose={() => setNewRecoveryKey(null)}
+        />
+      )}
+
+      {/* Shown when the loaded project had to be repaired */}
+      {loadReport && (
+        <ValidationReportDialog
+          title="Project Repaired"
+          description={`Some data in this project didn't match the expected format and was repaired.${readOnlyReason ? '' : ' A snapshot of the original was saved with the project.'}`}
+          report={loadReport}
+          onClose={() => setLoadReport(null)}
+        />
+      )}
     </div>
     </>
   );
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { googleAuth } from '../../services/googleAuth';
-import { Cloud, Loader, AlertCircle, Info } from 'lucide-react';
+import { Cloud, Loader, AlertCircle, Info, HardDrive } from 'lucide-react';
 
-const SimpleSignIn: React.FC = () => {
+interface SimpleSignInProps {
+  // Continue without Google, keeping projects on this device
+  onWorkLocally?: () => void;
+}
+
+const SimpleSignIn: React.FC<SimpleSignInProps> = ({ onWorkLocally }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [signedIn, setSignedIn] = useState(false);
@@ -422,6 +427,22 @@ const SimpleSignIn: React.FC = () => {
             </>
           )}
         </div>
+
+        {/* Local-only mode */}
+        {onWorkLocally && (
+          <div className="text-center space-y-2">
+            <button
+              onClick={onWorkLocally}
+              className="inline-flex items-center space-x-2 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-white/60 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <HardDrive className="w-5 h-5" />
+              <span className="font-medium">Work locally on this device</span>
+            </button>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              No Google account needed. Projects are stored in this browser and can be uploaded to Google Drive later.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { Link2Off } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { EntityReference } from '../services/projectReferences';
+import { REFERENCE_SOURCE_LABELS, formatReferenceField } from './DeleteReferencesDialog';
+
+const referenceKey = (reference: EntityReference) =>
+  `${reference.collection}:${reference.entityId}:${reference.field}:${reference.targetId}`;
+
+// Shown when the background integrity check finds references to entities that no longer exist
+const BrokenReferencesDialog: React.FC = () => {
+  const [references, setReferences] = useState<EntityReference[]>([]);
+  const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set());
+  const [isRepairing, setIsRepairing] = useState(false);
+
+  useEffect(() => {
+    return storageService.onIntegrityChange(setReferences);
+  }, []);
+
+  // Only references the user hasn't already dismissed reopen the dialog
+  const hasNew = references.some(reference => !dismissedKeys.has(referenceKey(reference)));
+  if (references.length === 0 || !hasNew || storageService.isReadOnly()) {
+    return null;
+  }
+
+  const handleRepair = async () => {
+    setIsRepairing(true);
+    try {
+      await storageService.repairDanglingReferences();
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    setDismissedKeys(new Set(references.map(referenceKey)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <Link2Off className="w-8 h-8 text-amber-600 dark:text-amber-400" />
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Broken References</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {references.length} reference{references.length === 1 ? '' : 's'} point{references.length === 1 ? 's' : ''} at
+              entities that no longer exist. Removing them keeps the records and clears the missing links.
+            </p>
+          </div>
+        </div>
+
+        {/* References */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <ul className="space-y-1">
+            {references.map(reference => (
+              <li
+                key={referenceKey(reference)}
+                className="flex items-center justify-between text-sm bg-gray-50 dark:bg-gray-900 rounded px-2 py-1"
+              >
+                <span className="text-gray-900 dark:text-white">
+                  <span className="text-gray-500 dark:text-gray-400">{REFERENCE_SOURCE_LABELS[reference.collection]}:</span>{' '}
+                  {reference.entityName}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                  {formatReferenceField(reference.field)} → {reference.targetId}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={handleDismiss}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Not now
+          </button>
+          <button
+            onClick={handleRepair}
+            disabled={isRepairing}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Remove References
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrokenReferencesDialog;
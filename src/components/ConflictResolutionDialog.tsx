@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { GitMerge, Check } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { MergeConflict } from '../services/projectMerge';
+
+type Choice = 'local' | 'remote';
+
+const COLLECTION_LABELS: Record<MergeConflict['collection'], string> = {
+  characters: 'Character',
+  locations: 'Location',
+  plotPoints: 'Plot Point',
+  chapters: 'Chapter',
+  storyboardElements: 'Storyboard Element',
+  maps: 'Map',
+  trash: 'Trash',
+  settings: 'Settings',
+};
+
+// Turn camelCase field names into labels, e.g. "characterArc" -> "Character Arc"
+const formatFieldName = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const formatValue = (conflict: MergeConflict, value: any) => {
+  if (!conflict.field) {
+    return value === undefined ? 'Deleted' : 'Kept with edits';
+  }
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+};
+
+const ConflictResolutionDialog: React.FC = () => {
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = storageService.onConflictsChange((updated) => {
+      setConflicts(updated);
+      // Default to keeping our own version, which is what the merged project already contains
+      setChoices(prev => {
+        const next: Record<string, Choice> = {};
+        updated.forEach(conflict => {
+          next[conflict.id] = prev[conflict.id] || 'local';
+        });
+        return next;
+      });
+      // New conflicts reopen the dialog
+      setIsDismissed(false);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  if (conflicts.length === 0 || isDismissed) {
+    return null;
+  }
+
+  const chooseAll = (choice: Choice) => {
+    const next: Record<string, Choice> = {};
+    conflicts.forEach(conflict => {
+      next[conflict.id] = choice;
+    });
+    setChoices(next);
+  };
+
+  const handleApply = async () => {
+    await storageService.resolveConflicts(choices);
+  };
+
+  const renderSide = (conflict: MergeConflict, side: Choice) => {
+    const isSelected = choices[conflict.id] === side;
+    const value = side === 'local' ? conflict.local : conflict.remote;
+
+    return (
+      <button
+        onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: side }))}
+        className={`flex-1 text-left p-3 rounded-lg border transition-colors ${
+          isSelected
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+            {side === 'local' ? 'Your version' : 'Other version'}
+          </span>
+          {isSelected && <Check className="w-4 h-4 text-blue-600 dark:text-blue-400" />}
+        </div>
+        <pre className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-words font-sans">
+          {formatValue(conflict, value)}
+        </pre>
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <GitMerge className="w-8 h-8 text-amber-600 dark:text-amber-400" />
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Resolve Conflicts
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              This project was also changed somewhere else. Everything else was merged automatically;
+              pick which version to keep for these {conflicts.length} change{conflicts.length === 1 ? '' : 's'}.
+            </p>
+          </div>
+        </div>
+
+        {/* Conflicts */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {conflicts.map(conflict => (
+            <div key={conflict.id}>
+              <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {COLLECTION_LABELS[conflict.collection]}
+                {conflict.collection !== 'settings' && `: ${conflict.entityName}`}
+                {conflict.field ? ` – ${formatFieldName(conflict.field)}` : ' – deleted in one version'}
+              </div>
+              <div className="flex space-x-3">
+                {renderSide(conflict, 'local')}
+                {renderSide(conflict, 'remote')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => chooseAll('local')}
+              className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Keep all mine
+            </button>
+            <button
+              onClick={() => chooseAll('remote')}
+              className="px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Take all theirs
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setIsDismissed(true)}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Decide later
+            </button>
+            <button
+              onClick={handleApply}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolutionDialog;
@@ -8,6 +8,7 @@ interface ChapterTableProps {
   onUpdate: (type: string, id: number, updates: any) => void;
   onDelete: (type: string, id: number) => void;
   onAdd: () => void;
+  readOnly?: boolean; // Only lets the user look, e.g. in projects shared with them as a viewer
 }
 
 const ChapterTable: React.FC<ChapterTableProps> = ({
@@ -16,6 +17,7 @@ const ChapterTable: React.FC<ChapterTableProps> = ({
   onUpdate,
   onDelete,
   onAdd,
+  readOnly = false,
 }) => {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editData, setEditData] = useState<Partial<Chapter>>({});
@@ -338,13 +340,15 @@ const ChapterTable: React.FC<ChapterTableProps> = ({
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">Chapters</h3>
-        <button
-          onClick={onAdd}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Chapter</span>
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onAdd}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Chapter</span>
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -355,12 +359,14 @@ const ChapterTable: React.FC<ChapterTableProps> = ({
             <div className="text-gray-500 dark:text-gray-400 mb-4">
               No chapters yet. Create your first chapter to get started.
             </div>
-            <button
-              onClick={onAdd}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Add Chapter
-            </button>
+            {!readOnly && (
+              <button
+                onClick={onAdd}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Add Chapter
+              </button>
+            )}
           </div>
         ) : (
           <div className="h-full flex">
@@ -441,36 +447,40 @@ const ChapterTable: React.FC<ChapterTableProps> = ({
 
                   {/* Tab Content */}
                   <div className="flex-1 overflow-auto p-6">
-                    {activeTab === 'basic' && renderBasicInfo()}
-                    {activeTab === 'details' && renderDetailedInfo()}
-                    {activeTab === 'custom' && renderCustomFields()}
+                    <fieldset disabled={readOnly}>
+                      {activeTab === 'basic' && renderBasicInfo()}
+                      {activeTab === 'details' && renderDetailedInfo()}
+                      {activeTab === 'custom' && renderCustomFields()}
+                    </fieldset>
                   </div>
 
                   {/* Actions */}
-                  <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
-                    <button
-                      onClick={() => onDelete('chapter', editingId!)}
-                      className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      <span>Delete Chapter</span>
-                    </button>
-                    <div className="flex items-center space-x-3">
+                  {!readOnly && (
+                    <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
                       <button
-                        onClick={handleCancel}
-                        className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        onClick={() => onDelete('chapter', editingId!)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
                       >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={handleSave}
-                        className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-                      >
-                        <Save className="w-4 h-4" />
-                        <span>Save</span>
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete Chapter</span>
                       </button>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={handleCancel}
+                          className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSave}
+                          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                        >
+                          <Save className="w-4 h-4" />
+                          <span>Save</span>
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </>
               ) : (
                 <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { Character } from '../../database/schema';
+import { collaborationService } from '../../services/collaborationService';
+import { useCollaborators } from '../../hooks/useCollaborators';
 import { Edit, Trash2, Plus, Save, X, User, Briefcase, Heart, Users, Sword, MessageSquare, BookOpen, Settings, Minus } from 'lucide-react';
 
 interface CharacterTableProps {
@@ -7,6 +9,7 @@ interface CharacterTableProps {
   onUpdate: (type: string, id: number, updates: any) => void;
   onDelete: (type: string, id: number) => void;
   onAdd: () => void;
+  readOnly?: boolean; // Only lets the user look, e.g. in projects shared with them as a viewer
 }
 
 const CharacterTable: React.FC<CharacterTableProps> = ({
@@ -14,6 +17,7 @@ const CharacterTable: React.FC<CharacterTableProps> = ({
   onUpdate,
   onDelete,
   onAdd,
+  readOnly = false,
 }) => {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editData, setEditData] = useState<Partial<Character>>({});
@@ -21,6 +25,14 @@ const CharacterTable: React.FC<CharacterTableProps> = ({
   const [newCustomFieldName, setNewCustomFieldName] = useState('');
   const [newCustomFieldValue, setNewCustomFieldValue] = useState('');
   const [highlightedCharacterId, setHighlightedCharacterId] = useState<number | null>(null);
+  const collaborators = useCollaborators();
+
+  // Let collaborators see which character this user has open
+  React.useEffect(() => {
+    if (!editingId || readOnly) return;
+    collaborationService.setEditing({ kind: 'character', id: String(editingId) });
+    return () => collaborationService.setEditing(null);
+  }, [editingId, readOnly]);
 
   React.useEffect(() => {
     const handleScrollToCharacter = (event: any) => {
@@ -539,13 +551,15 @@ const CharacterTable: React.FC<CharacterTableProps> = ({
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">Characters</h3>
-        <button
-          onClick={onAdd}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Character</span>
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onAdd}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Character</span>
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -556,47 +570,60 @@ const CharacterTable: React.FC<CharacterTableProps> = ({
             <div className="text-gray-500 dark:text-gray-400 mb-4">
               No characters yet. Create your first character to get started.
             </div>
-            <button
-              onClick={onAdd}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Add Character
-            </button>
+            {!readOnly && (
+              <button
+                onClick={onAdd}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Add Character
+              </button>
+            )}
           </div>
         ) : (
           <div className="h-full flex">
             {/* Character List */}
             <div className="w-1/3 border-r border-gray-200 dark:border-gray-700 overflow-auto">
               <div className="p-4 space-y-3">
-                {characters.map((character) => (
-                  <div
-                    key={character.id}
-                    data-character-id={character.id}
-                    className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                      editingId === character.id
-                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900'
-                        : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                    }`}
-                    onClick={() => handleEdit(character)}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <h4 className="font-medium text-gray-900 dark:text-white">
-                        {character.name}
-                      </h4>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(character.role)}`}>
-                        {character.role}
-                      </span>
-                    </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-                      {character.description || 'No description'}
-                    </p>
-                    {character.occupation && (
-                      <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
-                        {character.occupation}
+                {characters.map((character) => {
+                  const editors = collaborators.filter(
+                    peer => peer.editing?.kind === 'character' && peer.editing.id === String(character.id)
+                  );
+                  return (
+                    <div
+                      key={character.id}
+                      data-character-id={character.id}
+                      className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                        editingId === character.id
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-900'
+                          : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                      onClick={() => handleEdit(character)}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium text-gray-900 dark:text-white">
+                          {character.name}
+                        </h4>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(character.role)}`}>
+                          {character.role}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+                        {character.description || 'No description'}
                       </p>
-                    )}
-                  </div>
-                ))}
+                      {character.occupation && (
+                        <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                          {character.occupation}
+                        </p>
+                      )}
+                      {editors.map(peer => (
+                        <div key={peer.clientId} className="flex items-center space-x-1 mt-1 text-xs" style={{ color: peer.user.color }}>
+                          <Edit className="w-3 h-3" />
+                          <span>{peer.user.name} is editing</span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -665,38 +692,42 @@ const CharacterTable: React.FC<CharacterTableProps> = ({
 
                   {/* Tab Content */}
                   <div className="flex-1 overflow-auto p-6">
-                    {activeTab === 'basic' && renderBasicInfo()}
-                    {activeTab === 'details' && renderDetailedInfo()}
-                    {activeTab === 'relationships' && renderRelationships()}
-                    {activeTab === 'chapters' && renderChapterInfo()}
-                    {activeTab === 'custom' && renderCustomFields()}
+                    <fieldset disabled={readOnly}>
+                      {activeTab === 'basic' && renderBasicInfo()}
+                      {activeTab === 'details' && renderDetailedInfo()}
+                      {activeTab === 'relationships' && renderRelationships()}
+                      {activeTab === 'chapters' && renderChapterInfo()}
+                      {activeTab === 'custom' && renderCustomFields()}
+                    </fieldset>
                   </div>
 
                   {/* Actions */}
-                  <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
-                    <button
-                      onClick={() => onDelete('character', editingId!)}
-                      className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      <span>Delete Character</span>
-                    </button>
-                    <div className="flex items-center space-x-3">
+                  {!readOnly && (
+                    <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
                       <button
-                        onClick={handleCancel}
-                        className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        onClick={() => onDelete('character', editingId!)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
                       >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={handleSave}
-                        className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-                      >
-                        <Save className="w-4 h-4" />
-                        <span>Save</span>
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete Character</span>
                       </button>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={handleCancel}
+                          className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSave}
+                          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                        >
+                          <Save className="w-4 h-4" />
+                          <span>Save</span>
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </>
               ) : (
                 <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
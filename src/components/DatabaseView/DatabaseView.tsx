@@ -1,23 +1,43 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../../store/useAppStore';
+import { useProjectStore, selectCharacters, selectLocations, selectPlotPoints, selectChapters } from '../../store/useProjectStore';
 import { storageService, Character, Location, PlotPoint, Chapter } from '../../services/storageService';
 import CharacterTable from './CharacterTable';
 import LocationTable from './LocationTable';
 import PlotPointTable from './PlotPointTable';
 import ChapterTable from './ChapterTable';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
+import DeleteReferencesDialog from '../DeleteReferencesDialog';
+import { getEntityName } from '../../services/projectMerge';
+import { EntityReference, ReferenceResolution, ReferenceTarget } from '../../services/projectReferences';
 import { Database, Users, MapPin, Target, BookOpen } from 'lucide-react';
 
+// Collections the deletable item types live in
+const DELETE_TARGETS: Record<string, ReferenceTarget> = {
+  character: 'characters',
+  location: 'locations',
+  plot_point: 'plotPoints',
+  chapter: 'chapters',
+};
+
 const DatabaseView: React.FC = () => {
   const { databaseViewState, updateDatabaseViewState } = useAppStore();
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
-  const [plotPoints, setPlotPoints] = useState<PlotPoint[]>([]);
-  const [chapters, setChapters] = useState<Chapter[]>([]);
-  const [loading, setLoading] = useState(true);
+  const characters = useProjectStore(selectCharacters);
+  const locations = useProjectStore(selectLocations);
+  const plotPoints = useProjectStore(selectPlotPoints);
+  const chapters = useProjectStore(selectChapters);
+  const isLoaded = useProjectStore(state => state.isLoaded);
+  const [pendingDelete, setPendingDelete] = useState<{
+    type: string;
+    id: string;
+    target: ReferenceTarget;
+    references: EntityReference[];
+  } | null>(null);
+
+  useUndoRedoShortcuts('database');
+  const readOnly = storageService.isReadOnly();
 
   useEffect(() => {
-    loadData();
-    
     // Listen for character selection events from document editor
     const handleSelectCharacter = (event: any) => {
       const characterId = event.detail.characterId;
@@ -61,27 +81,6 @@ const DatabaseView: React.FC = () => {
     };
   }, []);
 
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      const [charactersData, locationsData, plotPointsData, chaptersData] = await Promise.all([
-        storageService.getCharacters(),
-        storageService.getLocations(),
-        storageService.getPlotPoints(),
-        storageService.getChapters(),
-      ]);
-
-      setCharacters(charactersData);
-      setLocations(locationsData);
-      setPlotPoints(plotPointsData);
-      setChapters(chaptersData);
-    } catch (error) {
-      console.error('Error loading database data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleAddItem = async (type: 'character' | 'location' | 'plot_point' | 'chapter') => {
     try {
       switch (type) {
@@ -180,8 +179,6 @@ const DatabaseView: React.FC = () => {
           await storageService.addChapter(newChapter);
           break;
       }
-
-      await loadData();
     } catch (error) {
       console.error('Error adding item:', error);
     }
@@ -203,36 +200,65 @@ const DatabaseView: React.FC = () => {
           await storageService.updateChapter(id, updates);
           break;
       }
-
-      await loadData();
     } catch (error) {
       console.error('Error updating item:', error);
     }
   };
 
+  // Ask what to do with records that still point at the entity before deleting it
   const handleDeleteItem = async (type: string, id: string) => {
+    const target = DELETE_TARGETS[type];
+    const references = target ? storageService.getReferences(target, id) : [];
+    if (references.length > 0) {
+      setPendingDelete({ type, id, target, references });
+      return;
+    }
+    await deleteItem(type, id);
+  };
+
+  const deleteItem = async (type: string, id: string, resolution?: ReferenceResolution) => {
     try {
       switch (type) {
         case 'character':
-          await storageService.deleteCharacter(id);
+          await storageService.deleteCharacter(id, resolution);
           break;
         case 'location':
-          await storageService.deleteLocation(id);
+          await storageService.deleteLocation(id, resolution);
           break;
         case 'plot_point':
-          await storageService.deletePlotPoint(id);
+          await storageService.deletePlotPoint(id, resolution);
           break;
         case 'chapter':
-          await storageService.deleteChapter(id);
+          await storageService.deleteChapter(id, resolution);
           break;
       }
-
-      await loadData();
     } catch (error) {
       console.error('Error deleting item:', error);
     }
   };
 
+  const renderDeleteDialog = () => {
+    if (!pendingDelete) return null;
+    const entities: any[] = (storageService.getData() as any)[pendingDelete.target];
+    const entity = entities.find(e => e.id === pendingDelete.id);
+
+    return (
+      <DeleteReferencesDialog
+        entityType={pendingDelete.type.replace('_', ' ')}
+        entityName={getEntityName(entity)}
+        references={pendingDelete.references}
+        candidates={entities
+          .filter(e => e.id !== pendingDelete.id)
+          .map(e => ({ id: e.id, name: getEntityName(e) }))}
+        onConfirm={async (resolution) => {
+          setPendingDelete(null);
+          await deleteItem(pendingDelete.type, pendingDelete.id, resolution);
+        }}
+        onClose={() => setPendingDelete(null)}
+      />
+    );
+  };
+
   const tabs = [
     { id: 'characters', label: 'Characters', icon: Users, count: characters.length },
     { id: 'locations', label: 'Locations', icon: MapPin, count: locations.length },
@@ -249,6 +275,7 @@ const DatabaseView: React.FC = () => {
             onUpdate={handleUpdateItem}
             onDelete={handleDeleteItem}
             onAdd={() => handleAddItem('character')}
+            readOnly={readOnly}
           />
         );
       case 'locations':
@@ -258,6 +285,7 @@ const DatabaseView: React.FC = () => {
             onUpdate={handleUpdateItem}
             onDelete={handleDeleteItem}
             onAdd={() => handleAddItem('location')}
+            readOnly={readOnly}
           />
         );
       case 'plotPoints':
@@ -270,6 +298,7 @@ const DatabaseView: React.FC = () => {
             onUpdate={handleUpdateItem}
             onDelete={handleDeleteItem}
             onAdd={() => handleAddItem('plot_point')}
+            readOnly={readOnly}
           />
         );
       case 'chapters':
@@ -280,6 +309,7 @@ const DatabaseView: React.FC = () => {
             onUpdate={handleUpdateItem}
             onDelete={handleDeleteItem}
             onAdd={() => handleAddItem('chapter')}
+            readOnly={readOnly}
           />
         );
       default:
@@ -287,7 +317,7 @@ const DatabaseView: React.FC = () => {
     }
   };
 
-  if (loading) {
+  if (!isLoaded) {
     return (
       <div className="h-full flex items-center justify-center">
         <div className="text-center">
@@ -341,6 +371,8 @@ const DatabaseView: React.FC = () => {
       <div className="flex-1 overflow-hidden">
         {renderTable()}
       </div>
+
+      {renderDeleteDialog()}
     </div>
   );
 };
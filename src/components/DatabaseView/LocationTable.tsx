@@ -7,6 +7,7 @@ interface LocationTableProps {
   onUpdate: (type: string, id: number, updates: any) => void;
   onDelete: (type: string, id: number) => void;
   onAdd: () => void;
+  readOnly?: boolean; // Only lets the user look, e.g. in projects shared with them as a viewer
 }
 
 const LocationTable: React.FC<LocationTableProps> = ({
@@ -14,6 +15,7 @@ const LocationTable: React.FC<LocationTableProps> = ({
   onUpdate,
   onDelete,
   onAdd,
+  readOnly = false,
 }) => {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editData, setEditData] = useState<Partial<Location>>({});
@@ -400,13 +402,15 @@ const LocationTable: React.FC<LocationTableProps> = ({
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">Locations</h3>
-        <button
-          onClick={onAdd}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Location</span>
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onAdd}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Location</span>
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -417,12 +421,14 @@ const LocationTable: React.FC<LocationTableProps> = ({
             <div className="text-gray-500 dark:text-gray-400 mb-4">
               No locations yet. Create your first location to get started.
             </div>
-            <button
-              onClick={onAdd}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Add Location
-            </button>
+            {!readOnly && (
+              <button
+                onClick={onAdd}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Add Location
+              </button>
+            )}
           </div>
         ) : (
           <div className="h-full flex">
@@ -504,36 +510,40 @@ const LocationTable: React.FC<LocationTableProps> = ({
 
                   {/* Tab Content */}
                   <div className="flex-1 overflow-auto p-6">
-                    {activeTab === 'basic' && renderBasicInfo()}
-                    {activeTab === 'details' && renderDetailedInfo()}
-                    {activeTab === 'custom' && renderCustomFields()}
+                    <fieldset disabled={readOnly}>
+                      {activeTab === 'basic' && renderBasicInfo()}
+                      {activeTab === 'details' && renderDetailedInfo()}
+                      {activeTab === 'custom' && renderCustomFields()}
+                    </fieldset>
                   </div>
 
                   {/* Actions */}
-                  <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
-                    <button
-                      onClick={() => onDelete('location', editingId!)}
-                      className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      <span>Delete Location</span>
-                    </button>
-                    <div className="flex items-center space-x-3">
+                  {!readOnly && (
+                    <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
                       <button
-                        onClick={handleCancel}
-                        className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        onClick={() => onDelete('location', editingId!)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
                       >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={handleSave}
-                        className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-                      >
-                        <Save className="w-4 h-4" />
-                        <span>Save</span>
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete Location</span>
                       </button>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={handleCancel}
+                          className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSave}
+                          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                        >
+                          <Save className="w-4 h-4" />
+                          <span>Save</span>
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </>
               ) : (
                 <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
@@ -10,6 +10,7 @@ interface PlotPointTableProps {
   onUpdate: (type: string, id: number, updates: any) => void;
   onDelete: (type: string, id: number) => void;
   onAdd: () => void;
+  readOnly?: boolean; // Only lets the user look, e.g. in projects shared with them as a viewer
 }
 
 const PlotPointTable: React.FC<PlotPointTableProps> = ({
@@ -20,6 +21,7 @@ const PlotPointTable: React.FC<PlotPointTableProps> = ({
   onUpdate,
   onDelete,
   onAdd,
+  readOnly = false,
 }) => {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editData, setEditData] = useState<Partial<PlotPoint>>({});
@@ -350,13 +352,15 @@ const PlotPointTable: React.FC<PlotPointTableProps> = ({
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">Plot Points</h3>
-        <button
-          onClick={onAdd}
-          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Plot Point</span>
-        </button>
+        {!readOnly && (
+          <button
+            onClick={onAdd}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Plot Point</span>
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -367,12 +371,14 @@ const PlotPointTable: React.FC<PlotPointTableProps> = ({
             <div className="text-gray-500 dark:text-gray-400 mb-4">
               No plot points yet. Create your first plot point to get started.
             </div>
-            <button
-              onClick={onAdd}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Add Plot Point
-            </button>
+            {!readOnly && (
+              <button
+                onClick={onAdd}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Add Plot Point
+              </button>
+            )}
           </div>
         ) : (
           <div className="h-full flex">
@@ -458,36 +464,40 @@ const PlotPointTable: React.FC<PlotPointTableProps> = ({
 
                   {/* Tab Content */}
                   <div className="flex-1 overflow-auto p-6">
-                    {activeTab === 'basic' && renderBasicInfo()}
-                    {activeTab === 'details' && renderDetailedInfo()}
-                    {activeTab === 'custom' && renderCustomFields()}
+                    <fieldset disabled={readOnly}>
+                      {activeTab === 'basic' && renderBasicInfo()}
+                      {activeTab === 'details' && renderDetailedInfo()}
+                      {activeTab === 'custom' && renderCustomFields()}
+                    </fieldset>
                   </div>
 
                   {/* Actions */}
-                  <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
-                    <button
-                      onClick={() => onDelete('plot_point', editingId!)}
-                      className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      <span>Delete Plot Point</span>
-                    </button>
-                    <div className="flex items-center space-x-3">
-                      <button
-                        onClick={handleCancel}
-                        className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
-                      >
-                        Cancel
-                      </button>
+                  {!readOnly && (
+                    <div className="flex items-center justify-between p-4 border-t border-gray-200 dark:border-gray-700">
                       <button
-                        onClick={handleSave}
-                        className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                        onClick={() => onDelete('plot_point', editingId!)}
+                        className="flex items-center space-x-2 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
                       >
-                        <Save className="w-4 h-4" />
-                        <span>Save</span>
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete Plot Point</span>
                       </button>
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={handleCancel}
+                          className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSave}
+                          className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                        >
+                          <Save className="w-4 h-4" />
+                          <span>Save</span>
+                        </button>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </>
               ) : (
                 <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
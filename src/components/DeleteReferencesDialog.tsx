@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Link2Off, Trash2 } from 'lucide-react';
+import { EntityReference, ReferenceResolution } from '../services/projectReferences';
+
+interface DeleteReferencesDialogProps {
+  entityType: string; // e.g. "character"
+  entityName: string;
+  references: EntityReference[];
+  // Entities the references can be moved to instead
+  candidates: Array<{ id: string; name: string }>;
+  onConfirm: (resolution: ReferenceResolution) => void;
+  onClose: () => void;
+}
+
+export const REFERENCE_SOURCE_LABELS: Record<EntityReference['collection'], string> = {
+  plotPoints: 'Plot Point',
+  chapters: 'Chapter',
+  locations: 'Location',
+  storyboardElements: 'Storyboard Card',
+  documents: 'Document',
+  mapElements: 'Map Element',
+};
+
+// Turn camelCase field names into labels, e.g. "characterIds" -> "Character Ids"
+export const formatReferenceField = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+type Action = ReferenceResolution['action'];
+
+const DeleteReferencesDialog: React.FC<DeleteReferencesDialogProps> = ({
+  entityType,
+  entityName,
+  references,
+  candidates,
+  onConfirm,
+  onClose,
+}) => {
+  const [action, setAction] = useState<Action>('detach');
+  const [targetId, setTargetId] = useState(candidates[0]?.id || '');
+
+  // The same record can point at the entity from several fields
+  const recordCount = new Set(references.map(r => `${r.collection}:${r.entityId}`)).size;
+
+  const options: Array<{ value: Action; label: string; description: string; disabled?: boolean }> = [
+    {
+      value: 'detach',
+      label: 'Detach references',
+      description: `Keep the records and remove ${entityName} from them`,
+    },
+    {
+      value: 'delete',
+      label: 'Delete dependent records',
+      description: `Also delete the ${recordCount} record${recordCount === 1 ? '' : 's'} listed below`,
+    },
+    {
+      value: 'reassign',
+      label: `Reassign to another ${entityType}`,
+      description: 'Point the records at a different entity instead',
+      disabled: candidates.length === 0,
+    },
+  ];
+
+  const handleConfirm = () => {
+    if (action === 'reassign') {
+      if (!targetId) return;
+      onConfirm({ action, targetId });
+    } else {
+      onConfirm({ action });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <Link2Off className="w-8 h-8 text-amber-600 dark:text-amber-400" />
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Delete {entityName}?</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {recordCount} record{recordCount === 1 ? '' : 's'} still refer{recordCount === 1 ? 's' : ''} to this {entityType}.
+              Choose what should happen to {recordCount === 1 ? 'it' : 'them'}.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Resolution */}
+          <div className="space-y-2">
+            {options.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer ${
+                  action === option.value
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-gray-200 dark:border-gray-700'
+                } ${option.disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <input
+                  type="radio"
+                  name="reference-action"
+                  value={option.value}
+                  checked={action === option.value}
+                  disabled={option.disabled}
+                  onChange={() => setAction(option.value)}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">{option.description}</div>
+                  {option.value === 'reassign' && action === 'reassign' && (
+                    <select
+                      value={targetId}
+                      onChange={(e) => setTargetId(e.target.value)}
+                      className="form-input mt-2"
+                    >
+                      {candidates.map(candidate => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {candidate.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {/* Preview */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Referenced by ({references.length})
+            </h3>
+            <ul className="space-y-1">
+              {references.map((reference, index) => (
+                <li
+                  key={`${reference.collection}-${reference.entityId}-${reference.field}-${index}`}
+                  className="flex items-center justify-between text-sm bg-gray-50 dark:bg-gray-900 rounded px-2 py-1"
+                >
+                  <span className="text-gray-900 dark:text-white">
+                    <span className="text-gray-500 dark:text-gray-400">{REFERENCE_SOURCE_LABELS[reference.collection]}:</span>{' '}
+                    {reference.entityName}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    {formatReferenceField(reference.field)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={action === 'reassign' && !targetId}
+            className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Delete</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteReferencesDialog;
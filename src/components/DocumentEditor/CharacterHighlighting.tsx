@@ -1,6 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { storageService, Character } from '../../services/storageService';
+import { useProjectStore, selectCharacters } from '../../store/useProjectStore';
 
 interface CharacterHighlightingProps {
   quillRef: React.RefObject<any>;
@@ -8,20 +8,12 @@ interface CharacterHighlightingProps {
 
 const CharacterHighlighting: React.FC<CharacterHighlightingProps> = ({ quillRef }) => {
   const { characterRecognitionEnabled, characterNameCapitalization } = useAppStore();
-  const [characters, setCharacters] = React.useState<Character[]>([]);
+  const characters = useProjectStore(selectCharacters);
   const isTypingRef = useRef(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const highlightedNodesRef = useRef<HTMLElement[]>([]);
   const isInitializedRef = useRef(false);
 
-  useEffect(() => {
-    const loadCharacters = async () => {
-      const chars = await storageService.getCharacters();
-      setCharacters(chars);
-    };
-    loadCharacters();
-  }, []);
-
   useEffect(() => {
     if (!characterRecognitionEnabled || !quillRef.current || characters.length === 0) {
       return;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { collaborationService, Collaborator } from '../../services/collaborationService';
+import { useCollaborators } from '../../hooks/useCollaborators';
+
+interface CollaboratorCursorsProps {
+  editorRef: React.RefObject<HTMLDivElement>;
+  documentId?: string;
+}
+
+interface CaretPosition {
+  peer: Collaborator;
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Offset of a point in the editor's text, ignoring markup
+const getTextOffset = (editor: HTMLElement, node: Node, offset: number): number => {
+  const range = document.createRange();
+  range.selectNodeContents(editor);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+// The text node and offset in it for an offset in the editor's text
+const findTextPoint = (editor: HTMLElement, offset: number): { node: Node; offset: number } | null => {
+  const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+  let node: Node | null;
+  while ((node = walker.nextNode())) {
+    const length = node.textContent?.length || 0;
+    if (remaining <= length) return { node, offset: remaining };
+    remaining -= length;
+    last = node as Text;
+  }
+  return last ? { node: last, offset: last.textContent?.length || 0 } : null;
+};
+
+// Reports this user's caret to collaborators and draws theirs, with avatars of everyone in the document
+const CollaboratorCursors: React.FC<CollaboratorCursorsProps> = ({ editorRef, documentId }) => {
+  const peers = useCollaborators();
+  const [carets, setCarets] = useState<CaretPosition[]>([]);
+  const peersHere = peers.filter(peer => documentId && peer.cursor?.documentId === documentId);
+
+  // Share where the caret is while it's in this document
+  useEffect(() => {
+    if (!documentId) return;
+
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const selection = window.getSelection();
+      if (!editor || !selection?.rangeCount) return;
+      const range = selection.getRangeAt(0);
+      if (!editor.contains(range.startContainer)) return;
+
+      const start = getTextOffset(editor, range.startContainer, range.startOffset);
+      const end = getTextOffset(editor, range.endContainer, range.endOffset);
+      collaborationService.setCursor({ documentId, offset: start, length: end - start });
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange);
+      collaborationService.setCursor(null);
+    };
+  }, [documentId, editorRef]);
+
+  // Place collaborators' carets over the editor, again whenever its text or scroll position changes
+  useEffect(() => {
+    const editor = editorRef.current;
+    const container = editor?.parentElement;
+    if (!editor || !container) return;
+
+    const updateCarets = () => {
+      const containerRect = container.getBoundingClientRect();
+      const positions: CaretPosition[] = [];
+      peersHere.forEach(peer => {
+        const point = findTextPoint(editor, peer.cursor!.offset);
+        if (!point) return;
+        const range = document.createRange();
+        range.setStart(point.node, point.offset);
+        range.collapse(true);
+        const rect = range.getClientRects()[0] || (point.node.parentElement?.getBoundingClientRect() ?? null);
+        if (!rect) return;
+        positions.push({
+          peer,
+          top: rect.top - containerRect.top,
+          left: rect.left - containerRect.left,
+          height: rect.height || 18,
+        });
+      });
+      setCarets(positions);
+    };
+
+    updateCarets();
+    editor.addEventListener('input', updateCarets);
+    editor.addEventListener('scroll', updateCarets);
+    return () => {
+      editor.removeEventListener('input', updateCarets);
+      editor.removeEventListener('scroll', updateCarets);
+    };
+  }, [peers, documentId, editorRef]);
+
+  if (peersHere.length === 0) return null;
+
+  return (
+    <>
+      {carets.map(({ peer, top, left, height }) => (
+        <div
+          key={peer.clientId}
+          className="absolute pointer-events-none z-10"
+          style={{ top, left, height }}
+        >
+          <div className="w-0.5 h-full" style={{ backgroundColor: peer.user.color }} />
+          <div
+            className="absolute bottom-full left-0 px-1 text-[10px] leading-4 text-white rounded whitespace-nowrap"
+            style={{ backgroundColor: peer.user.color }}
+          >
+            {peer.user.name}
+          </div>
+        </div>
+      ))}
+
+      {/* Who else is in this document */}
+      <div className="absolute top-2 right-4 z-20 flex -space-x-2">
+        {peersHere.map(peer => (
+          <div
+            key={peer.clientId}
+            className="w-7 h-7 rounded-full border-2 flex items-center justify-center text-xs font-semibold text-white bg-cover bg-center"
+            style={{
+              borderColor: peer.user.color,
+              backgroundColor: peer.user.color,
+              backgroundImage: peer.user.picture ? `url(${peer.user.picture})` : undefined,
+            }}
+            title={`${peer.user.name} is editing`}
+          >
+            {!peer.user.picture && peer.user.name.charAt(0).toUpperCase()}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default CollaboratorCursors;
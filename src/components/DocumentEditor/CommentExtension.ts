@@ -0,0 +1,118 @@
+import { Editor, Mark, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    comment: {
+      // Anchor a comment thread to the selected text
+      setComment: (threadId: string) => ReturnType;
+    };
+  }
+}
+
+interface CommentHighlights {
+  activeThreadId: string | null;
+  resolvedThreadIds: string[];
+}
+
+const commentHighlightsKey = new PluginKey<CommentHighlights & { decorations: DecorationSet }>('commentHighlights');
+
+// Where each thread's anchor is in the document. Threads whose text was deleted have none.
+export function getCommentAnchors(doc: ProseMirrorNode): Record<string, { from: number; to: number; text: string }> {
+  const anchors: Record<string, { from: number; to: number; text: string }> = {};
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    node.marks.forEach(mark => {
+      if (mark.type.name !== 'comment' || !mark.attrs.threadId) return;
+      const anchor = anchors[mark.attrs.threadId];
+      const text = node.isText ? node.text! : ' ';
+      if (anchor) {
+        anchor.to = pos + node.nodeSize;
+        anchor.text += text;
+      } else {
+        anchors[mark.attrs.threadId] = { from: pos, to: pos + node.nodeSize, text };
+      }
+    });
+    return false;
+  });
+  return anchors;
+}
+
+// Open threads are highlighted, the selected one more strongly; resolved threads keep their anchor
+// in the document but aren't shown
+function buildDecorations(doc: ProseMirrorNode, highlights: CommentHighlights): DecorationSet {
+  const decorations: Decoration[] = [];
+  Object.entries(getCommentAnchors(doc)).forEach(([threadId, { from, to }]) => {
+    if (highlights.resolvedThreadIds.includes(threadId)) return;
+    const active = threadId === highlights.activeThreadId;
+    decorations.push(Decoration.inline(from, to, {
+      class: active ? 'comment-highlight comment-highlight-active' : 'comment-highlight',
+    }));
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+// The anchor of a comment thread, saved as <span data-comment-id>. Anchors can overlap.
+export const CommentExtension = Mark.create({
+  name: 'comment',
+  inclusive: false,
+  excludes: '',
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-comment-id'),
+        renderHTML: attributes => ({ 'data-comment-id': attributes.threadId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-comment-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes({ class: 'comment-anchor' }, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setComment: (threadId: string) => ({ commands }) => commands.setMark(this.name, { threadId }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: commentHighlightsKey,
+        state: {
+          init: () => ({ activeThreadId: null, resolvedThreadIds: [], decorations: DecorationSet.empty }),
+          apply: (tr, state) => {
+            const highlights: CommentHighlights | undefined = tr.getMeta(commentHighlightsKey);
+            if (highlights) {
+              return { ...highlights, decorations: buildDecorations(tr.doc, highlights) };
+            }
+            if (tr.docChanged) {
+              return { ...state, decorations: buildDecorations(tr.doc, state) };
+            }
+            return state;
+          },
+        },
+        props: {
+          decorations: state => commentHighlightsKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
+
+// Tell the editor which thread is selected and which are resolved
+export function setCommentHighlights(editor: Editor, highlights: CommentHighlights): void {
+  if (editor.isDestroyed) return;
+  editor.view.dispatch(editor.state.tr.setMeta(commentHighlightsKey, highlights).setMeta('addToHistory', false));
+}
+
+export default CommentExtension;
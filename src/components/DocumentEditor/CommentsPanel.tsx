@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import { MessageSquare, X, Check, RotateCcw } from 'lucide-react';
+import { CommentThread } from '../../services/storageService';
+import { filterThreads, getCommentAuthors } from '../../services/documentComments';
+import { getCommentAnchors } from './CommentExtension';
+
+interface CommentsPanelProps {
+  editor: Editor | null;
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string) => void;
+  draftQuote: string | null; // Selected text for a new thread, while it is being written
+  onCreateThread: (text: string) => void;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, text: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (time: string) => new Date(time).toLocaleString();
+
+// Comment threads of the open document, in the order their text appears
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  editor,
+  threads,
+  activeThreadId,
+  onSelectThread,
+  draftQuote,
+  onCreateThread,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  readOnly = false,
+  onClose
+}) => {
+  const [authorFilter, setAuthorFilter] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftText, setDraftText] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const threadRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const anchors = editor ? getCommentAnchors(editor.state.doc) : {};
+  const authors = getCommentAuthors(threads);
+  const visibleThreads = filterThreads(threads, authorFilter, showResolved)
+    .sort((a, b) => (anchors[a.id]?.from ?? Infinity) - (anchors[b.id]?.from ?? Infinity));
+
+  // Bring the thread selected in the text into view
+  useEffect(() => {
+    if (activeThreadId) {
+      threadRefs.current[activeThreadId]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeThreadId]);
+
+  useEffect(() => {
+    setDraftText('');
+  }, [draftQuote]);
+
+  const submitReply = (threadId: string) => {
+    const text = replies[threadId]?.trim();
+    if (!text) return;
+    onReply(threadId, text);
+    setReplies(prev => ({ ...prev, [threadId]: '' }));
+  };
+
+  return (
+    <div
+      className="h-full w-80 bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl z-10 flex flex-col"
+      style={{ maxWidth: '320px', minWidth: '280px' }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Comments</h3>
+          {threads.length > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              ({threads.filter(thread => !thread.resolved).length} open)
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Filters */}
+      {threads.length > 0 && (
+        <div className="flex items-center justify-between space-x-2 p-3 border-b border-gray-200 dark:border-gray-700">
+          <select
+            value={authorFilter || ''}
+            onChange={e => setAuthorFilter(e.target.value || null)}
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            <option value="">All authors</option>
+            {authors.map(author => (
+              <option key={author} value={author}>{author}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400 flex-shrink-0">
+            <input type="checkbox" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} />
+            <span>Resolved</span>
+          </label>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {/* New thread */}
+        {draftQuote !== null && (
+          <div className="p-3 rounded-lg border border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/30">
+            <p className="text-xs italic text-gray-600 dark:text-gray-400 mb-2 line-clamp-2">"{draftQuote}"</p>
+            <textarea
+              autoFocus
+              value={draftText}
+              onChange={e => setDraftText(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && draftText.trim()) onCreateThread(draftText.trim());
+                if (e.key === 'Escape') onCancelDraft();
+              }}
+              placeholder="Add a comment..."
+              rows={3}
+              className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+            <div className="flex justify-end space-x-2 mt-2">
+              <button
+                onClick={onCancelDraft}
+                className="px-3 py-1 text-sm rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onCreateThread(draftText.trim())}
+                disabled={!draftText.trim()}
+                className="px-3 py-1 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              >
+                Comment
+              </button>
+            </div>
+          </div>
+        )}
+
+        {visibleThreads.length === 0 && draftQuote === null && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+            {threads.length === 0
+              ? 'No comments yet. Select some text and add a comment.'
+              : 'No comments match the filter.'}
+          </p>
+        )}
+
+        {visibleThreads.map(thread => (
+          <div
+            key={thread.id}
+            ref={element => { threadRefs.current[thread.id] = element; }}
+            onClick={() => onSelectThread(thread.id)}
+            className={`p-3 rounded-lg border cursor-pointer ${
+              thread.id === activeThreadId
+                ? 'border-yellow-400 bg-yellow-50 dark:bg-yellow-900/20'
+                : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+            } ${thread.resolved ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-start justify-between mb-2">
+              <p className="text-xs italic text-gray-600 dark:text-gray-400 line-clamp-2">
+                "{anchors[thread.id]?.text || thread.quote}"
+                {!anchors[thread.id] && <span className="not-italic text-gray-400"> (text deleted)</span>}
+              </p>
+              {!readOnly && (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    onResolve(thread.id, !thread.resolved);
+                  }}
+                  className="p-1 ml-2 flex-shrink-0 rounded text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  title={thread.resolved ? 'Reopen' : 'Resolve'}
+                >
+                  {thread.resolved ? <RotateCcw className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {thread.comments.map(comment => (
+                <div key={comment.id}>
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-xs font-medium text-gray-900 dark:text-white">{comment.author}</span>
+                    <span className="text-xs text-gray-400 dark:text-gray-500 ml-2">{formatTime(comment.createdAt)}</span>
+                  </div>
+                  <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">{comment.text}</p>
+                </div>
+              ))}
+            </div>
+
+            {thread.resolved && thread.resolvedBy && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Resolved by {thread.resolvedBy}</p>
+            )}
+
+            {/* Reply */}
+            {!readOnly && !thread.resolved && thread.id === activeThreadId && (
+              <div className="mt-2" onClick={e => e.stopPropagation()}>
+                <textarea
+                  value={replies[thread.id] || ''}
+                  onChange={e => setReplies(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submitReply(thread.id);
+                  }}
+                  placeholder="Reply..."
+                  rows={2}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <div className="flex justify-end mt-1">
+                  <button
+                    onClick={() => submitReply(thread.id)}
+                    disabled={!replies[thread.id]?.trim()}
+                    className="px-3 py-1 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                  >
+                    Reply
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
@@ -1,5 +1,8 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useEditor, EditorContent, Editor } from '@tiptap/react';
+import { EditorState } from '@tiptap/pm/state';
 import { useAppStore } from '../../store/useAppStore';
+import { useProjectStore, selectCharacters, selectLocations } from '../../store/useProjectStore';
 import { storageService, Character, Location } from '../../services/storageService';
 import { useDebouncedCallback } from '../../hooks/useDebouncedCallback';
 import CharacterTooltip from './CharacterTooltip';
@@ -7,1149 +10,428 @@ import LocationTooltip from './LocationTooltip';
 import FormattingToolbar from './FormattingToolbar';
 import TableOfContents from './TableOfContents';
 import PaginatedView from './PaginatedView';
+import CollaboratorCursors from './CollaboratorCursors';
+import TrackChangesPanel from './TrackChangesPanel';
+import CommentsPanel from './CommentsPanel';
+import FindReplacePanel, { SearchHit } from './FindReplacePanel';
+import { createDocumentExtensions } from './documentExtensions';
+import { setRecognizedEntities } from './EntityRecognitionExtension';
+import CharacterHighlightExtension from './CharacterHighlightExtension';
+import LocationHighlightExtension from './LocationHighlightExtension';
+import { getTrackedChanges } from './TrackChangesExtension';
+import { getCommentAnchors, setCommentHighlights } from './CommentExtension';
+import { getSearchMatches, setSearchHighlights } from './SearchExtension';
+import { mergeText } from '../../services/projectCrdt';
+import { googleAuth } from '../../services/googleAuth';
+import { createCommentThread, addReply, setThreadResolved } from '../../services/documentComments';
+import { useDocumentComments } from '../../hooks/useDocumentComments';
 
 interface CustomEditorProps {
   content: string;
   onChange: (content: string) => void;
   showTableOfContents?: boolean;
   onToggleTableOfContents?: () => void;
+  readOnly?: boolean; // Shows the document without letting it be edited
+  documentId?: string; // For showing collaborators' carets
 }
 
-const CustomEditor: React.FC<CustomEditorProps> = ({ content, onChange, showTableOfContents: externalShowTable, onToggleTableOfContents }) => {
-  const editorRef = useRef<HTMLDivElement>(null);
-  const { characterRecognitionEnabled, characterNameCapitalization, locationRecognitionEnabled, locationNameCapitalization, toggleCharacterRecognition, toggleLocationRecognition } = useAppStore();
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
-  const isProcessingRef = useRef(false);
+const EMPTY_DOCUMENT = '<p></p>';
+
+// Name shown on suggestions and comments
+const getAuthorName = () => googleAuth.getCurrentUser()?.name || 'Guest';
+
+// Replace the editor's content without adding an undo step, keeping the caret about where it was.
+// A different document also starts with a fresh undo history.
+const replaceContent = (editor: Editor, html: string, newDocument: boolean) => {
+  const { from, to } = editor.state.selection;
+  editor.chain()
+    .setMeta('addToHistory', false)
+    .setContent(html, false)
+    .setTextSelection({ from, to })
+    .run();
+  if (newDocument) {
+    editor.view.updateState(EditorState.create({ doc: editor.state.doc, plugins: editor.state.plugins }));
+  }
+};
+
+// Show a character or location in the database window
+const openInDatabase = (table: 'characters' | 'locations', id: string) => {
+  const kind = table === 'characters' ? 'character' : 'location';
+  const { openWindow, updateDatabaseViewState } = useAppStore.getState();
+  openWindow('database', 'Database');
+  updateDatabaseViewState({ activeTable: table, selectedItem: null });
+
+  setTimeout(() => {
+    window.dispatchEvent(new CustomEvent(`select-${kind}`, { detail: { [`${kind}Id`]: id } }));
+    setTimeout(() => {
+      window.dispatchEvent(new CustomEvent(`scroll-to-${kind}`, { detail: { [`${kind}Id`]: id } }));
+    }, 300);
+  }, 100);
+};
+
+const CustomEditor: React.FC<CustomEditorProps> = ({ content, onChange, showTableOfContents: externalShowTable, onToggleTableOfContents, readOnly = false, documentId }) => {
+  const editorRef = useRef<HTMLDivElement>(null); // Wraps the editor, for the table of contents and carets
+  const { characterRecognitionEnabled, locationRecognitionEnabled, toggleCharacterRecognition, toggleLocationRecognition } = useAppStore();
+  const characters = useProjectStore(selectCharacters);
+  const locations = useProjectStore(selectLocations);
   const [tooltipState, setTooltipState] = useState<{ character: Character; position: { x: number; y: number } } | null>(null);
   const [locationTooltipState, setLocationTooltipState] = useState<{ location: Location; position: { x: number; y: number } } | null>(null);
-  const [showTableOfContents, setShowTableOfContents] = useState(false);
-  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [localShowTableOfContents, setLocalShowTableOfContents] = useState(false);
-  const applyHighlightingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [viewMode, setViewMode] = useState<'plain' | 'paginated'>('plain');
-  const pendingContentRef = useRef<string | null>(null);
-  
-  // Use refs to track current state to avoid stale closures in timeouts
-  const characterRecognitionEnabledRef = useRef(characterRecognitionEnabled);
-  const locationRecognitionEnabledRef = useRef(locationRecognitionEnabled);
-  
-  // Keep refs in sync with state
-  useEffect(() => {
-    characterRecognitionEnabledRef.current = characterRecognitionEnabled;
-    locationRecognitionEnabledRef.current = locationRecognitionEnabled;
-  }, [characterRecognitionEnabled, locationRecognitionEnabled]);
-
-  // Load characters from database and auto-detect changes
-  useEffect(() => {
-    const loadCharacters = async () => {
-      const chars = await storageService.getCharacters();
-      console.log('Loaded characters:', chars.length, chars.map(c => ({ name: c.name, color: c.color })));
-      setCharacters(chars);
-    };
-    
-    loadCharacters();
-    
-    // Poll for character changes every 2 seconds for auto-detection
-    const intervalId = setInterval(() => {
-      loadCharacters();
-    }, 2000);
-    
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, []);
-
-  // Load locations from database and auto-detect changes
-  useEffect(() => {
-    const loadLocations = async () => {
-      const locs = await storageService.getLocations();
-      console.log('Loaded locations:', locs.length, locs.map(l => ({ name: l.name, color: l.color })));
-      setLocations(locs);
-    };
-    
-    loadLocations();
-    
-    // Poll for location changes every 2 seconds for auto-detection
-    const intervalId = setInterval(() => {
-      loadLocations();
-    }, 2000);
-    
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, []);
-
-  // Remove highlighting spans from HTML
-  const removeHighlights = (html: string): string => {
-    const temp = document.createElement('div');
-    temp.innerHTML = html;
-    
-    // Remove all .character-highlight spans and preserve their text
-    temp.querySelectorAll('.character-highlight').forEach(span => {
-      const parent = span.parentNode;
-      if (parent) {
-        parent.replaceChild(document.createTextNode(span.textContent || ''), span);
-      }
-    });
-    
-    // Remove all .location-highlight spans and preserve their text
-    temp.querySelectorAll('.location-highlight').forEach(span => {
-      const parent = span.parentNode;
-      if (parent) {
-        parent.replaceChild(document.createTextNode(span.textContent || ''), span);
-      }
-    });
-    
-    return temp.innerHTML;
-  };
-
-  // Initialize editor content on mount
-  useEffect(() => {
-    if (editorRef.current && content !== undefined && editorRef.current.innerHTML !== content) {
-      editorRef.current.innerHTML = content || '<p><br></p>';
-    }
-  }, []); // Only run on mount
+  const [suggestionMode, setSuggestionMode] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'changes' | 'comments' | 'search' | null>(null);
+  const [threads, saveThreads] = useDocumentComments(documentId);
+  const canComment = !readOnly || storageService.canComment(); // Commenters see the document read-only
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [commentDraft, setCommentDraft] = useState<{ from: number; to: number; quote: string } | null>(null);
+  const [searchPattern, setSearchPattern] = useState<RegExp | null>(null);
+  const [activeHit, setActiveHit] = useState<SearchHit | null>(null);
+  const pendingHitRef = useRef<SearchHit | null>(null); // Selected once its document is in the editor
+  const syncedContentRef = useRef<string | null>(null); // Editor content last sent to onChange or received as content
+  const syncedDocumentIdRef = useRef(documentId);
+
+  const extensions = useMemo(() => createDocumentExtensions(), []);
+  const [initialContent] = useState(() => content || EMPTY_DOCUMENT);
+
+  const editor = useEditor({
+    extensions,
+    content: initialContent,
+    editable: !readOnly,
+    onUpdate: () => handleContentChange(),
+  });
 
   const handleContentChange = useDebouncedCallback(() => {
-    if (editorRef.current && !isProcessingRef.current) {
-      // Remove highlighting spans before saving - save clean content
-      const cleanContent = removeHighlights(editorRef.current.innerHTML);
-      onChange(cleanContent);
-    }
+    if (!editor || editor.isDestroyed) return;
+    const html = editor.getHTML();
+    syncedContentRef.current = html;
+    onChange(html);
   }, 300);
 
-  // SEPARATE FUNCTION: Apply CHARACTER highlighting only
-  const applyCharacterHighlighting = React.useCallback(() => {
-    if (!editorRef.current || isProcessingRef.current || !characterRecognitionEnabled) {
-      return;
-    }
-
-    if (characters.length === 0) {
-      return;
-    }
-
-    const editor = editorRef.current;
-    const text = editor.textContent || '';
-    if (!text.trim()) {
-      return;
-    }
-
-    if (isProcessingRef.current) return;
-    isProcessingRef.current = true;
-
-    try {
-      // Save cursor position
-      const selection = window.getSelection();
-      const range = selection?.rangeCount ? selection.getRangeAt(0) : null;
-      let cursorOffset = 0;
-      
-      if (range && range.startContainer.nodeType === Node.TEXT_NODE || range.startContainer === editor) {
-        const preCaretRange = range.cloneRange();
-        preCaretRange.selectNodeContents(editor);
-        preCaretRange.setEnd(range.startContainer, range.startOffset);
-        cursorOffset = preCaretRange.toString().length;
-      }
-      
-      // Remove all existing CHARACTER highlights only
-      editor.querySelectorAll('.character-highlight').forEach(span => {
-        const parent = span.parentNode;
-        if (parent) {
-          parent.replaceChild(document.createTextNode(span.textContent || ''), span);
-          parent.normalize();
-        }
-      });
-
-      if (!characterRecognitionEnabled || characters.length === 0) {
-        isProcessingRef.current = false;
-        return;
-      }
-      
-      const offsetBeforeHighlight = cursorOffset;
-
-      // Process each text node
-      const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
-      const nodesToProcess: Text[] = [];
-      let node;
-      
-      while ((node = walker.nextNode())) {
-        if (node instanceof Text) {
-          nodesToProcess.push(node);
-        }
-      }
-
-      interface CharacterMatchInfo {
-        start: number;
-        end: number;
-        character: Character;
-      }
-
-      nodesToProcess.forEach(textNode => {
-        const text = textNode.textContent || '';
-        if (!text.trim() || textNode.parentElement?.classList.contains('character-highlight')) return;
-
-        // Collect ONLY character matches
-        const allMatches: CharacterMatchInfo[] = [];
-        
-        characters.forEach(character => {
-          if (!character.name) return;
-
-          const escapedName = character.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          const regex = new RegExp(`\\b${escapedName}\\b`, 'gi');
-          const matchMap = new Map<number, CharacterMatchInfo>();
-          let match;
-          
-          regex.lastIndex = 0;
-          
-          while ((match = regex.exec(text)) !== null) {
-            const beforeChar = match.index > 0 ? text[match.index - 1] : '';
-            const afterChar = text[match.index + match[0].length] || '';
-            const beforeIsBoundary = match.index === 0 || /\W/.test(beforeChar);
-            const afterIsBoundary = !afterChar || /\W/.test(afterChar);
-            
-            if (beforeIsBoundary && afterIsBoundary) {
-              matchMap.set(match.index, {
-                start: match.index,
-                end: match.index + match[0].length,
-                character
-              });
-            }
-          }
-          
-          matchMap.forEach((matchInfo) => allMatches.push(matchInfo));
-        });
-
-        // Sort matches by position
-        allMatches.sort((a, b) => a.start - b.start);
-
-        // Remove overlapping matches
-        const filteredMatches: CharacterMatchInfo[] = [];
-        for (const match of allMatches) {
-          let overlaps = false;
-          for (const existing of filteredMatches) {
-            if ((match.start >= existing.start && match.start < existing.end) ||
-                (match.end > existing.start && match.end <= existing.end) ||
-                (match.start <= existing.start && match.end >= existing.end)) {
-              overlaps = true;
-              break;
-            }
-          }
-          if (!overlaps) {
-            filteredMatches.push(match);
-          }
-        }
-
-        if (filteredMatches.length === 0) return;
-
-        const fragment = document.createDocumentFragment();
-        let lastIndex = 0;
-
-        filteredMatches.forEach(({ start, end, character: char }) => {
-          if (start > lastIndex) {
-            fragment.appendChild(document.createTextNode(text.substring(lastIndex, start)));
-          }
-
-          const span = document.createElement('span');
-          span.className = 'character-highlight';
-          const highlightColor = char.color || '#0066cc';
-          span.setAttribute('style', `color: ${highlightColor}; text-decoration: underline; cursor: pointer;`);
-          span.setAttribute('data-character-id', char.id?.toString() || '');
-          span.setAttribute('data-character-name', char.name);
-          span.textContent = text.substring(start, end);
-          fragment.appendChild(span);
-          
-          lastIndex = end;
-        });
-
-        if (lastIndex < text.length) {
-          fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
-        }
-
-        if (fragment.hasChildNodes()) {
-          try {
-            textNode.parentNode?.replaceChild(fragment, textNode);
-          } catch (err) {
-            console.error('Error replacing text node:', err);
-          }
-        }
-      });
-
-      // Restore cursor position
-      if (selection && range) {
-        try {
-          const textNodes: Text[] = [];
-          const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
-          let node;
-          while ((node = walker.nextNode())) {
-            textNodes.push(node);
-          }
-
-          let currentOffset = 0;
-          for (const textNode of textNodes) {
-            const nodeLength = textNode.textContent?.length || 0;
-            if (currentOffset + nodeLength >= offsetBeforeHighlight) {
-              const newRange = document.createRange();
-              const offsetInNode = offsetBeforeHighlight - currentOffset;
-              newRange.setStart(textNode, Math.min(offsetInNode, nodeLength));
-              newRange.setEnd(textNode, Math.min(offsetInNode, nodeLength));
-              selection.removeAllRanges();
-              selection.addRange(newRange);
-              break;
-            }
-            currentOffset += nodeLength;
-          }
-        } catch (err) {
-          console.error('Error restoring cursor:', err);
-        }
-      }
-
-      // Add event listeners to character highlights
-      editor.querySelectorAll('.character-highlight').forEach(span => {
-        const characterId = span.getAttribute('data-character-id') || '';
-        const character = characters.find(c => c.id === characterId);
-        
-        if (!character) return;
-
-        const newSpan = span.cloneNode(true) as HTMLElement;
-        
-        newSpan.addEventListener('click', (e) => {
-          e.preventDefault();
-          e.stopPropagation();
-          
-          const clickedSpan = e.currentTarget as HTMLElement;
-          const clickedCharacterId = clickedSpan.getAttribute('data-character-id') || '';
-          
-          if (!clickedCharacterId) return;
-          
-          const { openWindow, updateDatabaseViewState } = useAppStore.getState();
-          openWindow('database', 'Database');
-          updateDatabaseViewState({ activeTable: 'characters', selectedItem: null });
-          
-          setTimeout(() => {
-            const selectEvent = new CustomEvent('select-character', { 
-              detail: { characterId: clickedCharacterId } 
-            });
-            window.dispatchEvent(selectEvent);
-            
-            setTimeout(() => {
-              const scrollEvent = new CustomEvent('scroll-to-character', { 
-                detail: { characterId: clickedCharacterId } 
-              });
-              window.dispatchEvent(scrollEvent);
-            }, 300);
-          }, 100);
-        });
-        
-        newSpan.addEventListener('mouseenter', (e) => {
-          const target = e.target as HTMLElement;
-          if (!target.closest('input') && !target.closest('textarea') && !target.closest('select')) {
-            const rect = newSpan.getBoundingClientRect();
-            setTooltipState({
-              character,
-              position: { x: rect.left + (rect.width / 2), y: rect.top }
-            });
-          }
-        });
-        
-        newSpan.addEventListener('mouseleave', () => {
-          setTooltipState(null);
-        });
-
-        newSpan.addEventListener('mouseenter', () => {
-          newSpan.style.backgroundColor = 'rgba(0, 0, 0, 0.05)';
-        });
-        
-        newSpan.addEventListener('mouseleave', () => {
-          newSpan.style.backgroundColor = '';
-        });
-        
-        if (span.parentNode && span !== newSpan) {
-          span.parentNode.replaceChild(newSpan, span);
-        }
-      });
-
-    } catch (err) {
-      console.error('Error applying character highlighting:', err);
-    } finally {
-      isProcessingRef.current = false;
-    }
-  }, [characterRecognitionEnabled, characters, characterNameCapitalization, setTooltipState]);
-
-  // SEPARATE FUNCTION: Apply LOCATION highlighting only
-  const applyLocationHighlighting = React.useCallback(() => {
-    if (!editorRef.current || isProcessingRef.current || !locationRecognitionEnabled) {
-      return;
-    }
+  useEffect(() => {
+    editor?.setEditable(!readOnly, false);
+  }, [editor, readOnly]);
 
-    if (locations.length === 0) {
-      return;
+  // Take in content changed from outside, e.g. a collaborator's edit or another document being opened
+  useEffect(() => {
+    if (!editor || content === undefined) return;
+
+    const current = editor.getHTML();
+    const previousDocumentId = syncedDocumentIdRef.current;
+    const synced = previousDocumentId === documentId ? syncedContentRef.current : null;
+    syncedDocumentIdRef.current = documentId;
+
+    // Edits made since the last change we sent or received aren't saved yet: keep them,
+    // merged with the incoming content, and save the result
+    const hasLocalEdits = synced !== null && current !== synced;
+    const next = hasLocalEdits ? mergeText(synced, current, content || EMPTY_DOCUMENT) : content || EMPTY_DOCUMENT;
+    if (next !== current) {
+      // A new document getting its id when first saved is still the same document
+      replaceContent(editor, next, previousDocumentId !== documentId && previousDocumentId !== undefined);
     }
-
-    const editor = editorRef.current;
-    const text = editor.textContent || '';
-    if (!text.trim()) {
-      return;
+    syncedContentRef.current = editor.getHTML();
+    if (hasLocalEdits && next !== content) {
+      onChange(syncedContentRef.current);
     }
+  }, [editor, content, documentId]);
 
-    if (isProcessingRef.current) return;
-    isProcessingRef.current = true;
-
-    try {
-      // Save cursor position
-      const selection = window.getSelection();
-      const range = selection?.rangeCount ? selection.getRangeAt(0) : null;
-      let cursorOffset = 0;
-      
-      if (range && range.startContainer.nodeType === Node.TEXT_NODE || range.startContainer === editor) {
-        const preCaretRange = range.cloneRange();
-        preCaretRange.selectNodeContents(editor);
-        preCaretRange.setEnd(range.startContainer, range.startOffset);
-        cursorOffset = preCaretRange.toString().length;
-      }
-
-      // Remove all existing LOCATION highlights only
-      editor.querySelectorAll('.location-highlight').forEach(span => {
-        const parent = span.parentNode;
-        if (parent) {
-          parent.replaceChild(document.createTextNode(span.textContent || ''), span);
-          parent.normalize();
-        }
-      });
-
-      if (!locationRecognitionEnabled || locations.length === 0) {
-        isProcessingRef.current = false;
-        return;
-      }
-      
-      const offsetBeforeHighlight = cursorOffset;
-
-      // Process each text node
-      const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
-      const nodesToProcess: Text[] = [];
-      let node;
-      
-      while ((node = walker.nextNode())) {
-        if (node instanceof Text) {
-          nodesToProcess.push(node);
-        }
-      }
-
-      interface LocationMatchInfo {
-        start: number;
-        end: number;
-        location: Location;
-      }
-
-      nodesToProcess.forEach(textNode => {
-        const text = textNode.textContent || '';
-        if (!text.trim() || textNode.parentElement?.classList.contains('location-highlight')) return;
-
-        // Collect ONLY location matches
-        const allMatches: LocationMatchInfo[] = [];
-        
-        locations.forEach(location => {
-          if (!location.name) return;
-
-          const escapedName = location.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          const regex = new RegExp(`\\b${escapedName}\\b`, 'gi');
-          const matchMap = new Map<number, LocationMatchInfo>();
-          let match;
-          
-          regex.lastIndex = 0;
-          
-          while ((match = regex.exec(text)) !== null) {
-            const beforeChar = match.index > 0 ? text[match.index - 1] : '';
-            const afterChar = text[match.index + match[0].length] || '';
-            const beforeIsBoundary = match.index === 0 || /\W/.test(beforeChar);
-            const afterIsBoundary = !afterChar || /\W/.test(afterChar);
-            
-            if (beforeIsBoundary && afterIsBoundary) {
-              matchMap.set(match.index, {
-                start: match.index,
-                end: match.index + match[0].length,
-                location
-              });
-            }
-          }
-          
-          matchMap.forEach((matchInfo) => allMatches.push(matchInfo));
-        });
-
-        // Sort matches by position
-        allMatches.sort((a, b) => a.start - b.start);
-
-        // Remove overlapping matches
-        const filteredMatches: LocationMatchInfo[] = [];
-        for (const match of allMatches) {
-          let overlaps = false;
-          for (const existing of filteredMatches) {
-            if ((match.start >= existing.start && match.start < existing.end) ||
-                (match.end > existing.start && match.end <= existing.end) ||
-                (match.start <= existing.start && match.end >= existing.end)) {
-              overlaps = true;
-              break;
-            }
-          }
-          if (!overlaps) {
-            filteredMatches.push(match);
-          }
-        }
-
-        if (filteredMatches.length === 0) return;
-
-        const fragment = document.createDocumentFragment();
-        let lastIndex = 0;
-
-        filteredMatches.forEach(({ start, end, location: loc }) => {
-          if (start > lastIndex) {
-            fragment.appendChild(document.createTextNode(text.substring(lastIndex, start)));
-          }
-
-          const span = document.createElement('span');
-          span.className = 'location-highlight';
-          const highlightColor = loc.color || '#009966';
-          span.setAttribute('style', `color: ${highlightColor}; text-decoration: underline; cursor: pointer;`);
-          span.setAttribute('data-location-id', loc.id?.toString() || '');
-          span.setAttribute('data-location-name', loc.name);
-          span.textContent = text.substring(start, end);
-          fragment.appendChild(span);
-          
-          lastIndex = end;
-        });
-
-        if (lastIndex < text.length) {
-          fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
-        }
-
-        if (fragment.hasChildNodes()) {
-          try {
-            textNode.parentNode?.replaceChild(fragment, textNode);
-          } catch (err) {
-            console.error('Error replacing text node:', err);
-          }
-        }
-      });
-
-      // Restore cursor position
-      if (selection && range) {
-        try {
-          const textNodes: Text[] = [];
-          const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
-          let node;
-          while ((node = walker.nextNode())) {
-            textNodes.push(node);
-          }
-
-          let currentOffset = 0;
-          for (const textNode of textNodes) {
-            const nodeLength = textNode.textContent?.length || 0;
-            if (currentOffset + nodeLength >= offsetBeforeHighlight) {
-              const newRange = document.createRange();
-              const offsetInNode = offsetBeforeHighlight - currentOffset;
-              newRange.setStart(textNode, Math.min(offsetInNode, nodeLength));
-              newRange.setEnd(textNode, Math.min(offsetInNode, nodeLength));
-              selection.removeAllRanges();
-              selection.addRange(newRange);
-              break;
-            }
-            currentOffset += nodeLength;
-          }
-        } catch (err) {
-          console.error('Error restoring cursor:', err);
-        }
-      }
-
-      // Add event listeners to location highlights
-      editor.querySelectorAll('.location-highlight').forEach(span => {
-        const locationId = span.getAttribute('data-location-id') || '';
-        const location = locations.find(l => l.id === locationId);
-        
-        if (!location) return;
+  // Highlight character and location names; decorations never end up in the saved HTML
+  useEffect(() => {
+    if (!editor) return;
+    setRecognizedEntities(editor, CharacterHighlightExtension.name, characterRecognitionEnabled ? characters : []);
+    setRecognizedEntities(editor, LocationHighlightExtension.name, locationRecognitionEnabled ? locations : []);
+  }, [editor, characterRecognitionEnabled, characters, locationRecognitionEnabled, locations, documentId]);
 
-        const newSpan = span.cloneNode(true) as HTMLElement;
-        
-        newSpan.addEventListener('click', (e) => {
-          e.preventDefault();
-          e.stopPropagation();
-          
-          const clickedSpan = e.currentTarget as HTMLElement;
-          const clickedLocationId = clickedSpan.getAttribute('data-location-id') || '';
-          
-          if (!clickedLocationId) return;
-          
-          const { openWindow, updateDatabaseViewState } = useAppStore.getState();
-          openWindow('database', 'Database');
-          updateDatabaseViewState({ activeTable: 'locations', selectedItem: null });
-          
-          setTimeout(() => {
-            const selectEvent = new CustomEvent('select-location', { 
-              detail: { locationId: clickedLocationId } 
-            });
-            window.dispatchEvent(selectEvent);
-            
-            setTimeout(() => {
-              const scrollEvent = new CustomEvent('scroll-to-location', { 
-                detail: { locationId: clickedLocationId } 
-              });
-              window.dispatchEvent(scrollEvent);
-            }, 300);
-          }, 100);
-        });
-        
-        newSpan.addEventListener('mouseenter', (e) => {
-          const target = e.target as HTMLElement;
-          if (!(target.closest('input') || target.closest('textarea') || target.closest('select'))) {
-            const rect = newSpan.getBoundingClientRect();
-            setLocationTooltipState({
-              location,
-              position: { x: rect.left + (rect.width / 2), y: rect.top }
-            });
-          }
-        });
-        
-        newSpan.addEventListener('mouseleave', () => {
-          setLocationTooltipState(null);
-        });
+  // In suggestion mode edits are recorded as tracked changes by the signed-in user
+  useEffect(() => {
+    if (!editor) return;
+    editor.commands.setSuggestionMode(suggestionMode && !readOnly ? getAuthorName() : null);
+  }, [editor, suggestionMode, readOnly, documentId]);
 
-        newSpan.addEventListener('mouseenter', () => {
-          newSpan.style.backgroundColor = 'rgba(0, 0, 0, 0.05)';
-        });
-        
-        newSpan.addEventListener('mouseleave', () => {
-          newSpan.style.backgroundColor = '';
-        });
-        
-        if (span.parentNode && span !== newSpan) {
-          span.parentNode.replaceChild(newSpan, span);
-        }
-      });
+  useEffect(() => {
+    setActiveThreadId(null);
+    setCommentDraft(null);
+  }, [documentId]);
 
-    } catch (err) {
-      console.error('Error applying location highlighting:', err);
-    } finally {
-      isProcessingRef.current = false;
-    }
-  }, [locationRecognitionEnabled, locations, locationNameCapitalization, setLocationTooltipState]);
+  // Highlight the text of open comment threads
+  useEffect(() => {
+    if (!editor) return;
+    setCommentHighlights(editor, {
+      activeThreadId,
+      resolvedThreadIds: threads.filter(thread => thread.resolved).map(thread => thread.id),
+    });
+  }, [editor, threads, activeThreadId, documentId]);
 
-  // SEPARATE EFFECT: Remove CHARACTER highlights when character recognition is disabled
-  // This runs ONLY when characterRecognitionEnabled changes
+  // Highlight Find & Replace matches in the open document
   useEffect(() => {
-    if (!editorRef.current) return;
-    
-    // If character recognition is DISABLED, remove character highlights IMMEDIATELY
-    if (!characterRecognitionEnabled) {
-      console.log('CHARACTER RECOGNITION DISABLED - Removing character highlights');
-      
-      // Cancel any pending highlight application
-      if (applyHighlightingTimeoutRef.current) {
-        clearTimeout(applyHighlightingTimeoutRef.current);
-        applyHighlightingTimeoutRef.current = null;
-      }
-      
-      // Remove all character highlights synchronously
-      const characterHighlights = editorRef.current.querySelectorAll('.character-highlight');
-      console.log('Found', characterHighlights.length, 'character highlights to remove');
-      
-      characterHighlights.forEach(span => {
-        const parent = span.parentNode;
-        if (parent) {
-          parent.replaceChild(document.createTextNode(span.textContent || ''), span);
-          parent.normalize();
-        }
-      });
-    }
-  }, [characterRecognitionEnabled]); // ONLY depend on characterRecognitionEnabled
+    if (!editor) return;
+    setSearchHighlights(editor, {
+      pattern: searchPattern,
+      activeIndex: activeHit?.documentId === documentId ? activeHit.index : null,
+    });
+  }, [editor, searchPattern, activeHit, documentId]);
 
-  // SEPARATE EFFECT: Remove LOCATION highlights when location recognition is disabled
-  // This runs ONLY when locationRecognitionEnabled changes
   useEffect(() => {
-    if (!editorRef.current) return;
-    
-    // If location recognition is DISABLED, remove location highlights IMMEDIATELY
-    if (!locationRecognitionEnabled) {
-      console.log('LOCATION RECOGNITION DISABLED - Removing location highlights');
-      
-      // Cancel any pending highlight application
-      if (applyHighlightingTimeoutRef.current) {
-        clearTimeout(applyHighlightingTimeoutRef.current);
-        applyHighlightingTimeoutRef.current = null;
-      }
-      
-      // Remove all location highlights synchronously
-      const locationHighlights = editorRef.current.querySelectorAll('.location-highlight');
-      console.log('Found', locationHighlights.length, 'location highlights to remove');
-      
-      locationHighlights.forEach(span => {
-        const parent = span.parentNode;
-        if (parent) {
-          parent.replaceChild(document.createTextNode(span.textContent || ''), span);
-          parent.normalize();
-        }
-      });
-    }
-  }, [locationRecognitionEnabled]); // ONLY depend on locationRecognitionEnabled
+    setActiveHit(null);
+  }, [searchPattern]);
 
-  // SEPARATE EFFECT: Apply highlighting when CHARACTER recognition is enabled
-  // This runs ONLY when character recognition or related data changes
+  // Select a search hit once its document has been opened
   useEffect(() => {
-    if (!editorRef.current) return;
-    
-    // Only proceed if character recognition is ENABLED AND we have characters
-    if (!characterRecognitionEnabled || characters.length === 0) {
-      return;
+    const hit = pendingHitRef.current;
+    if (!editor || !hit || hit.documentId !== documentId || !searchPattern) return;
+    pendingHitRef.current = null;
+    const match = getSearchMatches(editor.state.doc, searchPattern)[hit.index];
+    if (match) {
+      editor.chain().setTextSelection(match).scrollIntoView().run();
     }
+  }, [editor, documentId, activeHit]);
 
-    // Cancel any pending application
-    if (applyHighlightingTimeoutRef.current) {
-      clearTimeout(applyHighlightingTimeoutRef.current);
+  const openSearchHit = (hit: SearchHit) => {
+    pendingHitRef.current = hit;
+    setActiveHit(hit);
+    if (hit.documentId !== documentId) {
+      useAppStore.getState().loadDocument(hit.documentId);
     }
+  };
 
-    // Apply highlighting with a delay to ensure editor is ready
-    applyHighlightingTimeoutRef.current = setTimeout(() => {
-      // Use refs to check CURRENT state
-      if (isProcessingRef.current) {
-        applyHighlightingTimeoutRef.current = null;
-        return;
-      }
-      if (!characterRecognitionEnabledRef.current) {
-        console.log('Skipping character highlighting - disabled');
-        applyHighlightingTimeoutRef.current = null;
-        return;
-      }
-      
-      console.log('Applying CHARACTER highlighting');
-      applyCharacterHighlighting();
-      applyHighlightingTimeoutRef.current = null;
-    }, 300);
-    
-    return () => {
-      if (applyHighlightingTimeoutRef.current) {
-        clearTimeout(applyHighlightingTimeoutRef.current);
-        applyHighlightingTimeoutRef.current = null;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setSidePanel('search');
       }
     };
-  }, [characterRecognitionEnabled, characters, characterNameCapitalization, applyCharacterHighlighting]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
-  // SEPARATE EFFECT: Apply highlighting when LOCATION recognition is enabled
-  // This runs ONLY when location recognition or related data changes
-  useEffect(() => {
-    if (!editorRef.current) return;
-    
-    // Only proceed if location recognition is ENABLED AND we have locations
-    if (!locationRecognitionEnabled || locations.length === 0) {
-      return;
+  const selectThread = (threadId: string) => {
+    setActiveThreadId(threadId);
+    setSidePanel('comments');
+    const anchor = editor && getCommentAnchors(editor.state.doc)[threadId];
+    if (anchor) {
+      editor.chain().setTextSelection(anchor.from).scrollIntoView().run();
     }
+  };
 
-    // Cancel any pending application
-    if (applyHighlightingTimeoutRef.current) {
-      clearTimeout(applyHighlightingTimeoutRef.current);
+  const handleAddComment = () => {
+    if (!editor || !canComment || !documentId) return;
+    const { from, to, empty } = editor.state.selection;
+    if (empty) return;
+    setCommentDraft({ from, to, quote: editor.state.doc.textBetween(from, to, ' ') });
+    setSidePanel('comments');
+  };
+
+  const handleCreateThread = async (text: string) => {
+    if (!editor || !commentDraft || !text) return;
+    const thread = createCommentThread(commentDraft.quote, getAuthorName(), text);
+    const to = Math.min(commentDraft.to, editor.state.doc.content.size);
+    editor.chain().setTextSelection({ from: Math.min(commentDraft.from, to), to }).setComment(thread.id).run();
+    setCommentDraft(null);
+    setActiveThreadId(thread.id);
+    if (readOnly) {
+      // Commenters can't edit the content, so the anchor is saved with the thread instead
+      syncedContentRef.current = editor.getHTML();
+      await saveThreads([...threads, thread], syncedContentRef.current);
+    } else {
+      await saveThreads([...threads, thread]);
     }
+  };
 
-    // Apply highlighting with a delay to ensure editor is ready
-    applyHighlightingTimeoutRef.current = setTimeout(() => {
-      // Use refs to check CURRENT state
-      if (isProcessingRef.current) {
-        applyHighlightingTimeoutRef.current = null;
-        return;
-      }
-      if (!locationRecognitionEnabledRef.current) {
-        console.log('Skipping location highlighting - disabled');
-        applyHighlightingTimeoutRef.current = null;
-        return;
-      }
-      
-      console.log('Applying LOCATION highlighting');
-      applyLocationHighlighting();
-      applyHighlightingTimeoutRef.current = null;
-    }, 300);
-    
-    return () => {
-      if (applyHighlightingTimeoutRef.current) {
-        clearTimeout(applyHighlightingTimeoutRef.current);
-        applyHighlightingTimeoutRef.current = null;
-      }
-    };
-  }, [locationRecognitionEnabled, locations, locationNameCapitalization, applyLocationHighlighting]);
+  const handleResolveThread = async (threadId: string, resolved: boolean) => {
+    if (resolved && threadId === activeThreadId) setActiveThreadId(null);
+    await saveThreads(setThreadResolved(threads, threadId, resolved, getAuthorName()));
+  };
 
-  // Initialize content and update when prop changes from outside
-  useEffect(() => {
-    if (editorRef.current && content !== undefined) {
-      // Check if element is actually in the document (important when switching views)
-      const isInDocument = document.body.contains(editorRef.current);
-      
-      if (isInDocument) {
-        const currentContent = removeHighlights(editorRef.current.innerHTML);
-        // Use pending content if available (from view switch), otherwise use content prop
-        const sourceContent = pendingContentRef.current || content;
-        const cleanContent = sourceContent || '<p><br></p>';
-        
-        // Always update if the content is different
-        // This ensures both views always show the same content
-        if (currentContent !== cleanContent) {
-        // Save cursor position
-        const selection = window.getSelection();
-        const range = selection?.rangeCount ? selection.getRangeAt(0) : null;
-        let cursorOffset = 0;
-        
-        if (range && editorRef.current.contains(range.startContainer)) {
-          const preCaretRange = range.cloneRange();
-          preCaretRange.selectNodeContents(editorRef.current);
-          preCaretRange.setEnd(range.startContainer, range.startOffset);
-          cursorOffset = preCaretRange.toString().length;
-        }
-        
-        editorRef.current.innerHTML = cleanContent;
-        
-        // Restore cursor if possible
-        if (cursorOffset > 0 && selection) {
-          setTimeout(() => {
-            try {
-              const textNodes: Text[] = [];
-              const walker = document.createTreeWalker(editorRef.current!, NodeFilter.SHOW_TEXT);
-              let node;
-              while ((node = walker.nextNode())) {
-                textNodes.push(node);
-              }
-              
-              let currentOffset = 0;
-              for (const textNode of textNodes) {
-                const nodeLength = textNode.textContent?.length || 0;
-                if (currentOffset + nodeLength >= cursorOffset) {
-                  const newRange = document.createRange();
-                  const offsetInNode = cursorOffset - currentOffset;
-                  newRange.setStart(textNode, Math.min(offsetInNode, nodeLength));
-                  newRange.setEnd(textNode, Math.min(offsetInNode, nodeLength));
-                  selection.removeAllRanges();
-                  selection.addRange(newRange);
-                  break;
-                }
-                currentOffset += nodeLength;
-              }
-            } catch (e) {
-              // Cursor restoration failed
-            }
-          }, 0);
-        }
-        
-        // Reapply highlighting after content change - only if recognition is enabled
-        setTimeout(() => {
-          // Use refs to check CURRENT state
-          const charEnabled = characterRecognitionEnabledRef.current;
-          const locEnabled = locationRecognitionEnabledRef.current;
-          
-          const shouldApply = (charEnabled && characters.length > 0) || 
-                              (locEnabled && locations.length > 0);
-          
-          if (shouldApply && !isProcessingRef.current) {
-            // Final check before applying - use refs for latest state
-            if (charEnabled && characters.length > 0) {
-              applyCharacterHighlighting();
-            }
-            if (locEnabled && locations.length > 0) {
-              applyLocationHighlighting();
-            }
-          }
-        }, 100);
-        }
-      } else {
-        // Element not in document yet (view switching), initialize it when it mounts
-        const sourceContent = pendingContentRef.current || content;
-        const cleanContent = sourceContent || '<p><br></p>';
-        // Set up observer or use setTimeout to initialize when element is ready
-        const checkAndInit = () => {
-          if (editorRef.current && document.body.contains(editorRef.current)) {
-            editorRef.current.innerHTML = cleanContent;
-          }
-        };
-        // Try immediately
-        checkAndInit();
-        // Also try after a short delay
-        setTimeout(checkAndInit, 50);
-      }
+  const handleMouseOver = (e: React.MouseEvent) => {
+    const highlight = (e.target as HTMLElement).closest<HTMLElement>('.character-highlight, .location-highlight');
+    if (!highlight) return;
+
+    const rect = highlight.getBoundingClientRect();
+    const position = { x: rect.left + (rect.width / 2), y: rect.top };
+    const character = characters.find(c => c.id === highlight.getAttribute('data-character-id'));
+    const location = locations.find(l => l.id === highlight.getAttribute('data-location-id'));
+    if (character) {
+      setTooltipState({ character, position });
+    } else if (location) {
+      setLocationTooltipState({ location, position });
     }
-  }, [content, characterRecognitionEnabled, locationRecognitionEnabled, characters, locations, applyCharacterHighlighting, applyLocationHighlighting, viewMode]);
+  };
 
-  const handleInput = () => {
-    handleContentChange();
-    
-    // Debounce highlighting: apply it 1 second after user stops typing
-    if (highlightTimeoutRef.current) {
-      clearTimeout(highlightTimeoutRef.current);
+  const handleMouseOut = (e: React.MouseEvent) => {
+    const highlight = (e.target as HTMLElement).closest('.character-highlight, .location-highlight');
+    if (highlight && !highlight.contains(e.relatedTarget as Node | null)) {
+      setTooltipState(null);
+      setLocationTooltipState(null);
     }
-    
-    highlightTimeoutRef.current = setTimeout(() => {
-      // Use refs to check CURRENT state
-      const charEnabled = characterRecognitionEnabledRef.current;
-      const locEnabled = locationRecognitionEnabledRef.current;
-      
-      // Only apply if recognition is explicitly enabled
-      const shouldApply = (charEnabled && document.activeElement !== editorRef.current && characters.length > 0) ||
-                          (locEnabled && document.activeElement !== editorRef.current && locations.length > 0);
-      
-      if (shouldApply && !isProcessingRef.current) {
-        // Double-check state hasn't changed using refs
-        if (charEnabled && characters.length > 0) {
-          applyCharacterHighlighting();
-        }
-        if (locEnabled && locations.length > 0) {
-          applyLocationHighlighting();
-        }
-      }
-    }, 1000);
   };
-  
-  // Apply highlighting when editor loses focus
-  useEffect(() => {
-    const editor = editorRef.current;
-    if (!editor) return;
-    
-    const handleBlur = () => {
-      // Use refs to check CURRENT state
-      const charEnabled = characterRecognitionEnabledRef.current;
-      const locEnabled = locationRecognitionEnabledRef.current;
-      
-      // Only apply if recognition is explicitly enabled
-      const shouldApply = (charEnabled && characters.length > 0) ||
-                          (locEnabled && locations.length > 0);
-      
-      if (shouldApply && !isProcessingRef.current) {
-        // Double-check state hasn't changed using refs
-        setTimeout(() => {
-          // Final check before applying - use refs again for latest state
-          if (characterRecognitionEnabledRef.current && characters.length > 0) {
-            applyCharacterHighlighting();
-          }
-          if (locationRecognitionEnabledRef.current && locations.length > 0) {
-            applyLocationHighlighting();
-          }
-        }, 100);
-      }
-    };
-    
-    editor.addEventListener('blur', handleBlur);
-    return () => editor.removeEventListener('blur', handleBlur);
-  }, [characterRecognitionEnabled, locationRecognitionEnabled, characters, locations, applyCharacterHighlighting, applyLocationHighlighting]);
-  
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (highlightTimeoutRef.current) {
-        clearTimeout(highlightTimeoutRef.current);
-      }
-    };
-  }, []);
 
-  const handleToggleFormat = (command: string, value?: any) => {
-    if (!editorRef.current) return;
-    
-    editorRef.current.focus();
-    
-    // Wait a moment for focus
-    setTimeout(() => {
-      // Execute the command
-      try {
-        if (value !== undefined && value !== null) {
-          const result = document.execCommand(command, false, value);
-          console.log(`Command: ${command}, Value: ${value}, Result: ${result}`);
-        } else {
-          const result = document.execCommand(command, false, null);
-          console.log(`Command: ${command}, Result: ${result}`);
-        }
-        
-        // Trigger content change to save the formatting
-        handleContentChange();
-      } catch (err) {
-        console.error('Error executing command:', err);
-      }
-    }, 10);
-  };
+  const handleClick = (e: React.MouseEvent) => {
+    const anchor = (e.target as HTMLElement).closest<HTMLElement>('[data-comment-id]');
+    const thread = anchor && threads.find(t => t.id === anchor.getAttribute('data-comment-id'));
+    if (thread && !thread.resolved) {
+      setActiveThreadId(thread.id);
+      setSidePanel('comments');
+    }
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    // Keyboard shortcuts
-    if (e.ctrlKey || e.metaKey) {
-      switch (e.key) {
-        case 'b':
-          e.preventDefault();
-          handleToggleFormat('bold');
-          break;
-        case 'i':
-          e.preventDefault();
-          handleToggleFormat('italic');
-          break;
-        case '1':
-          e.preventDefault();
-          handleToggleFormat('formatBlock', '<h1>');
-          break;
-        case '2':
-          e.preventDefault();
-          handleToggleFormat('formatBlock', '<h2>');
-          break;
-        case '3':
-          e.preventDefault();
-          handleToggleFormat('formatBlock', '<h3>');
-          break;
-      }
+    const highlight = (e.target as HTMLElement).closest<HTMLElement>('.character-highlight, .location-highlight');
+    if (!highlight) return;
+
+    const characterId = highlight.getAttribute('data-character-id');
+    const locationId = highlight.getAttribute('data-location-id');
+    if (characterId) {
+      openInDatabase('characters', characterId);
+    } else if (locationId) {
+      openInDatabase('locations', locationId);
     }
   };
 
   const handleInsertPageBreak = () => {
-    if (!editorRef.current) return;
-    
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    const range = selection.getRangeAt(0);
-    const pageBreak = document.createElement('div');
-    pageBreak.className = 'page-break';
-    pageBreak.style.cssText = 'page-break-after: always; border-top: 1px dashed #ccc; margin: 20px 0; padding-top: 10px; color: #999; font-size: 11px; text-align: center;';
-    pageBreak.innerHTML = '<hr style="border: 0; border-top: 2px dashed #ccc; margin: 10px 0;" />';
-    
-    range.insertNode(pageBreak);
-    
-    // Place cursor after the page break
-    const newRange = document.createRange();
-    newRange.setStartAfter(pageBreak);
-    newRange.collapse(true);
-    selection.removeAllRanges();
-    selection.addRange(newRange);
-    
-    // Trigger content change
-    handleContentChange();
+    if (!editor?.isEditable) return;
+    editor.chain().focus().insertPageBreak().run();
   };
 
   const activeTableOfContents = externalShowTable ?? localShowTableOfContents;
-  
-  // Debug: Log when TOC state changes
-  console.log('Table of Contents State:', { 
-    isOpen: activeTableOfContents, 
-    externalShowTable, 
-    localShowTableOfContents 
-  });
+  const toggleTableOfContents = onToggleTableOfContents || (() => setLocalShowTableOfContents(prev => !prev));
+
+  const toolbar = (
+    <FormattingToolbar
+      editor={editor}
+      characterRecognitionEnabled={characterRecognitionEnabled}
+      onToggleCharacterRecognition={toggleCharacterRecognition}
+      locationRecognitionEnabled={locationRecognitionEnabled}
+      onToggleLocationRecognition={toggleLocationRecognition}
+      onToggleTableOfContents={toggleTableOfContents}
+      showTableOfContents={activeTableOfContents}
+      viewMode={viewMode}
+      onToggleViewMode={() => setViewMode(prev => prev === 'plain' ? 'paginated' : 'plain')}
+      onInsertPageBreak={readOnly ? undefined : handleInsertPageBreak}
+      suggestionMode={suggestionMode}
+      onToggleSuggestionMode={readOnly ? undefined : () => setSuggestionMode(prev => !prev)}
+      showChanges={sidePanel === 'changes'}
+      onToggleChanges={() => setSidePanel(prev => prev === 'changes' ? null : 'changes')}
+      changeCount={editor ? getTrackedChanges(editor.state.doc).length : 0}
+      onAddComment={!canComment || !documentId ? undefined : handleAddComment}
+      showComments={sidePanel === 'comments'}
+      onToggleComments={() => setSidePanel(prev => prev === 'comments' ? null : 'comments')}
+      commentCount={threads.filter(thread => !thread.resolved).length}
+      showSearch={sidePanel === 'search'}
+      onToggleSearch={() => setSidePanel(prev => prev === 'search' ? null : 'search')}
+    />
+  );
 
-  // Toggle view mode function
-  const toggleViewMode = () => {
-    // Before switching views, capture and sync current editor content
-    if (editorRef.current) {
-      const currentContent = removeHighlights(editorRef.current.innerHTML);
-      // Store content in ref so it can be used immediately in the new view
-      if (currentContent.trim() && currentContent !== '<p><br></p>') {
-        pendingContentRef.current = currentContent;
-        // Sync content immediately
-        onChange(currentContent);
-      }
-    }
-    
-    // Turn OFF character and location recognition when switching views
-    if (characterRecognitionEnabled) {
-      toggleCharacterRecognition();
-    }
-    if (locationRecognitionEnabled) {
-      toggleLocationRecognition();
-    }
-    
-    // Switch view immediately - the new view will use pendingContentRef if content prop hasn't updated yet
-    setViewMode(prev => prev === 'plain' ? 'paginated' : 'plain');
-    // Clear pending content after a delay
-    setTimeout(() => {
-      pendingContentRef.current = null;
-    }, 100);
-  };
+  const tooltips = (
+    <>
+      {tooltipState && (
+        <CharacterTooltip
+          character={tooltipState.character}
+          position={tooltipState.position}
+          onClose={() => setTooltipState(null)}
+        />
+      )}
+      {locationTooltipState && (
+        <LocationTooltip
+          location={locationTooltipState.location}
+          position={locationTooltipState.position}
+          onClose={() => setLocationTooltipState(null)}
+        />
+      )}
+    </>
+  );
+
+  const sidePanelContent = sidePanel && (
+    <div className="flex-shrink-0 overflow-hidden">
+      {sidePanel === 'changes' ? (
+        <TrackChangesPanel editor={editor} readOnly={readOnly} onClose={() => setSidePanel(null)} />
+      ) : sidePanel === 'search' ? (
+        <FindReplacePanel
+          activeHit={activeHit}
+          onOpenHit={openSearchHit}
+          onPatternChange={setSearchPattern}
+          readOnly={readOnly}
+          onClose={() => setSidePanel(null)}
+        />
+      ) : (
+        <CommentsPanel
+          editor={editor}
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelectThread={selectThread}
+          draftQuote={commentDraft?.quote ?? null}
+          onCreateThread={handleCreateThread}
+          onCancelDraft={() => setCommentDraft(null)}
+          onReply={(threadId, text) => saveThreads(addReply(threads, threadId, getAuthorName(), text))}
+          onResolve={handleResolveThread}
+          readOnly={!canComment}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+    </div>
+  );
+
+  // The same editor is shown in both views, so switching keeps the caret and undo history
+  const editorContent = (
+    <div onMouseOver={handleMouseOver} onMouseOut={handleMouseOut} onClick={handleClick} className="h-full">
+      <EditorContent editor={editor} className="h-full" />
+    </div>
+  );
 
-  // If in paginated mode, render the paginated view
   if (viewMode === 'paginated') {
     return (
       <div className="flex-1 flex flex-col overflow-hidden bg-white dark:bg-gray-800">
-        {/* Formatting Toolbar */}
-        <FormattingToolbar 
-          editorRef={editorRef} 
-          onToggleFormat={handleToggleFormat}
-          characterRecognitionEnabled={characterRecognitionEnabled}
-          onToggleCharacterRecognition={toggleCharacterRecognition}
-          locationRecognitionEnabled={locationRecognitionEnabled}
-          onToggleLocationRecognition={toggleLocationRecognition}
-          onToggleTableOfContents={onToggleTableOfContents || (() => setLocalShowTableOfContents(prev => !prev))}
-          showTableOfContents={activeTableOfContents}
-          viewMode={viewMode}
-          onToggleViewMode={toggleViewMode}
-          onInsertPageBreak={handleInsertPageBreak}
-        />
-        
-        <PaginatedView 
-          content={pendingContentRef.current || content} 
-          onContentChange={onChange}
-          editorRef={editorRef}
-          showTableOfContents={activeTableOfContents}
-          onToggleTableOfContents={onToggleTableOfContents || (() => setLocalShowTableOfContents(prev => !prev))}
-        />
+        {toolbar}
+        <div className="flex-1 flex overflow-hidden">
+          <PaginatedView
+            content={content}
+            editorRef={editorRef}
+            showTableOfContents={activeTableOfContents}
+            onToggleTableOfContents={toggleTableOfContents}
+            commentThreads={threads}
+            activeCommentId={activeThreadId}
+            onSelectComment={selectThread}
+          >
+            {editorContent}
+          </PaginatedView>
+          {sidePanelContent}
+        </div>
+        {tooltips}
       </div>
     );
   }
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden bg-white dark:bg-gray-800">
-      {/* Formatting Toolbar */}
-      <FormattingToolbar 
-        editorRef={editorRef} 
-        onToggleFormat={handleToggleFormat}
-        characterRecognitionEnabled={characterRecognitionEnabled}
-        onToggleCharacterRecognition={toggleCharacterRecognition}
-        locationRecognitionEnabled={locationRecognitionEnabled}
-        onToggleLocationRecognition={toggleLocationRecognition}
-        onToggleTableOfContents={onToggleTableOfContents || (() => setLocalShowTableOfContents(prev => !prev))}
-        showTableOfContents={activeTableOfContents}
-        viewMode={viewMode}
-        onToggleViewMode={toggleViewMode}
-        onInsertPageBreak={handleInsertPageBreak}
-      />
+      {toolbar}
 
       {/* Editor container */}
       <div className="flex-1 relative overflow-hidden flex">
-        {tooltipState && (
-          <CharacterTooltip
-            character={tooltipState.character}
-            position={tooltipState.position}
-            onClose={() => setTooltipState(null)}
-          />
-        )}
-        {locationTooltipState && (
-          <LocationTooltip
-            location={locationTooltipState.location}
-            position={locationTooltipState.position}
-            onClose={() => setLocationTooltipState(null)}
-          />
-        )}
+        {tooltips}
         {/* Main editor */}
         <div
           ref={editorRef}
-          contentEditable
-          onInput={handleInput}
-          onBlur={handleContentChange}
-          onKeyDown={handleKeyDown}
-          className="flex-1 p-4 outline-none text-gray-900 dark:text-white bg-transparent overflow-auto"
-          style={{
-            whiteSpace: 'pre-wrap',
-            wordWrap: 'break-word',
-            minWidth: 0
-          }}
-        />
-        
+          className="flex-1 text-gray-900 dark:text-white bg-transparent overflow-auto"
+          style={{ minWidth: 0 }}
+        >
+          {editorContent}
+        </div>
+        <CollaboratorCursors editorRef={editorRef} documentId={documentId} />
+
         {/* Table of Contents */}
         {activeTableOfContents && (
           <div className="flex-shrink-0 overflow-hidden">
-            <TableOfContents 
-              editorRef={editorRef} 
-              isOpen={activeTableOfContents} 
+            <TableOfContents
+              editorRef={editorRef}
+              isOpen={activeTableOfContents}
               onClose={() => {
                 setLocalShowTableOfContents(false);
                 onToggleTableOfContents?.();
-              }} 
+              }}
             />
           </div>
         )}
+        {sidePanelContent}
       </div>
     </div>
   );
 };
 
 export default CustomEditor;
-
@@ -1,15 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { storageService, Document } from '../../services/storageService';
+import { storageService, Document, SaveStatus } from '../../services/storageService';
 import DocumentList from './DocumentList';
 import CustomEditor from './CustomEditor';
-import { FileText, FolderOpen, Loader, CheckCircle, AlertCircle } from 'lucide-react';
+import RevisionHistory from './RevisionHistory';
+import { FileText, FolderOpen, Loader, CheckCircle, AlertCircle, History } from 'lucide-react';
 
 const DocumentEditor: React.FC = () => {
   const { documentState, updateDocumentState, loadDocument, createNewDocument } = useAppStore();
   const [showDocumentList, setShowDocumentList] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'saving' | 'saved' | 'error'>('saved');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [pendingCount, setPendingCount] = useState(0);
   const [showTableOfContents, setShowTableOfContents] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const readOnly = storageService.isReadOnly();
 
   // Don't auto-create a document - user must manually create or open one
 
@@ -26,13 +30,42 @@ const DocumentEditor: React.FC = () => {
 
   // Subscribe to save status changes
   useEffect(() => {
-    const unsubscribe = storageService.onSaveStatusChange((status) => {
+    const unsubscribe = storageService.onSaveStatusChange((status, pending) => {
       setSaveStatus(status);
+      setPendingCount(pending);
     });
     return unsubscribe;
   }, []);
 
+  // Pick up changes made elsewhere, e.g. by a collaborator typing in the same document
+  useEffect(() => {
+    if (!documentState.id) return;
+    const id = documentState.id as any;
+    return storageService.onEntityChange('document', id, () => {
+      const doc = storageService.getData().documents.find(d => d.id === id);
+      const { documentState: current } = useAppStore.getState();
+      if (!doc || current.id !== id) return;
+      if (doc.content !== current.content || doc.title !== current.title) {
+        updateDocumentState({ content: doc.content, title: doc.title });
+      }
+    });
+  }, [documentState.id]);
+
+  // An editing session lasts while the document is open. Its end captures a revision if anything was written.
+  useEffect(() => {
+    if (!documentState.id) return;
+    const id = documentState.id as any;
+    storageService.beginRevisionSession(id);
+    const handlePageHide = () => storageService.endRevisionSession(id);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      storageService.endRevisionSession(id);
+    };
+  }, [documentState.id]);
+
   const handleContentChange = async (content: string) => {
+    if (readOnly) return;
     updateDocumentState({
       content,
       isDirty: true,
@@ -94,25 +127,36 @@ const DocumentEditor: React.FC = () => {
             <FolderOpen className="w-4 h-4" />
             <span>Open</span>
           </button>
-          <button
-            onClick={handleNewDocument}
-            className="flex items-center space-x-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
-          >
-            <FileText className="w-4 h-4" />
-            <span>New</span>
-          </button>
+          {!readOnly && (
+            <button
+              onClick={handleNewDocument}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+            >
+              <FileText className="w-4 h-4" />
+              <span>New</span>
+            </button>
+          )}
         </div>
         <div className="absolute left-1/2 transform -translate-x-1/2 flex items-center">
           <input
             type="text"
             value={documentState.title || ''}
             onChange={handleTitleChange}
+            readOnly={readOnly}
             className="text-lg font-semibold bg-transparent border-none outline-none text-gray-900 dark:text-white text-center"
             placeholder="Document Title"
           />
         </div>
-        <div className="w-20">
-          {/* Spacer to balance the layout */}
+        <div className="w-20 flex justify-end">
+          {documentState.id && (
+            <button
+              onClick={() => setShowRevisions(true)}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+              title="Version history"
+            >
+              <History className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
 
@@ -135,12 +179,14 @@ const DocumentEditor: React.FC = () => {
                 >
                   Open Document
                 </button>
-                <button
-                  onClick={handleNewDocument}
-                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
-                >
-                  New Document
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={handleNewDocument}
+                    className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+                  >
+                    New Document
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -150,6 +196,8 @@ const DocumentEditor: React.FC = () => {
             onChange={handleContentChange}
             showTableOfContents={showTableOfContents}
             onToggleTableOfContents={() => setShowTableOfContents(prev => !prev)}
+            readOnly={readOnly}
+            documentId={documentState.id as any}
           />
         )}
       </div>
@@ -159,13 +207,25 @@ const DocumentEditor: React.FC = () => {
         <div className="flex items-center space-x-2">
           {saveStatus === 'saving' && <span>Auto-saving...</span>}
           {saveStatus === 'saved' && <span className="text-green-600 dark:text-green-400">✓ Saved</span>}
-          {saveStatus === 'error' && <span className="text-red-600 dark:text-red-400">Save failed</span>}
+          {saveStatus === 'error' && <span className="text-red-600 dark:text-red-400">Save failed, retrying...</span>}
+          {saveStatus === 'pending' && <span className="text-amber-600 dark:text-amber-400">{pendingCount} change{pendingCount === 1 ? '' : 's'} pending</span>}
+          {saveStatus === 'offline' && <span className="text-amber-600 dark:text-amber-400">Offline – {pendingCount} change{pendingCount === 1 ? '' : 's'} will sync when reconnected</span>}
+          {saveStatus === 'signed-out' && <span className="text-amber-600 dark:text-amber-400">Signed out – {pendingCount} change{pendingCount === 1 ? '' : 's'} will sync when reconnected</span>}
         </div>
         <div>
           Word count: {(documentState.content || '').replace(/<[^>]*>/g, '').split(/\s+/).filter(word => word.length > 0).length}
         </div>
       </div>
 
+      {showRevisions && documentState.id && (
+        <RevisionHistory
+          documentId={documentState.id as any}
+          currentContent={documentState.content || ''}
+          readOnly={readOnly}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
       {/* Document List Modal */}
       {showDocumentList && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { useAppStore } from '../../store/useAppStore';
+import { useProjectStore, selectDocuments } from '../../store/useProjectStore';
 import { storageService, Document } from '../../services/storageService';
 import { FileText, Plus, Edit, Trash2, Calendar, Upload, File } from 'lucide-react';
 
@@ -14,35 +15,23 @@ const DocumentList: React.FC<DocumentListProps> = ({
   onNewDocument,
   onClose,
 }) => {
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [loading, setLoading] = useState(true);
+  const storedDocuments = useProjectStore(selectDocuments);
+  const isLoaded = useProjectStore(state => state.isLoaded);
   const [importing, setImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const readOnly = storageService.isReadOnly();
 
-  useEffect(() => {
-    loadDocuments();
-  }, []);
-
-  const loadDocuments = async () => {
-    try {
-      setLoading(true);
-      const docs = await storageService.getDocuments();
-      // Sort by updatedAt descending
-      docs.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
-      setDocuments(docs);
-    } catch (error) {
-      console.error('Error loading documents:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Sort by updatedAt descending
+  const documents = useMemo(
+    () => [...storedDocuments].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
+    [storedDocuments]
+  );
 
   const handleDeleteDocument = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to delete this document?')) {
+    if (window.confirm('Move this document to the trash? You can restore it from Project Files.')) {
       try {
         await storageService.deleteDocument(id);
-        await loadDocuments();
       } catch (error) {
         console.error('Error deleting document:', error);
       }
@@ -69,7 +58,6 @@ const DocumentList: React.FC<DocumentListProps> = ({
       };
 
       const id = await storageService.addDocument(doc);
-      await loadDocuments();
       
       // Auto-select the imported document
       const importedDoc = await storageService.getDocument(id);
@@ -154,7 +142,7 @@ const DocumentList: React.FC<DocumentListProps> = ({
     }
   };
 
-  if (loading) {
+  if (!isLoaded) {
     return (
       <div className="p-6 text-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
@@ -171,21 +159,25 @@ const DocumentList: React.FC<DocumentListProps> = ({
           Documents
         </h2>
         <div className="flex items-center space-x-2">
-          <button
-            onClick={handleFileImport}
-            disabled={importing}
-            className="flex items-center space-x-2 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Upload className="w-4 h-4" />
-            <span>{importing ? 'Importing...' : 'Import'}</span>
-          </button>
-          <button
-            onClick={onNewDocument}
-            className="flex items-center space-x-2 px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            <span>New</span>
-          </button>
+          {!readOnly && (
+            <>
+              <button
+                onClick={handleFileImport}
+                disabled={importing}
+                className="flex items-center space-x-2 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{importing ? 'Importing...' : 'Import'}</span>
+              </button>
+              <button
+                onClick={onNewDocument}
+                className="flex items-center space-x-2 px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New</span>
+              </button>
+            </>
+          )}
           <button
             onClick={onClose}
             className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
@@ -204,24 +196,26 @@ const DocumentList: React.FC<DocumentListProps> = ({
               No documents yet
             </h3>
             <p className="text-gray-500 dark:text-gray-400 mb-6">
-              Create your first document to get started with writing.
+              {readOnly ? 'This project has no documents.' : 'Create your first document to get started with writing.'}
             </p>
-            <div className="flex space-x-3">
-              <button
-                onClick={handleFileImport}
-                disabled={importing}
-                className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <Upload className="w-4 h-4" />
-                <span>{importing ? 'Importing...' : 'Import File'}</span>
-              </button>
-              <button
-                onClick={onNewDocument}
-                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-              >
-                Create Document
-              </button>
-            </div>
+            {!readOnly && (
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleFileImport}
+                  disabled={importing}
+                  className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Upload className="w-4 h-4" />
+                  <span>{importing ? 'Importing...' : 'Import File'}</span>
+                </button>
+                <button
+                  onClick={onNewDocument}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                >
+                  Create Document
+                </button>
+              </div>
+            )}
           </div>
         ) : (
           <div className="space-y-3">
@@ -252,13 +246,15 @@ const DocumentList: React.FC<DocumentListProps> = ({
                     </div>
                   </div>
                   <div className="flex items-center space-x-1">
-                    <button
-                      onClick={(e) => handleDeleteDocument(doc.id as string, e)}
-                      className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors rounded"
-                      title="Delete document"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {!readOnly && (
+                      <button
+                        onClick={(e) => handleDeleteDocument(doc.id as string, e)}
+                        className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors rounded"
+                        title="Delete document"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,120 @@
+import { Extension, Editor } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+// A character or location whose name is highlighted in the text
+export interface RecognizedEntity {
+  id?: string;
+  name: string;
+  color?: string;
+}
+
+export interface NameMatch<T extends RecognizedEntity> {
+  start: number;
+  end: number;
+  entity: T;
+}
+
+interface RecognitionOptions {
+  name: string;
+  className: string; // e.g. 'character-highlight', used for tooltips and clicks
+  dataPrefix: string; // data-<prefix>-id and data-<prefix>-name on each highlight
+  defaultColor: string;
+}
+
+// Whole-word, case-insensitive matches of the entities' names, without overlaps (earlier wins)
+export function findNameMatches<T extends RecognizedEntity>(text: string, entities: T[]): NameMatch<T>[] {
+  const matches: NameMatch<T>[] = [];
+  entities.forEach(entity => {
+    if (!entity.name) return;
+    const escapedName = entity.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(`\\b${escapedName}\\b`, 'gi');
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+      // \b only knows ASCII word characters; names ending in punctuation need a real boundary too
+      const before = text[match.index - 1];
+      const after = text[match.index + match[0].length];
+      if ((!before || /\W/.test(before)) && (!after || /\W/.test(after))) {
+        matches.push({ start: match.index, end: match.index + match[0].length, entity });
+      }
+    }
+  });
+
+  matches.sort((a, b) => a.start - b.start);
+  const result: NameMatch<T>[] = [];
+  matches.forEach(match => {
+    if (!result.some(existing => match.start < existing.end && match.end > existing.start)) {
+      result.push(match);
+    }
+  });
+  return result;
+}
+
+function buildDecorations(doc: ProseMirrorNode, entities: RecognizedEntity[], options: RecognitionOptions): DecorationSet {
+  if (entities.length === 0) {
+    return DecorationSet.empty;
+  }
+
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    // One character per inline node keeps text offsets equal to document positions
+    let text = '';
+    node.forEach(child => {
+      text += child.isText ? child.text! : '\n';
+    });
+    findNameMatches(text, entities).forEach(({ start, end, entity }) => {
+      decorations.push(Decoration.inline(pos + 1 + start, pos + 1 + end, {
+        nodeName: 'span',
+        class: options.className,
+        style: `color: ${entity.color || options.defaultColor}; text-decoration: underline; cursor: pointer;`,
+        [`data-${options.dataPrefix}-id`]: entity.id || '',
+        [`data-${options.dataPrefix}-name`]: entity.name,
+      }));
+    });
+    return false;
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+// Highlights entity names as decorations. They are drawn over the text but never become part of the
+// document, so the saved HTML stays clean and the caret is left alone.
+export function createRecognitionExtension(options: RecognitionOptions) {
+  const key = new PluginKey<{ entities: RecognizedEntity[]; decorations: DecorationSet }>(options.name);
+
+  return Extension.create({
+    name: options.name,
+
+    addProseMirrorPlugins() {
+      return [
+        new Plugin({
+          key,
+          state: {
+            init: () => ({ entities: [], decorations: DecorationSet.empty }),
+            apply: (tr, state) => {
+              const entities: RecognizedEntity[] | undefined = tr.getMeta(options.name);
+              if (entities) {
+                return { entities, decorations: buildDecorations(tr.doc, entities, options) };
+              }
+              if (tr.docChanged) {
+                return { entities: state.entities, decorations: buildDecorations(tr.doc, state.entities, options) };
+              }
+              return state;
+            },
+          },
+          props: {
+            decorations: state => key.getState(state)?.decorations,
+          },
+        }),
+      ];
+    },
+  });
+}
+
+// Tell a recognition extension which entities to highlight; an empty list turns highlighting off
+export function setRecognizedEntities(editor: Editor, extensionName: string, entities: RecognizedEntity[]): void {
+  if (editor.isDestroyed) return;
+  editor.view.dispatch(editor.state.tr.setMeta(extensionName, entities).setMeta('addToHistory', false));
+}
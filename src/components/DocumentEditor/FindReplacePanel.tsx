@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, X, ChevronDown, ChevronRight, CaseSensitive, WholeWord, Regex, Replace, ReplaceAll } from 'lucide-react';
+import { useProjectStore, selectDocuments } from '../../store/useProjectStore';
+import { storageService } from '../../services/storageService';
+import { SearchOptions, createSearchPattern, searchDocuments } from '../../services/documentSearch';
+import { useDebouncedCallback } from '../../hooks/useDebouncedCallback';
+
+export interface SearchHit {
+  documentId: string;
+  index: number;
+}
+
+interface FindReplacePanelProps {
+  activeHit: SearchHit | null;
+  onOpenHit: (hit: SearchHit) => void;
+  onPatternChange: (pattern: RegExp | null) => void; // For highlighting matches in the open document
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const hitKey = (documentId: string, index: number) => `${documentId}:${index}`;
+
+// Searches every document of the project. Replacing is a single undo step, however many documents it touches.
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  activeHit,
+  onOpenHit,
+  onPatternChange,
+  readOnly = false,
+  onClose
+}) => {
+  const documents = useProjectStore(selectDocuments);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [options, setOptions] = useState<SearchOptions>({ query: '', caseSensitive: false, wholeWord: false, regex: false });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Don't search all documents on every keystroke
+  const updateOptions = useDebouncedCallback((next: SearchOptions) => setOptions(next), 200);
+  useEffect(() => {
+    updateOptions({ query, caseSensitive, wholeWord, regex });
+  }, [query, caseSensitive, wholeWord, regex]);
+
+  const { pattern, error } = useMemo(() => {
+    try {
+      return { pattern: createSearchPattern(options), error: null };
+    } catch (e: any) {
+      return { pattern: null, error: e.message as string };
+    }
+  }, [options]);
+
+  const results = useMemo(() => (pattern ? searchDocuments(documents, options) : []), [documents, options, pattern]);
+  const hits: SearchHit[] = results.flatMap(result => result.matches.map(match => ({ documentId: result.documentId, index: match.index })));
+
+  useEffect(() => {
+    onPatternChange(pattern);
+  }, [pattern]);
+
+  useEffect(() => {
+    return () => onPatternChange(null);
+  }, []);
+
+  // Selections refer to match numbers, which change with the results
+  useEffect(() => {
+    setSelected(new Set());
+  }, [results]);
+
+  useEffect(() => {
+    setStatus(null);
+  }, [options]);
+
+  const toggleSelected = (keys: string[], include: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      keys.forEach(key => (include ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (documentId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(documentId)) next.delete(documentId);
+      else next.add(documentId);
+      return next;
+    });
+  };
+
+  // Enter goes to the next match, across documents
+  const openNextHit = (direction: 1 | -1) => {
+    if (hits.length === 0) return;
+    const current = activeHit ? hits.findIndex(hit => hit.documentId === activeHit.documentId && hit.index === activeHit.index) : -1;
+    const next = current === -1 ? (direction === 1 ? 0 : hits.length - 1) : (current + direction + hits.length) % hits.length;
+    onOpenHit(hits[next]);
+  };
+
+  const replace = async (only?: Set<string>) => {
+    const selection: Record<string, number[]> | undefined = only
+      ? [...only].reduce((acc, key) => {
+          const separator = key.lastIndexOf(':');
+          const documentId = key.slice(0, separator);
+          (acc[documentId] = acc[documentId] || []).push(Number(key.slice(separator + 1)));
+          return acc;
+        }, {} as Record<string, number[]>)
+      : undefined;
+
+    setIsBusy(true);
+    try {
+      const count = await storageService.replaceInDocuments(options, replacement, selection);
+      setStatus(`Replaced ${count} occurrence${count === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      console.error('Failed to replace:', error);
+      alert(`Failed to replace. ${error.message || error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReplaceAll = () => {
+    const documentCount = results.length;
+    if (!window.confirm(`Replace ${hits.length} occurrence${hits.length === 1 ? '' : 's'} in ${documentCount} document${documentCount === 1 ? '' : 's'}?`)) return;
+    replace();
+  };
+
+  const handleUndo = async () => {
+    await storageService.undo();
+    setStatus(null);
+  };
+
+  const optionButton = (active: boolean, onClick: () => void, title: string, icon: React.ReactNode) => (
+    <button
+      onClick={onClick}
+      className={`p-1 rounded transition-colors ${
+        active
+          ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+          : 'text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+      }`}
+      title={title}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div
+      className="h-full w-80 bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl z-10 flex flex-col"
+      style={{ maxWidth: '320px', minWidth: '280px' }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+        <div className="flex items-center space-x-2">
+          <Search className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Find & Replace</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-1">
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') openNextHit(e.shiftKey ? -1 : 1);
+              if (e.key === 'Escape') onClose();
+            }}
+            placeholder="Find in all documents"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          {optionButton(caseSensitive, () => setCaseSensitive(prev => !prev), 'Match case', <CaseSensitive className="w-4 h-4" />)}
+          {optionButton(wholeWord, () => setWholeWord(prev => !prev), 'Whole word', <WholeWord className="w-4 h-4" />)}
+          {optionButton(regex, () => setRegex(prev => !prev), 'Regular expression', <Regex className="w-4 h-4" />)}
+        </div>
+        {!readOnly && (
+          <div className="flex items-center space-x-1">
+            <input
+              type="text"
+              value={replacement}
+              onChange={e => setReplacement(e.target.value)}
+              placeholder={regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+            <button
+              onClick={() => replace(selected)}
+              disabled={selected.size === 0 || isBusy}
+              className="p-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Replace selected"
+            >
+              <Replace className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleReplaceAll}
+              disabled={hits.length === 0 || isBusy}
+              className="p-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Replace all"
+            >
+              <ReplaceAll className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        {!error && pattern && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {hits.length} result{hits.length === 1 ? '' : 's'} in {results.length} document{results.length === 1 ? '' : 's'}
+            {selected.size > 0 && ` • ${selected.size} selected`}
+          </p>
+        )}
+        {status && (
+          <div className="flex items-center justify-between text-xs text-green-700 dark:text-green-400">
+            <span>{status}</span>
+            <button onClick={handleUndo} className="text-blue-600 dark:text-blue-400 hover:underline">Undo</button>
+          </div>
+        )}
+      </div>
+
+      {/* Results by document */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {results.map(result => {
+          const keys = result.matches.map(match => hitKey(result.documentId, match.index));
+          const allSelected = keys.every(key => selected.has(key));
+          const isCollapsed = collapsed.has(result.documentId);
+          return (
+            <div key={result.documentId} className="mb-2">
+              <div className="flex items-center space-x-1 px-1 py-1">
+                <button
+                  onClick={() => toggleCollapsed(result.documentId)}
+                  className="p-0.5 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+                >
+                  {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                {!readOnly && (
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={e => toggleSelected(keys, e.target.checked)}
+                    title="Select all results in this document"
+                  />
+                )}
+                <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 dark:text-white truncate">{result.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{result.matches.length}</span>
+              </div>
+              {!isCollapsed && result.matches.map(match => {
+                const key = hitKey(result.documentId, match.index);
+                const active = activeHit?.documentId === result.documentId && activeHit.index === match.index;
+                return (
+                  <div
+                    key={key}
+                    onClick={() => onOpenHit({ documentId: result.documentId, index: match.index })}
+                    className={`flex items-start space-x-2 ml-5 px-2 py-1 rounded cursor-pointer text-xs ${
+                      active ? 'bg-orange-100 dark:bg-orange-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {!readOnly && (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        onClick={e => e.stopPropagation()}
+                        onChange={e => toggleSelected([key], e.target.checked)}
+                        className="mt-0.5"
+                      />
+                    )}
+                    <span className="min-w-0 text-gray-600 dark:text-gray-400 break-words">
+                      {match.before.length > 0 && '…'}{match.before}
+                      <mark className="bg-orange-200 dark:bg-orange-800/60 text-gray-900 dark:text-white rounded-sm">{match.text}</mark>
+                      {match.after}{match.after.length > 0 && '…'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FindReplacePanel;
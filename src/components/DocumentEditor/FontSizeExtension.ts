@@ -0,0 +1,63 @@
+import { Mark } from '@tiptap/core';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    fontSize: {
+      setFontSize: (size: string) => ReturnType;
+      unsetFontSize: () => ReturnType;
+    };
+  }
+}
+
+// The sizes of <font size="1..7">, which documents written with the old editor contain
+const LEGACY_FONT_SIZES: Record<string, string> = {
+  '1': 'x-small',
+  '2': 'small',
+  '3': 'medium',
+  '4': 'large',
+  '5': 'x-large',
+  '6': 'xx-large',
+  '7': 'xxx-large',
+};
+
+export const FontSizeExtension = Mark.create({
+  name: 'fontSize',
+
+  addAttributes() {
+    return {
+      size: {
+        default: null,
+        parseHTML: element => element.tagName === 'FONT'
+          ? LEGACY_FONT_SIZES[element.getAttribute('size') || '']
+          : element.style.fontSize,
+        renderHTML: attributes => ({ style: `font-size: ${attributes.size}` }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'font[size]',
+        getAttrs: node => (LEGACY_FONT_SIZES[(node as HTMLElement).getAttribute('size') || ''] ? null : false),
+      },
+      {
+        tag: 'span',
+        getAttrs: node => ((node as HTMLElement).style.fontSize ? null : false),
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', HTMLAttributes, 0];
+  },
+
+  addCommands() {
+    return {
+      setFontSize: (size: string) => ({ commands }) => commands.setMark(this.name, { size }),
+      unsetFontSize: () => ({ commands }) => commands.unsetMark(this.name),
+    };
+  },
+});
+
+export default FontSizeExtension;
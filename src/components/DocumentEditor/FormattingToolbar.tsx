@@ -1,9 +1,9 @@
 import React, { useState } from 'react';
-import { Bold, Italic, Heading1, Heading2, Heading3, List, ListOrdered, Link, Eye, FileText, Type, Home, Layout, FileText as DocumentIcon, Minus } from 'lucide-react';
+import { Editor } from '@tiptap/react';
+import { Bold, Italic, Heading1, Heading2, Heading3, List, ListOrdered, Link, Eye, FileText, Type, Home, Layout, FileText as DocumentIcon, Minus, PenLine, ListChecks, MessageSquare, MessageSquarePlus, Search } from 'lucide-react';
 
 interface FormattingToolbarProps {
-  editorRef: React.RefObject<HTMLDivElement>;
-  onToggleFormat: (command: string, value?: any) => void;
+  editor: Editor | null;
   characterRecognitionEnabled?: boolean;
   onToggleCharacterRecognition?: () => void;
   locationRecognitionEnabled?: boolean;
@@ -13,11 +13,21 @@ interface FormattingToolbarProps {
   viewMode?: 'plain' | 'paginated';
   onToggleViewMode?: () => void;
   onInsertPageBreak?: () => void;
+  suggestionMode?: boolean;
+  onToggleSuggestionMode?: () => void;
+  showChanges?: boolean;
+  onToggleChanges?: () => void;
+  changeCount?: number;
+  onAddComment?: () => void;
+  showComments?: boolean;
+  onToggleComments?: () => void;
+  commentCount?: number;
+  showSearch?: boolean;
+  onToggleSearch?: () => void;
 }
 
 const FormattingToolbar: React.FC<FormattingToolbarProps> = ({ 
-  editorRef, 
-  onToggleFormat,
+  editor,
   characterRecognitionEnabled = false,
   onToggleCharacterRecognition,
   locationRecognitionEnabled = false,
@@ -26,7 +36,18 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
   showTableOfContents = false,
   viewMode = 'plain',
   onToggleViewMode,
-  onInsertPageBreak
+  onInsertPageBreak,
+  suggestionMode = false,
+  onToggleSuggestionMode,
+  showChanges = false,
+  onToggleChanges,
+  changeCount = 0,
+  onAddComment,
+  showComments = false,
+  onToggleComments,
+  commentCount = 0,
+  showSearch = false,
+  onToggleSearch
 }) => {
   const [showFontSizeMenu, setShowFontSizeMenu] = useState(false);
 
@@ -41,14 +62,32 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
     return () => document.removeEventListener('click', handleClickOutside);
   }, [showFontSizeMenu]);
 
-  const isActive = (command: string, value?: any) => {
-    if (!editorRef.current) return false;
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return false;
-    
-    return document.queryCommandState(command);
+  const isActive = (name: string, attributes?: Record<string, any>) => !!editor?.isActive(name, attributes);
+
+  // Buttons keep the editor's selection and focus while running a command
+  const run = (command: (chain: ReturnType<Editor['chain']>) => ReturnType<Editor['chain']>) => {
+    if (!editor?.isEditable) return;
+    command(editor.chain().focus()).run();
+  };
+
+  const handleInsertLink = () => {
+    if (!editor?.isEditable) return;
+    const previous = editor.getAttributes('link').href || '';
+    const url = window.prompt('Link URL', previous);
+    if (url === null) return;
+    if (url.trim()) {
+      run(chain => chain.extendMarkRange('link').setLink({ href: url.trim() }));
+    } else {
+      run(chain => chain.extendMarkRange('link').unsetLink());
+    }
   };
 
+  const headingClass = (level: number) => `p-2 rounded transition-colors ${
+    isActive('heading', { level })
+      ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+      : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+  }`;
+
   return (
     <div className="flex items-center space-x-1 p-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
       {/* Font Size */}
@@ -64,7 +103,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
           <div className="absolute top-full left-0 mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded shadow-lg z-10 min-w-[120px]">
             <button
               onClick={() => {
-                onToggleFormat('fontSize', '1');
+                run(chain => chain.setFontSize('x-small'));
                 setShowFontSizeMenu(false);
               }}
               className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs"
@@ -73,7 +112,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
             </button>
             <button
               onClick={() => {
-                onToggleFormat('fontSize', '3');
+                run(chain => chain.unsetFontSize());
                 setShowFontSizeMenu(false);
               }}
               className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm"
@@ -82,7 +121,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
             </button>
             <button
               onClick={() => {
-                onToggleFormat('fontSize', '5');
+                run(chain => chain.setFontSize('x-large'));
                 setShowFontSizeMenu(false);
               }}
               className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 text-lg"
@@ -91,7 +130,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
             </button>
             <button
               onClick={() => {
-                onToggleFormat('fontSize', '7');
+                run(chain => chain.setFontSize('xxx-large'));
                 setShowFontSizeMenu(false);
               }}
               className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 text-xl"
@@ -104,7 +143,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
       <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
       {/* Text Formatting */}
       <button
-        onClick={() => onToggleFormat('bold')}
+        onClick={() => run(chain => chain.toggleBold())}
         className={`p-2 rounded transition-colors ${
           isActive('bold')
             ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
@@ -116,7 +155,7 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
       </button>
 
       <button
-        onClick={() => onToggleFormat('italic')}
+        onClick={() => run(chain => chain.toggleItalic())}
         className={`p-2 rounded transition-colors ${
           isActive('italic')
             ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
@@ -131,24 +170,24 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
       <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
 
       <button
-        onClick={() => onToggleFormat('formatBlock', '<h1>')}
-        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors"
+        onClick={() => run(chain => chain.toggleHeading({ level: 1 }))}
+        className={headingClass(1)}
         title="Heading 1"
       >
         <Heading1 className="w-4 h-4" />
       </button>
 
       <button
-        onClick={() => onToggleFormat('formatBlock', '<h2>')}
-        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors"
+        onClick={() => run(chain => chain.toggleHeading({ level: 2 }))}
+        className={headingClass(2)}
         title="Heading 2"
       >
         <Heading2 className="w-4 h-4" />
       </button>
 
       <button
-        onClick={() => onToggleFormat('formatBlock', '<h3>')}
-        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors"
+        onClick={() => run(chain => chain.toggleHeading({ level: 3 }))}
+        className={headingClass(3)}
         title="Heading 3"
       >
         <Heading3 className="w-4 h-4" />
@@ -158,16 +197,24 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
       <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
 
       <button
-        onClick={() => onToggleFormat('insertUnorderedList')}
-        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors"
+        onClick={() => run(chain => chain.toggleBulletList())}
+        className={`p-2 rounded transition-colors ${
+          isActive('bulletList')
+            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+            : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+        }`}
         title="Bullet List"
       >
         <List className="w-4 h-4" />
       </button>
 
       <button
-        onClick={() => onToggleFormat('insertOrderedList')}
-        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors"
+        onClick={() => run(chain => chain.toggleOrderedList())}
+        className={`p-2 rounded transition-colors ${
+          isActive('orderedList')
+            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+            : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+        }`}
         title="Numbered List"
       >
         <ListOrdered className="w-4 h-4" />
@@ -177,8 +224,12 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
       <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
 
       <button
-        onClick={() => onToggleFormat('createLink')}
-        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors"
+        onClick={handleInsertLink}
+        className={`p-2 rounded transition-colors ${
+          isActive('link')
+            ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+            : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+        }`}
         title="Insert Link"
       >
         <Link className="w-4 h-4" />
@@ -198,6 +249,90 @@ const FormattingToolbar: React.FC<FormattingToolbarProps> = ({
         </>
       )}
 
+      {/* Track Changes */}
+      {(onToggleSuggestionMode || onToggleChanges) && (
+        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+      )}
+      {onToggleSuggestionMode && (
+        <button
+          onClick={onToggleSuggestionMode}
+          className={`p-2 rounded transition-colors ${
+            suggestionMode
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+              : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+          }`}
+          title={suggestionMode ? 'Stop suggesting (edit directly)' : 'Suggest changes'}
+        >
+          <PenLine className="w-4 h-4" />
+        </button>
+      )}
+      {onToggleChanges && (
+        <button
+          onClick={onToggleChanges}
+          className={`relative p-2 rounded transition-colors ${
+            showChanges
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+              : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+          }`}
+          title="Review suggestions"
+        >
+          <ListChecks className="w-4 h-4" />
+          {changeCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-blue-600 text-white text-[10px] leading-4 text-center">
+              {changeCount}
+            </span>
+          )}
+        </button>
+      )}
+
+      {/* Comments */}
+      {(onAddComment || onToggleComments) && (
+        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+      )}
+      {onAddComment && (
+        <button
+          onClick={onAddComment}
+          disabled={!editor || editor.state.selection.empty}
+          className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          title="Add comment to selection"
+        >
+          <MessageSquarePlus className="w-4 h-4" />
+        </button>
+      )}
+      {onToggleComments && (
+        <button
+          onClick={onToggleComments}
+          className={`relative p-2 rounded transition-colors ${
+            showComments
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+              : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+          }`}
+          title="Comments"
+        >
+          <MessageSquare className="w-4 h-4" />
+          {commentCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-yellow-500 text-white text-[10px] leading-4 text-center">
+              {commentCount}
+            </span>
+          )}
+        </button>
+      )}
+
+      {/* Find & Replace */}
+      {onToggleSearch && (
+        <button
+          onClick={onToggleSearch}
+          className={`p-2 rounded transition-colors ${
+            showSearch
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+              : 'hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400'
+          }`}
+          title="Find & Replace in all documents (Ctrl+Shift+F)"
+        >
+          <Search className="w-4 h-4" />
+        </button>
+      )}
+
       {/* Character Recognition */}
       {onToggleCharacterRecognition && (
         <>
@@ -0,0 +1,27 @@
+import Heading from '@tiptap/extension-heading';
+
+// Headings keep their id, so links copied from the table of contents still work,
+// and Ctrl+1..3 switch to a heading as they did in the old editor
+export const HeadingExtension = Heading.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      id: {
+        default: null,
+        parseHTML: element => element.getAttribute('id'),
+        renderHTML: attributes => (attributes.id ? { id: attributes.id } : {}),
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      ...this.parent?.(),
+      'Mod-1': () => this.editor.commands.toggleHeading({ level: 1 }),
+      'Mod-2': () => this.editor.commands.toggleHeading({ level: 2 }),
+      'Mod-3': () => this.editor.commands.toggleHeading({ level: 3 }),
+    };
+  },
+});
+
+export default HeadingExtension;
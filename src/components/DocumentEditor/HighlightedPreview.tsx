@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { storageService, Character, Location } from '../../services/storageService';
+import { useProjectStore, selectCharacters, selectLocations } from '../../store/useProjectStore';
+import { Character, Location } from '../../services/storageService';
 import { Eye, Home } from 'lucide-react';
 
 interface HighlightedPreviewProps {
@@ -9,8 +10,8 @@ interface HighlightedPreviewProps {
 
 const HighlightedPreview: React.FC<HighlightedPreviewProps> = ({ content }) => {
   const { characterRecognitionEnabled, characterNameCapitalization, locationRecognitionEnabled, locationNameCapitalization, tooltipFields } = useAppStore();
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
+  const characters = useProjectStore(selectCharacters);
+  const locations = useProjectStore(selectLocations);
   const [tooltipState, setTooltipState] = useState<{
     character: Character;
     position: { x: number; y: number };
@@ -21,22 +22,6 @@ const HighlightedPreview: React.FC<HighlightedPreviewProps> = ({ content }) => {
   } | null>(null);
   const [highlightedContent, setHighlightedContent] = useState('');
 
-  useEffect(() => {
-    const loadCharacters = async () => {
-      const chars = await storageService.getCharacters();
-      setCharacters(chars);
-    };
-    loadCharacters();
-  }, []);
-
-  useEffect(() => {
-    const loadLocations = async () => {
-      const locs = await storageService.getLocations();
-      setLocations(locs);
-    };
-    loadLocations();
-  }, []);
-
   useEffect(() => {
     // Set up tooltip handlers
     (window as any).showCharacterTooltip = (event: MouseEvent, characterId: string) => {
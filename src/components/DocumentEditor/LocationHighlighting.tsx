@@ -1,6 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { storageService, Location } from '../../services/storageService';
+import { useProjectStore, selectLocations } from '../../store/useProjectStore';
 
 interface LocationHighlightingProps {
   quillRef: React.RefObject<any>;
@@ -8,20 +8,12 @@ interface LocationHighlightingProps {
 
 const LocationHighlighting: React.FC<LocationHighlightingProps> = ({ quillRef }) => {
   const { locationRecognitionEnabled, locationNameCapitalization } = useAppStore();
-  const [locations, setLocations] = React.useState<Location[]>([]);
+  const locations = useProjectStore(selectLocations);
   const isTypingRef = useRef(false);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const highlightedNodesRef = useRef<HTMLElement[]>([]);
   const isInitializedRef = useRef(false);
 
-  useEffect(() => {
-    const loadLocations = async () => {
-      const locs = await storageService.getLocations();
-      setLocations(locs);
-    };
-    loadLocations();
-  }, []);
-
   useEffect(() => {
     if (!locationRecognitionEnabled || !quillRef.current || locations.length === 0) {
       return;
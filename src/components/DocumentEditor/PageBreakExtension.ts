@@ -0,0 +1,40 @@
+import { Node } from '@tiptap/core';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      insertPageBreak: () => ReturnType;
+    };
+  }
+}
+
+// A manual page break. Stored as the same <div class="page-break"> the old editor wrote.
+export const PageBreakExtension = Node.create({
+  name: 'pageBreak',
+  group: 'block',
+  atom: true,
+  selectable: true,
+
+  parseHTML() {
+    return [{ tag: 'div.page-break' }];
+  },
+
+  renderHTML() {
+    return [
+      'div',
+      {
+        class: 'page-break',
+        style: 'page-break-after: always; border-top: 1px dashed #ccc; margin: 20px 0; padding-top: 10px; color: #999; font-size: 11px; text-align: center;',
+      },
+      ['hr', { style: 'border: 0; border-top: 2px dashed #ccc; margin: 10px 0;' }],
+    ];
+  },
+
+  addCommands() {
+    return {
+      insertPageBreak: () => ({ commands }) => commands.insertContent({ type: this.name }),
+    };
+  },
+});
+
+export default PageBreakExtension;
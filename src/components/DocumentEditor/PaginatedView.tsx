@@ -1,385 +1,42 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare } from 'lucide-react';
 import TableOfContents from './TableOfContents';
-import { useAppStore } from '../../store/useAppStore';
-import { storageService, Character, Location } from '../../services/storageService';
-import CharacterTooltip from './CharacterTooltip';
-import LocationTooltip from './LocationTooltip';
+import { CommentThread } from '../../services/storageService';
 
 interface PaginatedViewProps {
   content: string;
-  onContentChange: (content: string) => void;
-  editorRef?: React.RefObject<HTMLDivElement>;
+  editorRef: React.RefObject<HTMLDivElement>;
   showTableOfContents?: boolean;
   onToggleTableOfContents?: () => void;
+  children: React.ReactNode; // The editor, shown on the first page
+  commentThreads?: CommentThread[]; // Open threads get a marker in the margin next to their text
+  activeCommentId?: string | null;
+  onSelectComment?: (threadId: string) => void;
 }
 
+interface CommentMarker {
+  id: string;
+  top: number; // From the top of the page
+  count: number;
+}
+
+const MARKER_HEIGHT = 24;
+
+// Lays the document editor out on A4 pages
 const PaginatedView: React.FC<PaginatedViewProps> = ({ 
   content, 
-  onContentChange,
-  editorRef: externalEditorRef,
+  editorRef,
   showTableOfContents = false,
-  onToggleTableOfContents 
+  onToggleTableOfContents,
+  children,
+  commentThreads = [],
+  activeCommentId = null,
+  onSelectComment
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const localEditorRef = useRef<HTMLDivElement>(null);
-  const editorRef = externalEditorRef || localEditorRef;
   const [currentPage, setCurrentPage] = useState(1);
   const [renderedPages, setRenderedPages] = useState<number[]>([]);
-  
-  // Import store values
-  const { characterRecognitionEnabled, locationRecognitionEnabled, tooltipFields } = useAppStore();
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
-  const [tooltipState, setTooltipState] = useState<{ character: Character; position: { x: number; y: number } } | null>(null);
-  const [locationTooltipState, setLocationTooltipState] = useState<{ location: Location; position: { x: number; y: number } } | null>(null);
-  
-  // ==========================================
-  // PAGE VIEW SPECIFIC HIGHLIGHTING LOGIC
-  // ==========================================
-  
-  /**
-   * Apply CHARACTER highlighting for PAGE VIEW ONLY
-   * Works independently like normal view
-   */
-  const applyCharacterHighlightingPageView = React.useCallback((html: string): string => {
-    if (!characterRecognitionEnabled || characters.length === 0) {
-      return html; // Return unchanged if disabled
-    }
-
-    // Create temporary DOM
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
-    
-    // Find all text nodes (excluding those inside location highlights to avoid conflicts)
-    const textNodes: Text[] = [];
-    const walker = document.createTreeWalker(tempDiv, NodeFilter.SHOW_TEXT);
-    let node;
-    
-    while ((node = walker.nextNode())) {
-      if (node instanceof Text && node.textContent?.trim()) {
-        // Skip nodes inside location highlights
-        if (!node.parentElement?.closest('[data-location-id]')) {
-          textNodes.push(node);
-        }
-      }
-    }
-    
-    // Apply character highlighting
-    textNodes.forEach(textNode => {
-      const text = textNode.textContent || '';
-      if (!text.trim()) return;
-      
-      const allMatches: Array<{ index: number; length: number; character: Character }> = [];
-      
-      characters.forEach(character => {
-        if (!character.name || !character.color) return;
-        
-        const escapedName = character.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regex = new RegExp(`\\b${escapedName}\\b`, 'gi');
-        let match;
-        regex.lastIndex = 0;
-        
-        while ((match = regex.exec(text)) !== null) {
-          allMatches.push({
-            index: match.index,
-            length: match[0].length,
-            character
-          });
-        }
-      });
-      
-      if (allMatches.length > 0) {
-        allMatches.sort((a, b) => a.index - b.index);
-        
-        const fragment = document.createDocumentFragment();
-        let lastIndex = 0;
-        
-        allMatches.forEach(match => {
-          if (match.index > lastIndex) {
-            fragment.appendChild(document.createTextNode(text.substring(lastIndex, match.index)));
-          }
-          
-          const span = document.createElement('span');
-          span.className = 'character-name-hl-pageview';
-          span.style.color = match.character.color;
-          span.style.cursor = 'pointer';
-          span.style.textDecoration = 'underline';
-          span.setAttribute('data-character-id', match.character.id || '');
-          span.setAttribute('data-character-name', match.character.name);
-          span.textContent = text.substring(match.index, match.index + match.length);
-          fragment.appendChild(span);
-          
-          lastIndex = match.index + match.length;
-        });
-        
-        if (lastIndex < text.length) {
-          fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
-        }
-        
-        textNode.parentNode?.replaceChild(fragment, textNode);
-      }
-    });
-    
-    return tempDiv.innerHTML;
-  }, [characterRecognitionEnabled, characters]);
-
-  /**
-   * Apply LOCATION highlighting for PAGE VIEW ONLY
-   * Works independently like normal view
-   */
-  const applyLocationHighlightingPageView = React.useCallback((html: string): string => {
-    if (!locationRecognitionEnabled || locations.length === 0) {
-      return html; // Return unchanged if disabled
-    }
-
-    // Create temporary DOM
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
-    
-    // Find all text nodes (excluding those inside character highlights to avoid conflicts)
-    const textNodes: Text[] = [];
-    const walker = document.createTreeWalker(tempDiv, NodeFilter.SHOW_TEXT);
-    let node;
-    
-    while ((node = walker.nextNode())) {
-      if (node instanceof Text && node.textContent?.trim()) {
-        // Skip nodes inside character highlights
-        if (!node.parentElement?.closest('[data-character-id]')) {
-          textNodes.push(node);
-        }
-      }
-    }
-    
-    // Apply location highlighting
-    textNodes.forEach(textNode => {
-      const text = textNode.textContent || '';
-      if (!text.trim()) return;
-      
-      const allMatches: Array<{ index: number; length: number; location: Location }> = [];
-      
-      locations.forEach(location => {
-        if (!location.name || !location.color) return;
-        
-        const escapedName = location.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const regex = new RegExp(`\\b${escapedName}\\b`, 'gi');
-        let match;
-        regex.lastIndex = 0;
-        
-        while ((match = regex.exec(text)) !== null) {
-          allMatches.push({
-            index: match.index,
-            length: match[0].length,
-            location
-          });
-        }
-      });
-      
-      if (allMatches.length > 0) {
-        allMatches.sort((a, b) => a.index - b.index);
-        
-        const fragment = document.createDocumentFragment();
-        let lastIndex = 0;
-        
-        allMatches.forEach(match => {
-          if (match.index > lastIndex) {
-            fragment.appendChild(document.createTextNode(text.substring(lastIndex, match.index)));
-          }
-          
-          const span = document.createElement('span');
-          span.className = 'location-highlight-pageview';
-          span.style.color = match.location.color;
-          span.style.cursor = 'pointer';
-          span.style.textDecoration = 'underline';
-          span.setAttribute('data-location-id', match.location.id || '');
-          span.setAttribute('data-location-name', match.location.name);
-          span.textContent = text.substring(match.index, match.index + match.length);
-          fragment.appendChild(span);
-          
-          lastIndex = match.index + match.length;
-        });
-        
-        if (lastIndex < text.length) {
-          fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
-        }
-        
-        textNode.parentNode?.replaceChild(fragment, textNode);
-      }
-    });
-    
-    return tempDiv.innerHTML;
-  }, [locationRecognitionEnabled, locations]);
-
-  /**
-   * Remove highlights (granular)
-   */
-  const removeCharacterHighlights = React.useCallback((html: string): string => {
-    return html.replace(/<span[^>]*class="character-name-hl-pageview"[^>]*>([^<]*(?:<(?!\/?span)[^>]*>[^<]*)*?)<\/span>/gi, '$1');
-  }, []);
-
-  const removeLocationHighlights = React.useCallback((html: string): string => {
-    return html.replace(/<span[^>]*class="location-highlight-pageview"[^>]*>([^<]*(?:<(?!\/?span)[^>]*>[^<]*)*?)<\/span>/gi, '$1');
-  }, []);
-
-  /**
-   * Apply highlighting for PAGE VIEW without disturbing the other type
-   */
-  const applyPageViewHighlighting = React.useCallback((html: string): string => {
-    // Base off the current DOM if it has content; otherwise, use provided html
-    const current = editorRef.current?.innerHTML;
-    const baseHtml = current && current.trim().length > 0 ? current : html;
-
-    // If both are disabled, remove both and return
-    if (!characterRecognitionEnabled && !locationRecognitionEnabled) {
-      const noChars = removeCharacterHighlights(baseHtml);
-      return removeLocationHighlights(noChars);
-    }
-
-    let processed = baseHtml;
-
-    // Character: ensure clean slate for characters, then apply if enabled
-    processed = removeCharacterHighlights(processed);
-    if (characterRecognitionEnabled && characters.length > 0) {
-      processed = applyCharacterHighlightingPageView(processed);
-    }
-
-    // Location: ensure clean slate for locations, then apply if enabled
-    processed = removeLocationHighlights(processed);
-    if (locationRecognitionEnabled && locations.length > 0) {
-      processed = applyLocationHighlightingPageView(processed);
-    }
-
-    return processed;
-  }, [characterRecognitionEnabled, locationRecognitionEnabled, characters, locations, applyCharacterHighlightingPageView, applyLocationHighlightingPageView, removeCharacterHighlights, removeLocationHighlights, editorRef]);
-
-  // ==========================================
-  // PAGE VIEW CONTENT INITIALIZATION
-  // ==========================================
-  
-  /**
-   * Initialize and update page view content with highlighting
-   * This is specific to PAGE VIEW only and handles content rendering
-   */
-  useEffect(() => {
-    const initializePageViewContent = () => {
-      if (!editorRef.current || content === undefined) return;
-      
-      // Check if element is actually in the document
-      const isInDocument = document.body.contains(editorRef.current);
-      if (!isInDocument) return;
-      
-      const cleanContent = content || '<p><br></p>';
-      
-      // Apply PAGE VIEW specific highlighting
-      const highlightedContent = applyPageViewHighlighting(cleanContent);
-      const currentContent = editorRef.current.innerHTML;
-      
-      // Only update if content actually changed
-      if (currentContent !== highlightedContent) {
-        editorRef.current.innerHTML = highlightedContent;
-      }
-    };
-    
-    // Initialize immediately
-    initializePageViewContent();
-    
-    // Also initialize after a short delay to ensure DOM is ready
-    const timeoutId = setTimeout(initializePageViewContent, 50);
-    
-    return () => clearTimeout(timeoutId);
-  }, [content, characterRecognitionEnabled, locationRecognitionEnabled, applyPageViewHighlighting]);
-
-  // Load characters and locations
-  useEffect(() => {
-    const loadCharacters = async () => {
-      const chars = await storageService.getCharacters();
-      setCharacters(chars);
-    };
-    loadCharacters();
-  }, []);
-
-  useEffect(() => {
-    const loadLocations = async () => {
-      const locs = await storageService.getLocations();
-      setLocations(locs);
-    };
-    loadLocations();
-  }, []);
-
-  // ==========================================
-  // PAGE VIEW TOOLTIP EVENT HANDLERS
-  // ==========================================
-  
-  /**
-   * Set up event listeners for PAGE VIEW tooltips
-   * Uses event delegation on the editor container to handle all highlighted elements
-   */
-  useEffect(() => {
-    if (!editorRef.current) return;
-    
-    const editor = editorRef.current;
-    
-    // Handler for mouseover on highlighted elements (characters and locations)
-    const handleMouseOver = (e: MouseEvent) => {
-      const target = e.target as HTMLElement;
-      if (!target) return;
-      
-      // Check if hovering over character highlight
-      const characterSpan = target.closest('[data-character-id]');
-      if (characterSpan) {
-        const characterId = characterSpan.getAttribute('data-character-id');
-        if (characterId) {
-          const character = characters.find(c => c.id === characterId);
-          if (character) {
-            const rect = characterSpan.getBoundingClientRect();
-            setTooltipState({
-              character,
-              position: { x: rect.left + rect.width / 2, y: rect.top - 10 }
-            });
-          }
-        }
-        return;
-      }
-      
-      // Check if hovering over location highlight
-      const locationSpan = target.closest('[data-location-id]');
-      if (locationSpan) {
-        const locationId = locationSpan.getAttribute('data-location-id');
-        if (locationId) {
-          const location = locations.find(l => l.id === locationId);
-          if (location) {
-            const rect = locationSpan.getBoundingClientRect();
-            setLocationTooltipState({
-              location,
-              position: { x: rect.left + rect.width / 2, y: rect.top - 10 }
-            });
-          }
-        }
-      }
-    };
-    
-    // Handler for mouseout - hide tooltips
-    const handleMouseOut = (e: MouseEvent) => {
-      const target = e.target as HTMLElement;
-      if (!target) return;
-      
-      // Hide tooltips when leaving highlighted elements
-      const isLeavingHighlight = target.closest('[data-character-id]') || target.closest('[data-location-id]');
-      if (!isLeavingHighlight) {
-        setTooltipState(null);
-        setLocationTooltipState(null);
-      }
-    };
-    
-    // Attach event listeners using event delegation
-    editor.addEventListener('mouseover', handleMouseOver);
-    editor.addEventListener('mouseout', handleMouseOut);
-    
-    // Cleanup
-    return () => {
-      editor.removeEventListener('mouseover', handleMouseOver);
-      editor.removeEventListener('mouseout', handleMouseOut);
-    };
-  }, [characterRecognitionEnabled, locationRecognitionEnabled, characters, locations]);
+  const [commentMarkers, setCommentMarkers] = useState<CommentMarker[]>([]);
 
   // Calculate approximate page count based on content height
   const estimatePageCount = () => {
@@ -420,6 +77,27 @@ const PaginatedView: React.FC<PaginatedViewProps> = ({
     setRenderedPages(pageArray);
   }, [content]);
 
+  // Line the markers up with the start of each thread's text, without overlapping
+  useEffect(() => {
+    const editor = editorRef.current;
+    const page = editor?.parentElement;
+    if (!editor || !page) return;
+
+    const pageTop = page.getBoundingClientRect().top;
+    const markers: CommentMarker[] = [];
+    commentThreads.filter(thread => !thread.resolved).forEach(thread => {
+      const anchor = editor.querySelector(`[data-comment-id="${CSS.escape(thread.id)}"]`);
+      if (anchor) {
+        markers.push({ id: thread.id, top: anchor.getBoundingClientRect().top - pageTop, count: thread.comments.length });
+      }
+    });
+    markers.sort((a, b) => a.top - b.top);
+    markers.forEach((marker, index) => {
+      if (index > 0) marker.top = Math.max(marker.top, markers[index - 1].top + MARKER_HEIGHT);
+    });
+    setCommentMarkers(markers);
+  }, [content, commentThreads, renderedPages]);
+
   const totalPages = renderedPages.length > 0 ? renderedPages.length : 1;
 
   // Navigation
@@ -526,6 +204,24 @@ const PaginatedView: React.FC<PaginatedViewProps> = ({
                   marginBottom: '20px'
                 }}
               >
+                {/* Comment markers in the right margin */}
+                {pageNum === 1 && commentMarkers.map(marker => (
+                  <button
+                    key={marker.id}
+                    onClick={() => onSelectComment?.(marker.id)}
+                    className={`absolute flex items-center space-x-0.5 px-1 rounded text-xs transition-colors ${
+                      marker.id === activeCommentId
+                        ? 'bg-yellow-400 text-white'
+                        : 'bg-yellow-100 dark:bg-yellow-900/60 text-yellow-700 dark:text-yellow-300 hover:bg-yellow-200'
+                    }`}
+                    style={{ top: marker.top, right: '6mm', height: MARKER_HEIGHT - 4 }}
+                    title={`${marker.count} comment${marker.count === 1 ? '' : 's'}`}
+                  >
+                    <MessageSquare className="w-3 h-3" />
+                    {marker.count > 1 && <span>{marker.count}</span>}
+                  </button>
+                ))}
+
                 {/* Page Number */}
                 <div className="absolute top-8 right-8 text-xs text-gray-500 dark:text-gray-400">
                   {pageNum}
@@ -542,20 +238,16 @@ const PaginatedView: React.FC<PaginatedViewProps> = ({
                 {pageNum === 1 ? (
                   <div
                     ref={editorRef}
-                    contentEditable
-                    className="outline-none text-gray-900 dark:text-white"
+                    className="paginated-page text-gray-900 dark:text-white"
                     style={{
                       fontFamily: 'Georgia, "Times New Roman", serif',
                       fontSize: '12pt',
                       lineHeight: '1.6',
                       minHeight: '200px'
                     }}
-                    suppressContentEditableWarning={true}
-                    onInput={(e) => {
-                      const newContent = e.currentTarget.innerHTML;
-                      onContentChange(newContent);
-                    }}
-                  />
+                  >
+                    {children}
+                  </div>
                 ) : (
                   <div className="text-gray-900 dark:text-white" style={{
                     fontFamily: 'Georgia, "Times New Roman", serif',
@@ -585,26 +277,6 @@ const PaginatedView: React.FC<PaginatedViewProps> = ({
           </div>
         )}
       </div>
-      
-      {/* Character Tooltip */}
-      {tooltipState && (
-        <CharacterTooltip
-          character={tooltipState.character}
-          position={tooltipState.position}
-          tooltipFields={tooltipFields}
-          onClose={() => setTooltipState(null)}
-        />
-      )}
-      
-      {/* Location Tooltip */}
-      {locationTooltipState && (
-        <LocationTooltip
-          location={locationTooltipState.location}
-          position={locationTooltipState.position}
-          tooltipFields={tooltipFields}
-          onClose={() => setLocationTooltipState(null)}
-        />
-      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, X, Save, RotateCcw, Copy, Columns, AlignLeft } from 'lucide-react';
+import { storageService } from '../../services/storageService';
+import { RevisionInfo, RevisionTrigger, RevisionDiffPart, diffRevisionText, htmlToText } from '../../services/documentRevisions';
+
+interface RevisionHistoryProps {
+  documentId: string;
+  currentContent: string;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const TRIGGER_LABELS: Record<RevisionTrigger, string> = {
+  session: 'End of session',
+  size: 'Large change',
+  manual: 'Named version',
+  restore: 'Before restore',
+};
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+// Earlier versions of the open document, compared word by word with the current text
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ documentId, currentContent, readOnly = false, onClose }) => {
+  const [revisions, setRevisions] = useState<RevisionInfo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [revisionContent, setRevisionContent] = useState<string | null>(null);
+  const [layout, setLayout] = useState<'inline' | 'side-by-side'>('inline');
+  const [versionName, setVersionName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadRevisions = async () => {
+    try {
+      const list = await storageService.getRevisions(documentId);
+      setRevisions(list);
+      setSelectedId(previous => (list.some(r => r.id === previous) ? previous : list[0]?.id || null));
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+    return storageService.onRevisionsChange(changedId => {
+      if (changedId === documentId) loadRevisions();
+    });
+  }, [documentId]);
+
+  useEffect(() => {
+    setRevisionContent(null);
+    if (!selectedId) return;
+    let cancelled = false;
+    storageService.loadRevisionContent(documentId, selectedId)
+      .then(content => !cancelled && setRevisionContent(content))
+      .catch(error => console.error('Error loading revision:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, selectedId]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      alert(`${failure} ${error.message || error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+  const label = (revision: RevisionInfo) => revision.name || TRIGGER_LABELS[revision.trigger] || revision.trigger;
+  const parts: RevisionDiffPart[] = useMemo(
+    () => (revisionContent !== null ? diffRevisionText(revisionContent, currentContent) : []),
+    [revisionContent, currentContent]
+  );
+  const hasChanges = parts.some(part => part.added || part.removed);
+
+  const handleSaveVersion = () =>
+    run(async () => {
+      await storageService.createRevision(documentId, versionName.trim() || 'Version');
+      setVersionName('');
+    }, 'Failed to save version.');
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (!window.confirm(`Replace the document with the version from ${formatDate(selected.createdAt)}? The current text is kept as a revision first.`)) return;
+    run(() => storageService.restoreRevision(documentId, selected.id), 'Failed to restore version.');
+  };
+
+  const handleCopy = () =>
+    run(() => navigator.clipboard.writeText(htmlToText(revisionContent || '')), 'Failed to copy text.');
+
+  const renderPart = (part: RevisionDiffPart, index: number) => {
+    if (part.added) {
+      return <ins key={index} className="bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 no-underline">{part.value}</ins>;
+    }
+    if (part.removed) {
+      return <del key={index} className="bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200">{part.value}</del>;
+    }
+    return <span key={index}>{part.value}</span>;
+  };
+
+  const textClass = 'whitespace-pre-wrap break-words text-gray-900 dark:text-white';
+  const textStyle = { fontFamily: 'Georgia, "Times New Roman", serif', fontSize: '12pt', lineHeight: '1.6' };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl h-5/6 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Version History</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Revisions */}
+          <div className="w-72 flex-shrink-0 flex flex-col border-r border-gray-200 dark:border-gray-700">
+            {!readOnly && (
+              <div className="flex items-center space-x-2 p-3 border-b border-gray-200 dark:border-gray-700">
+                <input
+                  type="text"
+                  value={versionName}
+                  onChange={(e) => setVersionName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveVersion()}
+                  placeholder="Version name"
+                  className="form-input flex-1 min-w-0"
+                />
+                <button
+                  onClick={handleSaveVersion}
+                  disabled={isBusy}
+                  className="p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                  title="Save the current text as a named version"
+                >
+                  <Save className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+              {!isLoading && revisions.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8 px-2">
+                  No versions yet. One is saved when you finish editing, and after larger changes.
+                </p>
+              )}
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    revision.id === selectedId
+                      ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-700 border border-transparent'
+                  }`}
+                >
+                  <div className={`text-sm truncate ${revision.name ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {label(revision)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(revision.createdAt)} • {revision.wordCount} words
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected && (
+              <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+                <div className="flex items-center rounded-lg bg-gray-100 dark:bg-gray-700 p-0.5">
+                  <button
+                    onClick={() => setLayout('inline')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-sm rounded-md ${
+                      layout === 'inline' ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm' : 'text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    <AlignLeft className="w-4 h-4" />
+                    <span>Inline</span>
+                  </button>
+                  <button
+                    onClick={() => setLayout('side-by-side')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-sm rounded-md ${
+                      layout === 'side-by-side' ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm' : 'text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    <Columns className="w-4 h-4" />
+                    <span>Side by side</span>
+                  </button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleCopy}
+                    disabled={revisionContent === null || isBusy}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors disabled:opacity-50"
+                    title="Copy the text of this version"
+                  >
+                    <Copy className="w-4 h-4" />
+                    <span>Copy text</span>
+                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={handleRestore}
+                      disabled={revisionContent === null || !hasChanges || isBusy}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore this version</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto p-6">
+              {!selected ? null : revisionContent === null ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+              ) : !hasChanges ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic">Same as the current text</p>
+              ) : layout === 'inline' ? (
+                <div className={textClass} style={textStyle}>{parts.map(renderPart)}</div>
+              ) : (
+                <div className="grid grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">{label(selected)}</h3>
+                    <div className={textClass} style={textStyle}>{parts.map((part, index) => !part.added && renderPart(part, index))}</div>
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">Current</h3>
+                    <div className={textClass} style={textStyle}>{parts.map((part, index) => !part.removed && renderPart(part, index))}</div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
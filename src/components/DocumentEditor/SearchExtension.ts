@@ -0,0 +1,85 @@
+import { Editor, Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { findInText } from '../../services/documentSearch';
+
+interface SearchHighlights {
+  pattern: RegExp | null;
+  activeIndex: number | null;
+}
+
+const searchHighlightsKey = new PluginKey<SearchHighlights & { decorations: DecorationSet }>('searchHighlights');
+
+// Matches in the document, numbered like findInHtml numbers them in the saved HTML
+export function getSearchMatches(doc: ProseMirrorNode, pattern: RegExp): Array<{ from: number; to: number }> {
+  const matches: Array<{ from: number; to: number }> = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    // Only text is searched; other inline nodes (hard breaks, ...) separate it
+    const segments: Array<{ offset: number; pos: number }> = [];
+    let text = '';
+    node.forEach((child, childOffset) => {
+      if (!child.isText) return;
+      segments.push({ offset: text.length, pos: pos + 1 + childOffset });
+      text += child.text;
+    });
+    const toPos = (offset: number, end: boolean) => {
+      const segment = [...segments].reverse().find(s => (end ? s.offset < offset : s.offset <= offset))!;
+      return segment.pos + offset - segment.offset;
+    };
+    findInText(text, pattern).forEach(match => {
+      matches.push({ from: toPos(match.index, false), to: toPos(match.index + match[0].length, true) });
+    });
+    return false;
+  });
+  return matches;
+}
+
+function buildDecorations(doc: ProseMirrorNode, highlights: SearchHighlights): DecorationSet {
+  if (!highlights.pattern) return DecorationSet.empty;
+  const decorations = getSearchMatches(doc, highlights.pattern).map(({ from, to }, index) =>
+    Decoration.inline(from, to, {
+      class: index === highlights.activeIndex ? 'search-match search-match-active' : 'search-match',
+    })
+  );
+  return DecorationSet.create(doc, decorations);
+}
+
+// Highlights the matches of the Find & Replace panel in the open document
+export const SearchExtension = Extension.create({
+  name: 'searchHighlights',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: searchHighlightsKey,
+        state: {
+          init: () => ({ pattern: null, activeIndex: null, decorations: DecorationSet.empty }),
+          apply: (tr, state) => {
+            const highlights: SearchHighlights | undefined = tr.getMeta(searchHighlightsKey);
+            if (highlights) {
+              return { ...highlights, decorations: buildDecorations(tr.doc, highlights) };
+            }
+            if (tr.docChanged) {
+              return { ...state, decorations: buildDecorations(tr.doc, state) };
+            }
+            return state;
+          },
+        },
+        props: {
+          decorations: state => searchHighlightsKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
+
+// Tell the editor what is being searched for and which match is selected
+export function setSearchHighlights(editor: Editor, highlights: SearchHighlights): void {
+  if (editor.isDestroyed) return;
+  editor.view.dispatch(editor.state.tr.setMeta(searchHighlightsKey, highlights).setMeta('addToHistory', false));
+}
+
+export default SearchExtension;
@@ -59,8 +59,8 @@ const TableOfContents: React.FC<TableOfContentsProps> = ({ editorRef, isOpen, on
           const text = element.textContent?.trim() || '';
           if (!text) return;
 
+          // The editor owns its DOM, so headings are tracked by element rather than given ids here
           const id = element.id || generateHeadingId(text, index);
-          element.id = id;
           
           foundHeadings.push({
             id,
@@ -107,7 +107,7 @@ const TableOfContents: React.FC<TableOfContentsProps> = ({ editorRef, isOpen, on
   // Get scrollable container
   const getScrollContainer = useCallback(() => {
     if (!editorRef.current) return null;
-    let element = editorRef.current.parentElement;
+    let element: HTMLElement | null = editorRef.current;
     while (element) {
       const style = window.getComputedStyle(element);
       if (style.overflow === 'auto' || style.overflowY === 'auto' || style.overflow === 'scroll' || style.overflowY === 'scroll') {
@@ -157,8 +157,7 @@ const TableOfContents: React.FC<TableOfContentsProps> = ({ editorRef, isOpen, on
       const visibleHeadings = entries
         .filter(entry => entry.isIntersecting)
         .map(entry => {
-          const id = entry.target.id;
-          const heading = headings.find(h => h.id === id);
+          const heading = headings.find(h => h.element === entry.target);
           return heading ? { heading, intersectionRatio: entry.intersectionRatio } : null;
         })
         .filter((h): h is { heading: Heading; intersectionRatio: number } => h !== null)
@@ -226,7 +225,7 @@ const TableOfContents: React.FC<TableOfContentsProps> = ({ editorRef, isOpen, on
 
   // Scroll to heading
   const scrollToHeading = useCallback((id: string) => {
-    const element = document.getElementById(id);
+    const element = headings.find(h => h.id === id)?.element;
     if (element) {
       const scrollContainer = getScrollContainer();
       const container = scrollContainer instanceof HTMLElement ? scrollContainer : window;
@@ -258,7 +257,7 @@ const TableOfContents: React.FC<TableOfContentsProps> = ({ editorRef, isOpen, on
       // Set active heading immediately
       setActiveHeadingId(id);
     }
-  }, [getScrollContainer]);
+  }, [getScrollContainer, headings]);
 
   // Handle heading click
   const handleHeadingClick = (heading: Heading) => {
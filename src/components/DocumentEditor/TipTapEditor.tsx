@@ -1,82 +0,0 @@
-import React from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
-import StarterKit from '@tiptap/starter-kit';
-
-interface TipTapEditorProps {
-  content: string;
-  onChange: (content: string) => void;
-}
-
-const TipTapEditor: React.FC<TipTapEditorProps> = ({ content, onChange }) => {
-  const editor = useEditor({
-    extensions: [StarterKit],
-    content,
-    onUpdate: ({ editor }) => {
-      onChange(editor.getHTML());
-    },
-    editorProps: {
-      attributes: {
-        class: 'prose prose-sm max-w-none dark:prose-invert min-h-[400px] p-4',
-      },
-    },
-  });
-
-  if (!editor) {
-    return (
-      <div className="flex-1 flex items-center justify-center">
-        <p className="text-gray-500 dark:text-gray-400">Loading editor...</p>
-      </div>
-    );
-  }
-
-  return (
-    <div className="flex-1 flex flex-col overflow-hidden bg-white dark:bg-gray-800">
-      {/* Toolbar */}
-      <div className="border-b border-gray-200 dark:border-gray-700 p-2 flex items-center gap-2 bg-gray-50 dark:bg-gray-800">
-        <button
-          onClick={() => editor.chain().focus().toggleBold().run()}
-          className={`px-3 py-1 rounded ${editor.isActive('bold') ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
-          type="button"
-        >
-          Bold
-        </button>
-        <button
-          onClick={() => editor.chain().focus().toggleItalic().run()}
-          className={`px-3 py-1 rounded ${editor.isActive('italic') ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
-          type="button"
-        >
-          Italic
-        </button>
-        <button
-          onClick={() => editor.chain().focus().toggleHeading({ level: 1 }).run()}
-          className={`px-3 py-1 rounded ${editor.isActive('heading', { level: 1 }) ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
-          type="button"
-        >
-          H1
-        </button>
-        <button
-          onClick={() => editor.chain().focus().toggleHeading({ level: 2 }).run()}
-          className={`px-3 py-1 rounded ${editor.isActive('heading', { level: 2 }) ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
-          type="button"
-        >
-          H2
-        </button>
-        <button
-          onClick={() => editor.chain().focus().toggleBulletList().run()}
-          className={`px-3 py-1 rounded ${editor.isActive('bulletList') ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
-          type="button"
-        >
-          List
-        </button>
-      </div>
-      
-      {/* Editor Content */}
-      <div className="flex-1 overflow-auto">
-        <EditorContent editor={editor} />
-      </div>
-    </div>
-  );
-};
-
-export default TipTapEditor;
-
@@ -0,0 +1,290 @@
+import { Extension, Mark, mergeAttributes } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Fragment, Mark as ProseMirrorMark, MarkType, Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import { ReplaceStep } from '@tiptap/pm/transform';
+import { isHistoryTransaction } from '@tiptap/pm/history';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    trackChanges: {
+      // Record edits as suggestions by this author; null applies edits directly again
+      setSuggestionMode: (author: string | null) => ReturnType;
+      acceptChange: (id: string) => ReturnType;
+      rejectChange: (id: string) => ReturnType;
+      acceptAllChanges: () => ReturnType;
+      rejectAllChanges: () => ReturnType;
+    };
+  }
+}
+
+export type TrackedChangeType = 'insertion' | 'deletion';
+
+// A suggested edit, as listed in the review panel. One change can span several text nodes.
+export interface TrackedChange {
+  id: string;
+  type: TrackedChangeType;
+  author: string;
+  time: string;
+  text: string;
+  from: number;
+  to: number;
+}
+
+const trackChangesKey = new PluginKey<{ author: string | null }>('trackChanges');
+
+// Accepting and rejecting edit the document themselves and must not be tracked
+const SKIP_TRACKING = 'skipTracking';
+
+const changeAttributes = () => ({
+  id: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-change-id'),
+    renderHTML: (attributes: Record<string, any>) => ({ 'data-change-id': attributes.id }),
+  },
+  author: {
+    default: '',
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-author') || '',
+    renderHTML: (attributes: Record<string, any>) => ({ 'data-author': attributes.author }),
+  },
+  time: {
+    default: '',
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-time') || '',
+    renderHTML: (attributes: Record<string, any>) => ({ 'data-time': attributes.time }),
+  },
+});
+
+// Suggested text, saved as <ins data-change-id data-author data-time>
+export const InsertionMark = Mark.create({
+  name: 'insertion',
+  inclusive: false,
+
+  addAttributes: changeAttributes,
+
+  parseHTML() {
+    return [{ tag: 'ins[data-change-id]', priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['ins', mergeAttributes({ class: 'tracked-insertion' }, HTMLAttributes), 0];
+  },
+});
+
+// Text suggested for removal, saved as <del data-change-id data-author data-time>. Ahead of
+// strikethrough, which reads plain <del> elements.
+export const DeletionMark = Mark.create({
+  name: 'deletion',
+  inclusive: false,
+
+  addAttributes: changeAttributes,
+
+  parseHTML() {
+    return [{ tag: 'del[data-change-id]', priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['del', mergeAttributes({ class: 'tracked-deletion' }, HTMLAttributes), 0];
+  },
+});
+
+const createChangeId = () => `change-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// All suggested changes in document order, with text nodes of the same change joined up
+export function getTrackedChanges(doc: ProseMirrorNode): TrackedChange[] {
+  const changes: TrackedChange[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    node.marks.forEach(mark => {
+      if (mark.type.name !== 'insertion' && mark.type.name !== 'deletion') return;
+      const text = node.isText ? node.text! : '\n';
+      const existing = changes.find(change => change.id === mark.attrs.id && change.type === mark.type.name);
+      if (existing) {
+        existing.text += text;
+        existing.to = pos + node.nodeSize;
+      } else {
+        changes.push({
+          id: mark.attrs.id,
+          type: mark.type.name as TrackedChangeType,
+          author: mark.attrs.author,
+          time: mark.attrs.time,
+          text,
+          from: pos,
+          to: pos + node.nodeSize,
+        });
+      }
+    });
+    return false;
+  });
+  return changes;
+}
+
+// Ranges of inline content carrying a mark of this type, optionally only one change's
+const findMarkedRanges = (doc: ProseMirrorNode, type: MarkType, id?: string): Array<{ from: number; to: number }> => {
+  const ranges: Array<{ from: number; to: number }> = [];
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    const mark = type.isInSet(node.marks);
+    if (mark && (id === undefined || mark.attrs.id === id)) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.to === pos) {
+        last.to = pos + node.nodeSize;
+      } else {
+        ranges.push({ from: pos, to: pos + node.nodeSize });
+      }
+    }
+    return false;
+  });
+  return ranges;
+};
+
+// Keep the text of one kind of change and drop the text of the other, e.g. accepting keeps insertions
+const resolveChanges = (tr: Transaction, keep: MarkType, discard: MarkType, id?: string) => {
+  findMarkedRanges(tr.doc, keep, id).forEach(({ from, to }) => {
+    tr.removeMark(from, to, keep);
+  });
+  findMarkedRanges(tr.doc, discard, id).reverse().forEach(({ from, to }) => {
+    tr.delete(from, to);
+  });
+  return tr.setMeta(SKIP_TRACKING, true);
+};
+
+// Marks deleted content as a suggested deletion. Text the author suggested themselves is simply
+// dropped, and text already suggested for deletion keeps its original attribution.
+const markDeleted = (fragment: Fragment, deletion: ProseMirrorMark, insertion: MarkType): Fragment => {
+  const nodes: ProseMirrorNode[] = [];
+  fragment.forEach(node => {
+    if (!node.isInline) {
+      nodes.push(node.copy(markDeleted(node.content, deletion, insertion)));
+      return;
+    }
+    const inserted = insertion.isInSet(node.marks);
+    if (inserted && inserted.attrs.author === deletion.attrs.author) return;
+    nodes.push(deletion.type.isInSet(node.marks) ? node : node.mark(deletion.addToSet(node.marks)));
+  });
+  return Fragment.fromArray(nodes);
+};
+
+const hasInlineContent = (fragment: Fragment) => {
+  let found = false;
+  fragment.descendants(node => {
+    if (node.isInline) found = true;
+    return !found;
+  });
+  return found;
+};
+
+// A change by this author right next to a position, so continued typing joins it
+const adjacentChange = (doc: ProseMirrorNode, pos: number, type: MarkType, author: string): ProseMirrorMark | null => {
+  const $pos = doc.resolve(pos);
+  for (const node of [$pos.nodeBefore, $pos.nodeAfter]) {
+    const mark = node && type.isInSet(node.marks);
+    if (mark && mark.attrs.author === author) return mark;
+  }
+  return null;
+};
+
+// Turns the edits of a transaction into suggestions: inserted text gets an insertion mark, and
+// deleted text is put back with a deletion mark. Structural edits like splitting or joining
+// paragraphs are applied directly.
+const trackTransaction = (tr: Transaction, tracked: Transaction, author: string) => {
+  const { insertion, deletion } = tracked.doc.type.schema.marks;
+  const time = new Date().toISOString();
+
+  tr.steps.forEach((step, index) => {
+    if (!(step instanceof ReplaceStep)) return;
+    const { from, to, slice } = step;
+    const mapping = tr.mapping.slice(index + 1);
+    const deleted = tr.docs[index].slice(from, to);
+
+    // Inserted content, in the final document
+    if (slice.size > 0) {
+      const start = tracked.mapping.map(mapping.map(from, 1), 1);
+      const end = tracked.mapping.map(mapping.map(from + slice.size, -1), -1);
+      if (start < end) {
+        tracked.removeMark(start, end, deletion);
+        tracked.addMark(start, end, adjacentChange(tracked.doc, start, insertion, author) ||
+          insertion.create({ id: createChangeId(), author, time }));
+      }
+    }
+
+    // Deleted content goes back in, in front of anything typed in its place
+    if (deleted.size > 0 && hasInlineContent(deleted.content)) {
+      const pos = tracked.mapping.map(mapping.map(from, -1), -1);
+      const mark = adjacentChange(tracked.doc, pos, deletion, author) || deletion.create({ id: createChangeId(), author, time });
+      const content = markDeleted(deleted.content, mark, insertion);
+      if (hasInlineContent(content)) {
+        tracked.replace(pos, pos, new Slice(content, deleted.openStart, deleted.openEnd));
+      }
+    }
+  });
+};
+
+export const TrackChangesExtension = Extension.create({
+  name: 'trackChanges',
+
+  addExtensions() {
+    return [InsertionMark, DeletionMark];
+  },
+
+  addCommands() {
+    return {
+      setSuggestionMode: (author: string | null) => ({ tr }) => {
+        tr.setMeta(trackChangesKey, { author }).setMeta('addToHistory', false);
+        return true;
+      },
+      acceptChange: (id: string) => ({ tr, state }) => {
+        resolveChanges(tr, state.schema.marks.insertion, state.schema.marks.deletion, id);
+        return true;
+      },
+      rejectChange: (id: string) => ({ tr, state }) => {
+        resolveChanges(tr, state.schema.marks.deletion, state.schema.marks.insertion, id);
+        return true;
+      },
+      acceptAllChanges: () => ({ tr, state }) => {
+        resolveChanges(tr, state.schema.marks.insertion, state.schema.marks.deletion);
+        return true;
+      },
+      rejectAllChanges: () => ({ tr, state }) => {
+        resolveChanges(tr, state.schema.marks.deletion, state.schema.marks.insertion);
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: trackChangesKey,
+        state: {
+          init: () => ({ author: null }),
+          apply: (tr, state) => tr.getMeta(trackChangesKey) || state,
+        },
+        appendTransaction: (transactions, oldState, newState) => {
+          const author = trackChangesKey.getState(newState)?.author;
+          if (!author) return null;
+
+          const tracked = newState.tr;
+          transactions.forEach(tr => {
+            // Content replaced from outside (saves, collaborators) and undo/redo are not new edits
+            if (!tr.docChanged || tr.getMeta(SKIP_TRACKING) || tr.getMeta('addToHistory') === false || isHistoryTransaction(tr)) return;
+            trackTransaction(tr, tracked, author);
+          });
+          if (!tracked.docChanged) return null;
+
+          // Deleting backwards leaves the caret in front of the text it just marked as deleted
+          const { selection } = oldState;
+          const backspaced = selection.empty && transactions.some(tr => tr.steps.some(step =>
+            step instanceof ReplaceStep && step.to === selection.from && step.slice.size === 0));
+          if (backspaced && newState.selection.empty) {
+            tracked.setSelection(TextSelection.create(tracked.doc, tracked.mapping.map(newState.selection.from, -1)));
+          }
+          return tracked.setMeta(SKIP_TRACKING, true);
+        },
+      }),
+    ];
+  },
+});
+
+// Whether edits are currently recorded as suggestions
+export const isSuggestionMode = (state: EditorState) => !!trackChangesKey.getState(state)?.author;
+
+export default TrackChangesExtension;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Editor } from '@tiptap/react';
+import { Check, X, CheckCheck, ListChecks } from 'lucide-react';
+import { getTrackedChanges, TrackedChange } from './TrackChangesExtension';
+
+interface TrackChangesPanelProps {
+  editor: Editor | null;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (time: string) => (time ? new Date(time).toLocaleString() : '');
+
+// Lists the suggested changes in the document for the author to accept or reject
+const TrackChangesPanel: React.FC<TrackChangesPanelProps> = ({ editor, readOnly = false, onClose }) => {
+  // The editor re-renders its parent on every transaction, so this stays current
+  const changes = editor ? getTrackedChanges(editor.state.doc) : [];
+
+  const showChange = (change: TrackedChange) => {
+    editor?.chain().focus().setTextSelection({ from: change.from, to: change.to }).scrollIntoView().run();
+  };
+
+  return (
+    <div
+      className="h-full w-80 bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl z-10 flex flex-col"
+      style={{ maxWidth: '320px', minWidth: '280px' }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+        <div className="flex items-center space-x-2">
+          <ListChecks className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Suggestions</h3>
+          {changes.length > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">({changes.length})</span>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!readOnly && changes.length > 0 && (
+        <div className="flex items-center space-x-2 p-3 border-b border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => editor?.chain().focus().acceptAllChanges().run()}
+            className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 text-sm rounded-md bg-green-600 hover:bg-green-700 text-white transition-colors"
+          >
+            <CheckCheck className="w-4 h-4" />
+            <span>Accept all</span>
+          </button>
+          <button
+            onClick={() => editor?.chain().focus().rejectAllChanges().run()}
+            className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Reject all</span>
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+            No suggested changes. Turn on suggestion mode to record your edits as suggestions.
+          </p>
+        ) : (
+          changes.map(change => (
+            <div
+              key={`${change.type}-${change.id}`}
+              onClick={() => showChange(change)}
+              className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-gray-900 dark:text-white truncate">
+                  {change.author || 'Unknown'}
+                  <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">
+                    {change.type === 'insertion' ? 'inserted' : 'deleted'}
+                  </span>
+                </span>
+                {!readOnly && (
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        editor?.chain().focus().acceptChange(change.id).run();
+                      }}
+                      className="p-1 rounded text-green-600 hover:bg-green-100 dark:hover:bg-green-900"
+                      title="Accept"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        editor?.chain().focus().rejectChange(change.id).run();
+                      }}
+                      className="p-1 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900"
+                      title="Reject"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              <p className={`text-sm break-words line-clamp-3 ${
+                change.type === 'insertion'
+                  ? 'text-green-700 dark:text-green-400 underline'
+                  : 'text-red-600 dark:text-red-400 line-through'
+              }`}>
+                {change.text}
+              </p>
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{formatTime(change.time)}</p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackChangesPanel;
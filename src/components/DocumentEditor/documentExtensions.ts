@@ -0,0 +1,24 @@
+import StarterKit from '@tiptap/starter-kit';
+import Link from '@tiptap/extension-link';
+import HeadingExtension from './HeadingExtension';
+import FontSizeExtension from './FontSizeExtension';
+import PageBreakExtension from './PageBreakExtension';
+import CharacterHighlightExtension from './CharacterHighlightExtension';
+import LocationHighlightExtension from './LocationHighlightExtension';
+import TrackChangesExtension from './TrackChangesExtension';
+import CommentExtension from './CommentExtension';
+import SearchExtension from './SearchExtension';
+
+// The document schema and editing behaviour of the Document Editor
+export const createDocumentExtensions = () => [
+  StarterKit.configure({ heading: false }),
+  HeadingExtension.configure({ levels: [1, 2, 3, 4, 5, 6] }),
+  Link.configure({ openOnClick: false }),
+  FontSizeExtension,
+  PageBreakExtension,
+  CharacterHighlightExtension,
+  LocationHighlightExtension,
+  TrackChangesExtension,
+  CommentExtension,
+  SearchExtension,
+];
@@ -1,14 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { storageService } from '../services/storageService';
-import { CheckCircle, Loader, AlertCircle, Save } from 'lucide-react';
+import { storageService, SaveStatus } from '../services/storageService';
+import { CheckCircle, Loader, AlertCircle, Save, Clock, CloudOff, KeyRound } from 'lucide-react';
 
 const GlobalSaveStatus: React.FC = () => {
-  const [saveStatus, setSaveStatus] = useState<'saving' | 'saved' | 'error'>('saved');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [pendingCount, setPendingCount] = useState(0);
 
   useEffect(() => {
     // Subscribe to save status changes
-    const unsubscribe = storageService.onSaveStatusChange((status) => {
+    const unsubscribe = storageService.onSaveStatusChange((status, pending) => {
       setSaveStatus(status);
+      setPendingCount(pending);
     });
 
     return unsubscribe;
@@ -37,6 +39,27 @@ const GlobalSaveStatus: React.FC = () => {
           iconColor: 'text-red-600 dark:text-red-400',
           borderColor: 'border-red-300 dark:border-red-700',
         };
+      case 'pending':
+        return {
+          icon: Clock,
+          bgColor: 'bg-amber-100 dark:bg-amber-900/30',
+          iconColor: 'text-amber-600 dark:text-amber-400',
+          borderColor: 'border-amber-300 dark:border-amber-700',
+        };
+      case 'offline':
+        return {
+          icon: CloudOff,
+          bgColor: 'bg-amber-100 dark:bg-amber-900/30',
+          iconColor: 'text-amber-600 dark:text-amber-400',
+          borderColor: 'border-amber-300 dark:border-amber-700',
+        };
+      case 'signed-out':
+        return {
+          icon: KeyRound,
+          bgColor: 'bg-amber-100 dark:bg-amber-900/30',
+          iconColor: 'text-amber-600 dark:text-amber-400',
+          borderColor: 'border-amber-300 dark:border-amber-700',
+        };
       default:
         return {
           icon: Save,
@@ -57,7 +80,10 @@ const GlobalSaveStatus: React.FC = () => {
         title={
           saveStatus === 'saving' ? 'Saving changes...' :
           saveStatus === 'saved' ? 'All changes saved' :
-          saveStatus === 'error' ? 'Save failed' :
+          saveStatus === 'error' ? `Save failed – retrying ${pendingCount} change${pendingCount === 1 ? '' : 's'}` :
+          saveStatus === 'pending' ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} pending` :
+          saveStatus === 'offline' ? `Offline – ${pendingCount} change${pendingCount === 1 ? '' : 's'} will sync when you reconnect` :
+          saveStatus === 'signed-out' ? `Signed out – ${pendingCount} change${pendingCount === 1 ? '' : 's'} will sync when you reconnect` :
           'Ready'
         }
       >
@@ -66,6 +92,9 @@ const GlobalSaveStatus: React.FC = () => {
             saveStatus === 'saving' ? 'animate-spin' : ''
           }`}
         />
+        {(saveStatus === 'pending' || saveStatus === 'offline' || saveStatus === 'error' || saveStatus === 'signed-out') && pendingCount > 0 && (
+          <span className="ml-1 text-xs font-medium">{pendingCount}</span>
+        )}
       </div>
     </div>
   );
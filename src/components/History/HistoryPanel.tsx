@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { storageService } from '../../services/storageService';
+import { HistoryEntry } from '../../services/projectHistory';
+import SnapshotBrowser from './SnapshotBrowser';
+import { Undo2, Redo2, History } from 'lucide-react';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC = () => {
+  const [history, setHistory] = useState(storageService.getHistory());
+  const [tab, setTab] = useState<'edits' | 'snapshots'>('edits');
+
+  useEffect(() => {
+    return storageService.onHistoryChange(() => {
+      // Copy the stacks so React sees a new value
+      const { undo, redo } = storageService.getHistory();
+      setHistory({ undo: [...undo], redo: [...redo] });
+    });
+  }, []);
+
+  const readOnly = storageService.isReadOnly();
+  // Newest first: undone entries above the current state, applied entries below it
+  const undone = [...history.redo];
+  const applied = [...history.undo].reverse();
+
+  const renderEntry = (entry: HistoryEntry, isUndone: boolean) => (
+    <li
+      key={entry.id}
+      className={`flex items-center justify-between px-3 py-2 rounded-lg ${
+        isUndone
+          ? 'text-gray-400 dark:text-gray-500 italic'
+          : 'text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-900'
+      }`}
+    >
+      <span className="text-sm truncate">
+        {entry.label}
+        {entry.changes.length > 1 && (
+          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+            ({entry.changes.length} changes)
+          </span>
+        )}
+      </span>
+      <span className="text-xs text-gray-500 dark:text-gray-400 ml-4 flex-shrink-0">
+        {formatTime(entry.timestamp)}
+      </span>
+    </li>
+  );
+
+  return (
+    <div className="h-full bg-white dark:bg-gray-800 p-6 overflow-y-auto">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">History</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {tab === 'edits'
+                ? 'Recent changes to this project. Ctrl+Z and Ctrl+Shift+Z also work in the Database, Storyboard and Map windows.'
+                : 'Saved versions of the whole project. Compare them or restore the project or single records.'}
+            </p>
+          </div>
+          {tab === 'edits' && (
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => storageService.undo()}
+                disabled={readOnly || history.undo.length === 0}
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={history.undo.length > 0 ? `Undo: ${history.undo[history.undo.length - 1].label}` : 'Nothing to undo'}
+              >
+                <Undo2 className="w-4 h-4" />
+                <span>Undo</span>
+              </button>
+              <button
+                onClick={() => storageService.redo()}
+                disabled={readOnly || history.redo.length === 0}
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={history.redo.length > 0 ? `Redo: ${history.redo[history.redo.length - 1].label}` : 'Nothing to redo'}
+              >
+                <Redo2 className="w-4 h-4" />
+                <span>Redo</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-1 mb-6 border-b border-gray-200 dark:border-gray-700">
+          {([['edits', 'Edits'], ['snapshots', 'Snapshots']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                tab === value
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'snapshots' ? (
+          <SnapshotBrowser />
+        ) : applied.length === 0 && undone.length === 0 ? (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            <History className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No changes yet</p>
+          </div>
+        ) : (
+          <ul className="space-y-1">
+            {undone.map(entry => renderEntry(entry, true))}
+            {applied.map(entry => renderEntry(entry, false))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
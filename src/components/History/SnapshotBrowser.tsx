@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { storageService } from '../../services/storageService';
+import { SnapshotInfo, SnapshotChange, SnapshotCollection, SnapshotTrigger } from '../../services/projectSnapshots';
+import { Camera, RotateCcw, Trash2, GitCompare } from 'lucide-react';
+
+const TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+  manual: 'Named',
+  auto: 'Automatic',
+  import: 'Before import',
+  migration: 'Before upgrade',
+  repair: 'Before repair',
+  reset: 'Before reset',
+  restore: 'Before restore',
+};
+
+const COLLECTION_LABELS: Record<SnapshotCollection, string> = {
+  characters: 'Character',
+  locations: 'Location',
+  plotPoints: 'Plot Point',
+  chapters: 'Chapter',
+  storyboardElements: 'Storyboard Card',
+  maps: 'Map',
+  documents: 'Document',
+};
+
+const KIND_STYLES: Record<SnapshotChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  modified: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+};
+
+const CURRENT = 'current';
+
+const SnapshotBrowser: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT);
+  const [changes, setChanges] = useState<SnapshotChange[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadSnapshots = async () => {
+    try {
+      const list = await storageService.getSnapshots();
+      setSnapshots(list);
+      setFromId(previous => (list.some(s => s.id === previous) ? previous : list[0]?.id || ''));
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+    return storageService.onSnapshotsChange(loadSnapshots);
+  }, []);
+
+  // Comparisons go stale when the snapshots change
+  useEffect(() => {
+    setChanges(null);
+  }, [fromId, toId, snapshots]);
+
+  const readOnly = storageService.isReadOnly();
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      alert(`${failure} ${error.message || error}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      await storageService.createSnapshot(snapshotName.trim() || 'Snapshot');
+      setSnapshotName('');
+    }, 'Failed to take snapshot.');
+
+  const handleCompare = () =>
+    run(async () => {
+      setChanges(await storageService.compareSnapshots(fromId, toId === CURRENT ? undefined : toId));
+    }, 'Failed to compare snapshots.');
+
+  const handleRestoreProject = (snapshot: SnapshotInfo) => {
+    if (!window.confirm(`Replace the whole project with "${snapshot.name}"? The current state is saved as a snapshot first.`)) return;
+    run(() => storageService.restoreSnapshot(snapshot.id), 'Failed to restore snapshot.');
+  };
+
+  const handleRestoreItem = (change: SnapshotChange) =>
+    run(async () => {
+      await storageService.restoreFromSnapshot(fromId, [{ collection: change.collection, id: change.id }]);
+      if (toId === CURRENT) {
+        setChanges(await storageService.compareSnapshots(fromId));
+      }
+    }, 'Failed to restore item.');
+
+  const handleDelete = (snapshot: SnapshotInfo) => {
+    if (!window.confirm(`Delete snapshot "${snapshot.name}"? This action cannot be undone.`)) return;
+    run(() => storageService.deleteSnapshot(snapshot.id), 'Failed to delete snapshot.');
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+  const snapshotOption = (snapshot: SnapshotInfo) => `${snapshot.name} – ${formatDate(snapshot.createdAt)}`;
+
+  return (
+    <div className="space-y-6">
+      {/* New snapshot */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          placeholder="Snapshot name, e.g. Finished draft 1"
+          className="form-input flex-1"
+          disabled={readOnly}
+        />
+        <button
+          onClick={handleCreate}
+          disabled={readOnly || isBusy}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Camera className="w-4 h-4" />
+          <span>Take Snapshot</span>
+        </button>
+      </div>
+
+      {/* Snapshots */}
+      {snapshots.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          <Camera className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No snapshots yet. One is taken every hour while you edit.</p>
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {snapshots.map(snapshot => (
+            <li
+              key={snapshot.id}
+              className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-900"
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-gray-900 dark:text-white truncate">{snapshot.name}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {TRIGGER_LABELS[snapshot.trigger] || snapshot.trigger} • {formatDate(snapshot.createdAt)}
+                </div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0 ml-4">
+                <button
+                  onClick={() => handleRestoreProject(snapshot)}
+                  disabled={readOnly || isBusy}
+                  className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+                  title="Restore the whole project"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(snapshot)}
+                  disabled={readOnly || isBusy}
+                  className="p-1.5 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50"
+                  title="Delete snapshot"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Compare */}
+      {snapshots.length > 0 && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Compare</h3>
+          <div className="flex items-center space-x-2 mb-4">
+            <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="form-input flex-1">
+              {snapshots.map(snapshot => (
+                <option key={snapshot.id} value={snapshot.id}>{snapshotOption(snapshot)}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-500 dark:text-gray-400">with</span>
+            <select value={toId} onChange={(e) => setToId(e.target.value)} className="form-input flex-1">
+              <option value={CURRENT}>Current project</option>
+              {snapshots.map(snapshot => (
+                <option key={snapshot.id} value={snapshot.id}>{snapshotOption(snapshot)}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCompare}
+              disabled={!fromId || isBusy}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <GitCompare className="w-4 h-4" />
+              <span>Compare</span>
+            </button>
+          </div>
+
+          {changes && changes.length === 0 && (
+            <p className="text-gray-500 dark:text-gray-400 italic">No differences</p>
+          )}
+          {changes && changes.length > 0 && (
+            <ul className="space-y-1">
+              {changes.map(change => (
+                <li
+                  key={`${change.collection}:${change.id}`}
+                  className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-900"
+                >
+                  <span className="text-sm text-gray-900 dark:text-white truncate">
+                    <span className={`text-xs px-1.5 py-0.5 rounded mr-2 ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{COLLECTION_LABELS[change.collection]}:</span> {change.name}
+                  </span>
+                  {/* Only records that exist in the older snapshot can be put back */}
+                  {change.kind !== 'added' && (
+                    <button
+                      onClick={() => handleRestoreItem(change)}
+                      disabled={readOnly || isBusy}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded disabled:opacity-50 flex-shrink-0 ml-4"
+                      title="Restore this version from the first snapshot"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotBrowser;
@@ -1,8 +1,9 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { db, MapData, MapElement, Character, Location } from '../../database/schema';
+import { useProjectStore, selectCharacters, selectLocations, selectMaps, selectMap } from '../../store/useProjectStore';
+import { storageService, MapData, MapElement } from '../../services/storageService';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
 import { 
-  Save, 
   Upload, 
   Download, 
   Plus, 
@@ -51,11 +52,15 @@ import {
 
 const MapBuilder: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [currentMap, setCurrentMap] = useState<MapData | null>(null);
-  const [elements, setElements] = useState<MapElement[]>([]);
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
-  const [selectedElement, setSelectedElement] = useState<MapElement | null>(null);
+  const [currentMapId, setCurrentMapId] = useState<string | undefined>(undefined);
+  const currentMap = useProjectStore(selectMap(currentMapId));
+  const elements = useMemo(() => currentMap?.elements || [], [currentMap]);
+  const characters = useProjectStore(selectCharacters);
+  const locations = useProjectStore(selectLocations);
+  const mapList = useProjectStore(selectMaps);
+  const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const selectedElement = elements.find(el => el.id === selectedElementId) || null;
+  const setSelectedElement = (element: MapElement | null) => setSelectedElementId(element?.id || null);
   const [selectedTool, setSelectedTool] = useState<'select' | 'pen' | 'eraser' | 'move' | 'building' | 'road' | 'landmark' | 'character' | 'note' | 'area' | 'church' | 'school' | 'hospital' | 'store' | 'factory' | 'castle' | 'tree' | 'mountain' | 'water' | 'car' | 'ship' | 'plane' | 'train' | 'magic' | 'shield' | 'sword' | 'crown' | 'gem' | 'heart' | 'star' | 'circle' | 'triangle' | 'hexagon'>('select');
   const [showGrid, setShowGrid] = useState(true);
   const [showElementPalette, setShowElementPalette] = useState(true);
@@ -63,7 +68,6 @@ const MapBuilder: React.FC = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [mapList, setMapList] = useState<MapData[]>([]);
   const [editingElement, setEditingElement] = useState<MapElement | null>(null);
   const [brushSize, setBrushSize] = useState(5);
   const [brushColor, setBrushColor] = useState('#000000');
@@ -73,25 +77,22 @@ const MapBuilder: React.FC = () => {
   const [isResizing, setIsResizing] = useState(false);
   const [resizeHandle, setResizeHandle] = useState<string | null>(null);
 
+  useUndoRedoShortcuts('mapbuilder');
+  // Read-only maps can be looked at and their elements selected, nothing else
+  const readOnly = storageService.isReadOnly();
+
   useEffect(() => {
     loadData();
   }, []);
 
   const loadData = async () => {
     try {
-      const [charactersData, locationsData, mapsData] = await Promise.all([
-        db.characters.toArray(),
-        db.locations.toArray(),
-        db.maps.toArray(),
-      ]);
-      setCharacters(charactersData);
-      setLocations(locationsData);
-      setMapList(mapsData);
+      const mapsData = await storageService.getMaps();
       
       // Load the first map if available
       if (mapsData.length > 0) {
         await loadMap(mapsData[0].id!);
-      } else {
+      } else if (!readOnly) {
         // Create a default map
         await createNewMap();
       }
@@ -112,57 +113,32 @@ const MapBuilder: React.FC = () => {
       elements: [],
     };
     
-    const id = await db.maps.add(newMap);
-    const createdMap = await db.maps.get(id);
-    if (createdMap) {
-      setCurrentMap(createdMap);
-      setElements([]);
-      await loadMapList();
-    }
+    const id = await storageService.addMap(newMap);
+    await loadMap(id);
   };
 
-  const loadMap = async (mapId: number) => {
+  const loadMap = async (mapId: string) => {
     try {
-      const map = await db.maps.get(mapId);
+      const map = await storageService.getMap(mapId);
       if (map) {
-        setCurrentMap(map);
-        setElements(map.elements || []);
+        setCurrentMapId(mapId);
         setShowGrid(map.showGrid);
+        setSelectedElementId(null);
       }
     } catch (error) {
       console.error('Error loading map:', error);
     }
   };
 
-  const loadMapList = async () => {
-    try {
-      const maps = await db.maps.toArray();
-      setMapList(maps);
-    } catch (error) {
-      console.error('Error loading map list:', error);
-    }
-  };
-
-  const saveMap = async () => {
-    if (!currentMap) return;
-    
-    try {
-      const updatedMap = {
-        ...currentMap,
-        elements,
-        showGrid,
-      };
-      
-      await db.maps.update(currentMap.id!, updatedMap);
-      setCurrentMap(updatedMap);
-      await loadMapList();
-    } catch (error) {
-      console.error('Error saving map:', error);
+  const toggleGrid = async (visible: boolean) => {
+    setShowGrid(visible);
+    if (currentMap?.id && !readOnly) {
+      await storageService.updateMap(currentMap.id, { showGrid: visible });
     }
   };
 
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!currentMap) return;
+    if (!currentMap || (readOnly && selectedTool !== 'select')) return;
     
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -269,10 +245,9 @@ const MapBuilder: React.FC = () => {
       notes: '',
     };
     
-    const id = await db.mapElements.add(newElement);
-    const createdElement = await db.mapElements.get(id);
-    if (createdElement) {
-      setElements(prev => [...prev, createdElement]);
+    const id = await storageService.addMapElement(currentMap.id!, newElement);
+    if (!id) {
+      console.error('Error adding element to map:', currentMap.id);
     }
   };
 
@@ -346,21 +321,20 @@ const MapBuilder: React.FC = () => {
     }
   };
 
-  const deleteElement = async (elementId: number) => {
+  const deleteElement = async (elementId: string) => {
+    if (!currentMap) return;
     try {
-      await db.mapElements.delete(elementId);
-      setElements(prev => prev.filter(el => el.id !== elementId));
+      await storageService.deleteMapElement(currentMap.id!, elementId);
       setSelectedElement(null);
     } catch (error) {
       console.error('Error deleting element:', error);
     }
   };
 
-  const updateElement = async (elementId: number, updates: Partial<MapElement>) => {
+  const updateElement = async (elementId: string, updates: Partial<MapElement>) => {
+    if (!currentMap) return;
     try {
-      await db.mapElements.update(elementId, updates);
-      setElements(prev => prev.map(el => el.id === elementId ? { ...el, ...updates } : el));
-      setSelectedElement(prev => prev?.id === elementId ? { ...prev, ...updates } : prev);
+      await storageService.updateMapElement(currentMap.id!, elementId, updates);
     } catch (error) {
       console.error('Error updating element:', error);
     }
@@ -407,13 +381,8 @@ const MapBuilder: React.FC = () => {
           elements: mapData.elements || [],
         };
         
-        const id = await db.maps.add(newMap);
-        const createdMap = await db.maps.get(id);
-        if (createdMap) {
-          setCurrentMap(createdMap);
-          setElements(createdMap.elements || []);
-          await loadMapList();
-        }
+        const id = await storageService.addMap(newMap);
+        await loadMap(id);
       } catch (error) {
         console.error('Error importing map:', error);
         alert('Error importing map. Please check the file format.');
@@ -503,20 +472,15 @@ const MapBuilder: React.FC = () => {
             <FolderOpen className="w-4 h-4" />
             <span>Maps</span>
           </button>
-          <button
-            onClick={createNewMap}
-            className="flex items-center space-x-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            <span>New</span>
-          </button>
-          <button
-            onClick={saveMap}
-            className="flex items-center space-x-2 px-3 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
-          >
-            <Save className="w-4 h-4" />
-            <span>Save</span>
-          </button>
+          {!readOnly && (
+            <button
+              onClick={createNewMap}
+              className="flex items-center space-x-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -525,248 +489,250 @@ const MapBuilder: React.FC = () => {
         {/* Element Palette */}
         {showElementPalette && (
           <div className="w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700">
-            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
-              <h3 className="font-medium text-gray-900 dark:text-white mb-3">Tools</h3>
-              <div className="space-y-4">
-                {/* Basic Tools */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Basic Tools</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'select', icon: <MousePointer className="w-4 h-4" />, label: 'Select' },
-                      { tool: 'pen', icon: <Pen className="w-4 h-4" />, label: 'Draw' },
-                      { tool: 'eraser', icon: <Eraser className="w-4 h-4" />, label: 'Erase' },
-                      { tool: 'move', icon: <Move className="w-4 h-4" />, label: 'Move' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+            {!readOnly && (
+              <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="font-medium text-gray-900 dark:text-white mb-3">Tools</h3>
+                <div className="space-y-4">
+                  {/* Basic Tools */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Basic Tools</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'select', icon: <MousePointer className="w-4 h-4" />, label: 'Select' },
+                        { tool: 'pen', icon: <Pen className="w-4 h-4" />, label: 'Draw' },
+                        { tool: 'eraser', icon: <Eraser className="w-4 h-4" />, label: 'Erase' },
+                        { tool: 'move', icon: <Move className="w-4 h-4" />, label: 'Move' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Buildings */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Buildings</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'building', icon: <Building className="w-4 h-4" />, label: 'Building' },
-                      { tool: 'church', icon: <Church className="w-4 h-4" />, label: 'Church' },
-                      { tool: 'school', icon: <School className="w-4 h-4" />, label: 'School' },
-                      { tool: 'hospital', icon: <Cross className="w-4 h-4" />, label: 'Hospital' },
-                      { tool: 'store', icon: <Store className="w-4 h-4" />, label: 'Store' },
-                      { tool: 'factory', icon: <Factory className="w-4 h-4" />, label: 'Factory' },
-                      { tool: 'castle', icon: <Castle className="w-4 h-4" />, label: 'Castle' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+                  {/* Buildings */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Buildings</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'building', icon: <Building className="w-4 h-4" />, label: 'Building' },
+                        { tool: 'church', icon: <Church className="w-4 h-4" />, label: 'Church' },
+                        { tool: 'school', icon: <School className="w-4 h-4" />, label: 'School' },
+                        { tool: 'hospital', icon: <Cross className="w-4 h-4" />, label: 'Hospital' },
+                        { tool: 'store', icon: <Store className="w-4 h-4" />, label: 'Store' },
+                        { tool: 'factory', icon: <Factory className="w-4 h-4" />, label: 'Factory' },
+                        { tool: 'castle', icon: <Castle className="w-4 h-4" />, label: 'Castle' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Nature & Terrain */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Nature</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'tree', icon: <Leaf className="w-4 h-4" />, label: 'Tree' },
-                      { tool: 'mountain', icon: <Mountain className="w-4 h-4" />, label: 'Mountain' },
-                      { tool: 'water', icon: <Waves className="w-4 h-4" />, label: 'Water' },
-                      { tool: 'road', icon: <Square className="w-4 h-4" />, label: 'Road' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+                  {/* Nature & Terrain */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Nature</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'tree', icon: <Leaf className="w-4 h-4" />, label: 'Tree' },
+                        { tool: 'mountain', icon: <Mountain className="w-4 h-4" />, label: 'Mountain' },
+                        { tool: 'water', icon: <Waves className="w-4 h-4" />, label: 'Water' },
+                        { tool: 'road', icon: <Square className="w-4 h-4" />, label: 'Road' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Transportation */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Transport</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'car', icon: <Car className="w-4 h-4" />, label: 'Car' },
-                      { tool: 'ship', icon: <Ship className="w-4 h-4" />, label: 'Ship' },
-                      { tool: 'plane', icon: <Plane className="w-4 h-4" />, label: 'Plane' },
-                      { tool: 'train', icon: <Train className="w-4 h-4" />, label: 'Train' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+                  {/* Transportation */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Transport</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'car', icon: <Car className="w-4 h-4" />, label: 'Car' },
+                        { tool: 'ship', icon: <Ship className="w-4 h-4" />, label: 'Ship' },
+                        { tool: 'plane', icon: <Plane className="w-4 h-4" />, label: 'Plane' },
+                        { tool: 'train', icon: <Train className="w-4 h-4" />, label: 'Train' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Fantasy & Magic */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Fantasy</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'magic', icon: <Zap className="w-4 h-4" />, label: 'Magic' },
-                      { tool: 'shield', icon: <Shield className="w-4 h-4" />, label: 'Shield' },
-                      { tool: 'sword', icon: <Sword className="w-4 h-4" />, label: 'Sword' },
-                      { tool: 'crown', icon: <Crown className="w-4 h-4" />, label: 'Crown' },
-                      { tool: 'gem', icon: <Gem className="w-4 h-4" />, label: 'Gem' },
-                      { tool: 'heart', icon: <Heart className="w-4 h-4" />, label: 'Heart' },
-                      { tool: 'star', icon: <Star className="w-4 h-4" />, label: 'Star' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+                  {/* Fantasy & Magic */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Fantasy</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'magic', icon: <Zap className="w-4 h-4" />, label: 'Magic' },
+                        { tool: 'shield', icon: <Shield className="w-4 h-4" />, label: 'Shield' },
+                        { tool: 'sword', icon: <Sword className="w-4 h-4" />, label: 'Sword' },
+                        { tool: 'crown', icon: <Crown className="w-4 h-4" />, label: 'Crown' },
+                        { tool: 'gem', icon: <Gem className="w-4 h-4" />, label: 'Gem' },
+                        { tool: 'heart', icon: <Heart className="w-4 h-4" />, label: 'Heart' },
+                        { tool: 'star', icon: <Star className="w-4 h-4" />, label: 'Star' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Shapes */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Shapes</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'circle', icon: <Circle className="w-4 h-4" />, label: 'Circle' },
-                      { tool: 'triangle', icon: <Triangle className="w-4 h-4" />, label: 'Triangle' },
-                      { tool: 'hexagon', icon: <Hexagon className="w-4 h-4" />, label: 'Hexagon' },
-                      { tool: 'area', icon: <Square className="w-4 h-4" />, label: 'Area' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+                  {/* Shapes */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Shapes</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'circle', icon: <Circle className="w-4 h-4" />, label: 'Circle' },
+                        { tool: 'triangle', icon: <Triangle className="w-4 h-4" />, label: 'Triangle' },
+                        { tool: 'hexagon', icon: <Hexagon className="w-4 h-4" />, label: 'Hexagon' },
+                        { tool: 'area', icon: <Square className="w-4 h-4" />, label: 'Area' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Characters & Notes */}
-                <div>
-                  <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Characters & Notes</h4>
-                  <div className="grid grid-cols-2 gap-2">
-                    {[
-                      { tool: 'character', icon: <User className="w-4 h-4" />, label: 'Character' },
-                      { tool: 'note', icon: <StickyNote className="w-4 h-4" />, label: 'Note' },
-                      { tool: 'landmark', icon: <MapPin className="w-4 h-4" />, label: 'Landmark' },
-                    ].map(({ tool, icon, label }) => (
-                      <button
-                        key={tool}
-                        onClick={() => setSelectedTool(tool as any)}
-                        className={`p-2 rounded-lg border transition-colors ${
-                          selectedTool === tool
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
-                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                        title={label}
-                      >
-                        <div className="flex flex-col items-center space-y-1">
-                          {icon}
-                          <span className="text-xs">{label}</span>
-                        </div>
-                      </button>
-                    ))}
+                  {/* Characters & Notes */}
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Characters & Notes</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { tool: 'character', icon: <User className="w-4 h-4" />, label: 'Character' },
+                        { tool: 'note', icon: <StickyNote className="w-4 h-4" />, label: 'Note' },
+                        { tool: 'landmark', icon: <MapPin className="w-4 h-4" />, label: 'Landmark' },
+                      ].map(({ tool, icon, label }) => (
+                        <button
+                          key={tool}
+                          onClick={() => setSelectedTool(tool as any)}
+                          className={`p-2 rounded-lg border transition-colors ${
+                            selectedTool === tool
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                              : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                          title={label}
+                        >
+                          <div className="flex flex-col items-center space-y-1">
+                            {icon}
+                            <span className="text-xs">{label}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Drawing Settings */}
-                {selectedTool === 'pen' && (
-                  <div>
-                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Drawing Settings</h4>
-                    <div className="space-y-3">
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Brush Size</label>
-                        <input
-                          type="range"
-                          min="1"
-                          max="20"
-                          value={brushSize}
-                          onChange={(e) => setBrushSize(Number(e.target.value))}
-                          className="w-full"
-                        />
-                        <span className="text-xs text-gray-500">{brushSize}px</span>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Brush Color</label>
-                        <input
-                          type="color"
-                          value={brushColor}
-                          onChange={(e) => setBrushColor(e.target.value)}
-                          className="w-full h-8 rounded border border-gray-300 dark:border-gray-600"
-                        />
+                  {/* Drawing Settings */}
+                  {selectedTool === 'pen' && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Drawing Settings</h4>
+                      <div className="space-y-3">
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Brush Size</label>
+                          <input
+                            type="range"
+                            min="1"
+                            max="20"
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(Number(e.target.value))}
+                            className="w-full"
+                          />
+                          <span className="text-xs text-gray-500">{brushSize}px</span>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Brush Color</label>
+                          <input
+                            type="color"
+                            value={brushColor}
+                            onChange={(e) => setBrushColor(e.target.value)}
+                            className="w-full h-8 rounded border border-gray-300 dark:border-gray-600"
+                          />
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
-            </div>
+            )}
             
             {/* Map Settings */}
             <div className="p-4 border-b border-gray-200 dark:border-gray-700">
@@ -776,7 +742,7 @@ const MapBuilder: React.FC = () => {
                   <input
                     type="checkbox"
                     checked={showGrid}
-                    onChange={(e) => setShowGrid(e.target.checked)}
+                    onChange={(e) => toggleGrid(e.target.checked)}
                     className="rounded"
                   />
                   <span className="text-sm text-gray-700 dark:text-gray-300">Show Grid</span>
@@ -810,15 +776,17 @@ const MapBuilder: React.FC = () => {
                           {element.type}
                         </div>
                       </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          deleteElement(element.id!);
-                        }}
-                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </button>
+                      {!readOnly && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteElement(element.id!);
+                          }}
+                          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -848,16 +816,18 @@ const MapBuilder: React.FC = () => {
                 <Download className="w-4 h-4" />
                 <span>Export</span>
               </button>
-              <label className="flex items-center space-x-2 px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors cursor-pointer">
-                <Upload className="w-4 h-4" />
-                <span>Import</span>
-                <input
-                  type="file"
-                  accept=".json"
-                  onChange={importMap}
-                  className="hidden"
-                />
-              </label>
+              {!readOnly && (
+                <label className="flex items-center space-x-2 px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors cursor-pointer">
+                  <Upload className="w-4 h-4" />
+                  <span>Import</span>
+                  <input
+                    type="file"
+                    accept=".json"
+                    onChange={importMap}
+                    className="hidden"
+                  />
+                </label>
+              )}
             </div>
           </div>
           
@@ -887,7 +857,7 @@ const MapBuilder: React.FC = () => {
       {selectedElement && (
         <div className="w-80 bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 p-4">
           <h3 className="font-medium text-gray-900 dark:text-white mb-4">Element Properties</h3>
-          <div className="space-y-4">
+          <fieldset disabled={readOnly} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                 Name
@@ -935,7 +905,7 @@ const MapBuilder: React.FC = () => {
                 className="w-full h-10 rounded border border-gray-300 dark:border-gray-600"
               />
             </div>
-          </div>
+          </fieldset>
         </div>
       )}
       
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, Loader } from 'lucide-react';
+import { StorageBackend } from '../../services/storageBackend';
+import { WrongPassphraseError } from '../../services/projectEncryption';
+import PassphraseFields, { getPassphraseError } from '../Setup/PassphraseFields';
+import RecoveryKeyDialog from '../Setup/RecoveryKeyDialog';
+
+interface EncryptionDialogProps {
+  backend: StorageBackend;
+  projectId: string;
+  projectName: string;
+  onClose: () => void;
+}
+
+// Turn on end-to-end encryption for the open project, or change its passphrase.
+// Either way every file is re-encrypted with a new key and a new recovery key is shown.
+const EncryptionDialog: React.FC<EncryptionDialogProps> = ({ backend, projectId, projectName, onClose }) => {
+  const [isEncrypted, setIsEncrypted] = useState<boolean | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    backend.isProjectEncrypted!(projectId)
+      .then(setIsEncrypted)
+      .catch((err: any) => {
+        console.error('❌ Error checking project encryption:', err);
+        setError(err.message || 'Failed to check whether the project is encrypted');
+      });
+  }, [backend, projectId]);
+
+  const handleSubmit = async () => {
+    const problem = getPassphraseError(passphrase, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (isEncrypted) {
+        // Only someone who knows the current passphrase may change it
+        await backend.unlockProject!(projectId, { passphrase: currentPassphrase });
+      }
+      setRecoveryKey(await backend.encryptProject!(projectId, passphrase));
+    } catch (err: any) {
+      if (!(err instanceof WrongPassphraseError)) console.error('❌ Error encrypting project:', err);
+      setError(err.message || 'Failed to encrypt the project');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (recoveryKey) {
+    return <RecoveryKeyDialog recoveryKey={recoveryKey} projectName={projectName} onClose={onClose} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <ShieldCheck className="w-8 h-8 text-green-600 dark:text-green-400" />
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {isEncrypted ? 'Change passphrase' : 'Encrypt project'}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {isEncrypted
+                ? `"${projectName}" is encrypted. Changing the passphrase re-encrypts every file with a new key.`
+                : `Encrypt "${projectName}" in this browser before it is uploaded, so ${backend.name} only stores unreadable files. Collaborators need the passphrase too.`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {isEncrypted === null && !error ? (
+            <div className="flex items-center text-gray-600 dark:text-gray-400">
+              <Loader className="w-4 h-4 animate-spin mr-2" />
+              <span className="text-sm">Loading...</span>
+            </div>
+          ) : (
+            <>
+              {isEncrypted && (
+                <input
+                  type="password"
+                  value={currentPassphrase}
+                  onChange={(e) => setCurrentPassphrase(e.target.value)}
+                  placeholder="Current passphrase"
+                  className="form-input w-full"
+                  autoComplete="current-password"
+                  disabled={isBusy}
+                  autoFocus
+                />
+              )}
+              <PassphraseFields
+                passphrase={passphrase}
+                confirmation={confirmation}
+                onChange={(next, nextConfirmation) => {
+                  setPassphrase(next);
+                  setConfirmation(nextConfirmation);
+                }}
+                disabled={isBusy}
+                autoFocus={!isEncrypted}
+              />
+            </>
+          )}
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-end space-x-2 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            disabled={isBusy}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isBusy || isEncrypted === null}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isBusy && <Loader className="w-4 h-4 animate-spin" />}
+            <span>{isBusy ? 'Encrypting...' : isEncrypted ? 'Change passphrase' : 'Encrypt'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionDialog;
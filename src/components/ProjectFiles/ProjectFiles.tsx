@@ -1,18 +1,43 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { storageService, Document } from '../../services/storageService';
-import { googleAuth } from '../../services/googleAuth';
-import { Download, FileText, Database, Calendar, HardDrive, Trash2, FolderOpen, Cloud, ExternalLink } from 'lucide-react';
+import { storageService, Document, TrashCollection } from '../../services/storageService';
+import { googleDriveBackend } from '../../services/googleDriveBackend';
+import { ProjectValidationError, ValidationReport, RepairMode } from '../../services/projectValidation';
+import ValidationReportDialog from '../ValidationReportDialog';
+import ShareDialog from './ShareDialog';
+import EncryptionDialog from './EncryptionDialog';
+import { Download, Upload, FileText, Database, Calendar, HardDrive, Trash2, FolderOpen, Cloud, ExternalLink, RotateCcw, Share2, ShieldCheck } from 'lucide-react';
 import JSZip from 'jszip';
 
+const TRASH_LABELS: Record<TrashCollection, string> = {
+  characters: 'Character',
+  locations: 'Location',
+  plotPoints: 'Plot Point',
+  chapters: 'Chapter',
+  documents: 'Document',
+  maps: 'Map',
+};
+
 const ProjectFiles: React.FC = () => {
   const [forceUpdate, setForceUpdate] = useState(0);
+  const [pendingImport, setPendingImport] = useState<{ json: string; report: ValidationReport } | null>(null);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showEncryptionDialog, setShowEncryptionDialog] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { loadDocument, openWindow } = useAppStore();
   const fileInfo = storageService.getFileInfo();
   const data = storageService.getData();
+  const trashItems = storageService.getTrashItems();
+  const retentionDays = storageService.getSettings().trashRetentionDays;
   
-  // Get storage location from Google Drive
-  const isGoogleDriveConnected = googleAuth.isAuthenticated();
+  // Where the open project is stored
+  const backend = storageService.getBackend();
+  const projectId = storageService.getProjectId();
+  const isGoogleDriveConnected = backend === googleDriveBackend;
+  const readOnly = storageService.isReadOnly();
+  // Collaborators who can't edit can't share either
+  const canShare = !!backend?.shareProject && !!projectId && !readOnly;
+  const canEncrypt = !!backend?.encryptProject && !!projectId && !readOnly;
 
   const refresh = () => {
     setForceUpdate(prev => prev + 1);
@@ -99,6 +124,41 @@ const ProjectFiles: React.FC = () => {
     }
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (!window.confirm('Importing replaces all data in this project with the contents of the file. Continue?')) {
+      return;
+    }
+
+    const json = await file.text();
+    try {
+      await storageService.importData(json);
+      refresh();
+    } catch (error: any) {
+      if (error instanceof ProjectValidationError) {
+        // Let the user decide how to handle the invalid records
+        setPendingImport({ json, report: error.report });
+      } else {
+        alert(`Failed to import project data: ${error.message || error}`);
+      }
+    }
+  };
+
+  const handleResolveImport = async (mode: RepairMode) => {
+    if (!pendingImport) return;
+    try {
+      await storageService.importData(pendingImport.json, mode);
+      refresh();
+    } catch (error: any) {
+      alert(`Failed to import project data: ${error.message || error}`);
+    } finally {
+      setPendingImport(null);
+    }
+  };
+
   const handleDownloadDocument = (docId: string) => {
     const doc = data.documents.find(d => d.id === docId);
     if (doc) {
@@ -132,7 +192,7 @@ const ProjectFiles: React.FC = () => {
 
   const handleDeleteDocument = async (docId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to delete this document?')) {
+    if (window.confirm('Move this document to the trash? You can restore it from Project Files.')) {
       try {
         await storageService.deleteDocument(docId);
         refresh();
@@ -143,6 +203,34 @@ const ProjectFiles: React.FC = () => {
     }
   };
 
+  const handleRestoreTrashItem = async (itemId: string) => {
+    try {
+      await storageService.restoreFromTrash(itemId);
+      refresh();
+    } catch (error) {
+      console.error('Error restoring trash item:', error);
+      alert('Failed to restore item. Please try again.');
+    }
+  };
+
+  const handlePurgeTrashItem = async (itemId: string, name: string) => {
+    if (!window.confirm(`Delete "${name}" permanently? This action cannot be undone.`)) return;
+    await storageService.purgeFromTrash([itemId]);
+    refresh();
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Permanently delete all ${trashItems.length} items in the trash? This action cannot be undone.`)) return;
+    await storageService.emptyTrash();
+    refresh();
+  };
+
+  const handleRetentionChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const days = Math.max(0, parseInt(e.target.value, 10) || 0);
+    await storageService.updateSettings({ trashRetentionDays: days });
+    refresh();
+  };
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -167,13 +255,31 @@ const ProjectFiles: React.FC = () => {
               Manage and download your project files
             </p>
           </div>
-          <button
-            onClick={handleDownloadAllData}
-            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-          >
-            <Download className="w-4 h-4" />
-            <span>Download All Data</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={readOnly}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-colors disabled:opacity-50"
+              title="Replace project data with an exported project-data.json file"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import Data</span>
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            <button
+              onClick={handleDownloadAllData}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download All Data</span>
+            </button>
+          </div>
         </div>
 
         {/* Project Overview */}
@@ -194,26 +300,48 @@ const ProjectFiles: React.FC = () => {
                     <Cloud className="w-4 h-4 text-blue-600 dark:text-blue-400" />
                     <span>Storage: Google Drive</span>
                   </div>
-                  <button
-                    onClick={() => {
-                      const folderId = localStorage.getItem('current_project_folder_id');
-                      if (folderId) {
-                        window.open(`https://drive.google.com/drive/folders/${folderId}`, '_blank');
-                      }
-                    }}
-                    className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-                    title="Open project folder in Google Drive"
-                  >
-                    <ExternalLink className="w-4 h-4" />
-                    <span>Open in Drive</span>
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    {canShare && (
+                      <button
+                        onClick={() => setShowShareDialog(true)}
+                        className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-white hover:bg-gray-50 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg transition-colors"
+                        title="Share this project with collaborators"
+                      >
+                        <Share2 className="w-4 h-4" />
+                        <span>Share</span>
+                      </button>
+                    )}
+                    {canEncrypt && (
+                      <button
+                        onClick={() => setShowEncryptionDialog(true)}
+                        className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-white hover:bg-gray-50 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white border border-gray-300 dark:border-gray-600 rounded-lg transition-colors"
+                        title="Encrypt this project with a passphrase"
+                      >
+                        <ShieldCheck className="w-4 h-4" />
+                        <span>Encryption</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        const folderId = localStorage.getItem('current_project_folder_id');
+                        if (folderId) {
+                          window.open(`https://drive.google.com/drive/folders/${folderId}`, '_blank');
+                        }
+                      }}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                      title="Open project folder in Google Drive"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      <span>Open in Drive</span>
+                    </button>
+                  </div>
                 </div>
               )}
               
               {!isGoogleDriveConnected && (
                 <div className="mb-3 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
                   <HardDrive className="w-4 h-4 text-gray-500" />
-                  <span>Storage: Local Browser</span>
+                  <span>Storage: This device</span>
                 </div>
               )}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -355,8 +483,120 @@ const ProjectFiles: React.FC = () => {
               </div>
             )}
           </div>
+
+          {/* Trash */}
+          <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-5">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Trash ({trashItems.length})
+              </h3>
+              <div className="flex items-center space-x-3">
+                <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>Delete after</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={retentionDays ?? 30}
+                    onChange={handleRetentionChange}
+                    disabled={readOnly}
+                    className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    title="Items older than this are deleted permanently. 0 keeps them forever."
+                  />
+                  <span>days</span>
+                </label>
+                <button
+                  onClick={handleEmptyTrash}
+                  disabled={readOnly || trashItems.length === 0}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span className="text-sm">Empty Trash</span>
+                </button>
+              </div>
+            </div>
+            {trashItems.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400 italic">The trash is empty</p>
+            ) : (
+              <div className="space-y-3">
+                {trashItems.map((item) => (
+                  <div
+                    key={item.id}
+                    className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-gray-900 dark:text-white mb-1">
+                          {item.name}
+                        </h4>
+                        <div className="flex flex-wrap gap-3 text-xs text-gray-500 dark:text-gray-400">
+                          <span>{TRASH_LABELS[item.collection]}</span>
+                          {item.references.length > 0 && (
+                            <>
+                              <span>•</span>
+                              <span>{item.references.length} link{item.references.length === 1 ? '' : 's'} to restore</span>
+                            </>
+                          )}
+                          <span>•</span>
+                          <Calendar className="w-3 h-3 inline" />
+                          <span>Deleted {formatDate(item.deletedAt)}</span>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleRestoreTrashItem(item.id)}
+                          disabled={readOnly}
+                          className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded transition-colors disabled:opacity-50"
+                          title="Restore item"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span className="text-sm">Restore</span>
+                        </button>
+                        <button
+                          onClick={() => handlePurgeTrashItem(item.id, item.name)}
+                          disabled={readOnly}
+                          className="flex items-center space-x-1 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded transition-colors disabled:opacity-50"
+                          title="Delete permanently"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          <span className="text-sm">Delete Forever</span>
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
+
+      {showShareDialog && backend && projectId && (
+        <ShareDialog
+          backend={backend}
+          projectId={projectId}
+          projectName={data.projectName}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
+
+      {showEncryptionDialog && backend && projectId && (
+        <EncryptionDialog
+          backend={backend}
+          projectId={projectId}
+          projectName={data.projectName}
+          onClose={() => setShowEncryptionDialog(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ValidationReportDialog
+          title="Problems in Imported Data"
+          description="Some records in this file don't match the project format. Repair them with default values, leave them out, or cancel the import."
+          report={pendingImport.report}
+          onResolve={handleResolveImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 };
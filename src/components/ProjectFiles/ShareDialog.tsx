@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Share2, Loader, UserMinus, UserPlus } from 'lucide-react';
+import { StorageBackend, ProjectCollaborator, ShareRole } from '../../services/storageBackend';
+
+interface ShareDialogProps {
+  backend: StorageBackend;
+  projectId: string;
+  projectName: string;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: 'Viewer – can read',
+  commenter: 'Commenter – can read and comment',
+  editor: 'Editor – can make changes',
+};
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ backend, projectId, projectName, onClose }) => {
+  const [collaborators, setCollaborators] = useState<ProjectCollaborator[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCollaborators = async () => {
+    try {
+      setCollaborators(await backend.listCollaborators!(projectId));
+    } catch (err: any) {
+      console.error('❌ Error loading collaborators:', err);
+      setError(err.message || 'Failed to load who has access');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [backend, projectId]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadCollaborators();
+    } catch (err: any) {
+      console.error(`❌ ${failure}`, err);
+      setError(err.message || failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleShare = () => {
+    if (!email.trim()) {
+      setError('Please enter an email address');
+      return;
+    }
+    run(async () => {
+      await backend.shareProject!(projectId, email.trim(), role);
+      setEmail('');
+    }, 'Failed to share project');
+  };
+
+  // Sharing again with the same person changes their role
+  const handleChangeRole = (collaborator: ProjectCollaborator, newRole: ShareRole) =>
+    run(() => backend.shareProject!(projectId, collaborator.email!, newRole), 'Failed to change access');
+
+  const handleRemove = (collaborator: ProjectCollaborator) => {
+    if (!window.confirm(`Stop sharing "${projectName}" with ${collaborator.name || collaborator.email}?`)) return;
+    run(() => backend.unshareProject!(projectId, collaborator.id), 'Failed to remove access');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <Share2 className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Share "{projectName}"</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Collaborators get access to the project folder in {backend.name}.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Invite */}
+          <div className="flex items-center space-x-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleShare()}
+              placeholder="Email address"
+              className="form-input flex-1"
+              disabled={isBusy}
+            />
+            <select value={role} onChange={(e) => setRole(e.target.value as ShareRole)} className="form-input" disabled={isBusy}>
+              {(Object.keys(ROLE_LABELS) as ShareRole[]).map(option => (
+                <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleShare}
+              disabled={isBusy}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <UserPlus className="w-4 h-4" />
+              <span>Share</span>
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {/* People with access */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">People with access</h3>
+            {isLoading ? (
+              <div className="flex items-center py-4 text-gray-600 dark:text-gray-400">
+                <Loader className="w-4 h-4 animate-spin mr-2" />
+                <span className="text-sm">Loading...</span>
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                {collaborators.map(collaborator => (
+                  <li
+                    key={collaborator.id}
+                    className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-900"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-900 dark:text-white truncate">{collaborator.name || collaborator.email}</div>
+                      {collaborator.name && collaborator.email && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{collaborator.email}</div>
+                      )}
+                    </div>
+                    {collaborator.role === 'owner' ? (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 ml-4">Owner</span>
+                    ) : (
+                      <div className="flex items-center space-x-1 flex-shrink-0 ml-4">
+                        <select
+                          value={collaborator.role}
+                          onChange={(e) => handleChangeRole(collaborator, e.target.value as ShareRole)}
+                          disabled={isBusy || !collaborator.email}
+                          className="form-input text-xs py-1"
+                        >
+                          {(Object.keys(ROLE_LABELS) as ShareRole[]).map(option => (
+                            <option key={option} value={option}>{option.charAt(0).toUpperCase() + option.slice(1)}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleRemove(collaborator)}
+                          disabled={isBusy}
+                          className="p-1.5 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50"
+                          title="Remove access"
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
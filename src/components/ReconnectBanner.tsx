@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Loader } from 'lucide-react';
+import { storageService, SaveStatus } from '../services/storageService';
+
+// Shown when the storage backend's session expired and couldn't be renewed in the background.
+// Editing goes on; changes wait in the outbox and are saved once the user reconnects.
+const ReconnectBanner: React.FC = () => {
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>(storageService.getSaveStatus());
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    return storageService.onSaveStatusChange((status, pending) => {
+      setSaveStatus(status);
+      setPendingCount(pending);
+    });
+  }, []);
+
+  if (saveStatus !== 'signed-out') {
+    return null;
+  }
+
+  const backendName = storageService.getBackend()?.name || 'storage';
+
+  const handleReconnect = async () => {
+    setIsReconnecting(true);
+    setFailed(false);
+    try {
+      setFailed(!(await storageService.reconnect()));
+    } catch (error) {
+      console.error('Error reconnecting:', error);
+      setFailed(true);
+    } finally {
+      setIsReconnecting(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-3 left-1/2 transform -translate-x-1/2 z-50 px-4 py-2 bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 border border-amber-300 dark:border-amber-700 rounded-lg shadow-sm flex items-center space-x-3 text-sm">
+      <KeyRound className="w-4 h-4 flex-shrink-0" />
+      <span>
+        {failed
+          ? `Couldn't reconnect to ${backendName}. Allow popups for this site and try again.`
+          : `Your ${backendName} session expired. ${pendingCount} change${pendingCount === 1 ? ' is' : 's are'} kept on this device until you reconnect.`}
+      </span>
+      <button
+        onClick={handleReconnect}
+        disabled={isReconnecting}
+        className="flex items-center space-x-1 px-3 py-1 bg-amber-600 hover:bg-amber-700 text-white rounded transition-colors disabled:opacity-50 flex-shrink-0"
+      >
+        {isReconnecting && <Loader className="w-3 h-3 animate-spin" />}
+        <span>Reconnect</span>
+      </button>
+    </div>
+  );
+};
+
+export default ReconnectBanner;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../../services/projectEncryption';
+
+interface PassphraseFieldsProps {
+  passphrase: string;
+  confirmation: string;
+  onChange: (passphrase: string, confirmation: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+// Why a new passphrase can't be used yet, or null when it can
+export const getPassphraseError = (passphrase: string, confirmation: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirmation) {
+    return "The passphrases don't match";
+  }
+  return null;
+};
+
+// A new passphrase, typed twice
+const PassphraseFields: React.FC<PassphraseFieldsProps> = ({ passphrase, confirmation, onChange, disabled, autoFocus }) => (
+  <div className="space-y-2">
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => onChange(e.target.value, confirmation)}
+      placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+      className="form-input w-full"
+      autoComplete="new-password"
+      disabled={disabled}
+      autoFocus={autoFocus}
+    />
+    <input
+      type="password"
+      value={confirmation}
+      onChange={(e) => onChange(passphrase, e.target.value)}
+      placeholder="Repeat passphrase"
+      className="form-input w-full"
+      autoComplete="new-password"
+      disabled={disabled}
+    />
+  </div>
+);
+
+export default PassphraseFields;
@@ -1,31 +1,56 @@
 import React, { useState, useEffect } from 'react';
-import { FolderOpen, Plus, Loader, ExternalLink, Search, Trash2 } from 'lucide-react';
-import { googleDriveService } from '../../services/googleDriveService';
+import { FolderOpen, Plus, Loader, ExternalLink, Search, Trash2, HardDrive, Cloud, UploadCloud, DownloadCloud, Users, Eye, Lock } from 'lucide-react';
+import PassphraseFields, { getPassphraseError } from './PassphraseFields';
+import { googleDriveBackend } from '../../services/googleDriveBackend';
+import { localBackend } from '../../services/localBackend';
+import { StorageBackend, ProjectSummary, copyProject, canEditProject } from '../../services/storageBackend';
 
-interface ProjectFolder {
-  id: string;
-  name: string;
-  lastModified?: string;
+interface ProjectFolder extends ProjectSummary {
+  backend: StorageBackend; // Where the project is stored
 }
 
+const COVER_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0d9488'];
+
+// Projects without a chosen cover color still keep the same one between visits
+const getCoverColor = (folder: ProjectFolder): string => {
+  if (folder.coverColor) return folder.coverColor;
+  const hash = Array.from(folder.id).reduce((total, char) => total + char.charCodeAt(0), 0);
+  return COVER_COLORS[hash % COVER_COLORS.length];
+};
+
 interface ProjectSelectionModalProps {
-  onSelectProject: (folderId: string, folderName: string) => void;
-  onCreateProject: (folderName: string) => void;
-  onDeleteProject?: (folderId: string, folderName: string) => void;
+  isDriveAvailable: boolean;
+  onSelectProject: (folderId: string, folderName: string, backend: StorageBackend) => void;
+  onCreateProject: (folderName: string, backend: StorageBackend, passphrase?: string) => void;
+  onDeleteProject?: (folderId: string, folderName: string, backend: StorageBackend) => void;
+  onConnectDrive?: () => void;
 }
 
 const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({ 
+  isDriveAvailable,
   onSelectProject, 
   onCreateProject,
-  onDeleteProject
+  onDeleteProject,
+  onConnectDrive
 }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [projectFolders, setProjectFolders] = useState<ProjectFolder[]>([]);
   const [newProjectName, setNewProjectName] = useState('');
+  const [newProjectBackend, setNewProjectBackend] = useState<StorageBackend>(isDriveAvailable ? googleDriveBackend : localBackend);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [encryptNewProject, setEncryptNewProject] = useState(false);
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [newPassphraseConfirmation, setNewPassphraseConfirmation] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [copyingId, setCopyingId] = useState<string | null>(null);
+
+  const isLocalAvailable = localBackend.isAvailable();
+  const backends = [
+    ...(isDriveAvailable ? [googleDriveBackend] : []),
+    ...(isLocalAvailable ? [localBackend] : []),
+  ];
 
   useEffect(() => {
     loadProjects();
@@ -35,23 +60,55 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
     setIsLoading(true);
     setError(null);
     
+    // One unreachable backend shouldn't hide the projects in the other
+    const lists = await Promise.all(backends.map(async backend => {
+      try {
+        console.log(`🔍 Loading projects from ${backend.name}...`);
+        const response = await backend.listProjects();
+        console.log(`✅ Projects loaded from ${backend.name}:`, response.length);
+        return response.map(project => ({ ...project, backend }));
+      } catch (err: any) {
+        console.error(`❌ Error loading projects from ${backend.name}:`, err);
+        setError(err.message || 'Failed to load projects. Please check the console for details.');
+        return [];
+      }
+    }));
+
+    setProjectFolders(lists.flat());
+    setIsLoading(false);
+  };
+
+  const handleSelectProject = (folder: ProjectFolder) => {
+    onSelectProject(folder.id, folder.name, folder.backend);
+  };
+
+  // Upload a project from this device to Drive, or keep a Drive project for offline use
+  const handleCopyProject = async (folder: ProjectFolder, target: StorageBackend) => {
+    setCopyingId(folder.id);
+    setError(null);
+
     try {
-      console.log('🔍 Loading projects...');
-      // Search for folders containing project data files
-      const response = await googleDriveService.listProjectFolders();
-      console.log('✅ Projects loaded:', response.length);
-      setProjectFolders(response);
+      await copyProject(folder.backend, folder.id, target, folder.name);
+      await loadProjects();
     } catch (err: any) {
-      console.error('❌ Error loading projects:', err);
-      console.error('Error details:', err);
-      setError(err.message || 'Failed to load projects. Please check the console for details.');
+      console.error('❌ Error copying project:', err);
+      setError(err.message || `Failed to copy project to ${target.name}`);
     } finally {
-      setIsLoading(false);
+      setCopyingId(null);
     }
   };
 
-  const handleSelectProject = (folder: ProjectFolder) => {
-    onSelectProject(folder.id, folder.name);
+  const handleChangeCoverColor = async (folder: ProjectFolder) => {
+    const current = COVER_COLORS.indexOf(getCoverColor(folder));
+    const coverColor = COVER_COLORS[(current + 1) % COVER_COLORS.length];
+    setProjectFolders(folders => folders.map(f => (f.id === folder.id && f.backend === folder.backend ? { ...f, coverColor } : f)));
+
+    try {
+      await folder.backend.updateProjectStats(folder.id, { coverColor });
+    } catch (err: any) {
+      console.error('❌ Error saving cover color:', err);
+      setError(err.message || 'Failed to save cover color');
+    }
   };
 
   const handleCreateProject = async () => {
@@ -60,11 +117,18 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
       return;
     }
 
+    const encrypt = encryptNewProject && !!newProjectBackend.createEncryptedProject;
+    const passphraseError = encrypt && getPassphraseError(newPassphrase, newPassphraseConfirmation);
+    if (passphraseError) {
+      setError(passphraseError);
+      return;
+    }
+
     setIsCreating(true);
     setError(null);
 
     try {
-      await onCreateProject(newProjectName.trim());
+      await onCreateProject(newProjectName.trim(), newProjectBackend, encrypt ? newPassphrase : undefined);
     } catch (err: any) {
       console.error('Error creating project:', err);
       setError(err.message || 'Failed to create project');
@@ -80,6 +144,112 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
     folder.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const renderProject = (folder: ProjectFolder) => {
+    const isDriveProject = folder.backend === googleDriveBackend;
+    const copyTarget = isDriveProject ? (isLocalAvailable ? localBackend : null) : (isDriveAvailable ? googleDriveBackend : null);
+
+    return (
+      <div
+        key={folder.id}
+        className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer group"
+        onClick={() => handleSelectProject(folder)}
+      >
+        <div className="flex items-center space-x-3 flex-1">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleChangeCoverColor(folder);
+            }}
+            disabled={!canEditProject(folder.role)}
+            className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0"
+            style={{ backgroundColor: getCoverColor(folder) }}
+            title={canEditProject(folder.role) ? 'Change cover color' : undefined}
+          >
+            <FolderOpen className="w-5 h-5 text-white" />
+          </button>
+          <div>
+            <div className="flex items-center space-x-2 font-medium text-gray-900 dark:text-white">
+              <span>{folder.name}</span>
+              {folder.encrypted && (
+                <span title="Encrypted with a passphrase">
+                  <Lock className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
+                </span>
+              )}
+              {!canEditProject(folder.role) && (
+                <span className="flex items-center space-x-1 text-xs font-normal px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                  <Eye className="w-3 h-3" />
+                  <span>Read-only</span>
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 space-x-2">
+              {folder.sharedBy && (
+                <span>Shared by {folder.sharedBy}</span>
+              )}
+              {folder.wordCount !== undefined && (
+                <span>{folder.wordCount.toLocaleString()} {folder.wordCount === 1 ? 'word' : 'words'}</span>
+              )}
+              {folder.lastOpened && (
+                <span>Opened {new Date(folder.lastOpened).toLocaleDateString()}</span>
+              )}
+              {folder.lastModified && (
+                <span>Last modified: {new Date(folder.lastModified).toLocaleDateString()}</span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className={`flex items-center space-x-2 transition-all ${copyingId === folder.id ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+          {isDriveProject && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleOpenInDrive(folder.id);
+              }}
+              className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-all"
+              title="Open in Google Drive"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </button>
+          )}
+          {copyTarget && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleCopyProject(folder, copyTarget);
+              }}
+              disabled={copyingId !== null}
+              className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-all disabled:opacity-50"
+              title={isDriveProject ? 'Download a copy to this device for offline use' : 'Upload a copy to Google Drive'}
+            >
+              {copyingId === folder.id ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : isDriveProject ? (
+                <DownloadCloud className="w-4 h-4" />
+              ) : (
+                <UploadCloud className="w-4 h-4" />
+              )}
+            </button>
+          )}
+          {/* Only the owner can delete a shared project */}
+          {onDeleteProject && !folder.sharedBy && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (window.confirm(`Are you sure you want to delete "${folder.name}" from ${folder.backend.name}? This action cannot be undone.`)) {
+                  onDeleteProject(folder.id, folder.name, folder.backend);
+                }
+              }}
+              className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-all"
+              title="Delete project"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] flex flex-col">
@@ -91,9 +261,20 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
               Select or Create Project
             </h2>
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-              All your data will be stored securely in Google Drive
+              {isDriveAvailable
+                ? 'Projects are stored in Google Drive or on this device'
+                : 'Working locally – projects are stored in this browser'}
             </p>
           </div>
+          {!isDriveAvailable && onConnectDrive && (
+            <button
+              onClick={onConnectDrive}
+              className="flex items-center space-x-2 px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+            >
+              <Cloud className="w-4 h-4" />
+              <span>Connect Google Drive</span>
+            </button>
+          )}
         </div>
 
         {/* Content */}
@@ -129,63 +310,38 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
                 </div>
               )}
 
-              {/* Existing Projects */}
-              {projectFolders.length > 0 && (
-                <div>
-                  <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
-                    Existing Projects ({filteredFolders.length})
-                  </h3>
-                  <div className="space-y-2">
-                    {filteredFolders.map((folder) => (
-                      <div
-                        key={folder.id}
-                        className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer group"
-                        onClick={() => handleSelectProject(folder)}
-                      >
-                        <div className="flex items-center space-x-3 flex-1">
-                          <FolderOpen className="w-6 h-6 text-blue-600 dark:text-blue-400" />
-                          <div>
-                            <div className="font-medium text-gray-900 dark:text-white">
-                              {folder.name}
-                            </div>
-                            {folder.lastModified && (
-                              <div className="text-xs text-gray-500 dark:text-gray-400">
-                                Last modified: {new Date(folder.lastModified).toLocaleDateString()}
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                        <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-all">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleOpenInDrive(folder.id);
-                            }}
-                            className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-all"
-                            title="Open in Google Drive"
-                          >
-                            <ExternalLink className="w-4 h-4" />
-                          </button>
-                          {onDeleteProject && (
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                if (window.confirm(`Are you sure you want to delete "${folder.name}"? This action cannot be undone.`)) {
-                                  onDeleteProject(folder.id, folder.name);
-                                }
-                              }}
-                              className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-all"
-                              title="Delete project"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
+              {/* Existing Projects, grouped by where they are stored, then the ones shared with the user */}
+              {error && !showCreateForm && (
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
               )}
+              {[
+                ...backends.map(backend => ({
+                  key: backend.name,
+                  label: backend.name,
+                  icon: backend === googleDriveBackend ? <Cloud className="w-4 h-4" /> : <HardDrive className="w-4 h-4" />,
+                  matches: (folder: ProjectFolder) => folder.backend === backend && !folder.sharedBy,
+                })),
+                {
+                  key: 'shared',
+                  label: 'Shared with me',
+                  icon: <Users className="w-4 h-4" />,
+                  matches: (folder: ProjectFolder) => !!folder.sharedBy,
+                },
+              ].map(group => {
+                const folders = filteredFolders.filter(group.matches);
+                if (!projectFolders.some(group.matches)) return null;
+                return (
+                  <div key={group.key}>
+                    <h3 className="flex items-center space-x-2 text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                      {group.icon}
+                      <span>{group.label} ({folders.length})</span>
+                    </h3>
+                    <div className="space-y-2">
+                      {folders.map(renderProject)}
+                    </div>
+                  </div>
+                );
+              })}
 
               {/* No Projects Found */}
               {projectFolders.length === 0 && !showCreateForm && (
@@ -215,6 +371,47 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
                     {error && (
                       <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
                     )}
+                    {backends.length > 1 && (
+                      <div className="flex space-x-2">
+                        {backends.map(backend => (
+                          <button
+                            key={backend.name}
+                            onClick={() => setNewProjectBackend(backend)}
+                            className={`flex-1 flex items-center justify-center space-x-2 px-3 py-2 text-sm rounded-lg border transition-colors ${
+                              newProjectBackend === backend
+                                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                            }`}
+                          >
+                            {backend === googleDriveBackend ? <Cloud className="w-4 h-4" /> : <HardDrive className="w-4 h-4" />}
+                            <span>{backend.name}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {newProjectBackend.createEncryptedProject && (
+                      <>
+                        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={encryptNewProject}
+                            onChange={(e) => setEncryptNewProject(e.target.checked)}
+                          />
+                          <span>Encrypt with a passphrase</span>
+                        </label>
+                        {encryptNewProject && (
+                          <PassphraseFields
+                            passphrase={newPassphrase}
+                            confirmation={newPassphraseConfirmation}
+                            onChange={(passphrase, confirmation) => {
+                              setNewPassphrase(passphrase);
+                              setNewPassphraseConfirmation(confirmation);
+                            }}
+                            disabled={isCreating}
+                          />
+                        )}
+                      </>
+                    )}
                     <div className="flex space-x-2">
                       <button
                         onClick={handleCreateProject}
@@ -237,6 +434,9 @@ const ProjectSelectionModal: React.FC<ProjectSelectionModalProps> = ({
                         onClick={() => {
                           setShowCreateForm(false);
                           setNewProjectName('');
+                          setEncryptNewProject(false);
+                          setNewPassphrase('');
+                          setNewPassphraseConfirmation('');
                           setError(null);
                         }}
                         className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
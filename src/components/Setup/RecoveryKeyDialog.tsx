@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { KeyRound, Copy, Download, Check } from 'lucide-react';
+
+interface RecoveryKeyDialogProps {
+  recoveryKey: string;
+  projectName: string;
+  onClose: () => void;
+}
+
+// Shown once after encryption was turned on or the passphrase changed. The recovery key is the only
+// way back into the project if the passphrase is forgotten, so the user has to confirm they kept it.
+const RecoveryKeyDialog: React.FC<RecoveryKeyDialogProps> = ({ recoveryKey, projectName, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      setCopied(true);
+    } catch (error) {
+      console.error('❌ Could not copy recovery key:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const text = `Recovery key for "${projectName}"\n\n${recoveryKey}\n\nUse it to open the project if you forget its passphrase.\n`;
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${projectName} recovery key.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <KeyRound className="w-8 h-8 text-amber-600 dark:text-amber-400" />
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Save your recovery key</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              If you forget the passphrase, this key is the only way to open "{projectName}". Nobody else can recover it.
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="font-mono text-lg text-center tracking-wider px-4 py-3 rounded-lg bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-white select-all break-all">
+            {recoveryKey}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleCopy}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              <span>{copied ? 'Copied' : 'Copy'}</span>
+            </button>
+            <button
+              onClick={handleDownload}
+              className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={saved} onChange={(e) => setSaved(e.target.checked)} />
+            <span>I have stored the recovery key somewhere safe</span>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-end p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            disabled={!saved}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryKeyDialog;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Lock, Loader } from 'lucide-react';
+import { StorageBackend } from '../../services/storageBackend';
+import { WrongPassphraseError } from '../../services/projectEncryption';
+import PassphraseFields, { getPassphraseError } from './PassphraseFields';
+import RecoveryKeyDialog from './RecoveryKeyDialog';
+
+interface UnlockProjectDialogProps {
+  backend: StorageBackend;
+  projectId: string;
+  projectName: string;
+  onUnlocked: () => void;
+  onCancel: () => void;
+}
+
+// Asks for an encrypted project's passphrase. With the recovery key instead, the user picks a new
+// passphrase, which re-encrypts the project and gives them a new recovery key.
+const UnlockProjectDialog: React.FC<UnlockProjectDialogProps> = ({ backend, projectId, projectName, onUnlocked, onCancel }) => {
+  const [mode, setMode] = useState<'passphrase' | 'recovery' | 'reset'>('passphrase');
+  const [secret, setSecret] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      if (!(err instanceof WrongPassphraseError)) console.error(`❌ ${failure}`, err);
+      setError(err.message || failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => {
+    if (!secret.trim()) return;
+    run(async () => {
+      if (mode === 'recovery') {
+        await backend.unlockProject!(projectId, { recoveryKey: secret });
+        setMode('reset');
+      } else {
+        await backend.unlockProject!(projectId, { passphrase: secret });
+        onUnlocked();
+      }
+    }, 'Failed to unlock project');
+  };
+
+  const handleReset = () => {
+    const problem = getPassphraseError(passphrase, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(async () => {
+      setRecoveryKey(await backend.encryptProject!(projectId, passphrase));
+    }, 'Failed to set the new passphrase');
+  };
+
+  if (recoveryKey) {
+    return <RecoveryKeyDialog recoveryKey={recoveryKey} projectName={projectName} onClose={onUnlocked} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <Lock className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {mode === 'reset' ? 'Choose a new passphrase' : `Unlock "${projectName}"`}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {mode === 'passphrase' && 'This project is encrypted. Enter its passphrase to open it.'}
+              {mode === 'recovery' && 'Enter the recovery key you saved when the project was encrypted.'}
+              {mode === 'reset' && 'The recovery key worked. Set a new passphrase; the project will be re-encrypted with it.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {mode === 'reset' ? (
+            <PassphraseFields
+              passphrase={passphrase}
+              confirmation={confirmation}
+              onChange={(next, nextConfirmation) => {
+                setPassphrase(next);
+                setConfirmation(nextConfirmation);
+              }}
+              disabled={isBusy}
+              autoFocus
+            />
+          ) : (
+            <input
+              type={mode === 'passphrase' ? 'password' : 'text'}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              placeholder={mode === 'passphrase' ? 'Passphrase' : 'XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX'}
+              className={`form-input w-full ${mode === 'recovery' ? 'font-mono' : ''}`}
+              autoComplete={mode === 'passphrase' ? 'current-password' : 'off'}
+              disabled={isBusy}
+              autoFocus
+            />
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {mode !== 'reset' && (
+            <button
+              onClick={() => {
+                setMode(mode === 'passphrase' ? 'recovery' : 'passphrase');
+                setSecret('');
+                setError(null);
+              }}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {mode === 'passphrase' ? 'Forgot the passphrase? Use the recovery key' : 'Use the passphrase instead'}
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-2 p-6 border-t border-gray-200 dark:border-gray-700">
+          {mode === 'reset' ? (
+            // People without edit access can't re-encrypt the project, but can still open it
+            <button
+              onClick={onUnlocked}
+              disabled={isBusy}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Skip for now
+            </button>
+          ) : (
+            <button
+              onClick={onCancel}
+              disabled={isBusy}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={mode === 'reset' ? handleReset : handleUnlock}
+            disabled={isBusy || (mode !== 'reset' && !secret.trim())}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isBusy && <Loader className="w-4 h-4 animate-spin" />}
+            <span>{mode === 'reset' ? (isBusy ? 'Re-encrypting...' : 'Set passphrase') : 'Unlock'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockProjectDialog;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { FileText, Layout, Database, Map, Settings, X, Sun, Moon, Folder, FolderOpen } from 'lucide-react';
+import { FileText, Layout, Database, Map, Settings, X, Sun, Moon, Folder, FolderOpen, History } from 'lucide-react';
 
 const Sidebar: React.FC = () => {
   const {
@@ -42,6 +42,12 @@ const Sidebar: React.FC = () => {
       icon: Folder,
       description: 'View and download project files',
     },
+    {
+      id: 'history',
+      label: 'History',
+      icon: History,
+      description: 'Undo recent changes and restore snapshots',
+    },
     {
       id: 'settings',
       label: 'Settings',
@@ -57,6 +63,7 @@ const Sidebar: React.FC = () => {
       database: 'Database View',
       mapbuilder: 'Map Builder',
       projectfiles: 'Project Files',
+      history: 'History',
       settings: 'Settings',
     };
     
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
-import { Character, Location, PlotPoint } from '../../database/schema';
+import { Character, Location, PlotPoint } from '../../services/storageService';
 import { Plus, User, MapPin, Target, StickyNote, GripVertical } from 'lucide-react';
 
 interface ElementPaletteProps {
   characters: Character[];
   locations: Location[];
   plotPoints: PlotPoint[];
-  onAddElement: (type: 'character' | 'location' | 'plot_point' | 'note', elementId?: number, content?: string, x?: number, y?: number) => void;
+  onAddElement: (type: 'character' | 'location' | 'plot_point' | 'note', elementId?: string, content?: string, x?: number, y?: number) => void;
 }
 
 const ElementPalette: React.FC<ElementPaletteProps> = ({
@@ -16,9 +16,9 @@ const ElementPalette: React.FC<ElementPaletteProps> = ({
   onAddElement,
 }) => {
   const [activeTab, setActiveTab] = useState<'characters' | 'locations' | 'plotPoints' | 'notes'>('characters');
-  const [draggedItem, setDraggedItem] = useState<{type: 'character' | 'location' | 'plot_point' | 'note', id?: number} | null>(null);
+  const [draggedItem, setDraggedItem] = useState<{type: 'character' | 'location' | 'plot_point' | 'note', id?: string} | null>(null);
 
-  const handleDragStart = (type: 'character' | 'location' | 'plot_point' | 'note', id?: number) => {
+  const handleDragStart = (type: 'character' | 'location' | 'plot_point' | 'note', id?: string) => {
     setDraggedItem({ type, id });
     
     // Set up drag data for canvas
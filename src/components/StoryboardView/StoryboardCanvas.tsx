@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { fabric } from 'fabric';
-import { StoryboardElement, StoryboardCanvas as CanvasState } from '../../types';
-import { Character, Location, PlotPoint } from '../../database/schema';
+import { StoryboardCanvas as CanvasState } from '../../types';
+import { StoryboardElement, Character, Location, PlotPoint } from '../../services/storageService';
 import { Link, Unlink, ZoomIn, ZoomOut, Maximize2, Grid, Pen, Type, Eraser, Palette, MousePointer } from 'lucide-react';
 
 interface StoryboardCanvasProps {
@@ -11,10 +11,11 @@ interface StoryboardCanvasProps {
   plotPoints: PlotPoint[];
   canvas: CanvasState;
   onUpdateCanvas: (updates: Partial<CanvasState>) => void;
-  onUpdateElement: (id: number, updates: Partial<StoryboardElement>) => void;
-  onDeleteElement: (id: number) => void;
-  onConnectElements: (fromId: number, toId: number) => void;
-  onAddElement: (type: StoryboardElement['type'], elementId?: number, content?: string, x?: number, y?: number) => void;
+  onUpdateElement: (id: string, updates: Partial<StoryboardElement>) => void;
+  onDeleteElement: (id: string) => void;
+  onConnectElements: (fromId: string, toId: string) => void;
+  onAddElement: (type: StoryboardElement['type'], elementId?: string, content?: string, x?: number, y?: number) => void;
+  readOnly?: boolean; // Cards can be looked at but not drawn, moved, connected or deleted
 }
 
 const StoryboardCanvas: React.FC<StoryboardCanvasProps> = ({
@@ -28,6 +29,7 @@ const StoryboardCanvas: React.FC<StoryboardCanvasProps> = ({
   onDeleteElement,
   onConnectElements,
   onAddElement,
+  readOnly = false,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
@@ -35,9 +37,9 @@ const StoryboardCanvas: React.FC<StoryboardCanvasProps> = ({
   const [isDragging, setIsDragging] = useState(false);
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 });
   const [connectionMode, setConnectionMode] = useState(false);
-  const [connectionStart, setConnectionStart] = useState<number | null>(null);
+  const [connectionStart, setConnectionStart] = useState<string | null>(null);
   const [isDraggingFromPalette, setIsDraggingFromPalette] = useState(false);
-  const [dragData, setDragData] = useState<{type: StoryboardElement['type'], elementId?: number} | null>(null);
+  const [dragData, setDragData] = useState<{type: StoryboardElement['type'], elementId?: string} | null>(null);
   const [dragPreview, setDragPreview] = useState<{x: number, y: number, visible: boolean}>({x: 0, y: 0, visible: false});
   const [drawingMode, setDrawingMode] = useState<'select' | 'pen' | 'highlighter' | 'eraser' | 'text'>('select');
   const [isDrawing, setIsDrawing] = useState(false);
@@ -326,6 +328,9 @@ const StoryboardCanvas: React.FC<StoryboardCanvasProps> = ({
     elements.forEach(element => {
       const obj = createFabricElement(element);
       if (obj) {
+        if (readOnly) {
+          obj.set({ selectable: false, hoverCursor: 'default' });
+        }
         fabricCanvasRef.current!.add(obj);
       }
     });
@@ -616,80 +621,82 @@ const StoryboardCanvas: React.FC<StoryboardCanvasProps> = ({
       />
       
       {/* Enhanced Toolbar */}
-      <div className="absolute top-4 left-4 flex gap-2 bg-white rounded-lg shadow-lg p-2">
-        {/* Drawing Tools */}
-        <div className="flex gap-1 border-r border-gray-200 pr-2 mr-2">
-          <button
-            onClick={() => setDrawingMode('select')}
-            className={`p-2 rounded transition-colors ${
-              drawingMode === 'select' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
-            }`}
-            title="Select Tool"
-          >
-            <MousePointer className="w-5 h-5" />
-          </button>
-          <button
-            onClick={() => setDrawingMode('pen')}
-            className={`p-2 rounded transition-colors ${
-              drawingMode === 'pen' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
-            }`}
-            title="Pen Tool"
-          >
-            <Pen className="w-5 h-5" />
-          </button>
-          <button
-            onClick={() => setDrawingMode('text')}
-            className={`p-2 rounded transition-colors ${
-              drawingMode === 'text' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
-            }`}
-            title="Text Tool"
-          >
-            <Type className="w-5 h-5" />
-          </button>
+      {!readOnly && (
+        <div className="absolute top-4 left-4 flex gap-2 bg-white rounded-lg shadow-lg p-2">
+          {/* Drawing Tools */}
+          <div className="flex gap-1 border-r border-gray-200 pr-2 mr-2">
+            <button
+              onClick={() => setDrawingMode('select')}
+              className={`p-2 rounded transition-colors ${
+                drawingMode === 'select' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
+              }`}
+              title="Select Tool"
+            >
+              <MousePointer className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setDrawingMode('pen')}
+              className={`p-2 rounded transition-colors ${
+                drawingMode === 'pen' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
+              }`}
+              title="Pen Tool"
+            >
+              <Pen className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setDrawingMode('text')}
+              className={`p-2 rounded transition-colors ${
+                drawingMode === 'text' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
+              }`}
+              title="Text Tool"
+            >
+              <Type className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setDrawingMode('eraser')}
+              className={`p-2 rounded transition-colors ${
+                drawingMode === 'eraser' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
+              }`}
+              title="Eraser Tool"
+            >
+              <Eraser className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Connection Tool */}
           <button
-            onClick={() => setDrawingMode('eraser')}
-            className={`p-2 rounded transition-colors ${
-              drawingMode === 'eraser' ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100'
+            onClick={toggleConnectionMode}
+            className={`px-3 py-2 rounded transition-colors ${
+              connectionMode
+                ? 'bg-blue-600 text-white'
+                : 'hover:bg-gray-100'
             }`}
-            title="Eraser Tool"
+            title={connectionMode ? 'Exit Connection Mode' : 'Connect Elements'}
           >
-            <Eraser className="w-5 h-5" />
+            {connectionMode ? <Unlink className="w-5 h-5" /> : <Link className="w-5 h-5" />}
           </button>
-        </div>
-
-        {/* Connection Tool */}
-        <button
-          onClick={toggleConnectionMode}
-          className={`px-3 py-2 rounded transition-colors ${
-            connectionMode
-              ? 'bg-blue-600 text-white'
-              : 'hover:bg-gray-100'
-          }`}
-          title={connectionMode ? 'Exit Connection Mode' : 'Connect Elements'}
-        >
-          {connectionMode ? <Unlink className="w-5 h-5" /> : <Link className="w-5 h-5" />}
-        </button>
 
-        {/* Brush Settings */}
-        {drawingMode === 'pen' && (
-          <div className="flex items-center gap-2 border-l border-gray-200 pl-2 ml-2">
-            <input
-              type="range"
-              min="1"
-              max="20"
-              value={brushSize}
-              onChange={(e) => setBrushSize(Number(e.target.value))}
-              className="w-16"
-            />
-            <input
-              type="color"
-              value={brushColor}
-              onChange={(e) => setBrushColor(e.target.value)}
-              className="w-8 h-8 rounded border border-gray-300"
-            />
-          </div>
-        )}
-      </div>
+          {/* Brush Settings */}
+          {drawingMode === 'pen' && (
+            <div className="flex items-center gap-2 border-l border-gray-200 pl-2 ml-2">
+              <input
+                type="range"
+                min="1"
+                max="20"
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="w-16"
+              />
+              <input
+                type="color"
+                value={brushColor}
+                onChange={(e) => setBrushColor(e.target.value)}
+                className="w-8 h-8 rounded border border-gray-300"
+              />
+            </div>
+          )}
+        </div>
+      )}
       
       {/* Zoom Controls */}
       <div className="absolute top-4 right-4 flex flex-col gap-2 bg-white rounded-lg shadow-lg p-2">
@@ -1,43 +1,32 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { db, StoryboardElement, Character, Location, PlotPoint } from '../../database/schema';
+import {
+  useProjectStore,
+  selectStoryboardElements,
+  selectCharacters,
+  selectLocations,
+  selectPlotPoints,
+} from '../../store/useProjectStore';
+import { storageService, StoryboardElement } from '../../services/storageService';
 import StoryboardCanvas from './StoryboardCanvas';
 import StoryboardToolbar from './StoryboardToolbar';
 import ElementPalette from './ElementPalette';
 import Timeline from './Timeline';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
 
 const StoryboardView: React.FC = () => {
   const { storyboardCanvas, updateStoryboardCanvas } = useAppStore();
-  const [elements, setElements] = useState<StoryboardElement[]>([]);
-  const [characters, setCharacters] = useState<Character[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
-  const [plotPoints, setPlotPoints] = useState<PlotPoint[]>([]);
+  const elements = useProjectStore(selectStoryboardElements);
+  const characters = useProjectStore(selectCharacters);
+  const locations = useProjectStore(selectLocations);
+  const plotPoints = useProjectStore(selectPlotPoints);
   const [showElementPalette, setShowElementPalette] = useState(false);
   const [showTimeline, setShowTimeline] = useState(true);
 
-  useEffect(() => {
-    loadData();
-  }, []);
+  useUndoRedoShortcuts('storyboard');
+  const readOnly = storageService.isReadOnly();
 
-  const loadData = async () => {
-    try {
-      const [elementsData, charactersData, locationsData, plotPointsData] = await Promise.all([
-        db.storyboardElements.toArray(),
-        db.characters.toArray(),
-        db.locations.toArray(),
-        db.plotPoints.toArray(),
-      ]);
-
-      setElements(elementsData);
-      setCharacters(charactersData);
-      setLocations(locationsData);
-      setPlotPoints(plotPointsData);
-    } catch (error) {
-      console.error('Error loading storyboard data:', error);
-    }
-  };
-
-  const addElement = async (type: StoryboardElement['type'], elementId?: number, content?: string, x?: number, y?: number) => {
+  const addElement = async (type: StoryboardElement['type'], elementId?: string, content?: string, x?: number, y?: number) => {
     try {
       const newElement: Omit<StoryboardElement, 'id' | 'createdAt' | 'updatedAt'> = {
         type,
@@ -58,48 +47,31 @@ const StoryboardView: React.FC = () => {
         connections: [],
       };
 
-      const id = await db.storyboardElements.add(newElement);
-      const createdElement = await db.storyboardElements.get(id);
-      if (createdElement) {
-        setElements(prev => [...prev, createdElement]);
-      }
+      await storageService.addStoryboardElement(newElement);
     } catch (error) {
       console.error('Error adding element:', error);
     }
   };
 
-  const updateElement = async (id: number, updates: Partial<StoryboardElement>) => {
+  const updateElement = async (id: string, updates: Partial<StoryboardElement>) => {
     try {
-      await db.storyboardElements.update(id, updates);
-      setElements(prev => prev.map(el => el.id === id ? { ...el, ...updates } : el));
+      await storageService.updateStoryboardElement(id, updates);
     } catch (error) {
       console.error('Error updating element:', error);
     }
   };
 
-  const deleteElement = async (id: number) => {
+  const deleteElement = async (id: string) => {
     try {
-      await db.storyboardElements.delete(id);
-      setElements(prev => prev.filter(el => el.id !== id));
+      await storageService.deleteStoryboardElement(id);
     } catch (error) {
       console.error('Error deleting element:', error);
     }
   };
 
-  const connectElements = async (fromId: number, toId: number) => {
+  const connectElements = async (fromId: string, toId: string) => {
     try {
-      const fromElement = elements.find(el => el.id === fromId);
-      const toElement = elements.find(el => el.id === toId);
-      
-      if (fromElement && toElement) {
-        const updatedFromConnections = [...fromElement.connections, toId];
-        const updatedToConnections = [...toElement.connections, fromId];
-        
-        await Promise.all([
-          updateElement(fromId, { connections: updatedFromConnections }),
-          updateElement(toId, { connections: updatedToConnections }),
-        ]);
-      }
+      await storageService.connectStoryboardElements(fromId, toId);
     } catch (error) {
       console.error('Error connecting elements:', error);
     }
@@ -118,7 +90,7 @@ const StoryboardView: React.FC = () => {
       {/* Main Content Area */}
       <div className="flex-1 flex relative">
         {/* Element Palette */}
-        {showElementPalette && (
+        {showElementPalette && !readOnly && (
           <div className="w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700">
             <ElementPalette
               characters={characters}
@@ -142,6 +114,7 @@ const StoryboardView: React.FC = () => {
             onDeleteElement={deleteElement}
             onConnectElements={connectElements}
             onAddElement={addElement}
+            readOnly={readOnly}
           />
         </div>
       </div>
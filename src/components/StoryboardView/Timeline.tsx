@@ -1,5 +1,5 @@
 import React from 'react';
-import { StoryboardElement } from '../../types';
+import { StoryboardElement } from '../../services/storageService';
 import { Clock, Calendar } from 'lucide-react';
 
 interface TimelineProps {
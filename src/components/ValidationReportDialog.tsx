@@ -0,0 +1,112 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ValidationReport, RepairMode, formatIssue } from '../services/projectValidation';
+
+interface ValidationReportDialogProps {
+  title: string;
+  description: string;
+  report: ValidationReport;
+  // Without onResolve the dialog is informational and only offers Close
+  onResolve?: (mode: RepairMode) => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  characters: 'Characters',
+  locations: 'Locations',
+  plotPoints: 'Plot Points',
+  chapters: 'Chapters',
+  storyboardElements: 'Storyboard',
+  documents: 'Documents',
+  mapElements: 'Map Elements',
+  maps: 'Maps',
+  trash: 'Trash',
+};
+
+const ValidationReportDialog: React.FC<ValidationReportDialogProps> = ({
+  title,
+  description,
+  report,
+  onResolve,
+  onClose,
+}) => {
+  // Group problems by collection so large reports stay readable
+  const groups = report.issues.reduce<Record<string, typeof report.issues>>((acc, issue) => {
+    const key = issue.collection ? COLLECTION_LABELS[issue.collection] || issue.collection : 'Project';
+    (acc[key] = acc[key] || []).push(issue);
+    return acc;
+  }, {});
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center space-x-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <AlertTriangle className="w-8 h-8 text-amber-600 dark:text-amber-400" />
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{title}</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{description}</p>
+          </div>
+        </div>
+
+        {/* Problems */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {Object.entries(groups).map(([group, issues]) => (
+            <div key={group}>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                {group} ({issues.length})
+              </h3>
+              <ul className="space-y-1">
+                {issues.map((issue, index) => (
+                  <li
+                    key={`${issue.path}-${index}`}
+                    className="text-sm text-gray-600 dark:text-gray-400 font-mono bg-gray-50 dark:bg-gray-900 rounded px-2 py-1"
+                  >
+                    {formatIssue(issue)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-2 p-6 border-t border-gray-200 dark:border-gray-700">
+          {onResolve ? (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onResolve('drop')}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                title="Leave out every record that has a problem"
+              >
+                Drop Invalid Records
+              </button>
+              <button
+                onClick={() => onResolve('repair')}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                title="Fix invalid fields with default values and keep the records"
+              >
+                Repair
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportDialog;
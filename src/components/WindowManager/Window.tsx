@@ -8,6 +8,7 @@ import DatabaseView from '../DatabaseView/DatabaseView';
 import MapBuilder from '../MapBuilder/MapBuilder';
 import Settings from '../Settings/Settings';
 import ProjectFiles from '../ProjectFiles/ProjectFiles';
+import HistoryPanel from '../History/HistoryPanel';
 import { detectSnapZone, applyWindowConstraints, DEFAULT_WINDOW_CONSTRAINTS } from './windowSnapUtils';
 
 interface WindowProps {
@@ -221,6 +222,8 @@ const Window: React.FC<WindowProps> = ({ window, isActive, onClick }) => {
         return <MapBuilder />;
       case 'projectfiles':
         return <ProjectFiles />;
+      case 'history':
+        return <HistoryPanel />;
       case 'settings':
         return <Settings />;
       default:
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { collaborationService, Collaborator } from '../services/collaborationService';
+
+// Collaborators currently in the open project, updated as they move around
+export function useCollaborators(): Collaborator[] {
+  const [peers, setPeers] = useState<Collaborator[]>(collaborationService.getPeers());
+
+  useEffect(() => {
+    setPeers(collaborationService.getPeers());
+    return collaborationService.onPresenceChange(setPeers);
+  }, []);
+
+  return peers;
+}
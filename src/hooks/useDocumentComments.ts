@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { storageService, CommentThread } from '../services/storageService';
+
+const getThreads = (documentId?: string): CommentThread[] =>
+  (documentId && storageService.getData().documents.find(d => d.id === documentId)?.comments) || [];
+
+// The comment threads of a document, kept current as they change here or for a collaborator,
+// and a setter that saves a new list with the document. Pass the content too when anchors were added to it.
+export function useDocumentComments(
+  documentId?: string
+): [CommentThread[], (threads: CommentThread[], content?: string) => Promise<void>] {
+  const [threads, setThreads] = useState<CommentThread[]>(() => getThreads(documentId));
+
+  useEffect(() => {
+    setThreads(getThreads(documentId));
+    if (!documentId) return;
+    return storageService.onEntityChange('document', documentId, () => setThreads(getThreads(documentId)));
+  }, [documentId]);
+
+  const saveThreads = async (next: CommentThread[], content?: string) => {
+    if (!documentId) return;
+    setThreads(next);
+    await storageService.updateDocumentComments(documentId, next, content);
+  };
+
+  return [threads, saveThreads];
+}
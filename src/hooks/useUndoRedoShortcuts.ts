@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { storageService } from '../services/storageService';
+import { WindowState } from '../types';
+
+// Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes project changes
+// while a window of the given type is focused. Text fields keep their own undo.
+export function useUndoRedoShortcuts(windowType: WindowState['type']): void {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey);
+      if (!isUndo && !isRedo) return;
+
+      const { windows, activeWindowId } = useAppStore.getState();
+      const activeWindow = windows.find(w => w.id === activeWindowId);
+      if (activeWindow?.type !== windowType) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      e.preventDefault();
+      if (isUndo) {
+        storageService.undo();
+      } else {
+        storageService.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [windowType]);
+}
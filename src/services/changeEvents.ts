@@ -0,0 +1,118 @@
+// Typed change events for project data
+// StorageService emits one event per changed entity once the change has been applied, so views can
+// subscribe to the kinds of entities (or the single entities) they show instead of polling.
+
+import { HistoryCollection } from './projectHistory';
+import { isEqual } from './projectMerge';
+
+export type EntityKind =
+  | 'character'
+  | 'location'
+  | 'plotPoint'
+  | 'chapter'
+  | 'storyboardElement'
+  | 'document'
+  | 'map'
+  | 'trashItem';
+
+export type ChangeOp = 'add' | 'update' | 'delete';
+
+export interface EntityChangeEvent {
+  kind: EntityKind;
+  op: ChangeOp;
+  id: string;
+  changedFields?: string[]; // Set for updates
+}
+
+export interface SettingsChangeEvent {
+  kind: 'settings';
+  op: 'update';
+  changedFields: string[];
+}
+
+// The whole project was replaced, e.g. loaded, imported, merged or restored from a snapshot
+export interface ProjectReloadEvent {
+  kind: 'project';
+  op: 'reload';
+}
+
+export type ChangeEvent = EntityChangeEvent | SettingsChangeEvent | ProjectReloadEvent;
+export type ChangeEventKind = ChangeEvent['kind'];
+export type ChangeListener = (event: ChangeEvent) => void;
+
+// The event kind for each project collection
+export const COLLECTION_KINDS: Record<HistoryCollection, EntityKind> = {
+  characters: 'character',
+  locations: 'location',
+  plotPoints: 'plotPoint',
+  chapters: 'chapter',
+  storyboardElements: 'storyboardElement',
+  documents: 'document',
+  maps: 'map',
+  trash: 'trashItem',
+};
+
+// Top-level fields that differ between two versions of an entity, ignoring the timestamp
+export function getChangedFields(before: any, after: any): string[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  fields.delete('updatedAt');
+  return Array.from(fields).filter(field => !isEqual(before?.[field], after?.[field]));
+}
+
+export class ChangeEventBus {
+  private listeners: ChangeListener[] = [];
+  private kindListeners = new Map<ChangeEventKind, ChangeListener[]>();
+  private entityListeners = new Map<string, ChangeListener[]>();
+
+  // Every event
+  on(listener: ChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Events for the given kinds. Project reloads are passed on too, since they can change anything.
+  onKind(kinds: ChangeEventKind | ChangeEventKind[], listener: ChangeListener): () => void {
+    const unsubscribes = (Array.isArray(kinds) ? kinds : [kinds]).map(kind => this.add(this.kindListeners, kind, listener));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Events for one entity, plus project reloads
+  onEntity(kind: EntityKind, id: string, listener: ChangeListener): () => void {
+    return this.add(this.entityListeners, `${kind}:${id}`, listener);
+  }
+
+  emit(event: ChangeEvent): void {
+    this.listeners.forEach(listener => listener(event));
+
+    if (event.kind === 'project') {
+      // Each listener hears about a reload once, however many kinds or entities it watches
+      const notified = new Set<ChangeListener>(this.listeners);
+      [...this.kindListeners.values(), ...this.entityListeners.values()].flat().forEach(listener => {
+        if (!notified.has(listener)) {
+          notified.add(listener);
+          listener(event);
+        }
+      });
+      return;
+    }
+
+    (this.kindListeners.get(event.kind) || []).forEach(listener => listener(event));
+    if ('id' in event) {
+      (this.entityListeners.get(`${event.kind}:${event.id}`) || []).forEach(listener => listener(event));
+    }
+  }
+
+  private add<K>(map: Map<K, ChangeListener[]>, key: K, listener: ChangeListener): () => void {
+    map.set(key, [...(map.get(key) || []), listener]);
+    return () => {
+      const remaining = (map.get(key) || []).filter(l => l !== listener);
+      if (remaining.length > 0) {
+        map.set(key, remaining);
+      } else {
+        map.delete(key);
+      }
+    };
+  }
+}
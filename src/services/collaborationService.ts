@@ -0,0 +1,177 @@
+// Real-time collaboration on the open project
+// Local edits reach the shared document (projectCrdt.ts) through storageService's change events, and
+// collaborators' edits come back through storageService.applyRemoteChange. Presence (who is here,
+// where their caret is, which record they are editing) travels as Yjs awareness state.
+
+import { Awareness } from 'y-protocols/awareness';
+import { storageService } from './storageService';
+import { ProjectCrdt, CrdtCollection, CRDT_COLLECTIONS } from './projectCrdt';
+import { SyncProvider, SyncStatus } from './syncProvider';
+import { COLLECTION_KINDS, ChangeEvent } from './changeEvents';
+
+export interface CollaboratorUser {
+  id: string;
+  name: string;
+  color: string;
+  picture?: string;
+}
+
+export interface CollaboratorCursor {
+  documentId: string;
+  offset: number; // In the document's text, ignoring markup
+  length: number; // Selected characters
+}
+
+// A record someone has open for editing, e.g. a character row in the database view
+export interface CollaboratorEditing {
+  kind: 'character';
+  id: string;
+}
+
+export interface Collaborator {
+  clientId: number;
+  user: CollaboratorUser;
+  cursor?: CollaboratorCursor;
+  editing?: CollaboratorEditing;
+}
+
+const COLLABORATOR_COLORS = ['#E11D48', '#2563EB', '#16A34A', '#D97706', '#7C3AED', '#0891B2', '#DB2777', '#65A30D'];
+
+// The same user gets the same color in every session
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+class CollaborationService {
+  private static instance: CollaborationService;
+  private crdt: ProjectCrdt | null = null;
+  private awareness: Awareness | null = null;
+  private provider: SyncProvider | null = null;
+  private unsubscribes: Array<() => void> = [];
+  private peers: Collaborator[] = [];
+  private presenceListeners: Array<(peers: Collaborator[]) => void> = [];
+  private statusListeners: Array<(status: SyncStatus) => void> = [];
+
+  static getInstance(): CollaborationService {
+    if (!CollaborationService.instance) {
+      CollaborationService.instance = new CollaborationService();
+    }
+    return CollaborationService.instance;
+  }
+
+  // Share the open project with everyone in the room. Call after storageService was initialized.
+  start(room: string, provider: SyncProvider, user: Omit<CollaboratorUser, 'color'>): void {
+    this.stop();
+
+    const crdt = new ProjectCrdt();
+    crdt.load(storageService.getData());
+    const awareness = new Awareness(crdt.doc);
+    awareness.setLocalState({ user: { ...user, color: getCollaboratorColor(user.id) } });
+    awareness.on('change', this.handlePresenceChange);
+
+    this.crdt = crdt;
+    this.awareness = awareness;
+    this.provider = provider;
+    this.unsubscribes = [
+      storageService.onChange(event => this.handleLocalChange(event)),
+      crdt.onRemoteChange(({ collection, id, entity }) => storageService.applyRemoteChange(collection, id, entity)),
+      provider.onStatusChange(status => this.statusListeners.forEach(listener => listener(status))),
+    ];
+
+    provider.connect(room, crdt.doc, awareness);
+    console.log('🤝 Collaboration started in room', room);
+  }
+
+  stop(): void {
+    if (!this.crdt) return;
+    this.unsubscribes.forEach(unsubscribe => unsubscribe());
+    this.unsubscribes = [];
+    this.provider?.disconnect();
+    this.awareness?.off('change', this.handlePresenceChange);
+    this.awareness?.destroy();
+    this.crdt.destroy();
+    this.crdt = null;
+    this.awareness = null;
+    this.provider = null;
+    this.setPeers([]);
+  }
+
+  isActive(): boolean {
+    return this.crdt !== null;
+  }
+
+  getStatus(): SyncStatus {
+    return this.provider?.getStatus() || 'disconnected';
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Everyone else in the room
+  getPeers(): Collaborator[] {
+    return this.peers;
+  }
+
+  onPresenceChange(listener: (peers: Collaborator[]) => void): () => void {
+    this.presenceListeners.push(listener);
+    return () => {
+      this.presenceListeners = this.presenceListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Where this user's caret is, or null when they left the document
+  setCursor(cursor: CollaboratorCursor | null): void {
+    this.awareness?.setLocalStateField('cursor', cursor || undefined);
+  }
+
+  // The record this user is editing, or null when they stopped
+  setEditing(editing: CollaboratorEditing | null): void {
+    this.awareness?.setLocalStateField('editing', editing || undefined);
+  }
+
+  // Applying a collaborator's change emits an event too; sharing it again changes nothing,
+  // since the shared document only takes fields that differ
+  private handleLocalChange(event: ChangeEvent): void {
+    const crdt = this.crdt;
+    if (!crdt || storageService.isReadOnly()) return;
+
+    const data = storageService.getData();
+    if (event.kind === 'project') {
+      crdt.replace(data);
+      return;
+    }
+    if (event.kind === 'settings') return;
+
+    const collection = CRDT_COLLECTIONS.find(c => COLLECTION_KINDS[c] === event.kind) as CrdtCollection | undefined;
+    if (!collection) return;
+    const entity = ((data as any)[collection] || []).find((item: any) => item.id === event.id) || null;
+    crdt.applyLocal(collection, event.id, entity);
+  }
+
+  private handlePresenceChange = (): void => {
+    const awareness = this.awareness;
+    if (!awareness) return;
+
+    const peers: Collaborator[] = [];
+    awareness.getStates().forEach((state: any, clientId) => {
+      if (clientId === awareness.clientID || !state?.user) return;
+      peers.push({ clientId, user: state.user, cursor: state.cursor, editing: state.editing });
+    });
+    this.setPeers(peers);
+  };
+
+  private setPeers(peers: Collaborator[]): void {
+    this.peers = peers;
+    this.presenceListeners.forEach(listener => listener(peers));
+  }
+}
+
+export const collaborationService = CollaborationService.getInstance();
@@ -0,0 +1,64 @@
+// Comment threads in the margin of documents
+// Threads are stored on the document (Document.comments). These helpers return new thread lists so
+// changes go through storageService.updateDocumentComments like any other edit, with undo and sync.
+
+import { CommentThread, DocumentComment } from './storageService';
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const createComment = (author: string, text: string): DocumentComment => ({
+  id: generateId('comment'),
+  author,
+  text,
+  createdAt: new Date().toISOString(),
+});
+
+export function createCommentThread(quote: string, author: string, text: string): CommentThread {
+  const comment = createComment(author, text);
+  return {
+    id: generateId('thread'),
+    quote,
+    comments: [comment],
+    resolved: false,
+    createdAt: comment.createdAt,
+  };
+}
+
+export function addReply(threads: CommentThread[], threadId: string, author: string, text: string): CommentThread[] {
+  return threads.map(thread => thread.id === threadId
+    ? { ...thread, comments: [...thread.comments, createComment(author, text)] }
+    : thread);
+}
+
+export function setThreadResolved(threads: CommentThread[], threadId: string, resolved: boolean, author: string): CommentThread[] {
+  return threads.map(thread => {
+    if (thread.id !== threadId) return thread;
+    return resolved
+      ? { ...thread, resolved: true, resolvedBy: author, resolvedAt: new Date().toISOString() }
+      : { ...thread, resolved: false, resolvedBy: undefined, resolvedAt: undefined };
+  });
+}
+
+// Everyone who wrote in any of the threads, for filtering
+export function getCommentAuthors(threads: CommentThread[]): string[] {
+  const authors = new Set<string>();
+  threads.forEach(thread => thread.comments.forEach(comment => authors.add(comment.author)));
+  return [...authors].sort((a, b) => a.localeCompare(b));
+}
+
+// Threads someone took part in, and resolved ones only when asked for
+export function filterThreads(threads: CommentThread[], author: string | null, showResolved: boolean): CommentThread[] {
+  return threads.filter(thread =>
+    (showResolved || !thread.resolved) &&
+    (!author || thread.comments.some(comment => comment.author === author)));
+}
+
+// A document's HTML without the anchors of its comment threads (<span data-comment-id>), to tell
+// whether an edit did anything but add or remove comments. Parsed into an inert document, so nothing
+// in the HTML runs or loads.
+export function withoutCommentAnchors(html: string): string {
+  const container = new DOMParser().parseFromString(html || '', 'text/html').body;
+  container.querySelectorAll('span[data-comment-id]').forEach(anchor => anchor.replaceWith(...Array.from(anchor.childNodes)));
+  container.normalize();
+  return container.innerHTML;
+}
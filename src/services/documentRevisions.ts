@@ -0,0 +1,219 @@
+// Revision history of a single document
+// Revisions are captured when an editing session ends, after a large change and on demand as named
+// versions. They are stored as a chain of deltas: the newest revision keeps the full content, each
+// older one only what it takes to turn the next newer revision back into it.
+
+import { diffWords, diffWordsWithSpace } from 'diff';
+
+// What caused a revision to be captured
+export type RevisionTrigger = 'session' | 'size' | 'manual' | 'restore';
+
+export interface RevisionInfo {
+  id: string;
+  name?: string; // Named versions are kept when old revisions are pruned
+  trigger: RevisionTrigger;
+  createdAt: string;
+  wordCount: number;
+}
+
+// Keep n characters (positive), skip n characters (negative), or insert a string
+export type TextDelta = Array<number | string>;
+
+export interface StoredRevision extends RevisionInfo {
+  content?: string; // Only on the newest revision
+  delta?: TextDelta; // Turns the next newer revision's content into this one's
+}
+
+export interface RevisionLog {
+  documentId: string;
+  revisions: StoredRevision[]; // Oldest first
+}
+
+// A captured revision waiting in the save queue, added to whatever log is stored once it is written
+export interface PendingRevision {
+  documentId: string;
+  info: RevisionInfo;
+  content: string;
+  startContent?: string; // The document before the editing session, kept if it has no revisions yet
+  startedAt?: string;
+}
+
+// A word-level change between two versions, for the diff viewer
+export interface RevisionDiffPart {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export const MAX_AUTO_REVISIONS = 100; // Older automatic revisions are pruned, named ones are kept
+
+const DIFF_TIMEOUT = 2000; // Give up on diffing and store the whole text instead, in milliseconds
+
+export function createEmptyRevisionLog(documentId: string): RevisionLog {
+  return { documentId, revisions: [] };
+}
+
+// Ops that turn `from` into `to`. HTML is diffed word by word, so a typo fix costs a few characters.
+export function createDelta(from: string, to: string): TextDelta {
+  if (from === to) return from.length > 0 ? [from.length] : [];
+
+  const changes = diffWordsWithSpace(from, to, { timeout: DIFF_TIMEOUT });
+  if (!changes) {
+    // Too different to diff in time
+    return [-from.length, to];
+  }
+
+  const delta: TextDelta = [];
+  const push = (op: number | string) => {
+    const last = delta[delta.length - 1];
+    if (typeof op === 'number' && typeof last === 'number' && Math.sign(op) === Math.sign(last)) {
+      delta[delta.length - 1] = last + op;
+    } else if (typeof op === 'string' && typeof last === 'string') {
+      delta[delta.length - 1] = last + op;
+    } else {
+      delta.push(op);
+    }
+  };
+  changes.forEach(change => {
+    if (change.added) push(change.value);
+    else if (change.removed) push(-change.value.length);
+    else push(change.value.length);
+  });
+  return delta;
+}
+
+export function applyDelta(from: string, delta: TextDelta): string {
+  let result = '';
+  let position = 0;
+  delta.forEach(op => {
+    if (typeof op === 'string') {
+      result += op;
+    } else if (op > 0) {
+      result += from.slice(position, position + op);
+      position += op;
+    } else {
+      position -= op;
+    }
+  });
+  return result;
+}
+
+// Plain text of a document's HTML, one line per paragraph, heading or list item. The HTML is parsed
+// into an inert document, so nothing in it runs or loads.
+export function htmlToText(html: string): string {
+  const marked = (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|pre|div)>/gi, '$&\n');
+  const { body } = new DOMParser().parseFromString(marked, 'text/html');
+  return (body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+// Word-level differences between the text of two versions
+export function diffRevisionText(fromHtml: string, toHtml: string): RevisionDiffPart[] {
+  return diffWords(htmlToText(fromHtml), htmlToText(toHtml)).map(({ value, added, removed }) => ({ value, added, removed }));
+}
+
+// How many words were added or removed between two versions
+export function countChangedWords(fromHtml: string, toHtml: string): number {
+  if (fromHtml === toHtml) return 0;
+  const changes = diffWords(htmlToText(fromHtml), htmlToText(toHtml), { timeout: DIFF_TIMEOUT });
+  if (!changes) return Infinity;
+  return changes
+    .filter(change => change.added || change.removed)
+    .reduce((total, change) => total + countWords(change.value), 0);
+}
+
+// Content of every revision, newest first
+function* walkRevisions(log: RevisionLog): Generator<[StoredRevision, string]> {
+  let content = '';
+  for (let i = log.revisions.length - 1; i >= 0; i--) {
+    const revision = log.revisions[i];
+    content = revision.content ?? applyDelta(content, revision.delta || []);
+    yield [revision, content];
+  }
+}
+
+export function getRevisionContent(log: RevisionLog, revisionId: string): string {
+  for (const [revision, content] of walkRevisions(log)) {
+    if (revision.id === revisionId) return content;
+  }
+  throw new Error(`Revision not found: ${revisionId}`);
+}
+
+export function getLatestRevisionContent(log: RevisionLog): string | null {
+  const latest = log.revisions[log.revisions.length - 1];
+  return latest ? latest.content ?? null : null;
+}
+
+// Newest first, without content
+export function listRevisions(log: RevisionLog): RevisionInfo[] {
+  return log.revisions
+    .map(({ id, name, trigger, createdAt, wordCount }) => ({ id, name, trigger, createdAt, wordCount }))
+    .reverse();
+}
+
+export function createRevisionInfo(trigger: RevisionTrigger, content: string, name?: string, createdAt?: string): RevisionInfo {
+  return {
+    id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    ...(name ? { name } : {}),
+    trigger,
+    createdAt: createdAt || new Date().toISOString(),
+    wordCount: countWords(htmlToText(content)),
+  };
+}
+
+// Add a revision as the newest one. The previous newest revision is turned into a delta.
+export function addRevision(log: RevisionLog, info: RevisionInfo, content: string, maxAutomatic = MAX_AUTO_REVISIONS): RevisionLog {
+  const revisions = log.revisions.map((revision, index) => {
+    if (index < log.revisions.length - 1 || revision.content === undefined) return revision;
+    const { content: previous, ...rest } = revision;
+    return { ...rest, delta: createDelta(content, previous) };
+  });
+  revisions.push({ ...info, content });
+  return pruneRevisions({ ...log, revisions }, maxAutomatic);
+}
+
+// Add a captured revision to the stored log. Returns null when an automatic revision has nothing new.
+export function applyPendingRevision(log: RevisionLog, pending: PendingRevision): RevisionLog | null {
+  if (pending.info.trigger !== 'manual' && getLatestRevisionContent(log) === pending.content) return null;
+
+  // The first revision of a document also keeps how it was before the session's edits
+  if (log.revisions.length === 0 && pending.startContent && pending.startContent !== pending.content) {
+    log = addRevision(log, createRevisionInfo('session', pending.startContent, undefined, pending.startedAt), pending.startContent);
+  }
+  return addRevision(log, pending.info, pending.content);
+}
+
+// Drop the oldest automatic revisions over the limit. Deltas around a dropped revision are recomputed
+// so the chain still leads back to every revision that is kept.
+export function pruneRevisions(log: RevisionLog, maxAutomatic = MAX_AUTO_REVISIONS): RevisionLog {
+  const automatic = log.revisions.filter(revision => !revision.name);
+  if (automatic.length <= maxAutomatic) return log;
+  const dropped = new Set(automatic.slice(0, automatic.length - maxAutomatic).map(revision => revision.id));
+
+  const kept: StoredRevision[] = [];
+  let newerContent: string | null = null; // Content of the newest revision kept so far
+  let skipped = false; // Whether a revision was dropped since then
+  for (const [revision, content] of walkRevisions(log)) {
+    if (dropped.has(revision.id)) {
+      skipped = true;
+      continue;
+    }
+    if (skipped && newerContent !== null) {
+      const { content: _, ...rest } = revision;
+      kept.push({ ...rest, delta: createDelta(newerContent, content) });
+    } else if (newerContent === null) {
+      const { delta: _, ...rest } = revision;
+      kept.push({ ...rest, content });
+    } else {
+      kept.push(revision);
+    }
+    newerContent = content;
+    skipped = false;
+  }
+  return { ...log, revisions: kept.reverse() };
+}
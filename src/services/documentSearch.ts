@@ -0,0 +1,164 @@
+// Find and replace across the project's documents
+// Documents are HTML, so only their text is searched: a match never includes markup and never runs
+// from one paragraph into the next. Matches are numbered in document order, the same order the editor
+// finds them in (see SearchExtension.ts), so a hit found here can be selected in the open document.
+
+import { Document } from './storageService';
+
+export interface SearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchMatch {
+  index: number; // Position among the document's matches
+  text: string;
+  before: string; // Context for the result list
+  after: string;
+}
+
+export interface DocumentSearchResult {
+  documentId: string;
+  title: string;
+  matches: SearchMatch[];
+}
+
+const SNIPPET_CONTEXT = 40; // Characters of context on each side of a match
+const BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE', 'DIV', 'TD', 'TH']);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The pattern to search with, or null when there is nothing to search for.
+// Throws a SyntaxError when a regular expression is invalid.
+export function createSearchPattern(options: SearchOptions): RegExp | null {
+  if (!options.query) return null;
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+}
+
+// Non-empty matches in a block of text
+export function findInText(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push(match);
+  }
+  return matches;
+}
+
+// What a match is replaced with. Regular expressions can refer to groups with $1, $<name> and $&.
+export function expandReplacement(replacement: string, match: RegExpExecArray, regex: boolean): string {
+  if (!regex) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(ref);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+}
+
+// The text nodes of each paragraph, heading, list item, ...
+function getTextBlocks(container: HTMLElement): Text[][] {
+  const blocks: Text[][] = [];
+  let currentBlock: Element | null = null;
+  const walker = container.ownerDocument.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    let block = node.parentElement;
+    while (block && block !== container && !BLOCK_TAGS.has(block.tagName)) {
+      block = block.parentElement;
+    }
+    if (block !== currentBlock || blocks.length === 0) {
+      blocks.push([]);
+      currentBlock = block;
+    }
+    blocks[blocks.length - 1].push(node as Text);
+  }
+  return blocks;
+}
+
+// Documents can come from collaborators, so they are parsed into an inert document where nothing
+// runs or loads (no <img onerror>), never into the page
+const parseHtml = (html: string): HTMLElement => new DOMParser().parseFromString(html || '', 'text/html').body;
+
+export function findInHtml(html: string, pattern: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  getTextBlocks(parseHtml(html)).forEach(nodes => {
+    const text = nodes.map(node => node.data).join('');
+    findInText(text, pattern).forEach(match => {
+      const end = match.index + match[0].length;
+      matches.push({
+        index: matches.length,
+        text: match[0],
+        before: text.slice(Math.max(0, match.index - SNIPPET_CONTEXT), match.index),
+        after: text.slice(end, end + SNIPPET_CONTEXT),
+      });
+    });
+  });
+  return matches;
+}
+
+// Documents with at least one match, in project order
+export function searchDocuments(documents: Document[], options: SearchOptions): DocumentSearchResult[] {
+  const pattern = createSearchPattern(options);
+  if (!pattern) return [];
+  return documents
+    .filter(doc => doc.id)
+    .map(doc => ({ documentId: doc.id!, title: doc.title || 'Untitled', matches: findInHtml(doc.content || '', pattern) }))
+    .filter(result => result.matches.length > 0);
+}
+
+// Replace text spread over several text nodes, leaving the replacement in the first of them
+function replaceRange(nodes: Text[], from: number, to: number, value: string): void {
+  let offset = 0;
+  let inserted = false;
+  nodes.forEach(node => {
+    const start = offset;
+    const end = offset + node.data.length;
+    offset = end;
+    if (end <= from || start >= to) return;
+    const cutFrom = Math.max(from, start) - start;
+    const cutTo = Math.min(to, end) - start;
+    node.data = node.data.slice(0, cutFrom) + (inserted ? '' : value) + node.data.slice(cutTo);
+    inserted = true;
+  });
+}
+
+// Replace matches in a document's HTML. `only` limits it to some matches, by index.
+export function replaceInHtml(
+  html: string,
+  options: SearchOptions,
+  replacement: string,
+  only?: number[]
+): { content: string; count: number } {
+  const pattern = createSearchPattern(options);
+  if (!pattern) return { content: html, count: 0 };
+
+  const container = parseHtml(html);
+  let index = 0;
+  let count = 0;
+  getTextBlocks(container).forEach(nodes => {
+    const text = nodes.map(node => node.data).join('');
+    const selected = findInText(text, pattern).filter(() => {
+      const include = !only || only.includes(index);
+      index++;
+      return include;
+    });
+    // From the end, so earlier matches keep their offsets
+    selected.reverse().forEach(match => {
+      replaceRange(nodes, match.index, match.index + match[0].length, expandReplacement(replacement, match, options.regex));
+      count++;
+    });
+  });
+  return { content: count > 0 ? container.innerHTML : html, count };
+}
@@ -0,0 +1,248 @@
+// Google Drive storage backend
+// Each project is a Drive folder holding {name}_data.json, a _manifest.json index, one JSON file per document,
+// a {documentId}.revisions.json file next to each document with a revision history, and a snapshots/ subfolder.
+// The folder's app properties mark it as a project and cache its stats.
+// Encrypted projects also hold _encryption.json, and their data, document, revision and snapshot files are ciphertext.
+
+import { googleDriveService } from './googleDriveService';
+import { StorageBackend, ProjectSummary, ProjectStats, ProjectRole, ProjectCollaborator, ShareRole, BackendChangeListener, SaveConflictError, AuthExpiredError, toProjectMetadata, ProjectLockedError } from './storageBackend';
+import {
+  ProjectSecret,
+  createProjectKeys,
+  withoutOldKeys,
+  sealProjectKeys,
+  openProjectKeys,
+  generateRecoveryKey,
+} from './projectEncryption';
+import { ProjectData, Document } from './storageService';
+import { SnapshotInfo } from './projectSnapshots';
+import { RevisionLog } from './documentRevisions';
+
+const WATCH_INTERVAL = 30000; // Poll Drive for remote changes every 30 seconds
+
+class GoogleDriveBackend implements StorageBackend {
+  readonly name = 'Google Drive';
+  private isInitialized = false;
+  // When this session last wrote each project, so the watcher ignores our own saves
+  private lastLocalWrite = new Map<string, string>();
+  // Data file modified time as of our last load or save, to detect edits made elsewhere
+  private baseModified = new Map<string, string>();
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.isInitialized) {
+      await googleDriveService.initialize();
+      this.isInitialized = true;
+    }
+  }
+
+  // Run a Drive request, getting a new access token first if it expired and retrying once if Drive
+  // rejects the token. Throws AuthExpiredError when the user has to sign in again.
+  private async withAuth<T>(request: () => Promise<T>): Promise<T> {
+    if (!googleDriveService.isAuthenticated() && !(await googleDriveService.refreshToken())) {
+      throw new AuthExpiredError(this.name);
+    }
+    try {
+      return await request();
+    } catch (error) {
+      if (!googleDriveService.isAuthError(error)) throw error;
+      console.warn('🔑 Google Drive rejected the access token');
+      if (!(await googleDriveService.refreshToken())) {
+        throw new AuthExpiredError(this.name);
+      }
+      return request();
+    }
+  }
+
+  // Signed in with Google. An expired access token is renewed (or reported) when Drive is used.
+  isAvailable(): boolean {
+    return localStorage.getItem('google_authenticated') === 'true';
+  }
+
+  async reconnect(): Promise<boolean> {
+    return googleDriveService.reconnect();
+  }
+
+  async listProjects(): Promise<ProjectSummary[]> {
+    return this.withAuth(() => googleDriveService.listProjectFolders());
+  }
+
+  async createProject(projectName: string, data: ProjectData): Promise<string> {
+    const folderId = await this.withAuth(() => googleDriveService.createProjectFolder(projectName));
+    // Force save for new project
+    const result = await this.withAuth(() => googleDriveService.saveProjectToFolder(folderId, { ...data, projectName }, true));
+    if (result.driveModified) {
+      this.baseModified.set(folderId, result.driveModified);
+    }
+    return folderId;
+  }
+
+  async createEncryptedProject(projectName: string, data: ProjectData, passphrase: string): Promise<{ projectId: string; recoveryKey: string }> {
+    await this.ensureInitialized();
+    const folderId = await this.withAuth(() => googleDriveService.createProjectFolder(projectName));
+    // The key file comes first: once the keys are set, every file is written encrypted
+    const keys = await createProjectKeys();
+    const recoveryKey = generateRecoveryKey();
+    await this.withAuth(async () => googleDriveService.saveKeyFile(folderId, await sealProjectKeys(keys, passphrase, recoveryKey)));
+    googleDriveService.setProjectKeys(folderId, keys);
+
+    const result = await this.withAuth(() => googleDriveService.saveProjectToFolder(folderId, { ...data, projectName }, true));
+    if (result.driveModified) {
+      this.baseModified.set(folderId, result.driveModified);
+    }
+    console.log('🔐 Created encrypted project');
+    return { projectId: folderId, recoveryKey };
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    await this.withAuth(() => googleDriveService.deleteProjectFolder(projectId));
+  }
+
+  async updateProjectStats(projectId: string, stats: ProjectStats): Promise<void> {
+    await this.withAuth(() => googleDriveService.saveProjectStats(projectId, stats));
+  }
+
+  async getRole(projectId: string): Promise<ProjectRole> {
+    return this.withAuth(() => googleDriveService.getProjectRole(projectId));
+  }
+
+  async listCollaborators(projectId: string): Promise<ProjectCollaborator[]> {
+    return this.withAuth(() => googleDriveService.listProjectPermissions(projectId));
+  }
+
+  async shareProject(projectId: string, email: string, role: ShareRole): Promise<void> {
+    await this.withAuth(() => googleDriveService.shareProjectFolder(projectId, email, role));
+  }
+
+  async unshareProject(projectId: string, collaboratorId: string): Promise<void> {
+    await this.withAuth(() => googleDriveService.removeProjectPermission(projectId, collaboratorId));
+  }
+
+  async isProjectEncrypted(projectId: string): Promise<boolean> {
+    return this.withAuth(() => googleDriveService.isProjectEncrypted(projectId));
+  }
+
+  async unlockProject(projectId: string, secret: ProjectSecret): Promise<void> {
+    const keyFile = await this.withAuth(() => googleDriveService.loadKeyFile(projectId));
+    if (!keyFile) return; // Not encrypted, nothing to unlock
+    googleDriveService.setProjectKeys(projectId, await openProjectKeys(keyFile, secret));
+    console.log('🔓 Unlocked encrypted project');
+  }
+
+  async encryptProject(projectId: string, passphrase: string): Promise<string> {
+    await this.ensureInitialized();
+    const previous = googleDriveService.getProjectKeys(projectId);
+    if (!previous && (await this.isProjectEncrypted(projectId))) {
+      throw new ProjectLockedError(projectId);
+    }
+
+    // Keep the old key readable until every file has been written with the new one,
+    // so the project can still be opened if re-encryption is interrupted
+    const keys = await createProjectKeys(previous || undefined);
+    const recoveryKey = generateRecoveryKey();
+    await this.withAuth(async () => googleDriveService.saveKeyFile(projectId, await sealProjectKeys(keys, passphrase, recoveryKey)));
+    googleDriveService.setProjectKeys(projectId, keys);
+
+    const modifiedTime = await this.withAuth(() => googleDriveService.rewriteProjectFolder(projectId));
+    if (modifiedTime) {
+      this.baseModified.set(projectId, modifiedTime);
+    }
+    this.lastLocalWrite.set(projectId, new Date().toISOString());
+
+    const finalKeys = withoutOldKeys(keys);
+    await this.withAuth(async () => googleDriveService.saveKeyFile(projectId, await sealProjectKeys(finalKeys, passphrase, recoveryKey)));
+    googleDriveService.setProjectKeys(projectId, finalKeys);
+    console.log('🔐 Project encrypted with a new key');
+    return recoveryKey;
+  }
+
+  async loadProject(projectId: string): Promise<ProjectData> {
+    const { data, modifiedTime } = await this.withAuth(() => googleDriveService.loadProjectFileFromFolder(projectId));
+    if (modifiedTime) {
+      this.baseModified.set(projectId, modifiedTime);
+    }
+    return data;
+  }
+
+  async saveProjectMetadata(projectId: string, data: ProjectData): Promise<void> {
+    await this.ensureInitialized();
+    const baseModified = this.baseModified.get(projectId);
+    // Only overwrite blindly if we never loaded this project's data file
+    const result = await this.withAuth(() =>
+      googleDriveService.saveProjectToFolder(projectId, toProjectMetadata(data), !baseModified, baseModified)
+    );
+    if (result.conflict) {
+      throw new SaveConflictError(projectId, result.driveModified);
+    }
+    if (result.driveModified) {
+      this.baseModified.set(projectId, result.driveModified);
+    }
+    this.lastLocalWrite.set(projectId, new Date().toISOString());
+  }
+
+  async saveSnapshot(projectId: string, info: SnapshotInfo, archive: Uint8Array): Promise<void> {
+    await this.ensureInitialized();
+    await this.withAuth(() => googleDriveService.saveSnapshotToFolder(projectId, info, archive));
+  }
+
+  async listSnapshots(projectId: string): Promise<SnapshotInfo[]> {
+    return this.withAuth(() => googleDriveService.listSnapshotsInFolder(projectId));
+  }
+
+  async loadSnapshot(projectId: string, snapshotId: string): Promise<Uint8Array> {
+    return this.withAuth(() => googleDriveService.loadSnapshotFromFolder(projectId, snapshotId));
+  }
+
+  async deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.withAuth(() => googleDriveService.deleteSnapshotFromFolder(projectId, snapshotId));
+  }
+
+  async loadRevisions(projectId: string, documentId: string): Promise<RevisionLog | null> {
+    return this.withAuth(() => googleDriveService.loadRevisionsFromFolder(projectId, documentId));
+  }
+
+  async saveRevisions(projectId: string, log: RevisionLog): Promise<void> {
+    await this.ensureInitialized();
+    await this.withAuth(() => googleDriveService.saveRevisionsToFolder(projectId, log));
+  }
+
+  async loadDocuments(projectId: string): Promise<Document[]> {
+    return this.withAuth(() => googleDriveService.loadDocumentsFromFolder(projectId));
+  }
+
+  async saveDocument(projectId: string, document: Document): Promise<void> {
+    await this.ensureInitialized();
+    await this.withAuth(() => googleDriveService.saveDocumentToFolder(projectId, document));
+  }
+
+  async deleteDocument(projectId: string, documentId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.withAuth(() => googleDriveService.deleteDocumentFromFolder(projectId, documentId));
+  }
+
+  async trashDocument(projectId: string, documentId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.withAuth(() => googleDriveService.trashDocumentInFolder(projectId, documentId));
+  }
+
+  watch(projectId: string, listener: BackendChangeListener): () => void {
+    // Drive has no push channel for browser apps, so poll the data file's modified time
+    let lastSeen = new Date().toISOString();
+
+    const timer = setInterval(async () => {
+      // Polling doesn't refresh tokens; saving does, and asks the user to reconnect if needed
+      if (!this.isAvailable() || !googleDriveService.isAuthenticated()) return;
+      const lastWrite = this.lastLocalWrite.get(projectId);
+      const since = lastWrite && lastWrite > lastSeen ? lastWrite : lastSeen;
+      const { isNewer, driveModified } = await googleDriveService.isDriveNewerThanLocal(projectId, since);
+      if (isNewer && driveModified) {
+        lastSeen = driveModified;
+        listener({ projectId, kind: 'project', modifiedTime: driveModified });
+      }
+    }, WATCH_INTERVAL);
+
+    return () => clearInterval(timer);
+  }
+}
+
+export const googleDriveBackend = new GoogleDriveBackend();
@@ -1,6 +1,19 @@
 // Google Drive integration for project sync
 // Uses Google Drive API to store projects, documents, and database as JSON files
 
+import { SnapshotInfo } from './projectSnapshots';
+import { RevisionLog } from './documentRevisions';
+import { ProjectSummary, ProjectStats, ProjectRole, ProjectCollaborator, ShareRole, ProjectLockedError } from './storageBackend';
+import {
+  ProjectKeys,
+  ProjectKeyFile,
+  encryptJson,
+  decryptJson,
+  encryptBytes,
+  decryptBytes,
+  isEncryptedFile,
+} from './projectEncryption';
+
 // Declare global types for Google API
 declare global {
   interface Window {
@@ -25,8 +38,52 @@ export interface DriveFile {
   mimeType: string;
   parents?: string[];
   modifiedTime?: string;
+  appProperties?: Record<string, string>;
+  description?: string;
+  ownedByMe?: boolean;
+  owners?: Array<{ displayName?: string; emailAddress?: string }>;
+  capabilities?: { canEdit?: boolean; canComment?: boolean };
+}
+
+// Maps document IDs to their Drive files so saves don't have to scan the project folder
+export interface DocumentManifest {
+  version: number;
+  documents: Record<string, { fileId: string; fileName: string }>;
+  // Files of deleted documents, kept in the .trash subfolder until the trash is purged
+  trashed?: Record<string, { fileId: string; fileName: string }>;
+  // Revision history files, by the ID of the document they belong to
+  revisions?: Record<string, { fileId: string }>;
 }
 
+const MANIFEST_FILE_NAME = '_manifest.json';
+// Encrypted projects keep their encrypted project keys here (see projectEncryption.ts)
+const KEY_FILE_NAME = '_encryption.json';
+const TRASH_FOLDER_NAME = '.trash';
+const SNAPSHOTS_FOLDER_NAME = 'snapshots';
+const REVISIONS_FILE_SUFFIX = '.revisions.json';
+// Project folders are tagged with this app property so they can be listed in a single query
+const PROJECT_PROPERTY = 'storyboardProject';
+// Set per account once its folders created before tagging have been found and tagged
+const REGISTRY_MIGRATION_KEY = 'storyboard_project_registry_migrated';
+// Drive permission roles for the app's share roles, and back
+const DRIVE_ROLES: Record<ShareRole, string> = {
+  editor: 'writer',
+  commenter: 'commenter',
+  viewer: 'reader',
+};
+const PROJECT_ROLES: Record<string, ProjectRole> = {
+  owner: 'owner',
+  organizer: 'editor',
+  fileOrganizer: 'editor',
+  writer: 'editor',
+  commenter: 'commenter',
+  reader: 'viewer',
+};
+const SILENT_REFRESH_TIMEOUT = 10000; // Give up on a background token refresh after 10 seconds
+const RECONNECT_TIMEOUT = 60000; // The user may take a while in Google's sign-in popup
+// 403 reasons that mean the access token is missing or lacks a scope, rather than a problem with the request
+const AUTH_ERROR_REASONS = ['authError', 'insufficientPermissions', 'dailyLimitExceededUnreg'];
+
 export interface ProjectMetadata {
   name: string;
   folderId: string;
@@ -39,6 +96,14 @@ class GoogleDriveService {
   private tokenClient: any = null;
   private config: GoogleDriveConfig | null = null;
   private isSignedIn = false;
+  // Document manifests per project folder, plus the Drive file holding each
+  private manifests = new Map<string, { manifest: DocumentManifest; fileId?: string }>();
+  private manifestLoads = new Map<string, Promise<{ manifest: DocumentManifest; fileId?: string }>>();
+  private manifestWrites = new Map<string, Promise<void>>();
+  private subfolders = new Map<string, string>(); // "{project folder ID}/{name}" -> subfolder ID
+  private tokenRefresh: Promise<boolean> | null = null;
+  private projectKeys = new Map<string, ProjectKeys>(); // Unlocked keys of encrypted project folders
+  private encryptedFolders = new Map<string, boolean>(); // Whether each project folder has a key file
 
   // Check if token is stored in localStorage
   private hasStoredToken(): boolean {
@@ -149,17 +214,18 @@ class GoogleDriveService {
         if (isExpired) {
           console.log('⚠️ Token is expired, will need to re-authenticate');
           this.setStoredToken(null);
-          return; // Don't proceed further without valid token
         }
       } else {
         console.log('⚠️ Token has invalid expiration date, will need to re-authenticate');
         this.setStoredToken(null);
-        return; // Don't proceed further without valid token
       }
       
-      gapi.client.setToken(storedToken);
-      this.isSignedIn = true;
-      console.log('✅ Token restored successfully');
+      // Expired tokens are dropped, but the token client is still set up below so they can be refreshed
+      if (this.hasStoredToken()) {
+        gapi.client.setToken(storedToken);
+        this.isSignedIn = true;
+        console.log('✅ Token restored successfully');
+      }
     } else {
       console.log('ℹ️ No stored token found');
     }
@@ -175,9 +241,7 @@ class GoogleDriveService {
           scope: this.config.scopes,
           callback: (response: any) => {
             if (response.access_token) {
-              gapi.client.setToken(response);
-              this.setStoredToken(response);
-              this.isSignedIn = true;
+              this.applyToken(response);
               console.log('Successfully signed in to Google Drive');
             }
           },
@@ -186,6 +250,93 @@ class GoogleDriveService {
     }
   }
 
+  // Use a token response from GSI, storing when it expires so isAuthenticated() can check it
+  private applyToken(response: any): void {
+    const token = {
+      access_token: response.access_token,
+      expires_in: response.expires_in,
+      expires_at: Date.now() + (Number(response.expires_in) || 3600) * 1000,
+    };
+    gapi.client.setToken(token);
+    this.setStoredToken(token);
+    this.isSignedIn = true;
+  }
+
+  // Ask GSI for a new access token. Resolves to false if none was granted in time.
+  private requestToken(prompt: string | undefined, timeout: number): Promise<boolean> {
+    return new Promise(resolve => {
+      if (!this.tokenClient) {
+        resolve(false);
+        return;
+      }
+
+      const finish = (granted: boolean) => {
+        clearTimeout(timer);
+        resolve(granted);
+      };
+      const timer = setTimeout(() => {
+        console.warn('⏱️ Token request timed out');
+        resolve(false);
+      }, timeout);
+
+      this.tokenClient.callback = (response: any) => {
+        if (response?.access_token) {
+          this.applyToken(response);
+          finish(true);
+        } else {
+          console.warn('⚠️ Token request failed:', response?.error);
+          finish(false);
+        }
+      };
+      // Popup closed or blocked
+      this.tokenClient.error_callback = (error: any) => {
+        console.warn('⚠️ Token request failed:', error?.type || error);
+        finish(false);
+      };
+      this.tokenClient.requestAccessToken(prompt === undefined ? {} : { prompt });
+    });
+  }
+
+  // Get a new access token in the background after the current one expired or was rejected.
+  // Users who already granted access aren't asked again; if Google needs them, this fails
+  // and they have to reconnect().
+  refreshToken(): Promise<boolean> {
+    if (!this.tokenRefresh) {
+      console.log('🔑 Refreshing Google Drive access token...');
+      this.tokenRefresh = this.requestToken('', SILENT_REFRESH_TIMEOUT).then(granted => {
+        this.tokenRefresh = null;
+        console.log(granted ? '✅ Access token refreshed' : '⚠️ Could not refresh the access token silently');
+        return granted;
+      });
+    }
+    return this.tokenRefresh;
+  }
+
+  // Sign in to Drive again. Must be called from a user action so the browser allows Google's popup.
+  async reconnect(): Promise<boolean> {
+    if (!this.tokenClient) {
+      await this.initialize();
+    }
+    return this.requestToken(undefined, RECONNECT_TIMEOUT);
+  }
+
+  // Whether a failed Drive request was rejected because the access token expired or was revoked
+  isAuthError(error: any): boolean {
+    const status = error?.status ?? error?.result?.error?.code;
+    if (status === 401) return true;
+    if (status !== 403) return false;
+    // Drive also answers 403 for rate limits, a full quota or missing file access; only a token
+    // without the needed scope is fixed by signing in again
+    const reason = error?.result?.error?.errors?.[0]?.reason;
+    return AUTH_ERROR_REASONS.includes(reason);
+  }
+
+  // An error shaped like gapi's, so isAuthError() can tell why a fetch() request failed
+  private async responseError(message: string, response: Response): Promise<Error> {
+    const result = await response.json().catch(() => undefined);
+    return Object.assign(new Error(`${message} (${response.status})`), { status: response.status, result });
+  }
+
   private waitForGoogleAuth(): Promise<void> {
     return new Promise((resolve) => {
       if (window.google && window.google.accounts) {
@@ -227,9 +378,7 @@ class GoogleDriveService {
         if (!resolved && response && !response.error) {
           if (response.access_token) {
             console.log('Setting token in gapi client');
-            gapi.client.setToken(response);
-            this.setStoredToken(response);
-            this.isSignedIn = true;
+            this.applyToken(response);
             
             console.log('Successfully signed in to Google Drive');
             
@@ -318,9 +467,10 @@ class GoogleDriveService {
 
   // Create a new project folder on Google Drive
   async createProjectFolder(projectName: string): Promise<string> {
-    const metadata: DriveFile = {
+    const metadata: Omit<DriveFile, 'id'> = {
       name: projectName,
       mimeType: 'application/vnd.google-apps.folder',
+      appProperties: { [PROJECT_PROPERTY]: 'true' },
     };
 
     const response = await gapi.client.drive.files.create({
@@ -356,15 +506,19 @@ class GoogleDriveService {
   async uploadFile(
     folderId: string,
     fileName: string,
-    content: string,
-    mimeType: string = 'application/json'
+    content: string | Uint8Array,
+    mimeType: string = 'application/json',
+    appProperties?: Record<string, string>,
+    description?: string
   ): Promise<string> {
     try {
-      const file = new Blob([content], { type: mimeType });
-      const metadata: DriveFile = {
+      const file = new Blob([content as BlobPart], { type: mimeType });
+      const metadata: Omit<DriveFile, 'id'> = {
         name: fileName,
         mimeType: mimeType,
         parents: [folderId],
+        appProperties,
+        description,
       };
 
       const form = new FormData();
@@ -382,6 +536,9 @@ class GoogleDriveService {
         }
       );
 
+      if (!response.ok) {
+        throw await this.responseError(`Failed to upload file ${fileName}`, response);
+      }
       const result = await response.json();
       return result.id as string;
     } catch (error) {
@@ -391,11 +548,11 @@ class GoogleDriveService {
   }
 
   // Update existing file on Google Drive
-  async updateFile(fileId: string, content: string, mimeType: string = 'application/json'): Promise<void> {
+  async updateFile(fileId: string, content: string | Uint8Array, mimeType: string = 'application/json'): Promise<void> {
     try {
-      const file = new Blob([content], { type: mimeType });
+      const file = new Blob([content as BlobPart], { type: mimeType });
 
-      await fetch(
+      const response = await fetch(
         `https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=media`,
         {
           method: 'PATCH',
@@ -406,6 +563,10 @@ class GoogleDriveService {
           body: file,
         }
       );
+
+      if (!response.ok) {
+        throw await this.responseError(`Failed to update file ${fileId}`, response);
+      }
     } catch (error) {
       console.error('Error updating file:', error);
       throw error;
@@ -432,7 +593,7 @@ class GoogleDriveService {
     try {
       const response = await gapi.client.drive.files.list({
         q: `'${folderId}' in parents and trashed=false`,
-        fields: 'files(id, name, mimeType, modifiedTime)',
+        fields: 'files(id, name, mimeType, modifiedTime, appProperties)',
       });
 
       return response.result.files as DriveFile[];
@@ -510,57 +671,191 @@ class GoogleDriveService {
     return JSON.parse(content);
   }
 
-  // List all project folders (folders containing _data.json files)
-  async listProjectFolders(): Promise<Array<{ id: string; name: string; lastModified?: string }>> {
+  // List project folders with their cached stats. Projects are found by their app property in one
+  // query; folders from before tagging are found by scanning once per account and tagged then.
+  async listProjectFolders(): Promise<ProjectSummary[]> {
     if (!this.isAuthenticated()) {
       throw new Error('Not authenticated with Google Drive');
     }
 
     try {
+      const migrationKey = `${REGISTRY_MIGRATION_KEY}_${await this.getAccountId()}`;
+      if (localStorage.getItem(migrationKey) !== 'true') {
+        // Throws rather than leaving folders untagged, so the scan runs again next time
+        await this.registerExistingProjects();
+        localStorage.setItem(migrationKey, 'true');
+      }
+
       console.log('🔍 Listing project folders...');
-      
-      // Get all folders
+      const projects: ProjectSummary[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await gapi.client.drive.files.list({
+          q: `mimeType='application/vnd.google-apps.folder' and appProperties has { key='${PROJECT_PROPERTY}' and value='true' } and trashed=false`,
+          fields: 'nextPageToken, files(id, name, modifiedTime, appProperties, ownedByMe, owners(displayName, emailAddress), capabilities(canEdit, canComment))',
+          orderBy: 'modifiedTime desc',
+          pageSize: 1000,
+          pageToken,
+        });
+        (response.result.files || []).forEach((folder: DriveFile) => {
+          projects.push({
+            id: folder.id,
+            name: folder.name,
+            lastModified: folder.modifiedTime,
+            ...this.parseProjectStats(folder.appProperties),
+            role: this.getFolderRole(folder),
+            sharedBy: folder.ownedByMe ? undefined : folder.owners?.[0]?.displayName || folder.owners?.[0]?.emailAddress,
+            encrypted: folder.appProperties?.encrypted === 'true' || undefined,
+          });
+        });
+        pageToken = response.result.nextPageToken;
+      } while (pageToken);
+
+      console.log(`✅ Found ${projects.length} project folders`);
+      return projects;
+    } catch (error) {
+      console.error('❌ Error listing project folders:', error);
+      console.error('Error details:', error);
+      throw error;
+    }
+  }
+
+  // The signed-in Drive account, which stays the same across tokens and devices
+  private async getAccountId(): Promise<string> {
+    const response = await gapi.client.drive.about.get({ fields: 'user(permissionId)' });
+    return response.result.user.permissionId;
+  }
+
+  // Tag project folders created before projects were tagged, found by their _data.json file
+  private async registerExistingProjects(): Promise<void> {
+    console.log('🗂️ Looking for projects to register...');
+    let registered = 0;
+    let pageToken: string | undefined;
+    do {
       const foldersResponse = await gapi.client.drive.files.list({
-        q: "mimeType='application/vnd.google-apps.folder' and trashed=false",
-        fields: 'files(id, name, modifiedTime)',
-        orderBy: 'modifiedTime desc',
+        q: `mimeType='application/vnd.google-apps.folder' and not appProperties has { key='${PROJECT_PROPERTY}' and value='true' } and trashed=false`,
+        fields: 'nextPageToken, files(id, name)',
+        pageSize: 1000,
+        pageToken,
       });
 
-      const folders = foldersResponse.result.files || [];
-      console.log(`📁 Found ${folders.length} folders`);
-      
-      // For each folder, check if it contains a _data.json file
-      const projectFolders = [];
+      const folders: DriveFile[] = foldersResponse.result.files || [];
       for (const folder of folders) {
         try {
           const files = await this.listFiles(folder.id);
-          const hasDataFile = files.some(f => f.name.endsWith('_data.json'));
-          
-          if (hasDataFile) {
-            projectFolders.push({
-              id: folder.id,
-              name: folder.name,
-              lastModified: folder.modifiedTime,
-            });
-            console.log(`✅ Found project: ${folder.name}`);
+          if (files.some(f => f.name.endsWith('_data.json'))) {
+            await this.updateProjectFolderProperties(folder.id, { [PROJECT_PROPERTY]: 'true' });
+            registered++;
+            console.log(`✅ Registered project: ${folder.name}`);
           }
         } catch (error) {
-          // Skip folders we can't access
+          // Skip folders we have no access to; auth, rate limit and network errors end the scan
+          if (!this.isInaccessible(error)) throw error;
           console.warn(`⚠️ Could not access folder ${folder.name}:`, error);
         }
       }
+      pageToken = foldersResponse.result.nextPageToken;
+    } while (pageToken);
+    console.log(`✅ Registered ${registered} existing projects`);
+  }
 
-      console.log(`✅ Found ${projectFolders.length} project folders`);
-      return projectFolders;
-    } catch (error) {
-      console.error('❌ Error listing project folders:', error);
-      console.error('Error details:', error);
-      throw error;
+  // A file that is gone or not shared with this account, which retrying won't change
+  private isInaccessible(error: any): boolean {
+    const status = error?.status ?? error?.result?.error?.code;
+    if (status === 404) return true;
+    return status === 403 && error?.result?.error?.errors?.[0]?.reason === 'insufficientFilePermissions';
+  }
+
+  private async updateProjectFolderProperties(folderId: string, appProperties: Record<string, string>): Promise<void> {
+    await gapi.client.drive.files.update({
+      fileId: folderId,
+      resource: { appProperties },
+    });
+  }
+
+  // App properties only hold strings
+  private parseProjectStats(appProperties: Record<string, string> = {}): ProjectStats {
+    const stats: ProjectStats = {};
+    if (appProperties.wordCount) stats.wordCount = Number(appProperties.wordCount);
+    if (appProperties.lastOpened) stats.lastOpened = appProperties.lastOpened;
+    if (appProperties.coverColor) stats.coverColor = appProperties.coverColor;
+    return stats;
+  }
+
+  // Cache stats on the project folder, where listProjectFolders picks them up
+  async saveProjectStats(folderId: string, stats: ProjectStats): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const appProperties: Record<string, string> = { [PROJECT_PROPERTY]: 'true' };
+    Object.entries(stats).forEach(([key, value]) => {
+      if (value !== undefined) appProperties[key] = String(value);
+    });
+    await this.updateProjectFolderProperties(folderId, appProperties);
+  }
+
+  private getFolderRole(folder: DriveFile): ProjectRole {
+    if (folder.ownedByMe) return 'owner';
+    if (folder.capabilities?.canEdit) return 'editor';
+    return folder.capabilities?.canComment ? 'commenter' : 'viewer';
+  }
+
+  // The signed-in user's access to a project folder. Files in the folder inherit it.
+  async getProjectRole(folderId: string): Promise<ProjectRole> {
+    const response = await gapi.client.drive.files.get({
+      fileId: folderId,
+      fields: 'ownedByMe, capabilities(canEdit, canComment)',
+    });
+    return this.getFolderRole(response.result);
+  }
+
+  async listProjectPermissions(folderId: string): Promise<ProjectCollaborator[]> {
+    const response = await gapi.client.drive.permissions.list({
+      fileId: folderId,
+      fields: 'permissions(id, type, role, emailAddress, displayName)',
+    });
+    return (response.result.permissions || []).map((permission: any) => ({
+      id: permission.id,
+      name: permission.displayName,
+      email: permission.emailAddress,
+      role: PROJECT_ROLES[permission.role] || 'viewer',
+    }));
+  }
+
+  // Share the project folder with someone, or change their role if it's already shared with them
+  async shareProjectFolder(folderId: string, email: string, role: ShareRole): Promise<void> {
+    console.log(`🤝 Sharing project folder with ${email} as ${role}`);
+    const existing = (await this.listProjectPermissions(folderId)).find(
+      permission => permission.email?.toLowerCase() === email.toLowerCase()
+    );
+    if (existing) {
+      await gapi.client.drive.permissions.update({
+        fileId: folderId,
+        permissionId: existing.id,
+        resource: { role: DRIVE_ROLES[role] },
+      });
+      return;
     }
+    await gapi.client.drive.permissions.create({
+      fileId: folderId,
+      sendNotificationEmail: true,
+      resource: { type: 'user', role: DRIVE_ROLES[role], emailAddress: email },
+    });
+  }
+
+  async removeProjectPermission(folderId: string, permissionId: string): Promise<void> {
+    await gapi.client.drive.permissions.delete({ fileId: folderId, permissionId });
   }
 
   // Load project data from a specific folder
   async loadProjectFromFolder(folderId: string): Promise<any> {
+    const { data } = await this.loadProjectFileFromFolder(folderId);
+    return data;
+  }
+
+  // Load project data together with the data file's modified time, used as the base for conflict checks
+  async loadProjectFileFromFolder(folderId: string): Promise<{ data: any; modifiedTime?: string }> {
     if (!this.isAuthenticated()) {
       throw new Error('Not authenticated with Google Drive');
     }
@@ -573,7 +868,7 @@ class GoogleDriveService {
     }
 
     const content = await this.getFile(dataFile.id);
-    return JSON.parse(content);
+    return { data: await this.decodeJson(folderId, content), modifiedTime: dataFile.modifiedTime };
   }
 
   // Check if Drive version is newer than local
@@ -599,8 +894,15 @@ class GoogleDriveService {
     }
   }
 
-  // Save project data to a specific folder with conflict detection
-  async saveProjectToFolder(folderId: string, projectData: any, force: boolean = false): Promise<{ saved: boolean; conflict?: boolean; driveModified?: string }> {
+  // Save project data to a specific folder with conflict detection.
+  // With baseModified (the data file's modified time when we last loaded or saved it), any other
+  // change to the file is a conflict; without it, falls back to comparing against lastModified.
+  async saveProjectToFolder(
+    folderId: string,
+    projectData: any,
+    force: boolean = false,
+    baseModified?: string
+  ): Promise<{ saved: boolean; conflict?: boolean; driveModified?: string }> {
     if (!this.isAuthenticated()) {
       throw new Error('Not authenticated with Google Drive');
     }
@@ -611,10 +913,11 @@ class GoogleDriveService {
     // Check for conflicts if file exists
     if (existingFile && existingFile.modifiedTime && !force) {
       const driveTime = new Date(existingFile.modifiedTime).getTime();
-      const localTime = new Date(projectData.lastModified || 0).getTime();
+      const localTime = new Date(baseModified || projectData.lastModified || 0).getTime();
+      const changedElsewhere = baseModified ? driveTime !== localTime : driveTime > localTime;
       
-      if (driveTime > localTime) {
-        console.warn('⚠️ Drive version is newer than local. Save blocked to prevent data loss.');
+      if (changedElsewhere) {
+        console.warn('⚠️ Drive version changed since it was loaded. Save blocked to prevent data loss.');
         return {
           saved: false,
           conflict: true,
@@ -630,15 +933,159 @@ class GoogleDriveService {
       ...projectData,
       documents: [] // Exclude documents from metadata, they're stored as separate files
     };
-    const content = JSON.stringify(projectMetadata, null, 2);
+    const content = await this.encodeJson(folderId, projectMetadata);
 
+    let fileId: string;
     if (existingFile) {
       await this.updateFile(existingFile.id, content);
+      fileId = existingFile.id;
     } else {
-      await this.uploadFile(folderId, fileName, content);
+      fileId = await this.uploadFile(folderId, fileName, content);
+    }
+
+    // Report the new modified time so the next save can detect changes made elsewhere
+    const { modifiedTime } = await this.getFileMetadata(fileId);
+    return { saved: true, driveModified: modifiedTime };
+  }
+
+  private isDocumentFile(file: DriveFile): boolean {
+    return (
+      file.name.endsWith('.json') &&
+      !file.name.endsWith('_data.json') &&
+      !file.name.endsWith(REVISIONS_FILE_SUFFIX) &&
+      file.name !== MANIFEST_FILE_NAME &&
+      file.name !== KEY_FILE_NAME
+    );
+  }
+
+  // Get the document manifest for a project folder, loading or rebuilding it on first use
+  private async getDocumentManifest(folderId: string): Promise<DocumentManifest> {
+    const cached = this.manifests.get(folderId);
+    if (cached) {
+      return cached.manifest;
     }
 
-    return { saved: true };
+    // Concurrent saves share one load
+    let load = this.manifestLoads.get(folderId);
+    if (!load) {
+      load = this.loadDocumentManifest(folderId).finally(() => this.manifestLoads.delete(folderId));
+      this.manifestLoads.set(folderId, load);
+    }
+    const entry = await load;
+    this.manifests.set(folderId, entry);
+    return entry.manifest;
+  }
+
+  // Read the manifest file and reconcile it with the folder contents.
+  // Documents already downloaded while rebuilding are returned so they don't have to be fetched twice.
+  private async loadDocumentManifest(
+    folderId: string,
+    downloaded: Map<string, any> = new Map()
+  ): Promise<{ manifest: DocumentManifest; fileId?: string }> {
+    const files = await this.listFiles(folderId);
+    const manifestFile = files.find((f) => f.name === MANIFEST_FILE_NAME);
+    let manifest: DocumentManifest = { version: 1, documents: {} };
+
+    if (manifestFile) {
+      try {
+        manifest = JSON.parse(await this.getFile(manifestFile.id));
+      } catch (error) {
+        console.warn('⚠️ Document manifest is unreadable, rebuilding it:', error);
+      }
+    }
+
+    const documentFiles = files.filter((f) => this.isDocumentFile(f));
+    const fileIds = new Set(documentFiles.map((f) => f.id));
+    let changed = !manifestFile;
+
+    // Drop entries whose file no longer exists
+    Object.entries(manifest.documents).forEach(([documentId, entry]) => {
+      if (!fileIds.has(entry.fileId)) {
+        delete manifest.documents[documentId];
+        changed = true;
+      }
+    });
+
+    // Revision files are tagged with their document's ID, so they can be indexed without opening them
+    const revisionFiles = files.filter((f) => f.name.endsWith(REVISIONS_FILE_SUFFIX));
+    const revisionFileIds = new Set(revisionFiles.map((f) => f.id));
+    Object.entries(manifest.revisions || {}).forEach(([documentId, entry]) => {
+      if (!revisionFileIds.has(entry.fileId)) {
+        delete manifest.revisions![documentId];
+        changed = true;
+      }
+    });
+    revisionFiles.forEach((file) => {
+      const documentId = file.appProperties?.revisionsOf;
+      if (documentId && manifest.revisions?.[documentId]?.fileId !== file.id) {
+        manifest.revisions = { ...(manifest.revisions || {}), [documentId]: { fileId: file.id } };
+        changed = true;
+      }
+    });
+
+    // Index files the manifest doesn't know about (older projects, or saves from another session)
+    const known = new Set(Object.values(manifest.documents).map((entry) => entry.fileId));
+    const unknownFiles = documentFiles.filter((f) => !known.has(f.id));
+    if (unknownFiles.length > 0) {
+      console.log(`🗂️ Indexing ${unknownFiles.length} document file(s) missing from the manifest`);
+      await Promise.all(unknownFiles.map(async (file) => {
+        let documentId = file.appProperties?.documentId;
+        if (!documentId) {
+          // Files saved before the manifest existed have to be opened to find their ID
+          try {
+            const document = await this.decodeJson(folderId, await this.getFile(file.id));
+            downloaded.set(file.id, document);
+            documentId = document.id;
+          } catch (error) {
+            console.error(`Error reading document ${file.name}:`, error);
+          }
+        }
+        if (documentId) {
+          manifest.documents[documentId] = { fileId: file.id, fileName: file.name };
+        }
+      }));
+      changed = true;
+    }
+
+    const entry = { manifest, fileId: manifestFile?.id };
+    if (changed) {
+      this.manifests.set(folderId, entry);
+      await this.saveDocumentManifest(folderId);
+    }
+    return entry;
+  }
+
+  // Write the cached manifest to Drive. Writes for the same folder run one after another.
+  private saveDocumentManifest(folderId: string): Promise<void> {
+    const previous = this.manifestWrites.get(folderId) || Promise.resolve();
+    const write = previous.catch(() => undefined).then(async () => {
+      const entry = this.manifests.get(folderId);
+      if (!entry) return;
+      const content = JSON.stringify(entry.manifest, null, 2);
+      if (entry.fileId) {
+        await this.updateFile(entry.fileId, content);
+      } else {
+        entry.fileId = await this.uploadFile(folderId, MANIFEST_FILE_NAME, content);
+      }
+    });
+    this.manifestWrites.set(folderId, write);
+    return write;
+  }
+
+  // Pick a file name for a document that no other document in the folder uses
+  private getUniqueDocumentFileName(manifest: DocumentManifest, documentId: string, baseName: string): string {
+    const taken = new Set(
+      Object.entries(manifest.documents)
+        .filter(([id]) => id !== documentId)
+        .map(([, entry]) => entry.fileName)
+    );
+    let fileName = `${baseName}.json`;
+    let counter = 1;
+    while (taken.has(fileName)) {
+      fileName = `${baseName}_${counter}.json`;
+      counter++;
+    }
+    return fileName;
   }
 
   // Save a document as a separate file in the project folder
@@ -651,80 +1098,61 @@ class GoogleDriveService {
       throw new Error('Document must have an ID to save');
     }
 
-    // Create a user-friendly filename: sanitize the title only
-    const sanitizedTitle = (document.title || 'Untitled')
-      .replace(/[^a-z0-9\s-]/gi, '') // Remove special characters
-      .replace(/\s+/g, '_') // Replace spaces with underscores
-      .substring(0, 50); // Limit length
-    const fileName = `${sanitizedTitle}.json`;
-    const content = JSON.stringify(document, null, 2);
-
-    console.log(`  📝 Preparing to save document: ${fileName} (title: ${document.title}, ID: ${document.id})`);
+    // Create a user-friendly filename: sanitize the title only.
+    // Encrypted projects name files by document ID so titles aren't readable in Drive.
+    const sanitizedTitle = this.projectKeys.has(folderId)
+      ? document.id
+      : (document.title || 'Untitled')
+          .replace(/[^a-z0-9\s-]/gi, '') // Remove special characters
+          .replace(/\s+/g, '_') // Replace spaces with underscores
+          .substring(0, 50); // Limit length
+    const content = await this.encodeJson(folderId, document);
 
     try {
-      // Get all files in the folder
-      const files = await this.listFiles(folderId);
-      
-      // Find existing document files (any .json file that's not the metadata file)
-      const documentFiles = files.filter((f) => f.name.endsWith('.json') && !f.name.endsWith('_data.json'));
-      
-      // Try to find the file by checking the document ID stored inside the file
-      let existingFile = null;
-      for (const file of documentFiles) {
+      const manifest = await this.getDocumentManifest(folderId);
+      if (!manifest.documents[document.id] && manifest.trashed?.[document.id]) {
+        await this.restoreTrashedDocument(folderId, manifest, document.id);
+      }
+      const fileName = this.getUniqueDocumentFileName(manifest, document.id, sanitizedTitle);
+      const existing = manifest.documents[document.id];
+
+      console.log(`  📝 Preparing to save document: ${fileName} (title: ${document.title}, ID: ${document.id})`);
+
+      if (existing) {
         try {
-          const fileContent = await this.getFile(file.id);
-          const fileDoc = JSON.parse(fileContent);
-          if (fileDoc.id === document.id) {
-            existingFile = file;
-            break;
+          console.log(`  ✏️ Updating existing document file: ${existing.fileName} (Drive file ID: ${existing.fileId})`);
+          await this.updateFile(existing.fileId, content);
+
+          // Keep the file name in step with the document title
+          if (existing.fileName !== fileName) {
+            console.log(`  🔄 Renaming file from ${existing.fileName} to ${fileName}`);
+            await gapi.client.drive.files.update({
+              fileId: existing.fileId,
+              resource: { name: fileName }
+            });
+            existing.fileName = fileName;
+            await this.saveDocumentManifest(folderId);
           }
-        } catch (error) {
-          // Skip files that can't be parsed
-          continue;
-        }
-      }
 
-      if (existingFile) {
-        // Update existing file
-        console.log(`  ✏️ Updating existing document file: ${existingFile.name} (Drive file ID: ${existingFile.id})`);
-        await this.updateFile(existingFile.id, content);
-        
-        // If the name changed, rename the file
-        if (existingFile.name !== fileName) {
-          console.log(`  🔄 Renaming file from ${existingFile.name} to ${fileName}`);
-          // Use Drive API to update metadata
-          await gapi.client.drive.files.update({
-            fileId: existingFile.id,
-            resource: { name: fileName }
-          });
-        }
-        
-        return existingFile.id;
-      } else {
-        // Check if filename already exists
-        const fileWithSameName = files.find((f) => f.name === fileName);
-        if (fileWithSameName) {
-          // If there's a collision, add a number suffix
-          let counter = 1;
-          let newFileName = fileName;
-          while (files.find((f) => f.name === newFileName)) {
-            const nameWithoutExt = sanitizedTitle;
-            newFileName = `${nameWithoutExt}_${counter}.json`;
-            counter++;
+          return existing.fileId;
+        } catch (error: any) {
+          if (error?.status !== 404) {
+            throw error;
           }
-          console.log(`  ⚠️ Filename collision, using: ${newFileName}`);
-          const fileId = await this.uploadFile(folderId, newFileName, content);
-          console.log(`  ✅ Created document file with Drive ID: ${fileId}`);
-          return fileId;
-        } else {
-          console.log(`  ➕ Creating new document file: ${fileName}`);
-          const fileId = await this.uploadFile(folderId, fileName, content);
-          console.log(`  ✅ Created document file with Drive ID: ${fileId}`);
-          return fileId;
+          // The file was removed outside the app; fall through and create it again
+          console.warn(`  ⚠️ Document file ${existing.fileName} no longer exists, recreating it`);
+          delete manifest.documents[document.id];
         }
       }
+
+      console.log(`  ➕ Creating new document file: ${fileName}`);
+      const fileId = await this.uploadFile(folderId, fileName, content, 'application/json', { documentId: document.id });
+      manifest.documents[document.id] = { fileId, fileName };
+      await this.saveDocumentManifest(folderId);
+      console.log(`  ✅ Created document file with Drive ID: ${fileId}`);
+      return fileId;
     } catch (error) {
-      console.error(`  ❌ Error saving document ${fileName}:`, error);
+      console.error(`  ❌ Error saving document ${sanitizedTitle}:`, error);
       throw error;
     }
   }
@@ -735,15 +1163,248 @@ class GoogleDriveService {
       throw new Error('Not authenticated with Google Drive');
     }
 
-    const fileName = `doc_${documentId}.json`;
-    const files = await this.listFiles(folderId);
-    const documentFile = files.find((f) => f.name === fileName);
+    const manifest = await this.getDocumentManifest(folderId);
+    const existing = manifest.documents[documentId];
+    const trashed = manifest.trashed?.[documentId];
+    const revisions = manifest.revisions?.[documentId];
 
-    if (documentFile) {
+    if (existing) {
       await gapi.client.drive.files.delete({
-        fileId: documentFile.id,
+        fileId: existing.fileId,
       });
+      delete manifest.documents[documentId];
+      await this.saveDocumentManifest(folderId);
     }
+
+    if (trashed) {
+      try {
+        await gapi.client.drive.files.delete({ fileId: trashed.fileId });
+      } catch (error: any) {
+        // Already removed from the .trash folder by hand
+        if (error?.status !== 404) throw error;
+      }
+      delete manifest.trashed![documentId];
+      await this.saveDocumentManifest(folderId);
+    }
+
+    if (revisions) {
+      try {
+        await gapi.client.drive.files.delete({ fileId: revisions.fileId });
+      } catch (error: any) {
+        if (error?.status !== 404) throw error;
+      }
+      delete manifest.revisions![documentId];
+      await this.saveDocumentManifest(folderId);
+    }
+  }
+
+  // Get or create a subfolder of a project folder, e.g. .trash or snapshots
+  private async getSubfolder(folderId: string, name: string): Promise<string> {
+    const key = `${folderId}/${name}`;
+    const cached = this.subfolders.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await gapi.client.drive.files.list({
+      q: `name='${name}' and '${folderId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+      fields: 'files(id)',
+    });
+    let subfolderId = response.result.files?.[0]?.id as string | undefined;
+
+    if (!subfolderId) {
+      const created = await gapi.client.drive.files.create({
+        resource: { name, mimeType: 'application/vnd.google-apps.folder', parents: [folderId] },
+        fields: 'id',
+      });
+      subfolderId = created.result.id as string;
+    }
+
+    this.subfolders.set(key, subfolderId);
+    return subfolderId;
+  }
+
+  // Move a deleted document's file into the .trash subfolder instead of deleting it
+  async trashDocumentInFolder(folderId: string, documentId: string): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const manifest = await this.getDocumentManifest(folderId);
+    const existing = manifest.documents[documentId];
+    if (!existing) return;
+
+    const trashFolderId = await this.getSubfolder(folderId, TRASH_FOLDER_NAME);
+    await gapi.client.drive.files.update({
+      fileId: existing.fileId,
+      addParents: trashFolderId,
+      removeParents: folderId,
+    });
+
+    delete manifest.documents[documentId];
+    manifest.trashed = { ...(manifest.trashed || {}), [documentId]: existing };
+    await this.saveDocumentManifest(folderId);
+    console.log(`🗑️ Moved document file ${existing.fileName} to ${TRASH_FOLDER_NAME}`);
+  }
+
+  // Move a trashed document's file back into the project folder so saving it updates the same file
+  private async restoreTrashedDocument(folderId: string, manifest: DocumentManifest, documentId: string): Promise<void> {
+    const trashed = manifest.trashed?.[documentId];
+    if (!trashed) return;
+
+    try {
+      await gapi.client.drive.files.update({
+        fileId: trashed.fileId,
+        addParents: folderId,
+        removeParents: await this.getSubfolder(folderId, TRASH_FOLDER_NAME),
+      });
+      manifest.documents[documentId] = trashed;
+      console.log(`♻️ Restored document file ${trashed.fileName} from ${TRASH_FOLDER_NAME}`);
+    } catch (error: any) {
+      // The trashed file is gone; saving will create a new one
+      if (error?.status !== 404) throw error;
+    }
+    delete manifest.trashed![documentId];
+    await this.saveDocumentManifest(folderId);
+  }
+
+  // Store a snapshot archive in the snapshots subfolder. The snapshot info goes in the file's
+  // description so the list can be shown without downloading any archive. In encrypted projects the
+  // info is encrypted too, as snapshot names are typed by the user.
+  async saveSnapshotToFolder(folderId: string, info: SnapshotInfo, archive: Uint8Array): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const snapshotsFolderId = await this.getSubfolder(folderId, SNAPSHOTS_FOLDER_NAME);
+    const keys = await this.getKeysForWriting(folderId);
+    if (keys) {
+      const { keyId, data } = await encryptBytes(keys, archive);
+      const description = JSON.stringify(await encryptJson(keys, info));
+      await this.uploadFile(snapshotsFolderId, `${info.id}.zip.enc`, data, 'application/octet-stream', { snapshotId: info.id, keyId }, description);
+    } else {
+      await this.uploadFile(snapshotsFolderId, `${info.id}.zip`, archive, 'application/zip', { snapshotId: info.id }, JSON.stringify(info));
+    }
+  }
+
+  async listSnapshotsInFolder(folderId: string): Promise<SnapshotInfo[]> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const snapshotsFolderId = await this.getSubfolder(folderId, SNAPSHOTS_FOLDER_NAME);
+    const response = await gapi.client.drive.files.list({
+      q: `'${snapshotsFolderId}' in parents and trashed=false`,
+      fields: 'files(id, name, description, appProperties)',
+      pageSize: 1000,
+    });
+
+    const snapshots: SnapshotInfo[] = [];
+    for (const file of response.result.files as DriveFile[]) {
+      try {
+        snapshots.push(await this.decodeJson(folderId, file.description || ''));
+      } catch (error) {
+        if (error instanceof ProjectLockedError) throw error;
+        console.warn(`⚠️ Skipping snapshot file without snapshot info: ${file.name}`);
+      }
+    }
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async findSnapshotFile(folderId: string, snapshotId: string): Promise<DriveFile> {
+    const snapshotsFolderId = await this.getSubfolder(folderId, SNAPSHOTS_FOLDER_NAME);
+    const response = await gapi.client.drive.files.list({
+      q: `'${snapshotsFolderId}' in parents and appProperties has { key='snapshotId' and value='${snapshotId}' } and trashed=false`,
+      fields: 'files(id, name, appProperties)',
+    });
+    const file = response.result.files?.[0] as DriveFile | undefined;
+    if (!file) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    return file;
+  }
+
+  // gapi returns media as text, so binary files are fetched directly
+  private async downloadBytes(fileId: string): Promise<Uint8Array> {
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
+      headers: {
+        Authorization: `Bearer ${gapi.client.getToken().access_token}`,
+      },
+    });
+    if (!response.ok) {
+      throw await this.responseError(`Failed to download file ${fileId}`, response);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  // Download a snapshot archive, decrypting it if it was stored encrypted
+  async loadSnapshotFromFolder(folderId: string, snapshotId: string): Promise<Uint8Array> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const file = await this.findSnapshotFile(folderId, snapshotId);
+    return this.decodeBytes(folderId, file, await this.downloadBytes(file.id));
+  }
+
+  async deleteSnapshotFromFolder(folderId: string, snapshotId: string): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const file = await this.findSnapshotFile(folderId, snapshotId);
+    await gapi.client.drive.files.delete({ fileId: file.id });
+  }
+
+  // REVISIONS
+  // A document's revision history, or null when it has none yet
+  async loadRevisionsFromFolder(folderId: string, documentId: string): Promise<RevisionLog | null> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const manifest = await this.getDocumentManifest(folderId);
+    const entry = manifest.revisions?.[documentId];
+    if (!entry) return null;
+
+    try {
+      return await this.decodeJson(folderId, await this.getFile(entry.fileId));
+    } catch (error: any) {
+      if (error?.status !== 404) throw error;
+      // Removed outside the app; the next save starts a new history
+      delete manifest.revisions![documentId];
+      return null;
+    }
+  }
+
+  // Store a document's revision history in a file next to the document
+  async saveRevisionsToFolder(folderId: string, log: RevisionLog): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    const manifest = await this.getDocumentManifest(folderId);
+    const content = await this.encodeJson(folderId, log);
+    const existing = manifest.revisions?.[log.documentId];
+    if (existing) {
+      try {
+        await this.updateFile(existing.fileId, content);
+        return;
+      } catch (error: any) {
+        if (error?.status !== 404) throw error;
+        console.warn(`  ⚠️ Revision file of document ${log.documentId} no longer exists, recreating it`);
+      }
+    }
+
+    const fileId = await this.uploadFile(
+      folderId,
+      `${log.documentId}${REVISIONS_FILE_SUFFIX}`,
+      content,
+      'application/json',
+      { revisionsOf: log.documentId }
+    );
+    manifest.revisions = { ...(manifest.revisions || {}), [log.documentId]: { fileId } };
+    await this.saveDocumentManifest(folderId);
   }
 
   // Load all documents from a project folder
@@ -752,18 +1413,24 @@ class GoogleDriveService {
       throw new Error('Not authenticated with Google Drive');
     }
 
-    const files = await this.listFiles(folderId);
-    // Documents now have format: {Title}_{ID}.json
-    const documentFiles = files.filter((f) => f.name.endsWith('.json') && !f.name.endsWith('_data.json'));
+    // Always re-read the manifest on load so documents added elsewhere are picked up
+    this.manifests.delete(folderId);
+    const downloaded = new Map<string, any>();
+    const entry = await this.loadDocumentManifest(folderId, downloaded);
+    this.manifests.set(folderId, entry);
 
     // Load all documents in parallel for better performance
-    const documentPromises = documentFiles.map(async (file) => {
+    const documentPromises = Object.values(entry.manifest.documents).map(async ({ fileId, fileName }) => {
+      if (downloaded.has(fileId)) {
+        return downloaded.get(fileId);
+      }
       try {
-        const content = await this.getFile(file.id);
-        const document = JSON.parse(content);
-        return document;
+        const content = await this.getFile(fileId);
+        return await this.decodeJson(folderId, content);
       } catch (error) {
-        console.error(`Error loading document ${file.name}:`, error);
+        // Without the key no document can be read, so let the caller ask for the passphrase
+        if (error instanceof ProjectLockedError) throw error;
+        console.error(`Error loading document ${fileName}:`, error);
         return null;
       }
     });
@@ -773,6 +1440,162 @@ class GoogleDriveService {
     return results.filter((doc) => doc !== null);
   }
 
+  // ENCRYPTION
+  // Whether the project folder is encrypted, i.e. has a key file
+  async isProjectEncrypted(folderId: string): Promise<boolean> {
+    const cached = this.encryptedFolders.get(folderId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const files = await this.listFiles(folderId);
+    const encrypted = files.some((f) => f.name === KEY_FILE_NAME);
+    this.encryptedFolders.set(folderId, encrypted);
+    return encrypted;
+  }
+
+  async loadKeyFile(folderId: string): Promise<ProjectKeyFile | null> {
+    const files = await this.listFiles(folderId);
+    const keyFile = files.find((f) => f.name === KEY_FILE_NAME);
+    this.encryptedFolders.set(folderId, !!keyFile);
+    return keyFile ? JSON.parse(await this.getFile(keyFile.id)) : null;
+  }
+
+  // Store the project's encrypted keys and mark the folder as encrypted for the project list
+  async saveKeyFile(folderId: string, keyFile: ProjectKeyFile): Promise<void> {
+    const files = await this.listFiles(folderId);
+    const existing = files.find((f) => f.name === KEY_FILE_NAME);
+    const content = JSON.stringify(keyFile, null, 2);
+    if (existing) {
+      await this.updateFile(existing.id, content);
+    } else {
+      await this.uploadFile(folderId, KEY_FILE_NAME, content);
+    }
+    this.encryptedFolders.set(folderId, true);
+    await this.updateProjectFolderProperties(folderId, { [PROJECT_PROPERTY]: 'true', encrypted: 'true' });
+  }
+
+  // Keys used to read and write the folder's files in this session
+  setProjectKeys(folderId: string, keys: ProjectKeys | null): void {
+    if (keys) {
+      this.projectKeys.set(folderId, keys);
+    } else {
+      this.projectKeys.delete(folderId);
+    }
+  }
+
+  getProjectKeys(folderId: string): ProjectKeys | null {
+    return this.projectKeys.get(folderId) || null;
+  }
+
+  // Never write plain files into an encrypted folder that hasn't been unlocked
+  private async getKeysForWriting(folderId: string): Promise<ProjectKeys | null> {
+    const keys = this.projectKeys.get(folderId);
+    if (keys) {
+      return keys;
+    }
+    if (await this.isProjectEncrypted(folderId)) {
+      throw new ProjectLockedError(folderId);
+    }
+    return null;
+  }
+
+  private async encodeJson(folderId: string, value: any): Promise<string> {
+    const keys = await this.getKeysForWriting(folderId);
+    return keys ? JSON.stringify(await encryptJson(keys, value)) : JSON.stringify(value, null, 2);
+  }
+
+  // Files written before encryption was turned on are still plain JSON
+  private async decodeJson(folderId: string, content: string): Promise<any> {
+    const value = JSON.parse(content);
+    if (!isEncryptedFile(value)) {
+      return value;
+    }
+    const keys = this.projectKeys.get(folderId);
+    if (!keys) {
+      throw new ProjectLockedError(folderId);
+    }
+    return decryptJson(keys, value);
+  }
+
+  private async decodeBytes(folderId: string, file: DriveFile, data: Uint8Array): Promise<Uint8Array> {
+    const keyId = file.appProperties?.keyId;
+    if (!keyId) {
+      return data;
+    }
+    const keys = this.projectKeys.get(folderId);
+    if (!keys) {
+      throw new ProjectLockedError(folderId);
+    }
+    return decryptBytes(keys, keyId, data);
+  }
+
+  // Write every file of the project again with the current key, after encryption was turned on or
+  // the passphrase changed. Returns the data file's new modified time.
+  async rewriteProjectFolder(folderId: string): Promise<string | undefined> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated with Google Drive');
+    }
+
+    console.log('🔐 Re-encrypting project files...');
+    const { data } = await this.loadProjectFileFromFolder(folderId);
+    const result = await this.saveProjectToFolder(folderId, data, true);
+
+    const documents = await this.loadDocumentsFromFolder(folderId);
+    for (const document of documents) {
+      await this.saveDocumentToFolder(folderId, document);
+    }
+
+    // Files of deleted documents in the trash subfolder
+    const manifest = await this.getDocumentManifest(folderId);
+    for (const [documentId, entry] of Object.entries(manifest.trashed || {})) {
+      try {
+        const document = await this.decodeJson(folderId, await this.getFile(entry.fileId));
+        await this.updateFile(entry.fileId, await this.encodeJson(folderId, document));
+        await gapi.client.drive.files.update({ fileId: entry.fileId, resource: { name: `${documentId}.json` } });
+        entry.fileName = `${documentId}.json`;
+      } catch (error: any) {
+        if (error?.status !== 404) throw error;
+      }
+    }
+    await this.saveDocumentManifest(folderId);
+
+    for (const entry of Object.values(manifest.revisions || {})) {
+      try {
+        const log = await this.decodeJson(folderId, await this.getFile(entry.fileId));
+        await this.updateFile(entry.fileId, await this.encodeJson(folderId, log));
+      } catch (error: any) {
+        if (error?.status !== 404) throw error;
+      }
+    }
+
+    const keys = (await this.getKeysForWriting(folderId))!;
+    const snapshotsFolderId = await this.getSubfolder(folderId, SNAPSHOTS_FOLDER_NAME);
+    const response = await gapi.client.drive.files.list({
+      q: `'${snapshotsFolderId}' in parents and trashed=false`,
+      fields: 'files(id, name, description, appProperties)',
+      pageSize: 1000,
+    });
+    for (const file of response.result.files as DriveFile[]) {
+      const snapshotId = file.appProperties?.snapshotId;
+      if (!snapshotId || file.appProperties?.keyId === keys.currentKeyId) continue;
+      const archive = await this.decodeBytes(folderId, file, await this.downloadBytes(file.id));
+      const info = await this.decodeJson(folderId, file.description || '');
+      const encrypted = await encryptBytes(keys, archive);
+      await this.updateFile(file.id, encrypted.data, 'application/octet-stream');
+      await gapi.client.drive.files.update({
+        fileId: file.id,
+        resource: {
+          name: `${snapshotId}.zip.enc`,
+          description: JSON.stringify(await encryptJson(keys, info)),
+          appProperties: { snapshotId, keyId: encrypted.keyId },
+        },
+      });
+    }
+
+    console.log(`✅ Re-encrypted ${documents.length} documents`);
+    return result.driveModified;
+  }
+
   // Delete an entire project folder
   async deleteProjectFolder(folderId: string): Promise<void> {
     if (!this.isAuthenticated()) {
@@ -780,6 +1603,13 @@ class GoogleDriveService {
     }
 
     try {
+      this.manifests.delete(folderId);
+      this.projectKeys.delete(folderId);
+      this.encryptedFolders.delete(folderId);
+      Array.from(this.subfolders.keys())
+        .filter((key) => key.startsWith(`${folderId}/`))
+        .forEach((key) => this.subfolders.delete(key));
+
       // Delete all files in the folder first
       const files = await this.listFiles(folderId);
       for (const file of files) {
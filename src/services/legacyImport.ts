@@ -0,0 +1,154 @@
+// One-time import of data left behind in the old local IndexedDB (Dexie) database
+// into the currently open project, so it gets saved to Google Drive like everything else
+
+import { db } from '../database/schema';
+import { storageService, StoryboardElement, MapElement } from './storageService';
+
+const STORYBOARD_IMPORTED_KEY = 'legacy_storyboard_imported';
+const MAPS_IMPORTED_KEY = 'legacy_maps_imported';
+
+// Dexie used auto-increment number IDs, the project uses string IDs.
+// Resolve a legacy reference by matching the referenced record's name/title.
+async function resolveLegacyReference(
+  type: StoryboardElement['type'],
+  legacyId?: number
+): Promise<string | undefined> {
+  if (legacyId === undefined || legacyId === null) return undefined;
+
+  switch (type) {
+    case 'character': {
+      const legacy = await db.characters.get(legacyId);
+      if (!legacy) return undefined;
+      const characters = await storageService.getCharacters();
+      return characters.find(c => c.name === legacy.name)?.id;
+    }
+    case 'location': {
+      const legacy = await db.locations.get(legacyId);
+      if (!legacy) return undefined;
+      const locations = await storageService.getLocations();
+      return locations.find(l => l.name === legacy.name)?.id;
+    }
+    case 'plot_point': {
+      const legacy = await db.plotPoints.get(legacyId);
+      if (!legacy) return undefined;
+      const plotPoints = await storageService.getPlotPoints();
+      return plotPoints.find(p => p.title === legacy.title)?.id;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Copy storyboard elements from IndexedDB into the open project (runs only once per browser)
+export async function importLegacyStoryboard(): Promise<number> {
+  if (!storageService.isReady()) return 0;
+  if (localStorage.getItem(STORYBOARD_IMPORTED_KEY) === 'true') return 0;
+
+  try {
+    const legacyElements = await db.storyboardElements.toArray();
+    if (legacyElements.length === 0) {
+      localStorage.setItem(STORYBOARD_IMPORTED_KEY, 'true');
+      return 0;
+    }
+
+    console.log(`📦 Importing ${legacyElements.length} storyboard element(s) from local database...`);
+
+    // Not undoable: the first undo would otherwise take the whole import back out of the project
+    await storageService.withoutHistory(async () => {
+      // First pass: create elements and remember the new ID for each legacy ID
+      const idMap = new Map<number, string>();
+      for (const legacy of legacyElements) {
+        const newId = await storageService.addStoryboardElement({
+          type: legacy.type,
+          elementId: await resolveLegacyReference(legacy.type, legacy.elementId),
+          x: legacy.x,
+          y: legacy.y,
+          width: legacy.width,
+          height: legacy.height,
+          content: legacy.content || '',
+          style: legacy.style || {},
+          connections: [],
+        });
+        if (legacy.id !== undefined) {
+          idMap.set(legacy.id, newId);
+        }
+      }
+
+      // Second pass: rebuild connections using the new IDs
+      for (const legacy of legacyElements) {
+        const fromId = legacy.id !== undefined ? idMap.get(legacy.id) : undefined;
+        if (!fromId) continue;
+        for (const legacyTarget of legacy.connections || []) {
+          const toId = idMap.get(legacyTarget);
+          if (toId) {
+            await storageService.connectStoryboardElements(fromId, toId);
+          }
+        }
+      }
+    });
+
+    localStorage.setItem(STORYBOARD_IMPORTED_KEY, 'true');
+    console.log(`✅ Imported ${legacyElements.length} storyboard element(s) into the project`);
+    return legacyElements.length;
+  } catch (error) {
+    console.error('❌ Failed to import storyboard from local database:', error);
+    return 0;
+  }
+}
+
+// Copy maps (with their elements) from IndexedDB into the open project (runs only once per browser)
+export async function importLegacyMaps(): Promise<number> {
+  if (!storageService.isReady()) return 0;
+  if (localStorage.getItem(MAPS_IMPORTED_KEY) === 'true') return 0;
+
+  try {
+    const legacyMaps = await db.maps.toArray();
+    if (legacyMaps.length === 0) {
+      localStorage.setItem(MAPS_IMPORTED_KEY, 'true');
+      return 0;
+    }
+
+    console.log(`📦 Importing ${legacyMaps.length} map(s) from local database...`);
+
+    // Not undoable, like the storyboard import
+    await storageService.withoutHistory(async () => {
+      for (const legacy of legacyMaps) {
+        const mapId = await storageService.addMap({
+          title: legacy.title,
+          description: legacy.description || '',
+          width: legacy.width || 1200,
+          height: legacy.height || 800,
+          backgroundColor: legacy.backgroundColor || '#f0f8ff',
+          gridSize: legacy.gridSize || 20,
+          showGrid: legacy.showGrid !== false,
+          elements: [],
+        });
+
+        for (const element of legacy.elements || []) {
+          const newElement: Omit<MapElement, 'id' | 'createdAt' | 'updatedAt'> = {
+            type: element.type,
+            name: element.name,
+            description: element.description || '',
+            x: element.x,
+            y: element.y,
+            width: element.width,
+            height: element.height,
+            color: element.color,
+            icon: element.icon,
+            notes: element.notes || '',
+            characterId: await resolveLegacyReference('character', element.characterId),
+            locationId: await resolveLegacyReference('location', element.locationId),
+          };
+          await storageService.addMapElement(mapId, newElement);
+        }
+      }
+    });
+
+    localStorage.setItem(MAPS_IMPORTED_KEY, 'true');
+    console.log(`✅ Imported ${legacyMaps.length} map(s) into the project`);
+    return legacyMaps.length;
+  } catch (error) {
+    console.error('❌ Failed to import maps from local database:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,223 @@
+// Local storage backend
+// Keeps projects in the browser's IndexedDB so the app works without Google Drive
+
+import Dexie, { Table } from 'dexie';
+import { StorageBackend, ProjectSummary, ProjectStats, BackendChangeListener, BackendChange, toProjectMetadata } from './storageBackend';
+import { ProjectData, Document } from './storageService';
+import { SnapshotInfo } from './projectSnapshots';
+import { RevisionLog } from './documentRevisions';
+
+interface LocalProjectRecord {
+  id: string;
+  name: string;
+  lastModified: string;
+  data: ProjectData;
+  stats?: ProjectStats;
+}
+
+interface LocalSnapshotRecord {
+  id: string;
+  projectId: string;
+  info: SnapshotInfo;
+  archive: Uint8Array;
+}
+
+interface LocalDocumentRecord {
+  projectId: string;
+  id: string;
+  document: Document;
+}
+
+interface LocalRevisionRecord {
+  projectId: string;
+  documentId: string;
+  log: RevisionLog;
+}
+
+class LocalProjectDatabase extends Dexie {
+  projects!: Table<LocalProjectRecord>;
+  documents!: Table<LocalDocumentRecord>;
+  snapshots!: Table<LocalSnapshotRecord>;
+  revisions!: Table<LocalRevisionRecord>;
+
+  constructor() {
+    super('StoryboardLocalProjects');
+
+    this.version(1).stores({
+      projects: 'id, name, lastModified',
+      documents: '[projectId+id], projectId',
+      snapshots: 'id, projectId',
+      revisions: '[projectId+documentId], projectId',
+    });
+  }
+}
+
+class LocalBackend implements StorageBackend {
+  readonly name = 'This device';
+  private db: LocalProjectDatabase | null = null;
+  private watchers: Array<{ projectId: string; listener: BackendChangeListener }> = [];
+  private channel: BroadcastChannel | null = null;
+
+  // Open the database lazily so importing this module never touches IndexedDB
+  private getDb(): LocalProjectDatabase {
+    if (!this.db) {
+      this.db = new LocalProjectDatabase();
+    }
+    return this.db;
+  }
+
+  private generateId(): string {
+    return `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Changes are broadcast so other tabs editing the same project can pick them up
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('storyboard-local-projects');
+      this.channel.onmessage = (event: MessageEvent<BackendChange>) => {
+        this.watchers
+          .filter(w => w.projectId === event.data.projectId)
+          .forEach(w => w.listener(event.data));
+      };
+    }
+    return this.channel;
+  }
+
+  private notify(projectId: string, kind: 'project' | 'document', documentId?: string): void {
+    const change: BackendChange = { projectId, kind, documentId, modifiedTime: new Date().toISOString() };
+    this.getChannel()?.postMessage(change);
+  }
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async listProjects(): Promise<ProjectSummary[]> {
+    const projects = await this.getDb().projects.orderBy('lastModified').reverse().toArray();
+    return projects.map(p => ({ id: p.id, name: p.name, lastModified: p.lastModified, ...p.stats }));
+  }
+
+  async createProject(projectName: string, data: ProjectData): Promise<string> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    await this.getDb().projects.add({
+      id,
+      name: projectName,
+      lastModified: now,
+      data: toProjectMetadata({ ...data, projectName, lastModified: now }),
+    });
+    return id;
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    const db = this.getDb();
+    await db.transaction('rw', [db.projects, db.documents, db.snapshots, db.revisions], async () => {
+      await db.documents.where('projectId').equals(projectId).delete();
+      await db.snapshots.where('projectId').equals(projectId).delete();
+      await db.revisions.where('projectId').equals(projectId).delete();
+      await db.projects.delete(projectId);
+    });
+  }
+
+  async updateProjectStats(projectId: string, stats: ProjectStats): Promise<void> {
+    const db = this.getDb();
+    await db.transaction('rw', db.projects, async () => {
+      const record = await db.projects.get(projectId);
+      if (record) {
+        await db.projects.update(projectId, { stats: { ...record.stats, ...stats } });
+      }
+    });
+  }
+
+  async loadProject(projectId: string): Promise<ProjectData> {
+    const record = await this.getDb().projects.get(projectId);
+    if (!record) {
+      throw new Error('Project not found on this device');
+    }
+    return record.data;
+  }
+
+  async saveProjectMetadata(projectId: string, data: ProjectData): Promise<void> {
+    const metadata = toProjectMetadata(data);
+    // Update rather than put, so the cached stats are kept
+    const updated = await this.getDb().projects.update(projectId, {
+      name: metadata.projectName,
+      lastModified: metadata.lastModified,
+      data: metadata,
+    });
+    if (updated === 0) {
+      await this.getDb().projects.put({
+        id: projectId,
+        name: metadata.projectName,
+        lastModified: metadata.lastModified,
+        data: metadata,
+      });
+    }
+    this.notify(projectId, 'project');
+  }
+
+  async saveSnapshot(projectId: string, info: SnapshotInfo, archive: Uint8Array): Promise<void> {
+    await this.getDb().snapshots.put({ id: info.id, projectId, info, archive });
+  }
+
+  async listSnapshots(projectId: string): Promise<SnapshotInfo[]> {
+    const records = await this.getDb().snapshots.where('projectId').equals(projectId).toArray();
+    return records.map(r => r.info).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async loadSnapshot(projectId: string, snapshotId: string): Promise<Uint8Array> {
+    const record = await this.getDb().snapshots.get(snapshotId);
+    if (!record || record.projectId !== projectId) {
+      throw new Error('Snapshot not found on this device');
+    }
+    return record.archive;
+  }
+
+  async deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+    await this.getDb().snapshots.delete(snapshotId);
+  }
+
+  async loadRevisions(projectId: string, documentId: string): Promise<RevisionLog | null> {
+    const record = await this.getDb().revisions.get([projectId, documentId]);
+    return record ? record.log : null;
+  }
+
+  async saveRevisions(projectId: string, log: RevisionLog): Promise<void> {
+    await this.getDb().revisions.put({ projectId, documentId: log.documentId, log });
+  }
+
+  async loadDocuments(projectId: string): Promise<Document[]> {
+    const records = await this.getDb().documents.where('projectId').equals(projectId).toArray();
+    return records.map(r => r.document);
+  }
+
+  async saveDocument(projectId: string, document: Document): Promise<void> {
+    if (!document.id) {
+      throw new Error('Document must have an ID to save');
+    }
+    await this.getDb().documents.put({ projectId, id: document.id, document });
+    this.notify(projectId, 'document', document.id);
+  }
+
+  async deleteDocument(projectId: string, documentId: string): Promise<void> {
+    await this.getDb().revisions.delete([projectId, documentId]);
+    await this.trashDocument(projectId, documentId);
+  }
+
+  // Nothing to set aside: the project's trash holds the document. Its revisions are kept for a restore.
+  async trashDocument(projectId: string, documentId: string): Promise<void> {
+    await this.getDb().documents.delete([projectId, documentId]);
+    this.notify(projectId, 'document', documentId);
+  }
+
+  watch(projectId: string, listener: BackendChangeListener): () => void {
+    this.getChannel();
+    const watcher = { projectId, listener };
+    this.watchers.push(watcher);
+    return () => {
+      this.watchers = this.watchers.filter(w => w !== watcher);
+    };
+  }
+}
+
+export const localBackend = new LocalBackend();
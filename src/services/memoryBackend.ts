@@ -0,0 +1,147 @@
+// In-memory storage backend
+// Nothing is persisted; used in tests and as a scratch store when no other backend is available
+
+import { StorageBackend, ProjectSummary, ProjectStats, BackendChangeListener, toProjectMetadata } from './storageBackend';
+import { ProjectData, Document } from './storageService';
+import { SnapshotInfo } from './projectSnapshots';
+import { RevisionLog } from './documentRevisions';
+
+interface StoredProject {
+  metadata: ProjectData;
+  documents: Map<string, Document>;
+  snapshots: Map<string, { info: SnapshotInfo; archive: Uint8Array }>;
+  revisions: Map<string, RevisionLog>;
+  stats: ProjectStats;
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'Memory';
+  private projects = new Map<string, StoredProject>();
+  private watchers: Array<{ projectId: string; listener: BackendChangeListener }> = [];
+  private nextId = 1;
+
+  // Deep copy so callers never share references with the stored data
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private getProject(projectId: string): StoredProject {
+    const project = this.projects.get(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+    return project;
+  }
+
+  private notify(projectId: string, kind: 'project' | 'document', documentId?: string): void {
+    const modifiedTime = new Date().toISOString();
+    this.watchers
+      .filter(w => w.projectId === projectId)
+      .forEach(w => w.listener({ projectId, kind, documentId, modifiedTime }));
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async listProjects(): Promise<ProjectSummary[]> {
+    return Array.from(this.projects.entries()).map(([id, project]) => ({
+      id,
+      name: project.metadata.projectName,
+      lastModified: project.metadata.lastModified,
+      ...project.stats,
+    }));
+  }
+
+  async createProject(projectName: string, data: ProjectData): Promise<string> {
+    const id = `memory_${this.nextId++}`;
+    this.projects.set(id, {
+      metadata: this.clone(toProjectMetadata({ ...data, projectName })),
+      documents: new Map(),
+      snapshots: new Map(),
+      revisions: new Map(),
+      stats: {},
+    });
+    return id;
+  }
+
+  async updateProjectStats(projectId: string, stats: ProjectStats): Promise<void> {
+    const project = this.getProject(projectId);
+    project.stats = { ...project.stats, ...stats };
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    this.projects.delete(projectId);
+  }
+
+  async loadProject(projectId: string): Promise<ProjectData> {
+    return this.clone(this.getProject(projectId).metadata);
+  }
+
+  async saveProjectMetadata(projectId: string, data: ProjectData): Promise<void> {
+    this.getProject(projectId).metadata = this.clone(toProjectMetadata(data));
+    this.notify(projectId, 'project');
+  }
+
+  async saveSnapshot(projectId: string, info: SnapshotInfo, archive: Uint8Array): Promise<void> {
+    this.getProject(projectId).snapshots.set(info.id, { info: this.clone(info), archive: archive.slice() });
+  }
+
+  async listSnapshots(projectId: string): Promise<SnapshotInfo[]> {
+    return Array.from(this.getProject(projectId).snapshots.values())
+      .map(snapshot => this.clone(snapshot.info))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async loadSnapshot(projectId: string, snapshotId: string): Promise<Uint8Array> {
+    const snapshot = this.getProject(projectId).snapshots.get(snapshotId);
+    if (!snapshot) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    return snapshot.archive.slice();
+  }
+
+  async deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+    this.getProject(projectId).snapshots.delete(snapshotId);
+  }
+
+  async loadRevisions(projectId: string, documentId: string): Promise<RevisionLog | null> {
+    const log = this.getProject(projectId).revisions.get(documentId);
+    return log ? this.clone(log) : null;
+  }
+
+  async saveRevisions(projectId: string, log: RevisionLog): Promise<void> {
+    this.getProject(projectId).revisions.set(log.documentId, this.clone(log));
+  }
+
+  async loadDocuments(projectId: string): Promise<Document[]> {
+    return Array.from(this.getProject(projectId).documents.values()).map(doc => this.clone(doc));
+  }
+
+  async saveDocument(projectId: string, document: Document): Promise<void> {
+    if (!document.id) {
+      throw new Error('Document must have an ID to save');
+    }
+    this.getProject(projectId).documents.set(document.id, this.clone(document));
+    this.notify(projectId, 'document', document.id);
+  }
+
+  async deleteDocument(projectId: string, documentId: string): Promise<void> {
+    this.getProject(projectId).revisions.delete(documentId);
+    await this.trashDocument(projectId, documentId);
+  }
+
+  // Nothing to set aside: the project's trash holds the document. Its revisions are kept for a restore.
+  async trashDocument(projectId: string, documentId: string): Promise<void> {
+    this.getProject(projectId).documents.delete(documentId);
+    this.notify(projectId, 'document', documentId);
+  }
+
+  watch(projectId: string, listener: BackendChangeListener): () => void {
+    const watcher = { projectId, listener };
+    this.watchers.push(watcher);
+    return () => {
+      this.watchers = this.watchers.filter(w => w !== watcher);
+    };
+  }
+}
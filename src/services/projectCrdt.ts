@@ -0,0 +1,187 @@
+// Shared project model for real-time collaboration
+// Each collection is a Y.Map of entities, and each entity a Y.Map of its fields, so collaborators
+// editing different fields (or entities) never overwrite each other. Document content is a Y.Text,
+// so concurrent typing in the same document merges character by character.
+
+import * as Y from 'yjs';
+import { ProjectData } from './storageService';
+import { HistoryCollection } from './projectHistory';
+import { isEqual } from './projectMerge';
+
+export type CrdtCollection = Exclude<HistoryCollection, 'trash'>;
+
+export const CRDT_COLLECTIONS: CrdtCollection[] = [
+  'characters',
+  'locations',
+  'plotPoints',
+  'chapters',
+  'storyboardElements',
+  'maps',
+  'documents',
+];
+
+// Fields kept as shared text instead of plain values
+const TEXT_FIELDS: Partial<Record<CrdtCollection, string[]>> = {
+  documents: ['content'],
+};
+
+// Origin of transactions made from this session's own edits, which must not be applied back to it
+export const LOCAL_ORIGIN = 'local';
+
+export interface RemoteEntityChange {
+  collection: CrdtCollection;
+  id: string;
+  entity: any | null; // null when the entity was deleted
+}
+
+// Turn the text into next with a single delete and insert around the common prefix and suffix
+export function updateText(text: Y.Text, next: string): void {
+  const current = text.toString();
+  if (current === next) return;
+
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) end++;
+
+  text.delete(start, current.length - start - end);
+  text.insert(start, next.slice(start, next.length - end));
+}
+
+// Three-way merge of two edits of the same text, e.g. what was typed locally while a collaborator's
+// change arrived. Both edits are replayed on a scratch document so they merge like live edits do.
+export function mergeText(base: string, local: string, remote: string): string {
+  if (local === base) return remote;
+  if (remote === base || remote === local) return local;
+
+  const localDoc = new Y.Doc();
+  localDoc.getText().insert(0, base);
+  const remoteDoc = new Y.Doc();
+  Y.applyUpdate(remoteDoc, Y.encodeStateAsUpdate(localDoc));
+
+  updateText(localDoc.getText(), local);
+  updateText(remoteDoc.getText(), remote);
+  Y.applyUpdate(localDoc, Y.encodeStateAsUpdate(remoteDoc));
+  return localDoc.getText().toString();
+}
+
+export class ProjectCrdt {
+  readonly doc = new Y.Doc();
+
+  private collection(collection: CrdtCollection): Y.Map<Y.Map<any>> {
+    return this.doc.getMap(collection);
+  }
+
+  // Add the project's entities. Entities collaborators already shared are left as they are.
+  load(data: ProjectData): void {
+    this.doc.transact(() => {
+      CRDT_COLLECTIONS.forEach(collection => {
+        const items = this.collection(collection);
+        ((data as any)[collection] || []).forEach((entity: any) => {
+          if (entity?.id && !items.has(entity.id)) {
+            this.writeEntity(collection, entity);
+          }
+        });
+      });
+    }, LOCAL_ORIGIN);
+  }
+
+  // Share every entity of the project, e.g. after it was reloaded from storage or a snapshot
+  replace(data: ProjectData): void {
+    this.doc.transact(() => {
+      CRDT_COLLECTIONS.forEach(collection => {
+        const entities: any[] = ((data as any)[collection] || []).filter((entity: any) => entity?.id);
+        const ids = new Set(entities.map(entity => entity.id));
+        const items = this.collection(collection);
+        Array.from(items.keys()).forEach(id => {
+          if (!ids.has(id)) items.delete(id);
+        });
+        entities.forEach(entity => this.writeEntity(collection, entity));
+      });
+    }, LOCAL_ORIGIN);
+  }
+
+  // Share a local edit. Pass null when the entity was deleted.
+  // Only fields that differ are written, so applying an entity that came from a collaborator is a no-op.
+  applyLocal(collection: CrdtCollection, id: string, entity: any | null): void {
+    this.doc.transact(() => {
+      if (entity) {
+        this.writeEntity(collection, entity);
+      } else {
+        this.collection(collection).delete(id);
+      }
+    }, LOCAL_ORIGIN);
+  }
+
+  getEntity(collection: CrdtCollection, id: string): any | null {
+    const entity = this.collection(collection).get(id);
+    return entity ? this.toEntity(entity) : null;
+  }
+
+  // Entities changed by collaborators. Returns an unsubscribe function.
+  onRemoteChange(listener: (change: RemoteEntityChange) => void): () => void {
+    const unsubscribes = CRDT_COLLECTIONS.map(collection => {
+      const items = this.collection(collection);
+      const handler = (events: Array<Y.YEvent<any>>, transaction: Y.Transaction) => {
+        if (transaction.origin === LOCAL_ORIGIN) return;
+
+        const ids = new Set<string>();
+        events.forEach(event => {
+          if (event.target === items) {
+            event.changes.keys.forEach((_, id) => ids.add(id));
+          } else {
+            ids.add(event.path[0] as string);
+          }
+        });
+        ids.forEach(id => listener({ collection, id, entity: this.getEntity(collection, id) }));
+      };
+      items.observeDeep(handler);
+      return () => items.unobserveDeep(handler);
+    });
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  destroy(): void {
+    this.doc.destroy();
+  }
+
+  private writeEntity(collection: CrdtCollection, entity: any): void {
+    const items = this.collection(collection);
+    let fields = items.get(entity.id);
+    if (!fields) {
+      fields = new Y.Map();
+      items.set(entity.id, fields);
+    }
+
+    const textFields = TEXT_FIELDS[collection] || [];
+    Object.keys(entity).forEach(field => {
+      const value = entity[field];
+      if (value === undefined) return;
+      if (textFields.includes(field) && typeof value === 'string') {
+        let text = fields!.get(field);
+        if (!(text instanceof Y.Text)) {
+          text = new Y.Text();
+          fields!.set(field, text);
+        }
+        updateText(text, value);
+      } else if (!isEqual(fields!.get(field), value)) {
+        fields!.set(field, JSON.parse(JSON.stringify(value)));
+      }
+    });
+    Array.from(fields.keys()).forEach(field => {
+      if (entity[field] === undefined) fields!.delete(field);
+    });
+  }
+
+  private toEntity(fields: Y.Map<any>): any {
+    const entity: any = {};
+    fields.forEach((value, field) => {
+      entity[field] = value instanceof Y.Text ? value.toString() : value;
+    });
+    return entity;
+  }
+}
@@ -0,0 +1,208 @@
+// End-to-end encryption of project files
+// Files are encrypted in the browser with AES-GCM before they are uploaded, so the storage provider
+// only ever sees ciphertext. Each project has random project keys; a key derived from the user's
+// passphrase (PBKDF2) encrypts them, and so does a key derived from a recovery key shown to the user
+// once. Every encrypted file names the project key it was written with, so a passphrase change can
+// re-encrypt files one by one with a new key while both keys stay readable.
+
+const PBKDF2_ITERATIONS = 310000;
+const KEY_FILE_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Crockford's base32, without letters that are easy to mix up
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_KEY_BYTES = 20;
+
+export interface EncryptedBlob {
+  iv: string; // Base64
+  data: string; // Base64 ciphertext
+}
+
+// What an encrypted file contains instead of the JSON it protects
+export interface EncryptedFile extends EncryptedBlob {
+  encrypted: 'AES-GCM';
+  keyId: string;
+}
+
+// Stored with the project. Holds the project keys, encrypted once with the passphrase and once with
+// the recovery key. Opening either copy also verifies the passphrase or recovery key.
+export interface ProjectKeyFile {
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number };
+  passphraseSalt: string;
+  passphraseKeys: EncryptedBlob;
+  recoverySalt: string;
+  recoveryKeys: EncryptedBlob;
+}
+
+// Unlocked project keys. New files are written with the current key.
+export interface ProjectKeys {
+  currentKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+export type ProjectSecret = { passphrase: string } | { recoveryKey: string };
+
+export class WrongPassphraseError extends Error {
+  constructor(public usedRecoveryKey = false) {
+    super(usedRecoveryKey ? 'That recovery key is not correct' : 'That passphrase is not correct');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const randomId = (): string => Array.from(randomBytes(8), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// A random recovery key, in groups of four characters, e.g. 7K2M-...
+export function generateRecoveryKey(): string {
+  const bytes = randomBytes(RECOVERY_KEY_BYTES);
+  let bits = 0;
+  let value = 0;
+  let key = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      key += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  return key.match(/.{1,4}/g)!.join('-');
+}
+
+// Recovery keys are accepted without dashes, in lower case and with O/I/L typed for 0/1/1
+const normalizeRecoveryKey = (recoveryKey: string): string =>
+  recoveryKey.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+
+async function deriveKey(secret: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptBlob(key: CryptoKey, plaintext: BufferSource): Promise<EncryptedBlob> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decryptBlob(key: CryptoKey, blob: EncryptedBlob): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+  return new Uint8Array(plaintext);
+}
+
+// New project keys with one fresh key, plus any keys still needed to read older files
+export async function createProjectKeys(previous?: ProjectKeys): Promise<ProjectKeys> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const currentKeyId = randomId();
+  return { currentKeyId, keys: new Map([...(previous?.keys || []), [currentKeyId, key]]) };
+}
+
+// Only the current key, once every file has been written with it
+export function withoutOldKeys(projectKeys: ProjectKeys): ProjectKeys {
+  const current = projectKeys.keys.get(projectKeys.currentKeyId)!;
+  return { currentKeyId: projectKeys.currentKeyId, keys: new Map([[projectKeys.currentKeyId, current]]) };
+}
+
+// Encrypt the project keys for storage with the project
+export async function sealProjectKeys(
+  projectKeys: ProjectKeys,
+  passphrase: string,
+  recoveryKey: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<ProjectKeyFile> {
+  const keys: Record<string, string> = {};
+  for (const [keyId, key] of projectKeys.keys) {
+    keys[keyId] = toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+  }
+  const bundle = encoder.encode(JSON.stringify({ currentKeyId: projectKeys.currentKeyId, keys }));
+
+  const passphraseSalt = randomBytes(16);
+  const recoverySalt = randomBytes(16);
+  return {
+    version: KEY_FILE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations },
+    passphraseSalt: toBase64(passphraseSalt),
+    passphraseKeys: await encryptBlob(await deriveKey(passphrase, passphraseSalt, iterations), bundle),
+    recoverySalt: toBase64(recoverySalt),
+    recoveryKeys: await encryptBlob(await deriveKey(normalizeRecoveryKey(recoveryKey), recoverySalt, iterations), bundle),
+  };
+}
+
+// Decrypt the project keys. Throws WrongPassphraseError when the passphrase or recovery key is wrong.
+export async function openProjectKeys(keyFile: ProjectKeyFile, secret: ProjectSecret): Promise<ProjectKeys> {
+  const usedRecoveryKey = 'recoveryKey' in secret;
+  const key = usedRecoveryKey
+    ? await deriveKey(normalizeRecoveryKey(secret.recoveryKey), fromBase64(keyFile.recoverySalt), keyFile.kdf.iterations)
+    : await deriveKey(secret.passphrase, fromBase64(keyFile.passphraseSalt), keyFile.kdf.iterations);
+
+  let bundle: { currentKeyId: string; keys: Record<string, string> };
+  try {
+    // AES-GCM authenticates the ciphertext, so a wrong key fails here instead of returning garbage
+    bundle = JSON.parse(decoder.decode(await decryptBlob(key, usedRecoveryKey ? keyFile.recoveryKeys : keyFile.passphraseKeys)));
+  } catch {
+    throw new WrongPassphraseError(usedRecoveryKey);
+  }
+
+  const keys = new Map<string, CryptoKey>();
+  for (const [keyId, raw] of Object.entries(bundle.keys)) {
+    keys.set(keyId, await crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', true, ['encrypt', 'decrypt']));
+  }
+  return { currentKeyId: bundle.currentKeyId, keys };
+}
+
+export function isEncryptedFile(value: any): value is EncryptedFile {
+  return value?.encrypted === 'AES-GCM' && typeof value.keyId === 'string' && typeof value.data === 'string';
+}
+
+export async function encryptJson(projectKeys: ProjectKeys, value: any): Promise<EncryptedFile> {
+  const blob = await encryptBlob(projectKeys.keys.get(projectKeys.currentKeyId)!, encoder.encode(JSON.stringify(value)));
+  return { encrypted: 'AES-GCM', keyId: projectKeys.currentKeyId, ...blob };
+}
+
+export async function decryptJson(projectKeys: ProjectKeys, file: EncryptedFile): Promise<any> {
+  return JSON.parse(decoder.decode(await decryptBlob(getKey(projectKeys, file.keyId), file)));
+}
+
+// Binary files (snapshot archives) are stored as the IV followed by the ciphertext
+export async function encryptBytes(projectKeys: ProjectKeys, bytes: Uint8Array): Promise<{ keyId: string; data: Uint8Array }> {
+  const iv = randomBytes(12);
+  const key = projectKeys.keys.get(projectKeys.currentKeyId)!;
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes.slice()));
+  const data = new Uint8Array(iv.length + ciphertext.length);
+  data.set(iv);
+  data.set(ciphertext, iv.length);
+  return { keyId: projectKeys.currentKeyId, data };
+}
+
+export async function decryptBytes(projectKeys: ProjectKeys, keyId: string, data: Uint8Array): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: data.slice(0, 12) }, getKey(projectKeys, keyId), data.slice(12));
+  return new Uint8Array(plaintext);
+}
+
+function getKey(projectKeys: ProjectKeys, keyId: string): CryptoKey {
+  const key = projectKeys.keys.get(keyId);
+  if (!key) {
+    throw new Error(`File was encrypted with an unknown key (${keyId})`);
+  }
+  return key;
+}
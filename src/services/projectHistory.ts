@@ -0,0 +1,179 @@
+// Command history for project edits. Every change is stored as before/after
+// snapshots of the entities it touched, so undoing means putting the "before"
+// copies back and redoing means putting the "after" copies back.
+
+export type HistoryCollection =
+  | 'characters'
+  | 'locations'
+  | 'plotPoints'
+  | 'chapters'
+  | 'storyboardElements'
+  | 'documents'
+  | 'maps'
+  | 'trash';
+
+export interface EntityChange {
+  collection: HistoryCollection;
+  id: string;
+  before?: any; // Missing when the entity was added
+  after?: any; // Missing when the entity was deleted
+  index?: number; // Position the entity had before it was deleted
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // e.g. "Deleted character 'Mara'"
+  timestamp: number;
+  changes: EntityChange[];
+  coalesceKey?: string;
+}
+
+const MAX_ENTRIES = 100;
+const COALESCE_WINDOW_MS = 1000; // Typing into one field within this window is a single step
+
+interface OpenGroup {
+  label: string;
+  depth: number;
+  changes: EntityChange[];
+}
+
+export class ProjectHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private group: OpenGroup | null = null;
+  private listeners: Array<() => void> = [];
+  private nextId = 1;
+  private paused = 0;
+
+  // Record a change. Repeated edits with the same coalesceKey merge into one entry.
+  record(label: string, changes: EntityChange[], coalesceKey?: string): void {
+    if (changes.length === 0 || this.paused > 0) return;
+
+    if (this.group) {
+      this.group.changes.push(...changes);
+      return;
+    }
+
+    const now = Date.now();
+    const top = this.undoStack[this.undoStack.length - 1];
+    if (coalesceKey && top && top.coalesceKey === coalesceKey && now - top.timestamp < COALESCE_WINDOW_MS) {
+      top.changes = mergeChanges([...top.changes, ...changes]);
+      top.timestamp = now;
+    } else {
+      this.push({ id: String(this.nextId++), label, timestamp: now, changes, coalesceKey });
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  // Changes made until the matching resume() are not recorded and can't be undone. Pauses can nest.
+  pause(): void {
+    this.paused++;
+  }
+
+  resume(): void {
+    if (this.paused > 0) this.paused--;
+  }
+
+  // Collect everything recorded until the matching endGroup() into one entry.
+  // Groups can nest; only the outermost label is kept.
+  beginGroup(label: string): void {
+    if (this.group) {
+      this.group.depth++;
+    } else {
+      this.group = { label, depth: 1, changes: [] };
+    }
+  }
+
+  endGroup(): void {
+    if (!this.group) return;
+    this.group.depth--;
+    if (this.group.depth > 0) return;
+
+    const { label, changes } = this.group;
+    this.group = null;
+    if (changes.length === 0) return;
+
+    this.push({ id: String(this.nextId++), label, timestamp: Date.now(), changes: mergeChanges(changes) });
+    this.redoStack = [];
+    this.notify();
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_ENTRIES) {
+      this.undoStack.shift();
+    }
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Pop the entry to undo and move it onto the redo stack
+  takeUndo(): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (entry) {
+      this.redoStack.push(entry);
+      this.notify();
+    }
+    return entry;
+  }
+
+  // Pop the entry to redo and move it back onto the undo stack
+  takeRedo(): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (entry) {
+      // A redone entry must not swallow the next edit
+      this.undoStack.push({ ...entry, coalesceKey: undefined });
+      this.notify();
+    }
+    return entry;
+  }
+
+  getUndoEntries(): HistoryEntry[] {
+    return this.undoStack;
+  }
+
+  getRedoEntries(): HistoryEntry[] {
+    return this.redoStack;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.group = null;
+    this.notify();
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Collapse several changes to the same entity into one, keeping the first
+// "before" and the last "after"
+const mergeChanges = (changes: EntityChange[]): EntityChange[] => {
+  const merged = new Map<string, EntityChange>();
+  changes.forEach(change => {
+    const key = `${change.collection}:${change.id}`;
+    const existing = merged.get(key);
+    if (existing) {
+      merged.set(key, { ...existing, after: change.after });
+    } else {
+      merged.set(key, { ...change });
+    }
+  });
+  return Array.from(merged.values());
+};
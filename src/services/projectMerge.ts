@@ -0,0 +1,194 @@
+// Three-way merge of project metadata
+// Compares the version we loaded (base) with our edits (local) and the copy now in storage (remote).
+// Entities are matched by ID and merged field by field; anything changed differently on both sides
+// becomes a conflict. Until a conflict is resolved, the merged data keeps the local value.
+
+import { ProjectData } from './storageService';
+
+export type MergeCollection = 'characters' | 'locations' | 'plotPoints' | 'chapters' | 'storyboardElements' | 'maps' | 'trash';
+
+export const MERGE_COLLECTIONS: MergeCollection[] = [
+  'characters',
+  'locations',
+  'plotPoints',
+  'chapters',
+  'storyboardElements',
+  'maps',
+  'trash',
+];
+
+export interface MergeConflict {
+  id: string; // Stable key: collection, entity and field
+  collection: MergeCollection | 'settings';
+  entityId: string;
+  entityName: string;
+  // The conflicting field, or undefined when one side deleted the entity and the other edited it
+  field?: string;
+  base?: any;
+  local?: any;
+  remote?: any;
+}
+
+export interface MergeResult {
+  merged: ProjectData;
+  conflicts: MergeConflict[];
+}
+
+// Bookkeeping fields that are never merged or reported as conflicts
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a).filter(key => a[key] !== undefined);
+  const bKeys = Object.keys(b).filter(key => b[key] !== undefined);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(key => isEqual(a[key], b[key]));
+}
+
+// Compare entities ignoring updatedAt, which changes even when a save rewrites identical data
+function isSameEntity(a: any, b: any): boolean {
+  if (!a || !b) return a === b;
+  return isEqual({ ...a, updatedAt: undefined }, { ...b, updatedAt: undefined });
+}
+
+export function getEntityName(entity: any): string {
+  return entity?.name || entity?.title || entity?.content || entity?.id || 'Untitled';
+}
+
+function laterTimestamp(a?: string, b?: string): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+// Merge two edited versions of one entity against their common base
+function mergeEntity(
+  collection: MergeCollection | 'settings',
+  entityId: string,
+  base: any,
+  local: any,
+  remote: any,
+  conflicts: MergeConflict[]
+): any {
+  const merged: any = { ...local };
+  const fields = new Set([...Object.keys(base || {}), ...Object.keys(local), ...Object.keys(remote)]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+
+    const baseValue = base?.[field];
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    if (isEqual(localValue, remoteValue) || isEqual(remoteValue, baseValue)) {
+      return; // Keep local
+    }
+    if (isEqual(localValue, baseValue)) {
+      merged[field] = remoteValue;
+      return;
+    }
+
+    conflicts.push({
+      id: `${collection}:${entityId}:${field}`,
+      collection,
+      entityId,
+      entityName: getEntityName(local),
+      field,
+      base: baseValue,
+      local: localValue,
+      remote: remoteValue,
+    });
+  });
+
+  if (local.updatedAt || remote.updatedAt) {
+    merged.updatedAt = laterTimestamp(local.updatedAt, remote.updatedAt);
+  }
+  return merged;
+}
+
+function mergeCollection(
+  collection: MergeCollection,
+  base: any[],
+  local: any[],
+  remote: any[],
+  conflicts: MergeConflict[]
+): any[] {
+  const byId = (items: any[]) => new Map(items.filter(item => item.id).map(item => [item.id as string, item]));
+  const baseById = byId(base);
+  const localById = byId(local);
+  const remoteById = byId(remote);
+
+  // Keep the remote order and append entities only we have
+  const ids = [...remoteById.keys()];
+  localById.forEach((_, id) => {
+    if (!remoteById.has(id)) ids.push(id);
+  });
+
+  const result: any[] = [];
+  ids.forEach(id => {
+    const baseItem = baseById.get(id);
+    const localItem = localById.get(id);
+    const remoteItem = remoteById.get(id);
+
+    if (localItem && remoteItem) {
+      result.push(mergeEntity(collection, id, baseItem, localItem, remoteItem, conflicts));
+      return;
+    }
+
+    const existing = localItem || remoteItem;
+    if (!baseItem) {
+      result.push(existing); // Added on one side only
+      return;
+    }
+    if (isSameEntity(existing, baseItem)) {
+      return; // Deleted on one side, untouched on the other
+    }
+
+    // Deleted on one side but edited on the other: keep the edits until the user decides
+    result.push(existing);
+    conflicts.push({
+      id: `${collection}:${id}:*`,
+      collection,
+      entityId: id,
+      entityName: getEntityName(existing),
+      base: baseItem,
+      local: localItem,
+      remote: remoteItem,
+    });
+  });
+
+  return result;
+}
+
+// Pick whichever side changed a top-level value, preferring local when both did
+function mergeValue<T>(base: T, local: T, remote: T): T {
+  return isEqual(local, base) ? remote : local;
+}
+
+export function mergeProjects(base: ProjectData, local: ProjectData, remote: ProjectData): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const merged: ProjectData = {
+    ...local,
+    projectName: mergeValue(base.projectName, local.projectName, remote.projectName),
+    lastModified: laterTimestamp(local.lastModified, remote.lastModified) || local.lastModified,
+    mapElements: mergeValue(base.mapElements, local.mapElements, remote.mapElements),
+    settings: mergeEntity('settings', 'settings', base.settings, local.settings || {}, remote.settings || {}, conflicts),
+  };
+
+  MERGE_COLLECTIONS.forEach(collection => {
+    (merged as any)[collection] = mergeCollection(
+      collection,
+      (base as any)[collection] || [],
+      (local as any)[collection] || [],
+      (remote as any)[collection] || [],
+      conflicts
+    );
+  });
+
+  return { merged, conflicts };
+}
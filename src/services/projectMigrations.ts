@@ -0,0 +1,136 @@
+// Project file migrations
+// Like the Dexie version(n).upgrade() steps in database/schema.ts, each migration upgrades project
+// data written by an older app version one schema version forward. They run in order on load.
+
+import { ProjectData } from './storageService';
+
+// Schema version written by this build of the app
+export const CURRENT_PROJECT_VERSION = '1.1';
+
+// Files written before versioning was introduced
+const INITIAL_PROJECT_VERSION = '1.0';
+
+interface ProjectMigration {
+  version: string; // The schema version this step upgrades to
+  description: string;
+  upgrade: (data: any) => any;
+}
+
+export interface MigrationResult {
+  data: ProjectData;
+  migrated: boolean;
+  fromVersion: string;
+}
+
+// Thrown when a project was written by a newer version of the app than this one
+export class NewerProjectVersionError extends Error {
+  constructor(public projectVersion: string) {
+    super(`This project was saved by a newer version of the app (format ${projectVersion}, this version supports ${CURRENT_PROJECT_VERSION})`);
+    this.name = 'NewerProjectVersionError';
+  }
+}
+
+// Compare dotted version strings numerically, e.g. '1.10' > '1.9'
+export function compareVersions(a: string, b: string): number {
+  const aParts = String(a).split('.').map(Number);
+  const bParts = String(b).split('.').map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+const toId = (value: any): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value);
+
+const toIds = (values: any): string[] =>
+  Array.isArray(values) ? values.filter(v => v !== undefined && v !== null).map(String) : [];
+
+const migrations: ProjectMigration[] = [
+  {
+    version: '1.1',
+    description: 'String IDs for all entities and references, defaults for fields added since 1.0',
+    upgrade: (data) => {
+      const now = new Date().toISOString();
+      const entity = (item: any) => ({
+        ...item,
+        id: toId(item.id),
+        createdAt: item.createdAt || now,
+        updatedAt: item.updatedAt || now,
+      });
+
+      return {
+        ...data,
+        characters: (data.characters || []).map((character: any) => ({
+          ...entity(character),
+          commonPhrases: character.commonPhrases || [],
+          skills: character.skills || [],
+          customFields: character.customFields || {},
+        })),
+        locations: (data.locations || []).map((location: any) => ({
+          ...entity(location),
+          landmarks: location.landmarks || [],
+          connectedLocations: toIds(location.connectedLocations),
+          frequentCharacters: toIds(location.frequentCharacters),
+          customFields: location.customFields || {},
+        })),
+        plotPoints: (data.plotPoints || []).map((plotPoint: any) => ({
+          ...entity(plotPoint),
+          chapterId: toId(plotPoint.chapterId),
+          characterIds: toIds(plotPoint.characterIds),
+          locationIds: toIds(plotPoint.locationIds),
+          themes: plotPoint.themes || [],
+          customFields: plotPoint.customFields || {},
+        })),
+        chapters: (data.chapters || []).map((chapter: any) => ({
+          ...entity(chapter),
+          plotPointIds: toIds(chapter.plotPointIds),
+          themes: chapter.themes || [],
+          customFields: chapter.customFields || {},
+        })),
+        storyboardElements: (data.storyboardElements || []).map((element: any) => ({
+          ...entity(element),
+          elementId: toId(element.elementId),
+          chapterId: toId(element.chapterId),
+          connections: toIds(element.connections),
+          style: element.style || {},
+        })),
+        documents: (data.documents || []).map((document: any) => ({
+          ...entity(document),
+          chapterId: toId(document.chapterId),
+        })),
+        mapElements: data.mapElements || [],
+        maps: (data.maps || []).map((map: any) => ({
+          ...entity(map),
+          elements: (map.elements || []).map((element: any) => ({
+            ...entity(element),
+            characterId: toId(element.characterId),
+            locationId: toId(element.locationId),
+          })),
+        })),
+      };
+    },
+  },
+];
+
+// Upgrade project data to the current schema version, one step at a time
+export function migrateProject(data: any): MigrationResult {
+  const fromVersion = data.version || INITIAL_PROJECT_VERSION;
+
+  if (compareVersions(fromVersion, CURRENT_PROJECT_VERSION) > 0) {
+    throw new NewerProjectVersionError(fromVersion);
+  }
+
+  let result = data;
+  let version = fromVersion;
+  migrations.forEach(migration => {
+    if (compareVersions(version, migration.version) < 0) {
+      console.log(`🔄 Migrating project from ${version} to ${migration.version}: ${migration.description}`);
+      result = { ...migration.upgrade(result), version: migration.version };
+      version = migration.version;
+    }
+  });
+
+  return { data: result, migrated: result !== data, fromVersion };
+}
@@ -0,0 +1,171 @@
+// Relationships between project entities
+// Knows which fields hold the ID of another entity, so deletes can find every record that
+// points at the deleted entity and the integrity check can find references that dangle.
+
+import { ProjectData } from './storageService';
+import { getEntityName } from './projectMerge';
+
+// Entities other records can point at
+export type ReferenceTarget = 'characters' | 'locations' | 'plotPoints' | 'chapters' | 'storyboardElements';
+
+// Collections holding records that point at other entities. Map elements live inside maps.
+export type ReferenceSource = 'plotPoints' | 'chapters' | 'locations' | 'storyboardElements' | 'documents' | 'mapElements';
+
+export interface EntityReference {
+  collection: ReferenceSource;
+  entityId: string; // The record holding the reference
+  entityName: string;
+  mapId?: string; // Map that contains the record, for map elements
+  field: string;
+  targetCollection: ReferenceTarget;
+  targetId: string;
+}
+
+// What happens to records that point at a deleted entity
+export type ReferenceResolution =
+  | { action: 'detach' } // Remove the reference and keep the record
+  | { action: 'delete' } // Delete the record too
+  | { action: 'reassign'; targetId: string }; // Point the record at another entity
+
+interface ReferenceField {
+  collection: ReferenceSource;
+  field: string;
+  many: boolean;
+  // Some references depend on the record, e.g. a storyboard card's elementId
+  target: ReferenceTarget | ((entity: any) => ReferenceTarget | undefined);
+  empty?: any; // Value stored when a single reference is removed
+}
+
+const STORYBOARD_TARGETS: Record<string, ReferenceTarget> = {
+  character: 'characters',
+  location: 'locations',
+  plot_point: 'plotPoints',
+};
+
+const REFERENCE_FIELDS: ReferenceField[] = [
+  { collection: 'plotPoints', field: 'characterIds', many: true, target: 'characters' },
+  { collection: 'plotPoints', field: 'locationIds', many: true, target: 'locations' },
+  { collection: 'plotPoints', field: 'chapterId', many: false, target: 'chapters' },
+  { collection: 'chapters', field: 'plotPointIds', many: true, target: 'plotPoints' },
+  { collection: 'chapters', field: 'povCharacter', many: false, target: 'characters', empty: '' },
+  { collection: 'chapters', field: 'mainLocation', many: false, target: 'locations', empty: '' },
+  { collection: 'locations', field: 'frequentCharacters', many: true, target: 'characters' },
+  { collection: 'locations', field: 'connectedLocations', many: true, target: 'locations' },
+  { collection: 'storyboardElements', field: 'elementId', many: false, target: element => STORYBOARD_TARGETS[element.type] },
+  { collection: 'storyboardElements', field: 'chapterId', many: false, target: 'chapters' },
+  { collection: 'storyboardElements', field: 'connections', many: true, target: 'storyboardElements' },
+  { collection: 'documents', field: 'chapterId', many: false, target: 'chapters' },
+  { collection: 'mapElements', field: 'characterId', many: false, target: 'characters' },
+  { collection: 'mapElements', field: 'locationId', many: false, target: 'locations' },
+];
+
+// Older numeric ID inputs stored 0 for "none"
+const isUnset = (value: any) => value === undefined || value === null || value === '' || value === 0 || value === '0';
+
+// Visit every record of a source collection, including elements nested in maps
+function forEachRecord(data: ProjectData, collection: ReferenceSource, visit: (record: any, mapId?: string) => void): void {
+  if (collection === 'mapElements') {
+    (data.maps || []).forEach(map => (map.elements || []).forEach(element => visit(element, map.id)));
+    return;
+  }
+  ((data as any)[collection] || []).forEach((record: any) => visit(record));
+}
+
+// Call visit for every reference held anywhere in the project
+function forEachReference(data: ProjectData, visit: (reference: EntityReference) => void): void {
+  REFERENCE_FIELDS.forEach(rule => {
+    forEachRecord(data, rule.collection, (record, mapId) => {
+      const targetCollection = typeof rule.target === 'function' ? rule.target(record) : rule.target;
+      if (!record || !targetCollection) return;
+
+      const value = record[rule.field];
+      const ids: any[] = rule.many ? (Array.isArray(value) ? value : []) : [value];
+      ids.filter(id => !isUnset(id)).forEach(id => {
+        visit({
+          collection: rule.collection,
+          entityId: record.id,
+          entityName: getEntityName(record),
+          mapId,
+          field: rule.field,
+          targetCollection,
+          targetId: String(id),
+        });
+      });
+    });
+  });
+}
+
+// Every record that points at the given entity. References an entity holds to itself are left out.
+export function findReferences(data: ProjectData, target: ReferenceTarget, id: string): EntityReference[] {
+  const references: EntityReference[] = [];
+  forEachReference(data, reference => {
+    if (reference.targetCollection !== target || reference.targetId !== id) return;
+    if (reference.collection === target && reference.entityId === id) return;
+    references.push(reference);
+  });
+  return references;
+}
+
+// References pointing at entities that no longer exist
+export function findDanglingReferences(data: ProjectData): EntityReference[] {
+  const existing: Record<string, Set<string>> = {};
+  const idsOf = (collection: ReferenceTarget) => {
+    if (!existing[collection]) {
+      existing[collection] = new Set(((data as any)[collection] || []).map((entity: any) => String(entity?.id)));
+    }
+    return existing[collection];
+  };
+
+  const dangling: EntityReference[] = [];
+  forEachReference(data, reference => {
+    if (!idsOf(reference.targetCollection).has(reference.targetId)) {
+      dangling.push(reference);
+    }
+  });
+  return dangling;
+}
+
+// The field updates that remove a reference from its record, or point it at replacementId instead
+export function getReferenceUpdates(record: any, reference: EntityReference, replacementId?: string, targetName?: string): Record<string, any> {
+  const rule = REFERENCE_FIELDS.find(r => r.collection === reference.collection && r.field === reference.field);
+  const value = record[reference.field];
+
+  if (rule?.many) {
+    const ids: any[] = Array.isArray(value) ? value : [];
+    const updated = replacementId
+      ? ids.map(id => (String(id) === reference.targetId ? replacementId : id))
+      : ids.filter(id => String(id) !== reference.targetId);
+    // Reassigning can point two entries at the same entity
+    return { [reference.field]: Array.from(new Set(updated)) };
+  }
+
+  if (replacementId) {
+    return { [reference.field]: replacementId };
+  }
+
+  // A storyboard card without its entity stays on the canvas as a note
+  if (reference.collection === 'storyboardElements' && reference.field === 'elementId') {
+    return { type: 'note', elementId: undefined, content: record.content || targetName || '' };
+  }
+  return { [reference.field]: rule?.empty };
+}
+
+// The field updates that put a detached reference back, e.g. when a deleted entity is restored.
+// Single references are only restored if nothing else was put there in the meantime.
+export function getReattachUpdates(record: any, reference: EntityReference): Record<string, any> | null {
+  const rule = REFERENCE_FIELDS.find(r => r.collection === reference.collection && r.field === reference.field);
+  const value = record[reference.field];
+
+  if (rule?.many) {
+    const ids: any[] = Array.isArray(value) ? value : [];
+    return ids.map(String).includes(reference.targetId) ? null : { [reference.field]: [...ids, reference.targetId] };
+  }
+
+  // Storyboard cards were turned into notes when their entity was deleted
+  if (reference.collection === 'storyboardElements' && reference.field === 'elementId') {
+    if (record.type !== 'note' || !isUnset(value)) return null;
+    const type = Object.keys(STORYBOARD_TARGETS).find(key => STORYBOARD_TARGETS[key] === reference.targetCollection);
+    return { type, elementId: reference.targetId };
+  }
+  return isUnset(value) ? { [reference.field]: reference.targetId } : null;
+}
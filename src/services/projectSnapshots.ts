@@ -0,0 +1,136 @@
+// Point-in-time copies of a project
+// A snapshot is a zip archive with the project data and one file per document, the same layout the
+// project has in storage. It can be restored as a whole or record by record, and two snapshots can
+// be compared to see which entities and documents changed in between.
+
+import JSZip from 'jszip';
+import { ProjectData, Document } from './storageService';
+import { StorageBackend, toProjectMetadata } from './storageBackend';
+import { migrateProject } from './projectMigrations';
+import { isEqual, getEntityName } from './projectMerge';
+
+// What caused a snapshot to be taken
+export type SnapshotTrigger = 'manual' | 'auto' | 'import' | 'migration' | 'repair' | 'reset' | 'restore';
+
+export interface SnapshotInfo {
+  id: string;
+  name: string;
+  trigger: SnapshotTrigger;
+  createdAt: string;
+  projectVersion: string; // Format of the data inside, older snapshots are migrated when read
+}
+
+// Collections that can be compared and restored record by record
+export type SnapshotCollection =
+  | 'characters'
+  | 'locations'
+  | 'plotPoints'
+  | 'chapters'
+  | 'storyboardElements'
+  | 'maps'
+  | 'documents';
+
+export const SNAPSHOT_COLLECTIONS: SnapshotCollection[] = [
+  'characters',
+  'locations',
+  'plotPoints',
+  'chapters',
+  'storyboardElements',
+  'maps',
+  'documents',
+];
+
+export interface SnapshotChange {
+  collection: SnapshotCollection;
+  id: string;
+  name: string;
+  kind: 'added' | 'removed' | 'modified';
+}
+
+const INFO_FILE = 'snapshot.json';
+const DATA_FILE = 'project-data.json';
+const DOCUMENTS_FOLDER = 'documents';
+
+export function createSnapshotInfo(name: string, trigger: SnapshotTrigger, data: ProjectData): SnapshotInfo {
+  return {
+    id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    trigger,
+    createdAt: new Date().toISOString(),
+    projectVersion: data.version || '1.0',
+  };
+}
+
+// Pack the project, including its documents, into a compressed archive
+export async function createSnapshotArchive(data: ProjectData, info: SnapshotInfo): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file(INFO_FILE, JSON.stringify(info, null, 2));
+  zip.file(DATA_FILE, JSON.stringify(toProjectMetadata(data)));
+
+  const documentsFolder = zip.folder(DOCUMENTS_FOLDER)!;
+  (data.documents || []).forEach(doc => {
+    if (doc.id) documentsFolder.file(`${doc.id}.json`, JSON.stringify(doc));
+  });
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+}
+
+// Unpack a snapshot archive. Data from older formats is upgraded like a project file on load.
+export async function readSnapshotArchive(archive: Uint8Array): Promise<{ info: SnapshotInfo; data: ProjectData }> {
+  const zip = await JSZip.loadAsync(archive);
+  const infoFile = zip.file(INFO_FILE);
+  const dataFile = zip.file(DATA_FILE);
+  if (!infoFile || !dataFile) {
+    throw new Error('Not a project snapshot');
+  }
+
+  const info: SnapshotInfo = JSON.parse(await infoFile.async('string'));
+  const documentFiles = zip.file(new RegExp(`^${DOCUMENTS_FOLDER}/.+\\.json$`));
+  const documents: Document[] = await Promise.all(documentFiles.map(async file => JSON.parse(await file.async('string'))));
+
+  const { data } = migrateProject({ ...JSON.parse(await dataFile.async('string')), documents });
+  return { info, data };
+}
+
+// Snapshot the given data and store it with the project
+export async function storeSnapshot(
+  backend: StorageBackend,
+  projectId: string,
+  data: ProjectData,
+  name: string,
+  trigger: SnapshotTrigger
+): Promise<SnapshotInfo> {
+  const info = createSnapshotInfo(name, trigger, data);
+  const archive = await createSnapshotArchive(data, info);
+  await backend.saveSnapshot(projectId, info, archive);
+  console.log(`📸 Saved snapshot "${name}" (${Math.round(archive.length / 1024)} KB)`);
+  return info;
+}
+
+// Entities and documents that differ between two versions of a project
+export function diffProjects(from: ProjectData, to: ProjectData): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+
+  SNAPSHOT_COLLECTIONS.forEach(collection => {
+    const fromItems: any[] = (from as any)[collection] || [];
+    const toItems: any[] = (to as any)[collection] || [];
+    const fromById = new Map(fromItems.map(item => [item.id, item]));
+    const toById = new Map(toItems.map(item => [item.id, item]));
+
+    fromItems.forEach(item => {
+      const other = toById.get(item.id);
+      if (!other) {
+        changes.push({ collection, id: item.id, name: getEntityName(item), kind: 'removed' });
+      } else if (!isEqual({ ...item, updatedAt: undefined }, { ...other, updatedAt: undefined })) {
+        changes.push({ collection, id: item.id, name: getEntityName(other), kind: 'modified' });
+      }
+    });
+    toItems.forEach(item => {
+      if (!fromById.has(item.id)) {
+        changes.push({ collection, id: item.id, name: getEntityName(item), kind: 'added' });
+      }
+    });
+  });
+
+  return changes;
+}
@@ -0,0 +1,387 @@
+// Runtime validation of project data
+// Checks ProjectData and every entity against the shapes the app expects before the data is used
+// or saved, and can repair invalid fields or drop invalid records.
+
+import { ProjectData } from './storageService';
+import { CURRENT_PROJECT_VERSION } from './projectMigrations';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'string[]';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  values?: string[]; // Allowed values for enum fields
+  fallback: () => any; // Value used when repairing
+}
+
+type Schema = Record<string, FieldRule>;
+
+export interface ValidationIssue {
+  path: string; // e.g. characters[2].role
+  collection?: string;
+  entityId?: string;
+  entityName?: string;
+  field: string;
+  expected: string;
+  received: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+// 'repair' fixes invalid fields with sensible values, 'drop' removes any record that has problems
+export type RepairMode = 'repair' | 'drop';
+
+// Thrown when project data fails validation and the caller has not chosen how to handle it
+export class ProjectValidationError extends Error {
+  constructor(public report: ValidationReport) {
+    super(`Project data is invalid (${report.issues.length} problem${report.issues.length === 1 ? '' : 's'})`);
+    this.name = 'ProjectValidationError';
+  }
+}
+
+const generateId = () => `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+const now = () => new Date().toISOString();
+
+// Field rule builders
+const text = (required = false, fallback = ''): FieldRule => ({ type: 'string', required, fallback: () => fallback });
+const number = (required = false, fallback = 0): FieldRule => ({ type: 'number', required, fallback: () => fallback });
+const flag = (fallback = false): FieldRule => ({ type: 'boolean', fallback: () => fallback });
+const oneOf = (values: string[], fallback: string, required = true): FieldRule => ({ type: 'string', required, values, fallback: () => fallback });
+const strings = (): FieldRule => ({ type: 'string[]', fallback: () => [] });
+const record = (required = false): FieldRule => ({ type: 'object', required, fallback: () => ({}) });
+const timestamp = (): FieldRule => ({ type: 'string', required: true, fallback: now });
+
+const entity: Schema = {
+  id: { type: 'string', required: true, fallback: generateId },
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+};
+
+const characterSchema: Schema = {
+  ...entity,
+  name: text(true, 'Unnamed character'),
+  description: text(),
+  age: number(),
+  role: oneOf(['protagonist', 'antagonist', 'supporting', 'minor'], 'supporting', false),
+  appearance: text(),
+  personality: text(),
+  background: text(),
+  relationships: text(),
+  color: text(),
+  notes: text(),
+  commonPhrases: strings(),
+  characterArc: text(),
+  motivation: text(),
+  fears: text(),
+  goals: text(),
+  skills: strings(),
+  occupation: text(),
+  customFields: record(),
+};
+
+const locationSchema: Schema = {
+  ...entity,
+  name: text(true, 'Unnamed location'),
+  description: text(),
+  type: oneOf(['indoor', 'outdoor', 'urban', 'rural', 'fantasy', 'sci-fi'], 'outdoor', false),
+  notes: text(),
+  landmarks: strings(),
+  connectedLocations: strings(),
+  frequentCharacters: strings(),
+  color: text(),
+  customFields: record(),
+};
+
+const plotPointSchema: Schema = {
+  ...entity,
+  title: text(true, 'Untitled plot point'),
+  description: text(),
+  type: oneOf(['inciting_incident', 'rising_action', 'climax', 'falling_action', 'resolution', 'plot_twist', 'character_development', 'world_building'], 'rising_action', false),
+  importance: oneOf(['low', 'medium', 'high', 'critical'], 'medium', false),
+  chapterId: text(),
+  characterIds: strings(),
+  locationIds: strings(),
+  order: number(),
+  themes: strings(),
+  customFields: record(),
+};
+
+const chapterSchema: Schema = {
+  ...entity,
+  title: text(true, 'Untitled chapter'),
+  description: text(),
+  order: number(),
+  status: oneOf(['draft', 'in_progress', 'completed', 'archived'], 'draft', false),
+  plotPointIds: strings(),
+  wordCount: number(),
+  themes: strings(),
+  pacing: oneOf(['slow', 'medium', 'fast'], 'medium', false),
+  customFields: record(),
+};
+
+const storyboardElementSchema: Schema = {
+  ...entity,
+  type: oneOf(['character', 'location', 'plot_point', 'note', 'drawing'], 'note'),
+  elementId: text(),
+  x: number(true),
+  y: number(true),
+  width: number(true, 150),
+  height: number(true, 80),
+  content: text(false),
+  style: record(true),
+  connections: strings(),
+  chapterId: text(),
+};
+
+const documentSchema: Schema = {
+  ...entity,
+  title: text(true, 'Untitled'),
+  content: text(true),
+  type: oneOf(['story', 'outline', 'notes', 'research'], 'story'),
+  chapterId: text(),
+  comments: { type: 'array', fallback: () => [] },
+};
+
+const mapElementSchema: Schema = {
+  ...entity,
+  type: text(true, 'landmark'),
+  name: text(),
+  description: text(),
+  x: number(true),
+  y: number(true),
+  width: number(true, 40),
+  height: number(true, 40),
+  color: text(),
+  notes: text(),
+  characterId: text(),
+  locationId: text(),
+};
+
+const mapSchema: Schema = {
+  ...entity,
+  title: text(true, 'Untitled map'),
+  description: text(),
+  width: number(true, 1200),
+  height: number(true, 800),
+  backgroundColor: text(),
+  gridSize: number(false, 20),
+  showGrid: flag(true),
+  elements: { type: 'array', required: true, fallback: () => [] },
+};
+
+const trashItemSchema: Schema = {
+  id: { type: 'string', required: true, fallback: generateId },
+  collection: oneOf(['characters', 'locations', 'plotPoints', 'chapters', 'documents', 'maps'], 'characters'),
+  name: text(true, 'Untitled'),
+  entity: record(true),
+  references: { type: 'array', required: true, fallback: () => [] },
+  deletedAt: timestamp(),
+};
+
+const settingsSchema: Schema = {
+  theme: oneOf(['light', 'dark'], 'dark', false),
+  characterRecognitionEnabled: flag(),
+  characterNameCapitalization: oneOf(['uppercase', 'lowercase', 'leave-as-is'], 'uppercase', false),
+  locationRecognitionEnabled: flag(),
+  locationNameCapitalization: oneOf(['uppercase', 'lowercase', 'leave-as-is'], 'uppercase', false),
+  tooltipFields: record(),
+  trashRetentionDays: number(false, 30),
+};
+
+const projectSchema: Schema = {
+  version: text(true, CURRENT_PROJECT_VERSION),
+  projectName: text(true, 'Untitled Project'),
+  lastModified: timestamp(),
+  settings: record(true),
+};
+
+const COLLECTION_SCHEMAS: Record<string, Schema> = {
+  characters: characterSchema,
+  locations: locationSchema,
+  plotPoints: plotPointSchema,
+  chapters: chapterSchema,
+  storyboardElements: storyboardElementSchema,
+  documents: documentSchema,
+  mapElements: mapElementSchema,
+  maps: mapSchema,
+  trash: trashItemSchema,
+};
+
+// Collections older projects may not have at all
+const OPTIONAL_COLLECTIONS = ['mapElements', 'trash'];
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const describeValue = (value: any): string => {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.substring(0, 40)}...` : value}"`;
+  if (typeof value === 'object') return 'object';
+  return `${typeof value} ${String(value)}`;
+};
+
+const describeRule = (rule: FieldRule): string => {
+  if (rule.values) return `one of ${rule.values.join(', ')}`;
+  if (rule.type === 'string[]') return 'a list of text values';
+  if (rule.type === 'array') return 'a list';
+  return rule.type === 'object' ? 'an object' : `a ${rule.type}`;
+};
+
+function isValid(rule: FieldRule, value: any): boolean {
+  // Optional fields may be absent or null
+  if (value === undefined || value === null) return !rule.required;
+
+  switch (rule.type) {
+    case 'string':
+      return typeof value === 'string' && (!rule.values || rule.values.includes(value));
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
+
+// Best-effort conversion of an invalid value, falling back to the rule's default
+function repairValue(rule: FieldRule, value: any): any {
+  if (rule.type === 'string' && !rule.values && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value);
+  }
+  if (rule.type === 'number' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (rule.type === 'string[]' && Array.isArray(value)) {
+    return value.filter(item => item !== undefined && item !== null).map(String);
+  }
+  return rule.fallback();
+}
+
+interface CheckContext {
+  issues: ValidationIssue[];
+  mode?: RepairMode;
+}
+
+// Check one object against a schema. Returns the (possibly repaired) object and whether it had problems.
+function checkObject(
+  value: any,
+  schema: Schema,
+  path: string,
+  context: CheckContext,
+  collection?: string
+): { result: any; hasIssues: boolean } {
+  const entityId = isPlainObject(value) && typeof value.id === 'string' ? value.id : undefined;
+  const entityName = isPlainObject(value) ? value.name || value.title : undefined;
+  const report = (field: string, expected: string, received: string) => {
+    context.issues.push({ path: field ? `${path}.${field}` : path, collection, entityId, entityName, field, expected, received });
+  };
+
+  if (!isPlainObject(value)) {
+    report('', 'an object', describeValue(value));
+    return { result: undefined, hasIssues: true };
+  }
+
+  let result = value;
+  let hasIssues = false;
+  Object.entries(schema).forEach(([field, rule]) => {
+    if (isValid(rule, value[field])) return;
+    hasIssues = true;
+    report(field, describeRule(rule), describeValue(value[field]));
+    if (context.mode === 'repair') {
+      if (result === value) result = { ...value };
+      result[field] = repairValue(rule, value[field]);
+    }
+  });
+
+  return { result, hasIssues };
+}
+
+function checkCollection(items: any, collection: string, schema: Schema, path: string, context: CheckContext): any[] {
+  if (!Array.isArray(items)) {
+    context.issues.push({ path, collection, field: '', expected: 'a list', received: describeValue(items) });
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  const result: any[] = [];
+  items.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    let { result: checked, hasIssues } = checkObject(item, schema, itemPath, context, collection);
+
+    // IDs must be unique within a collection
+    const id = checked?.id;
+    if (typeof id === 'string' && seenIds.has(id)) {
+      hasIssues = true;
+      context.issues.push({ path: `${itemPath}.id`, collection, entityId: id, entityName: checked.name || checked.title, field: 'id', expected: 'a unique ID', received: `duplicate "${id}"` });
+      if (context.mode === 'repair') checked = { ...checked, id: generateId() };
+    }
+    if (typeof checked?.id === 'string') seenIds.add(checked.id);
+
+    // Map elements live inside their map
+    if (checked && collection === 'maps' && Array.isArray(checked.elements)) {
+      const before = context.issues.length;
+      const elements = checkCollection(checked.elements, 'mapElements', mapElementSchema, `${itemPath}.elements`, context);
+      if (context.issues.length > before) {
+        hasIssues = true;
+        if (context.mode) checked = { ...checked, elements };
+      }
+    }
+
+    if (checked === undefined) return; // Not an object at all, can't be kept
+    if (hasIssues && context.mode === 'drop') return;
+    result.push(checked);
+  });
+  return result;
+}
+
+function checkProject(data: any, mode?: RepairMode): { issues: ValidationIssue[]; result: any } {
+  const context: CheckContext = { issues: [], mode };
+
+  // The project itself can't be dropped, so top-level problems are always repaired
+  const { result: project } = checkObject(data, projectSchema, 'project', { issues: context.issues, mode: mode ? 'repair' : undefined });
+  if (project === undefined) {
+    return { issues: context.issues, result: undefined };
+  }
+
+  const result: any = { ...project };
+  Object.entries(COLLECTION_SCHEMAS).forEach(([collection, schema]) => {
+    if (OPTIONAL_COLLECTIONS.includes(collection) && project[collection] === undefined) return;
+    const checked = checkCollection(project[collection] ?? (mode ? [] : project[collection]), collection, schema, collection, context);
+    if (mode) result[collection] = checked;
+  });
+
+  if (isPlainObject(project.settings)) {
+    const { result: settings } = checkObject(project.settings, settingsSchema, 'settings', { issues: context.issues, mode: mode ? 'repair' : undefined });
+    result.settings = settings;
+  }
+
+  return { issues: context.issues, result: mode ? result : data };
+}
+
+export function validateProject(data: any): ValidationReport {
+  const { issues } = checkProject(data);
+  return { valid: issues.length === 0, issues };
+}
+
+// Returns a valid copy of the project, fixing or dropping invalid records
+export function repairProject(data: any, mode: RepairMode): ProjectData {
+  const { result } = checkProject(data, mode);
+  if (result === undefined) {
+    throw new ProjectValidationError(validateProject(data));
+  }
+  return result;
+}
+
+// One line per problem, e.g. 'Character "Mara" (characters[2].role): expected one of ..., got "hero"'
+export function formatIssue(issue: ValidationIssue): string {
+  const subject = issue.entityName ? `"${issue.entityName}" ` : '';
+  return `${subject}(${issue.path}): expected ${issue.expected}, got ${issue.received}`;
+}
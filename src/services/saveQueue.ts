@@ -0,0 +1,419 @@
+// Durable outbox for storage backend writes
+// Pending project-metadata, document and revision writes are kept in IndexedDB so they survive
+// failed saves, offline periods and page reloads. Writes are retried with exponential
+// backoff, and repeated writes to the same target replace each other. When the backend's sign-in
+// expires, writing pauses until resume() and nothing counts as a failed attempt.
+
+import Dexie, { Table } from 'dexie';
+import { StorageBackend, SaveConflictError, AuthExpiredError, toProjectMetadata } from './storageBackend';
+import { ProjectData, Document } from './storageService';
+import { PendingRevision, applyPendingRevision, createEmptyRevisionLog } from './documentRevisions';
+
+export type QueuedWriteKind = 'project' | 'document' | 'delete-document' | 'trash-document' | 'revision';
+
+export interface QueuedWrite {
+  key: string; // One entry per target, so later writes to the same target coalesce
+  projectId: string;
+  kind: QueuedWriteKind;
+  documentId?: string;
+  payload?: ProjectData | Document | PendingRevision;
+  sequence: number; // Bumped on every enqueue so a finished write never removes a newer one
+  attempts: number;
+  nextAttemptAt: number;
+  queuedAt: string;
+  lastError?: string;
+}
+
+export interface SaveQueueState {
+  pending: number;
+  offline: boolean;
+  flushing: boolean;
+  failing: boolean; // A write has failed several times in a row and is still being retried
+  authExpired: boolean; // Signed out of the backend; writes wait until resume()
+}
+
+// Given the write that hit a conflict, returns merged project data to write instead (or null to keep retrying)
+export type ConflictResolver = (entry: QueuedWrite) => Promise<ProjectData | null>;
+
+export interface OutboxStore {
+  getAll(): Promise<QueuedWrite[]>;
+  put(entry: QueuedWrite): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+class OutboxDatabase extends Dexie {
+  writes!: Table<QueuedWrite>;
+
+  constructor() {
+    super('StoryboardOutbox');
+
+    this.version(1).stores({
+      writes: 'key, projectId, nextAttemptAt',
+    });
+  }
+}
+
+class IndexedDbOutboxStore implements OutboxStore {
+  private db = new OutboxDatabase();
+
+  async getAll(): Promise<QueuedWrite[]> {
+    return this.db.writes.toArray();
+  }
+
+  async put(entry: QueuedWrite): Promise<void> {
+    await this.db.writes.put(entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.writes.delete(key);
+  }
+}
+
+// Non-persistent store, used when IndexedDB is unavailable (e.g. in tests)
+export class MemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, QueuedWrite>();
+
+  async getAll(): Promise<QueuedWrite[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entry: QueuedWrite): Promise<void> {
+    this.entries.set(entry.key, JSON.parse(JSON.stringify(entry)));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+const BASE_RETRY_DELAY = 2000; // First retry after 2 seconds
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // Never wait more than 5 minutes between retries
+const FAILING_THRESHOLD = 3; // Report an error after this many failed attempts
+
+class SaveQueue {
+  private static instance: SaveQueue;
+  private store: OutboxStore | null = null;
+  private entries: Map<string, QueuedWrite> | null = null;
+  private backend: StorageBackend | null = null;
+  private projectId: string | null = null;
+  private sequence = 0;
+  private flushPromise: Promise<void> | null = null;
+  private flushRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Array<(state: SaveQueueState) => void> = [];
+  private writtenListeners: Array<(entry: QueuedWrite) => void> = [];
+  private conflictResolver: ConflictResolver | null = null;
+  private authExpired = false;
+
+  private constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        console.log('🌐 Back online - retrying pending saves');
+        this.flush();
+      });
+      window.addEventListener('offline', () => this.emitState());
+    }
+  }
+
+  static getInstance(): SaveQueue {
+    if (!SaveQueue.instance) {
+      SaveQueue.instance = new SaveQueue();
+    }
+    return SaveQueue.instance;
+  }
+
+  // Replace the outbox store (tests use MemoryOutboxStore)
+  setStore(store: OutboxStore): void {
+    this.store = store;
+    this.entries = null;
+  }
+
+  private getStore(): OutboxStore {
+    if (!this.store) {
+      this.store = typeof indexedDB !== 'undefined' ? new IndexedDbOutboxStore() : new MemoryOutboxStore();
+    }
+    return this.store;
+  }
+
+  // Load persisted entries once per session
+  private async getEntries(): Promise<Map<string, QueuedWrite>> {
+    if (!this.entries) {
+      const stored = await this.getStore().getAll();
+      this.entries = new Map(stored.map(entry => [entry.key, entry]));
+      this.sequence = stored.reduce((max, entry) => Math.max(max, entry.sequence), this.sequence);
+    }
+    return this.entries;
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  // Point the queue at the open project and replay anything left over from earlier sessions
+  async attach(backend: StorageBackend | null, projectId: string | null): Promise<void> {
+    this.backend = backend;
+    this.projectId = projectId;
+    this.authExpired = false;
+    if (backend && projectId) {
+      await this.flush();
+    } else {
+      this.emitState();
+    }
+  }
+
+  private async enqueue(projectId: string, key: string, kind: QueuedWriteKind, payload?: ProjectData | Document | PendingRevision, documentId?: string): Promise<void> {
+    const entries = await this.getEntries();
+    const entry: QueuedWrite = {
+      key,
+      projectId,
+      kind,
+      documentId,
+      // Snapshot the payload so later in-memory edits don't leak into this write
+      payload: payload ? JSON.parse(JSON.stringify(payload)) : undefined,
+      sequence: ++this.sequence,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      queuedAt: new Date().toISOString(),
+    };
+    entries.set(key, entry);
+    await this.getStore().put(entry);
+    this.emitState();
+  }
+
+  async enqueueProject(projectId: string, data: ProjectData): Promise<void> {
+    await this.enqueue(projectId, `${projectId}:project`, 'project', toProjectMetadata(data));
+  }
+
+  async enqueueDocument(projectId: string, document: Document): Promise<void> {
+    await this.enqueue(projectId, `${projectId}:document:${document.id}`, 'document', document, document.id);
+  }
+
+  // Shares the document's key, so a delete supersedes any pending save of the same document
+  async enqueueDocumentDelete(projectId: string, documentId: string): Promise<void> {
+    await this.enqueue(projectId, `${projectId}:document:${documentId}`, 'delete-document', undefined, documentId);
+  }
+
+  // Move a deleted document's file to the backend's trash. Also shares the document's key.
+  async enqueueDocumentTrash(projectId: string, documentId: string): Promise<void> {
+    await this.enqueue(projectId, `${projectId}:document:${documentId}`, 'trash-document', undefined, documentId);
+  }
+
+  // Revisions are added to the stored log when written, so each one has its own entry
+  async enqueueRevision(projectId: string, revision: PendingRevision): Promise<void> {
+    await this.enqueue(projectId, `${projectId}:revision:${revision.documentId}:${revision.info.id}`, 'revision', revision, revision.documentId);
+  }
+
+  // Called when a project write is rejected because the stored copy changed elsewhere
+  setConflictResolver(resolver: ConflictResolver | null): void {
+    this.conflictResolver = resolver;
+  }
+
+  // Notified after each write reaches the backend
+  onWritten(listener: (entry: QueuedWrite) => void): () => void {
+    this.writtenListeners.push(listener);
+    return () => {
+      this.writtenListeners = this.writtenListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Pending writes for a project, e.g. to re-apply unsynced edits after a reload
+  async getPending(projectId: string): Promise<QueuedWrite[]> {
+    const entries = await this.getEntries();
+    return Array.from(entries.values())
+      .filter(entry => entry.projectId === projectId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // Overlay pending writes on freshly loaded project data so unsynced edits aren't lost
+  async applyPending(projectId: string, data: ProjectData): Promise<ProjectData> {
+    const pending = await this.getPending(projectId);
+    if (pending.length === 0) return data;
+
+    console.log(`📤 Re-applying ${pending.length} unsynced change(s) from the outbox`);
+    let result: ProjectData = { ...data, documents: [...(data.documents || [])] };
+    for (const entry of pending) {
+      if (entry.kind === 'project' && entry.payload) {
+        result = { ...(entry.payload as ProjectData), documents: result.documents };
+      } else if (entry.kind === 'document' && entry.payload) {
+        const doc = entry.payload as Document;
+        result.documents = [...result.documents.filter(d => d.id !== doc.id), doc];
+      } else if (entry.kind === 'delete-document' || entry.kind === 'trash-document') {
+        result.documents = result.documents.filter(d => d.id !== entry.documentId);
+      }
+    }
+    return result;
+  }
+
+  // Replay the writes held back while signed out, once the backend was reconnected
+  resume(): Promise<void> {
+    this.authExpired = false;
+    return this.flush();
+  }
+
+  // Write all due entries for the attached project. Concurrent calls share one run.
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      this.flushRequested = true;
+      return this.flushPromise;
+    }
+
+    this.flushPromise = (async () => {
+      try {
+        do {
+          this.flushRequested = false;
+          await this.flushOnce();
+        } while (this.flushRequested);
+      } finally {
+        this.flushPromise = null;
+        this.emitState();
+        this.scheduleRetry();
+      }
+    })();
+    this.emitState();
+    return this.flushPromise;
+  }
+
+  private async flushOnce(): Promise<void> {
+    const backend = this.backend;
+    const projectId = this.projectId;
+    if (!backend || !projectId || !this.isOnline() || !backend.isAvailable() || this.authExpired) return;
+
+    const now = Date.now();
+    const due = (await this.getPending(projectId)).filter(entry => entry.nextAttemptAt <= now);
+    if (due.length === 0) return;
+
+    // Write project metadata first, then documents in parallel for speed. Revisions each rewrite their
+    // document's log, so they go one at a time in the order they were captured.
+    const projectWrites = due.filter(entry => entry.kind === 'project');
+    const documentWrites = due.filter(entry => entry.kind !== 'project' && entry.kind !== 'revision');
+    const revisionWrites = due.filter(entry => entry.kind === 'revision');
+
+    for (const entry of projectWrites) {
+      await this.process(backend, entry);
+    }
+    if (this.authExpired) return;
+    await Promise.all([
+      ...documentWrites.map(entry => this.process(backend, entry)),
+      (async () => {
+        for (const entry of revisionWrites) {
+          await this.process(backend, entry);
+        }
+      })(),
+    ]);
+  }
+
+  private async process(backend: StorageBackend, entry: QueuedWrite): Promise<void> {
+    try {
+      switch (entry.kind) {
+        case 'project':
+          await backend.saveProjectMetadata(entry.projectId, entry.payload as ProjectData);
+          break;
+        case 'document':
+          await backend.saveDocument(entry.projectId, entry.payload as Document);
+          break;
+        case 'delete-document':
+          await backend.deleteDocument(entry.projectId, entry.documentId!);
+          break;
+        case 'trash-document':
+          await backend.trashDocument(entry.projectId, entry.documentId!);
+          break;
+        case 'revision': {
+          const revision = entry.payload as PendingRevision;
+          const stored = await backend.loadRevisions(entry.projectId, revision.documentId);
+          const log = applyPendingRevision(stored || createEmptyRevisionLog(revision.documentId), revision);
+          if (log) await backend.saveRevisions(entry.projectId, log);
+          break;
+        }
+      }
+
+      // Only remove the entry if it wasn't replaced by a newer write in the meantime
+      const entries = await this.getEntries();
+      if (entries.get(entry.key)?.sequence === entry.sequence) {
+        entries.delete(entry.key);
+        await this.getStore().delete(entry.key);
+      }
+      this.writtenListeners.forEach(listener => listener(entry));
+    } catch (writeError: any) {
+      let error = writeError;
+      const entries = await this.getEntries();
+      const current = entries.get(entry.key);
+      if (current?.sequence !== entry.sequence) return; // Superseded, the newer write will be tried
+
+      if (error instanceof SaveConflictError && entry.kind === 'project' && this.conflictResolver) {
+        try {
+          const merged = await this.conflictResolver(entry);
+          if (merged) {
+            console.log('🔀 Merged with changes made elsewhere, saving merged project');
+            await this.enqueueProject(entry.projectId, merged);
+            this.flushRequested = true;
+            return;
+          }
+        } catch (mergeError) {
+          // Loading the stored copy to merge with failed: handled like a failed write
+          error = mergeError;
+        }
+      }
+
+      if (error instanceof AuthExpiredError) {
+        // Not the write's fault: keep it as it is and stop writing until the user reconnects
+        if (!this.authExpired) {
+          console.warn(`🔑 ${error.message} - pausing saves until reconnected`);
+        }
+        this.authExpired = true;
+        return;
+      }
+
+      current.attempts += 1;
+      current.nextAttemptAt = Date.now() + Math.min(BASE_RETRY_DELAY * Math.pow(2, current.attempts - 1), MAX_RETRY_DELAY);
+      current.lastError = error?.message || String(error);
+      await this.getStore().put(current);
+      console.error(`❌ Save failed (attempt ${current.attempts}), retrying later:`, entry.key, error);
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    // Coming back online or reconnecting triggers a flush, so don't poll meanwhile
+    if (!this.entries || !this.projectId || !this.isOnline() || this.authExpired) return;
+
+    const projectId = this.projectId;
+    const waiting = Array.from(this.entries.values()).filter(entry => entry.projectId === projectId);
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(nextAttemptAt - Date.now(), BASE_RETRY_DELAY));
+  }
+
+  getState(): SaveQueueState {
+    const waiting = this.entries && this.projectId
+      ? Array.from(this.entries.values()).filter(entry => entry.projectId === this.projectId)
+      : [];
+    return {
+      pending: waiting.length,
+      offline: !this.isOnline(),
+      flushing: this.flushPromise !== null,
+      failing: waiting.some(entry => entry.attempts >= FAILING_THRESHOLD),
+      authExpired: this.authExpired,
+    };
+  }
+
+  onStateChange(listener: (state: SaveQueueState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emitState(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const saveQueue = SaveQueue.getInstance();
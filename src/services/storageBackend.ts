@@ -0,0 +1,175 @@
+// Storage backend abstraction
+// StorageService keeps the project in memory and hands persistence to a backend
+// (Google Drive, local IndexedDB, or an in-memory store for tests)
+
+import { ProjectData, Document } from './storageService';
+import { SnapshotInfo } from './projectSnapshots';
+import { RevisionLog } from './documentRevisions';
+import { ProjectSecret } from './projectEncryption';
+
+// Details cached with each project so project tiles can be shown without opening the project
+export interface ProjectStats {
+  wordCount?: number;
+  lastOpened?: string;
+  coverColor?: string;
+}
+
+// What the signed-in user may do with a project. Commenters and viewers can't edit.
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+export type ShareRole = Exclude<ProjectRole, 'owner'>;
+
+export interface ProjectSummary extends ProjectStats {
+  id: string;
+  name: string;
+  lastModified?: string;
+  role?: ProjectRole; // Left out by backends without sharing, where the user owns every project
+  sharedBy?: string; // Owner's name, for projects someone else shared with the user
+  encrypted?: boolean; // Needs a passphrase to open, see StorageBackend.unlockProject
+}
+
+export interface ProjectCollaborator {
+  id: string; // Backend-specific permission ID
+  name?: string;
+  email?: string;
+  role: ProjectRole;
+}
+
+export interface BackendChange {
+  projectId: string;
+  // 'project' when the project metadata changed, 'document' when a single document did
+  kind: 'project' | 'document';
+  documentId?: string;
+  modifiedTime?: string;
+}
+
+export type BackendChangeListener = (change: BackendChange) => void;
+
+export interface StorageBackend {
+  // Human readable name, used in logs and UI
+  readonly name: string;
+
+  // Whether the backend can currently be used (e.g. signed in to Google)
+  isAvailable(): boolean;
+
+  listProjects(): Promise<ProjectSummary[]>;
+  createProject(projectName: string, data: ProjectData): Promise<string>;
+  deleteProject(projectId: string): Promise<void>;
+  // Merge into the project's cached stats, returned by listProjects
+  updateProjectStats(projectId: string, stats: ProjectStats): Promise<void>;
+
+  // Project metadata is stored without documents; documents are stored one per file/record.
+  // Backends that detect concurrent edits throw SaveConflictError when the stored metadata
+  // changed since the last loadProject/saveProjectMetadata.
+  loadProject(projectId: string): Promise<ProjectData>;
+  saveProjectMetadata(projectId: string, data: ProjectData): Promise<void>;
+
+  // Snapshots are compressed archives of the whole project (see projectSnapshots.ts), kept with it
+  saveSnapshot(projectId: string, info: SnapshotInfo, archive: Uint8Array): Promise<void>;
+  listSnapshots(projectId: string): Promise<SnapshotInfo[]>; // Newest first
+  loadSnapshot(projectId: string, snapshotId: string): Promise<Uint8Array>;
+  deleteSnapshot(projectId: string, snapshotId: string): Promise<void>;
+
+  // Each document's revision history (see documentRevisions.ts) is kept next to it and removed with it
+  // by deleteDocument. Resolves to null when the document has no revisions yet.
+  loadRevisions(projectId: string, documentId: string): Promise<RevisionLog | null>;
+  saveRevisions(projectId: string, log: RevisionLog): Promise<void>;
+
+  loadDocuments(projectId: string): Promise<Document[]>;
+  saveDocument(projectId: string, document: Document): Promise<void>;
+  deleteDocument(projectId: string, documentId: string): Promise<void>;
+  // Set a deleted document's file aside so it can be restored. Saving the document again restores
+  // it; deleteDocument removes it for good. The project's trash keeps a copy of its content.
+  trashDocument(projectId: string, documentId: string): Promise<void>;
+
+  // Notify when the stored project changes outside this session. Returns an unsubscribe function.
+  watch(projectId: string, listener: BackendChangeListener): () => void;
+
+  // Sign in again after an AuthExpiredError. Called from a user action, so sign-in popups are allowed.
+  // Resolves to whether the backend can be used again.
+  reconnect?(): Promise<boolean>;
+
+  // Sharing, for backends that support it
+  getRole?(projectId: string): Promise<ProjectRole>;
+  listCollaborators?(projectId: string): Promise<ProjectCollaborator[]>;
+  shareProject?(projectId: string, email: string, role: ShareRole): Promise<void>;
+  unshareProject?(projectId: string, collaboratorId: string): Promise<void>;
+
+  // End-to-end encryption, for backends that support it. Reading an encrypted project throws
+  // ProjectLockedError until it is unlocked with its passphrase or recovery key.
+  isProjectEncrypted?(projectId: string): Promise<boolean>;
+  // Throws WrongPassphraseError when the passphrase or recovery key is wrong
+  unlockProject?(projectId: string, secret: ProjectSecret): Promise<void>;
+  // Re-encrypt every file of the project with a new key protected by the passphrase. Turns encryption
+  // on, or changes the passphrase of an unlocked project. Resolves to the new recovery key.
+  encryptProject?(projectId: string, passphrase: string): Promise<string>;
+  // Create a project that is encrypted from the start, so no file of it is ever stored in plain text.
+  // The new project is unlocked. Resolves to its ID and recovery key.
+  createEncryptedProject?(projectName: string, data: ProjectData, passphrase: string): Promise<{ projectId: string; recoveryKey: string }>;
+}
+
+export function canEditProject(role: ProjectRole = 'owner'): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+// Strip documents from project data before storing it as metadata
+export function toProjectMetadata(data: ProjectData): ProjectData {
+  return {
+    ...data,
+    documents: [],
+  };
+}
+
+// Words in all of the project's documents
+export function countProjectWords(data: ProjectData): number {
+  return (data.documents || []).reduce((total, doc) => {
+    const text = (doc.content || '').replace(/<[^>]*>/g, ' ');
+    return total + text.split(/\s+/).filter(word => word.length > 0).length;
+  }, 0);
+}
+
+// Copy a project and its documents to another backend, e.g. to upload a project kept on this device
+// to Drive or to keep a Drive project for offline use. Snapshots and revisions are not copied.
+// Returns the ID of the copy.
+export async function copyProject(
+  source: StorageBackend,
+  projectId: string,
+  target: StorageBackend,
+  projectName: string
+): Promise<string> {
+  const data = await source.loadProject(projectId);
+  const documents = await source.loadDocuments(projectId);
+
+  const copyId = await target.createProject(projectName, toProjectMetadata(data));
+  for (const document of documents) {
+    await target.saveDocument(copyId, document);
+  }
+
+  console.log(`📦 Copied "${projectName}" with ${documents.length} documents from ${source.name} to ${target.name}`);
+  return copyId;
+}
+
+// Thrown by saveProjectMetadata when the stored project changed since it was loaded,
+// so the caller can merge instead of overwriting someone else's edits
+export class SaveConflictError extends Error {
+  constructor(public projectId: string, public remoteModified?: string) {
+    super('Project was changed elsewhere since it was loaded');
+    this.name = 'SaveConflictError';
+  }
+}
+
+// Thrown when reading an encrypted project that hasn't been unlocked in this session
+export class ProjectLockedError extends Error {
+  constructor(public projectId: string) {
+    super('Project is encrypted and needs its passphrase');
+    this.name = 'ProjectLockedError';
+  }
+}
+
+// Thrown when the backend's sign-in expired and couldn't be renewed without the user.
+// Pending writes are kept until the user reconnects (see StorageBackend.reconnect).
+export class AuthExpiredError extends Error {
+  constructor(public backendName: string) {
+    super(`Signed out of ${backendName}`);
+    this.name = 'AuthExpiredError';
+  }
+}
@@ -1,5 +1,54 @@
 // JSON-based storage service replacing IndexedDB
-// Stores all data in a single JSON structure
+// Stores all data in a single JSON structure and persists it through a StorageBackend
+
+import { StorageBackend, BackendChange, ProjectStats, toProjectMetadata, countProjectWords } from './storageBackend';
+import { saveQueue, SaveQueueState, QueuedWrite } from './saveQueue';
+import { mergeProjects, MergeConflict, isEqual, getEntityName } from './projectMerge';
+import { CURRENT_PROJECT_VERSION, migrateProject } from './projectMigrations';
+import { validateProject, repairProject, formatIssue, ProjectValidationError, RepairMode } from './projectValidation';
+import { ProjectHistory, HistoryCollection, HistoryEntry, EntityChange } from './projectHistory';
+import {
+  ChangeEventBus,
+  ChangeEvent,
+  ChangeEventKind,
+  ChangeListener,
+  EntityKind,
+  COLLECTION_KINDS,
+  getChangedFields,
+} from './changeEvents';
+import {
+  findReferences,
+  findDanglingReferences,
+  getReferenceUpdates,
+  getReattachUpdates,
+  EntityReference,
+  ReferenceResolution,
+  ReferenceTarget,
+} from './projectReferences';
+import {
+  storeSnapshot,
+  readSnapshotArchive,
+  diffProjects,
+  SnapshotInfo,
+  SnapshotTrigger,
+  SnapshotChange,
+  SnapshotCollection,
+} from './projectSnapshots';
+import {
+  RevisionLog,
+  RevisionInfo,
+  RevisionTrigger,
+  createEmptyRevisionLog,
+  createRevisionInfo,
+  getRevisionContent,
+  getLatestRevisionContent,
+  listRevisions,
+  countChangedWords,
+} from './documentRevisions';
+import { SearchOptions, replaceInHtml } from './documentSearch';
+import { withoutCommentAnchors } from './documentComments';
+
+export type SaveStatus = 'saving' | 'saved' | 'error' | 'pending' | 'offline' | 'signed-out';
 
 export interface Character {
   id?: string;
@@ -132,10 +181,30 @@ export interface Document {
   content: string;
   type: 'story' | 'outline' | 'notes' | 'research';
   chapterId?: string;
+  comments?: CommentThread[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DocumentComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+// A comment thread in the margin of a document. The text it is about is marked in the content with
+// <span data-comment-id="...">, so the anchor moves with the text as it is edited.
+export interface CommentThread {
+  id: string;
+  quote: string; // The commented text when the thread was started
+  comments: DocumentComment[]; // The first comment, then the replies
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
 export interface MapElement {
   id?: string;
   type: string;
@@ -175,6 +244,19 @@ export interface Settings {
   locationRecognitionEnabled: boolean;
   locationNameCapitalization: 'uppercase' | 'lowercase' | 'leave-as-is';
   tooltipFields: Record<string, boolean>;
+  trashRetentionDays: number; // Trash items older than this are purged; 0 keeps them forever
+}
+
+// Kinds of entities that go to the trash when deleted
+export type TrashCollection = 'characters' | 'locations' | 'plotPoints' | 'chapters' | 'documents' | 'maps';
+
+export interface TrashItem {
+  id: string;
+  collection: TrashCollection;
+  name: string; // Display name of the entity when it was deleted
+  entity: any; // The deleted entity, including document content
+  references: EntityReference[]; // Relationships detached on delete, put back on restore
+  deletedAt: string;
 }
 
 export interface ProjectData {
@@ -189,23 +271,79 @@ export interface ProjectData {
   documents: Document[];
   mapElements: MapElement[];
   maps: MapData[];
+  trash?: TrashItem[]; // Missing in projects saved before the trash existed
   settings: Settings;
 }
 
+// Thrown by every change to a read-only project
+export class ReadOnlyProjectError extends Error {
+  constructor() {
+    super('This project is read-only');
+    this.name = 'ReadOnlyProjectError';
+  }
+}
+
+// How history entries refer to each kind of entity, e.g. "Deleted character 'Mara'"
+const HISTORY_NOUNS: Record<HistoryCollection, string> = {
+  characters: 'character',
+  locations: 'location',
+  plotPoints: 'plot point',
+  chapters: 'chapter',
+  storyboardElements: 'storyboard element',
+  documents: 'document',
+  maps: 'map',
+  trash: 'trash item',
+};
+
+const AUTO_SNAPSHOT_INTERVAL = 60 * 60 * 1000; // Snapshot at most once an hour while editing
+const MAX_AUTO_SNAPSHOTS = 48; // Older automatic snapshots are deleted, named ones are kept
+const REVISION_CHANGE_THRESHOLD = 200; // Changed words that get a revision before the editing session ends
+const REVISION_CHECK_INTERVAL = 30 * 1000; // Compare with the last revision at most this often while typing
+
+// A document open in the editor. Its content at the start is kept so the first revision has something to compare with.
+interface RevisionSession {
+  startContent: string;
+  startedAt: string;
+  lastCheckAt: number;
+}
+
 class StorageService {
   private static instance: StorageService;
   private data: ProjectData | null = null;
   private listeners: Array<() => void> = [];
+  private changeEvents = new ChangeEventBus();
+  private pendingEvents: ChangeEvent[] = []; // Emitted once the change they describe has been applied
   private saveDebounceTimer: NodeJS.Timeout | null = null;
-  private isSaving: boolean = false;
   private isInitialized: boolean = false;
-  private saveStatusListeners: Array<(status: 'saving' | 'saved' | 'error') => void> = [];
-  private lastSaveStatus: 'saving' | 'saved' | 'error' = 'saved';
+  private saveStatusListeners: Array<(status: SaveStatus, pendingCount: number) => void> = [];
+  private lastSaveStatus: SaveStatus = 'saved';
+  private pendingCount: number = 0; // Writes waiting in the outbox
   private changedDocumentIds: Set<string> = new Set(); // Track which documents changed
   private needsProjectSave: boolean = false; // Track if project metadata needs saving
+  private backend: StorageBackend | null = null; // Where the open project is persisted
+  private projectId: string | null = null; // Backend-specific project ID (Drive folder ID, local ID, ...)
+  private baseData: ProjectData | null = null; // Last metadata known to be in storage, the base for three-way merges
+  private conflicts: MergeConflict[] = []; // Merge conflicts waiting for the user to pick a side
+  private conflictListeners: Array<(conflicts: MergeConflict[]) => void> = [];
+  private readOnly: boolean = false; // Nothing can be changed, see setReadOnly
+  private commentable: boolean = true; // Comments can still be added to a read-only project, see setReadOnly
+  private history = new ProjectHistory(); // Undo/redo stack for the open project
+  private danglingReferences: EntityReference[] = []; // Found by the last integrity check
+  private integrityListeners: Array<(references: EntityReference[]) => void> = [];
+  private lastSnapshotAt: number | null = null; // When the open project was last snapshotted, looked up on first save
+  private isAutoSnapshotting: boolean = false;
+  private snapshotListeners: Array<() => void> = [];
+  private revisionLogs = new Map<string, Promise<RevisionLog>>(); // Loaded on first use, by document ID
+  private revisionSessions = new Map<string, RevisionSession>();
+  private revisionListeners: Array<(documentId: string) => void> = [];
+  private unwatchBackend: (() => void) | null = null;
+  private savedStats: ProjectStats = {}; // Stats last cached with the project in the backend
 
   private constructor() {
     // Don't auto-load - wait for project to be selected
+    saveQueue.onStateChange(state => this.handleQueueState(state));
+    saveQueue.onWritten(entry => this.handleWritten(entry));
+    saveQueue.setConflictResolver(entry => this.resolveSaveConflict(entry));
   }
 
   static getInstance(): StorageService {
@@ -219,8 +357,73 @@ class StorageService {
     return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  // Initialize with data from Google Drive
-  async initialize(data: ProjectData): Promise<void> {
+  // Set where the open project is saved. Pass null to stop persisting.
+  setBackend(backend: StorageBackend | null, projectId: string | null): void {
+    // Changes to the previous project are no longer of interest; initialize() watches the new one
+    this.unwatchBackend?.();
+    this.unwatchBackend = null;
+    this.backend = backend;
+    this.projectId = projectId;
+    this.savedStats = {};
+    // Replay writes left in the outbox by an earlier session
+    saveQueue.attach(backend, projectId);
+  }
+
+  // Read-only projects (saved by a newer app version, or shared with the user without edit access)
+  // can't be changed: every mutation throws ReadOnlyProjectError, so nothing is ever written back.
+  // Commenters get a read-only project they can still comment on, see updateDocumentComments.
+  setReadOnly(readOnly: boolean, commentable: boolean = !readOnly): void {
+    this.readOnly = readOnly;
+    this.commentable = commentable;
+    this.notifyListeners();
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  canComment(): boolean {
+    return !this.readOnly || this.commentable;
+  }
+
+  private assertWritable(): void {
+    if (this.readOnly) {
+      throw new ReadOnlyProjectError();
+    }
+  }
+
+  // Queue the whole project for saving, e.g. after a migration rewrote it
+  async saveAll(): Promise<void> {
+    if (!this.data) return;
+    this.needsProjectSave = true;
+    this.data.documents.forEach(doc => {
+      if (doc.id) this.changedDocumentIds.add(doc.id);
+    });
+    await this.saveData();
+  }
+
+  getBackend(): StorageBackend | null {
+    return this.backend;
+  }
+
+  getProjectId(): string | null {
+    return this.projectId;
+  }
+
+  // Sign in to the backend again after its session expired, then save the changes held back meanwhile
+  async reconnect(): Promise<boolean> {
+    const backend = this.backend;
+    if (!backend?.reconnect || !(await backend.reconnect())) {
+      return false;
+    }
+    console.log('🔑 Reconnected to', backend.name);
+    await saveQueue.resume();
+    return true;
+  }
+
+  // Initialize with data loaded from the storage backend.
+  // base is the copy currently in storage when data also contains unsynced edits.
+  async initialize(data: ProjectData, base: ProjectData = data): Promise<void> {
     // Merge settings from loaded data with defaults to ensure all fields exist
     const defaultSettings = this.getDefaultData().settings;
     const loadedSettings = data.settings || {};
@@ -228,6 +431,9 @@ class StorageService {
     // Merge loaded settings with defaults, prioritizing loaded settings
     this.data = {
       ...data,
+      storyboardElements: data.storyboardElements || [],
+      maps: data.maps || [],
+      trash: data.trash || [],
       settings: {
         ...defaultSettings,
         ...loadedSettings,
@@ -242,7 +448,79 @@ class StorageService {
     console.log('📥 Initialized project with settings:', this.data.settings);
     console.log('📥 Tooltip fields loaded:', this.data.settings.tooltipFields);
     
+    // Freshly loaded, so nothing is waiting to be saved
+    this.needsProjectSave = false;
+    this.changedDocumentIds.clear();
+    this.baseData = JSON.parse(JSON.stringify(toProjectMetadata(base)));
+    this.setConflicts([]);
+    this.history.clear();
+    this.lastSnapshotAt = null;
+    this.revisionLogs.clear();
+    this.revisionSessions.clear();
     this.isInitialized = true;
+    this.queueChangeEvent({ kind: 'project', op: 'reload' });
+    this.notifyListeners();
+    this.updateProjectStats({ lastOpened: new Date().toISOString() });
+    this.watchBackend();
+
+    // Housekeeping in the background so loading isn't held up
+    setTimeout(() => {
+      this.checkIntegrity();
+      this.purgeExpiredTrash();
+    }, 0);
+  }
+
+  // Pick up changes saved by another tab, device or collaborator while the project is open
+  private watchBackend(): void {
+    this.unwatchBackend?.();
+    this.unwatchBackend = null;
+    const backend = this.backend;
+    const projectId = this.projectId;
+    if (!backend || !projectId) return;
+
+    this.unwatchBackend = backend.watch(projectId, change => {
+      this.handleBackendChange(backend, change).catch(error => {
+        console.error('❌ Error loading changes made elsewhere:', error);
+      });
+    });
+  }
+
+  private async handleBackendChange(backend: StorageBackend, change: BackendChange): Promise<void> {
+    const isCurrent = () => backend === this.backend && change.projectId === this.projectId && this.data !== null;
+    if (!isCurrent()) return;
+
+    // Edits still on their way out win: they are merged when they are written
+    const pending = await saveQueue.getPending(change.projectId);
+
+    if (change.kind === 'project') {
+      if (this.needsProjectSave || pending.some(entry => entry.kind === 'project')) return;
+      const remote = toProjectMetadata(await backend.loadProject(change.projectId));
+      const sameContent = (a: ProjectData) => isEqual({ ...a, lastModified: undefined }, { ...remote, lastModified: undefined });
+      // Nothing new, e.g. our own save coming back
+      if (!isCurrent() || sameContent(this.baseData) || sameContent(toProjectMetadata(this.data))) return;
+
+      console.log('🔄 Project changed elsewhere, merging...');
+      this.mergeRemote(remote);
+      if (!sameContent(toProjectMetadata(this.data))) {
+        // Our side had something the other copy didn't
+        this.needsProjectSave = true;
+        await this.saveData();
+      }
+      return;
+    }
+
+    const documentId = change.documentId;
+    if (!documentId || this.changedDocumentIds.has(documentId) || pending.some(entry => entry.documentId === documentId)) return;
+    const remote = (await backend.loadDocuments(change.projectId)).find(d => d.id === documentId) || null;
+    if (!isCurrent()) return;
+
+    const local = this.data.documents.find(d => d.id === documentId) || null;
+    if (isEqual(remote, local)) return;
+    console.log(`🔄 Document ${documentId} changed elsewhere, reloading it`);
+    this.data.documents = remote
+      ? local ? this.data.documents.map(d => (d.id === documentId ? remote : d)) : [...this.data.documents, remote]
+      : this.data.documents.filter(d => d.id !== documentId);
+    this.queueEntityEvent('documents', documentId, local, remote);
     this.notifyListeners();
   }
 
@@ -252,34 +530,58 @@ class StorageService {
   }
 
   // Subscribe to save status changes
-  onSaveStatusChange(listener: (status: 'saving' | 'saved' | 'error') => void): () => void {
+  onSaveStatusChange(listener: (status: SaveStatus, pendingCount: number) => void): () => void {
     this.saveStatusListeners.push(listener);
     // Immediately call with current status
-    listener(this.lastSaveStatus);
+    listener(this.lastSaveStatus, this.pendingCount);
     return () => {
       this.saveStatusListeners = this.saveStatusListeners.filter(l => l !== listener);
     };
   }
 
-  private updateSaveStatus(status: 'saving' | 'saved' | 'error'): void {
+  private updateSaveStatus(status: SaveStatus): void {
+    const wasSaved = this.lastSaveStatus === 'saved';
     this.lastSaveStatus = status;
-    this.saveStatusListeners.forEach(listener => listener(status));
+    this.saveStatusListeners.forEach(listener => listener(status, this.pendingCount));
     
     // Also update lastModified when saved
-    if (status === 'saved' && this.data) {
+    if (status === 'saved' && !wasSaved && this.data) {
       this.data.lastModified = new Date().toISOString();
       this.notifyListeners();
     }
   }
 
-  getSaveStatus(): 'saving' | 'saved' | 'error' {
+  // Map the outbox state onto the save status shown in the UI
+  private handleQueueState(state: SaveQueueState): void {
+    this.pendingCount = state.pending;
+    if (state.pending === 0) {
+      this.updateSaveStatus(state.flushing ? 'saving' : 'saved');
+    } else if (state.offline) {
+      this.updateSaveStatus('offline');
+    } else if (state.authExpired) {
+      this.updateSaveStatus('signed-out');
+    } else if (state.flushing) {
+      this.updateSaveStatus('saving');
+    } else if (state.failing) {
+      this.updateSaveStatus('error');
+    } else {
+      this.updateSaveStatus('pending');
+    }
+  }
+
+  getSaveStatus(): SaveStatus {
     return this.lastSaveStatus;
   }
 
-  private getDefaultData(): ProjectData {
+  getPendingCount(): number {
+    return this.pendingCount;
+  }
+
+  // Data of a new, empty project
+  getDefaultData(): ProjectData {
     const now = new Date().toISOString();
     return {
-      version: '1.0',
+      version: CURRENT_PROJECT_VERSION,
       projectName: 'My Storyboard Project',
       lastModified: now,
       characters: [],
@@ -290,6 +592,7 @@ class StorageService {
       documents: [],
       mapElements: [],
       maps: [],
+      trash: [],
       settings: {
         theme: 'dark',
         characterRecognitionEnabled: false,
@@ -319,6 +622,7 @@ class StorageService {
           history: false,
           culture: false,
         },
+        trashRetentionDays: 30,
       },
     };
   }
@@ -329,32 +633,16 @@ class StorageService {
     this.data.lastModified = new Date().toISOString();
     
     try {
-      // Save directly to Google Drive (primary storage)
-      const folderId = localStorage.getItem('current_project_folder_id');
-      const isAuthenticated = localStorage.getItem('google_authenticated') === 'true';
-      
-      if (folderId && isAuthenticated && folderId !== 'placeholder') {
-        // Debounce saves to prevent multiple concurrent API calls
+      // Queue changes for the storage backend (Google Drive, local, ...)
+      if (this.backend && this.projectId && !this.readOnly) {
+        // Debounce so a burst of edits becomes a single write
         if (this.saveDebounceTimer) {
           clearTimeout(this.saveDebounceTimer);
         }
         
-        this.saveDebounceTimer = setTimeout(async () => {
-          if (!this.isSaving) {
-            this.isSaving = true;
-            this.updateSaveStatus('saving');
-            try {
-              await this.saveToGoogleDrive();
-              this.updateSaveStatus('saved');
-              // Clear changed documents after successful save
-              this.changedDocumentIds.clear();
-              this.needsProjectSave = false;
-            } catch (error) {
-              this.updateSaveStatus('error');
-            } finally {
-              this.isSaving = false;
-            }
-          }
+        this.saveDebounceTimer = setTimeout(() => {
+          this.saveDebounceTimer = null;
+          this.queueChanges();
         }, 100); // Fast auto-save (100ms debounce)
       }
       
@@ -364,57 +652,174 @@ class StorageService {
     }
   }
 
-  private async saveToGoogleDrive(): Promise<void> {
+  // Move pending changes into the durable outbox, then let it write them to the backend
+  private async queueChanges(): Promise<void> {
+    const projectId = this.projectId;
+    if (!this.data || !projectId) return;
+
+    // Never write a corrupt project: fix anything invalid before it reaches storage
+    const report = validateProject(this.data);
+    if (!report.valid) {
+      console.warn(`⚠️ Repairing ${report.issues.length} invalid field(s) before saving:`, report.issues.map(formatIssue));
+      this.data = repairProject(this.data, 'repair');
+      this.queueChangeEvent({ kind: 'project', op: 'reload' });
+      this.notifyListeners();
+    }
+
     try {
-      const folderId = localStorage.getItem('current_project_folder_id');
-      const isAuthenticated = localStorage.getItem('google_authenticated') === 'true';
-      
-      if (!folderId || !isAuthenticated || folderId === 'placeholder') {
-        console.warn('⚠️ Cannot save: No project folder selected or not authenticated');
-        return;
-      }
-      
-      const { googleDriveService } = await import('./googleDriveService');
-      
-      // Ensure Google Drive is initialized
-      await googleDriveService.initialize();
-      
       // Save project metadata only if needed (when non-document data changed)
       if (this.needsProjectSave) {
-        console.log('💾 Saving project data to Google Drive, settings included:', this.data.settings);
-        await googleDriveService.saveProjectToFolder(folderId, this.data, true);
-        console.log('✅ Project data saved, including settings');
+        this.needsProjectSave = false;
+        await saveQueue.enqueueProject(projectId, this.data);
       }
       
       // Only save changed documents (not all documents)
       if (this.changedDocumentIds.size > 0) {
-        const documentsToSave = this.getData().documents.filter(doc => 
-          doc.id && this.changedDocumentIds.has(doc.id)
-        );
-        
-        // Save documents in parallel for speed
-        await Promise.all(
-          documentsToSave.map(async (doc) => {
-            try {
-              await googleDriveService.saveDocumentToFolder(folderId, doc);
-            } catch (docError) {
-              console.error(`❌ Failed to save document "${doc.title}":`, docError);
-            }
-          })
-        );
+        const changedIds = Array.from(this.changedDocumentIds);
+        this.changedDocumentIds.clear();
+        const documentsToSave = this.data.documents.filter(doc => doc.id && changedIds.includes(doc.id));
+        for (const doc of documentsToSave) {
+          await saveQueue.enqueueDocument(projectId, doc);
+        }
+        // In the background so saving isn't held up
+        this.captureLargeChanges(changedIds);
       }
       
-      console.log(`✅ Saved ${this.changedDocumentIds.size} document(s) to Google Drive`);
+      await saveQueue.flush();
     } catch (error) {
-      console.error('❌ Save to Google Drive failed:', error);
-      // Don't throw - this is background save
+      console.error('❌ Failed to queue changes for saving:', error);
+      this.updateSaveStatus('error');
     }
+
+    // In the background so saving isn't held up
+    this.takeAutoSnapshot();
+    this.updateProjectStats();
+  }
+
+  // Keep the stats shown on the project's tile current. They're only a cache, so failures are just logged.
+  private updateProjectStats(stats: ProjectStats = {}): void {
+    const backend = this.backend;
+    const projectId = this.projectId;
+    if (!backend || !projectId || !this.data || this.readOnly) return;
+
+    const next: ProjectStats = { ...stats, wordCount: countProjectWords(this.data) };
+    const changed = (Object.keys(next) as Array<keyof ProjectStats>).some(key => next[key] !== this.savedStats[key]);
+    if (!changed) return;
+
+    this.savedStats = { ...this.savedStats, ...next };
+    backend.updateProjectStats(projectId, next).catch(error => {
+      console.warn('⚠️ Could not update project stats:', error);
+    });
+  }
+
+  // Once our metadata reaches storage it becomes the base for the next merge
+  private handleWritten(entry: QueuedWrite): void {
+    if (entry.kind === 'project' && entry.projectId === this.projectId && entry.payload) {
+      this.baseData = entry.payload as ProjectData;
+    }
+    if (entry.kind === 'revision' && entry.projectId === this.projectId) {
+      // The stored log now has the revision, load it again when it's next needed
+      this.revisionLogs.delete(entry.documentId!);
+      this.revisionListeners.forEach(listener => listener(entry.documentId!));
+    }
+  }
+
+  // Merge our edits with the copy that was saved elsewhere. Returns the merged data to save.
+  private async resolveSaveConflict(entry: QueuedWrite): Promise<ProjectData | null> {
+    if (!this.backend || !this.data || entry.projectId !== this.projectId) return null;
+
+    console.log('🔀 Project changed elsewhere, merging...');
+    const remote = await this.backend.loadProject(entry.projectId);
+    if (!this.data || entry.projectId !== this.projectId) return null;
+    this.mergeRemote(remote);
+    return this.data;
+  }
+
+  private mergeRemote(remote: ProjectData): void {
+    const base = this.baseData || remote;
+    const { merged, conflicts } = mergeProjects(base, toProjectMetadata(this.data), remote);
+
+    this.data = { ...merged, documents: this.data.documents };
+    this.baseData = toProjectMetadata(remote);
+    this.queueChangeEvent({ kind: 'project', op: 'reload' });
+    this.notifyListeners();
+
+    // A merge can combine a delete with an edit that still points at the deleted entity
+    this.checkIntegrity();
+
+    if (conflicts.length > 0) {
+      console.warn(`⚠️ ${conflicts.length} conflict(s) need to be resolved`);
+      // Newer conflicts on the same field replace older ones
+      const ids = new Set(conflicts.map(c => c.id));
+      this.setConflicts([...this.conflicts.filter(c => !ids.has(c.id)), ...conflicts]);
+    }
+  }
+
+  getConflicts(): MergeConflict[] {
+    return this.conflicts;
+  }
+
+  onConflictsChange(listener: (conflicts: MergeConflict[]) => void): () => void {
+    this.conflictListeners.push(listener);
+    listener(this.conflicts);
+    return () => {
+      this.conflictListeners = this.conflictListeners.filter(l => l !== listener);
+    };
+  }
+
+  private setConflicts(conflicts: MergeConflict[]): void {
+    this.conflicts = conflicts;
+    this.conflictListeners.forEach(listener => listener(conflicts));
+  }
+
+  // Apply the side picked for each conflict. Conflicts without a choice stay open.
+  async resolveConflicts(choices: Record<string, 'local' | 'remote'>): Promise<void> {
+    if (!this.data) return;
+    const now = new Date().toISOString();
+
+    this.conflicts.forEach(conflict => {
+      const choice = choices[conflict.id];
+      if (!choice) return;
+      const value = choice === 'local' ? conflict.local : conflict.remote;
+
+      if (conflict.collection === 'settings') {
+        (this.data!.settings as any)[conflict.field!] = value;
+        return;
+      }
+
+      const items: any[] = (this.data as any)[conflict.collection];
+      const index = items.findIndex(item => item.id === conflict.entityId);
+      if (conflict.field) {
+        if (index !== -1) {
+          items[index] = { ...items[index], [conflict.field]: value, updatedAt: now };
+        }
+      } else if (!value) {
+        // The chosen side deleted the entity
+        if (index !== -1) items.splice(index, 1);
+      } else if (index !== -1) {
+        items[index] = value;
+      } else {
+        items.push(value);
+      }
+    });
+
+    this.setConflicts(this.conflicts.filter(conflict => !choices[conflict.id]));
+    this.queueChangeEvent({ kind: 'project', op: 'reload' });
+    this.needsProjectSave = true;
+    await this.saveData();
   }
 
   private notifyListeners(): void {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach(event => this.changeEvents.emit(event));
     this.listeners.forEach(listener => listener());
   }
 
+  private queueChangeEvent(event: ChangeEvent): void {
+    this.pendingEvents.push(event);
+  }
+
   // Listeners for real-time updates
   subscribe(listener: () => void): () => void {
     this.listeners.push(listener);
@@ -423,17 +828,42 @@ class StorageService {
     };
   }
 
+  // Typed change events, e.g. { kind: 'character', op: 'update', id, changedFields: ['name'] }
+  onChange(listener: ChangeListener): () => void {
+    return this.changeEvents.on(listener);
+  }
+
+  // Changes to one or more kinds of entities. Also called when the whole project is reloaded.
+  onKindChange(kinds: ChangeEventKind | ChangeEventKind[], listener: ChangeListener): () => void {
+    return this.changeEvents.onKind(kinds, listener);
+  }
+
+  // Changes to a single entity. Also called when the whole project is reloaded.
+  onEntityChange(kind: EntityKind, id: string, listener: ChangeListener): () => void {
+    return this.changeEvents.onEntity(kind, id, listener);
+  }
+
   // Export data as JSON string
   exportData(): string {
     return JSON.stringify(this.data, null, 2);
   }
 
-  // Import data from JSON string
-  importData(json: string): void {
+  // Import data from JSON string. Invalid data throws ProjectValidationError unless
+  // mode says whether to repair it or drop the invalid records.
+  async importData(json: string, mode?: RepairMode): Promise<void> {
+    this.assertWritable();
     try {
-      const data = JSON.parse(json);
-      this.data = data;
-      this.saveData();
+      // Exports from older versions are upgraded the same way as project files
+      const { data } = migrateProject(JSON.parse(json));
+      const report = validateProject(data);
+      if (!report.valid && !mode) {
+        throw new ProjectValidationError(report);
+      }
+      await this.createSnapshot('Before import', 'import');
+      this.data = report.valid ? data : repairProject(data, mode!);
+      this.history.clear();
+      this.queueChangeEvent({ kind: 'project', op: 'reload' });
+      await this.saveAll();
     } catch (error) {
       console.error('Error importing data:', error);
       throw error;
@@ -441,8 +871,12 @@ class StorageService {
   }
 
   // Reset data to defaults
-  resetData(): void {
+  async resetData(): Promise<void> {
+    this.assertWritable();
+    await this.createSnapshot('Before reset', 'reset');
     this.data = this.getDefaultData();
+    this.history.clear();
+    this.queueChangeEvent({ kind: 'project', op: 'reload' });
     this.saveData();
   }
 
@@ -485,6 +919,668 @@ class StorageService {
     ];
   }
 
+  // HISTORY
+  private snapshot<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  // Record one entity change. Pass before = null for additions and after = null for deletions.
+  private recordChange(
+    collection: HistoryCollection,
+    before: any,
+    after: any,
+    options: { label?: string; index?: number; coalesceKey?: string } = {}
+  ): void {
+    const entity = after || before;
+    if (!entity?.id) return;
+    // Edits that change nothing but the timestamp are not worth an undo step
+    if (before && after && isEqual({ ...before, updatedAt: undefined }, { ...after, updatedAt: undefined })) return;
+
+    const verb = !before ? 'Added' : !after ? 'Deleted' : 'Edited';
+    const label = options.label || `${verb} ${HISTORY_NOUNS[collection]} '${getEntityName(entity)}'`;
+    this.history.record(label, [this.entityChange(collection, before, after, options.index)], options.coalesceKey);
+    this.queueEntityEvent(collection, entity.id, before, after);
+  }
+
+  // Every change that reaches the history is also announced to change listeners
+  private queueEntityEvent(collection: HistoryCollection, id: string, before: any, after: any): void {
+    const kind = COLLECTION_KINDS[collection];
+    if (!before) {
+      this.queueChangeEvent({ kind, op: 'add', id });
+    } else if (!after) {
+      this.queueChangeEvent({ kind, op: 'delete', id });
+    } else {
+      this.queueChangeEvent({ kind, op: 'update', id, changedFields: getChangedFields(before, after) });
+    }
+  }
+
+  private entityChange(collection: HistoryCollection, before: any, after: any, index?: number): EntityChange {
+    return {
+      collection,
+      id: (after || before).id,
+      before: before ? this.snapshot(before) : undefined,
+      after: after ? this.snapshot(after) : undefined,
+      index,
+    };
+  }
+
+  // Record an update; typing into the same fields again shortly after merges into one step
+  private recordUpdate(collection: HistoryCollection, before: any, after: any, updates: object): void {
+    const fields = Object.keys(updates).sort().join(',');
+    this.recordChange(collection, before, after, { coalesceKey: `${collection}:${after.id}:${fields}` });
+  }
+
+  // Run several mutations as one undo step, e.g. a bulk edit in the database view
+  async groupChanges<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    this.history.beginGroup(label);
+    try {
+      return await fn();
+    } finally {
+      this.history.endGroup();
+    }
+  }
+
+  // Make changes that are not meant to be undone, e.g. a one-time import. They are saved and
+  // announced like any other change, but leave the history as it was.
+  async withoutHistory<T>(fn: () => Promise<T>): Promise<T> {
+    this.history.pause();
+    try {
+      return await fn();
+    } finally {
+      this.history.resume();
+    }
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  // Undo entries (oldest first) and redo entries (most recently undone last)
+  getHistory(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    return { undo: this.history.getUndoEntries(), redo: this.history.getRedoEntries() };
+  }
+
+  onHistoryChange(listener: () => void): () => void {
+    return this.history.onChange(listener);
+  }
+
+  async undo(): Promise<HistoryEntry | undefined> {
+    if (!this.data || this.readOnly) return undefined;
+    const entry = this.history.takeUndo();
+    if (entry) {
+      console.log('↩️ Undo:', entry.label);
+      await this.applyHistory(entry, 'undo');
+    }
+    return entry;
+  }
+
+  async redo(): Promise<HistoryEntry | undefined> {
+    if (!this.data || this.readOnly) return undefined;
+    const entry = this.history.takeRedo();
+    if (entry) {
+      console.log('↪️ Redo:', entry.label);
+      await this.applyHistory(entry, 'redo');
+    }
+    return entry;
+  }
+
+  // Put the before (undo) or after (redo) copies of every changed entity back
+  private async applyHistory(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<void> {
+    const data = this.getData();
+    const changes = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+    const deletedDocumentIds: string[] = [];
+
+    changes.forEach(change => {
+      const target = direction === 'undo' ? change.before : change.after;
+      const items: any[] = (data as any)[change.collection];
+      const index = items.findIndex(item => item.id === change.id);
+
+      if (index !== -1 || target) {
+        this.queueEntityEvent(change.collection, change.id, index !== -1 ? items[index] : null, target);
+      }
+      if (target) {
+        const restored = this.snapshot(target);
+        if (index !== -1) {
+          items[index] = restored;
+        } else if (direction === 'undo' && change.index !== undefined) {
+          // Deleted entities go back where they were
+          items.splice(Math.min(change.index, items.length), 0, restored);
+        } else {
+          items.push(restored);
+        }
+        if (change.collection === 'documents') this.changedDocumentIds.add(change.id);
+      } else if (index !== -1) {
+        items.splice(index, 1);
+        if (change.collection === 'documents') deletedDocumentIds.push(change.id);
+      }
+    });
+
+    this.needsProjectSave = true;
+    await this.saveData();
+    for (const id of deletedDocumentIds) {
+      // Documents removed by redoing a delete are in the trash, so only set their file aside
+      if (this.getTrash().some(item => item.collection === 'documents' && item.entity.id === id)) {
+        await this.queueDocumentTrash(id);
+      } else {
+        await this.queueDocumentDelete(id);
+      }
+    }
+  }
+
+  // COLLABORATION
+  // Apply an entity a collaborator changed in real time (see collaborationService). Pass null when
+  // they deleted it. It isn't an undo step of ours, and viewers see it too, so history and the
+  // read-only check are skipped. The collaborator saves their own change, so nothing is queued here.
+  applyRemoteChange(collection: HistoryCollection, id: string, entity: any | null): void {
+    if (!this.data) return;
+    const items: any[] = (this.data as any)[collection] || [];
+    const index = items.findIndex(item => item.id === id);
+    if (index === -1 && !entity) return;
+
+    this.queueEntityEvent(collection, id, index !== -1 ? items[index] : null, entity);
+    if (entity) {
+      const copy = this.snapshot(entity);
+      if (index !== -1) {
+        items[index] = copy;
+      } else {
+        items.push(copy);
+      }
+    } else {
+      items.splice(index, 1);
+    }
+    this.notifyListeners();
+  }
+
+  // REFERENCES
+  // Records that point at the given entity, e.g. plot points listing a character
+  getReferences(target: ReferenceTarget, id: string): EntityReference[] {
+    return findReferences(this.getData(), target, id);
+  }
+
+  // Look for references to entities that no longer exist and tell listeners about them
+  checkIntegrity(): EntityReference[] {
+    if (!this.data) return [];
+    const dangling = findDanglingReferences(this.data);
+    if (dangling.length > 0) {
+      console.warn(`⚠️ Found ${dangling.length} broken reference(s)`);
+    }
+    this.setDanglingReferences(dangling);
+    return dangling;
+  }
+
+  getDanglingReferences(): EntityReference[] {
+    return this.danglingReferences;
+  }
+
+  onIntegrityChange(listener: (references: EntityReference[]) => void): () => void {
+    this.integrityListeners.push(listener);
+    listener(this.danglingReferences);
+    return () => {
+      this.integrityListeners = this.integrityListeners.filter(l => l !== listener);
+    };
+  }
+
+  private setDanglingReferences(references: EntityReference[]): void {
+    this.danglingReferences = references;
+    this.integrityListeners.forEach(listener => listener(references));
+  }
+
+  // Remove every broken reference found by the integrity check
+  async repairDanglingReferences(): Promise<void> {
+    this.assertWritable();
+    const dangling = findDanglingReferences(this.getData());
+    if (dangling.length > 0) {
+      await this.groupChanges(`Removed ${dangling.length} broken reference${dangling.length === 1 ? '' : 's'}`, async () => {
+        for (const reference of dangling) {
+          const record = this.findReferencingRecord(reference);
+          if (record) {
+            await this.updateReferencingRecord(reference, getReferenceUpdates(record, reference));
+          }
+        }
+      });
+    }
+    this.checkIntegrity();
+  }
+
+  // Detach, delete or reassign every record pointing at an entity that is about to be deleted.
+  // Returns the detached references so restoring the entity can put them back.
+  private async resolveReferences(target: ReferenceTarget, id: string, resolution: ReferenceResolution): Promise<EntityReference[]> {
+    const references = findReferences(this.getData(), target, id);
+    if (references.length === 0) return [];
+
+    const targetName = getEntityName(((this.getData() as any)[target] as any[]).find(e => e.id === id));
+    const deleted = new Set<string>();
+    for (const reference of references) {
+      if (resolution.action === 'delete') {
+        const key = `${reference.collection}:${reference.entityId}`;
+        if (deleted.has(key)) continue;
+        deleted.add(key);
+        await this.deleteReferencingRecord(reference);
+        continue;
+      }
+
+      // Re-read the record: an earlier reference may already have updated it
+      const record = this.findReferencingRecord(reference);
+      if (!record) continue;
+      const replacementId = resolution.action === 'reassign' ? resolution.targetId : undefined;
+      await this.updateReferencingRecord(reference, getReferenceUpdates(record, reference, replacementId, targetName));
+    }
+    return resolution.action === 'detach' ? references : [];
+  }
+
+  private findReferencingRecord(reference: EntityReference): any {
+    const data = this.getData();
+    if (reference.collection === 'mapElements') {
+      return data.maps.find(m => m.id === reference.mapId)?.elements.find(e => e.id === reference.entityId);
+    }
+    return ((data as any)[reference.collection] as any[]).find(e => e.id === reference.entityId);
+  }
+
+  private async updateReferencingRecord(reference: EntityReference, updates: Record<string, any>): Promise<void> {
+    switch (reference.collection) {
+      case 'plotPoints':
+        return this.updatePlotPoint(reference.entityId, updates);
+      case 'chapters':
+        return this.updateChapter(reference.entityId, updates);
+      case 'locations':
+        return this.updateLocation(reference.entityId, updates);
+      case 'storyboardElements':
+        return this.updateStoryboardElement(reference.entityId, updates);
+      case 'documents':
+        return this.updateDocument(reference.entityId, updates);
+      case 'mapElements':
+        return this.updateMapElement(reference.mapId!, reference.entityId, updates);
+    }
+  }
+
+  private async deleteReferencingRecord(reference: EntityReference): Promise<void> {
+    switch (reference.collection) {
+      case 'plotPoints':
+        return this.deletePlotPoint(reference.entityId);
+      case 'chapters':
+        return this.deleteChapter(reference.entityId);
+      case 'locations':
+        return this.deleteLocation(reference.entityId);
+      case 'storyboardElements':
+        return this.deleteStoryboardElement(reference.entityId);
+      case 'documents':
+        return this.deleteDocument(reference.entityId);
+      case 'mapElements':
+        return this.deleteMapElement(reference.mapId!, reference.entityId);
+    }
+  }
+
+  // TRASH
+  private getTrash(): TrashItem[] {
+    const data = this.getData();
+    if (!data.trash) data.trash = [];
+    return data.trash;
+  }
+
+  // Newest first
+  getTrashItems(): TrashItem[] {
+    return [...this.getTrash()].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  private moveToTrash(collection: TrashCollection, entity: any, references: EntityReference[] = []): void {
+    const item: TrashItem = {
+      id: this.generateId(),
+      collection,
+      name: getEntityName(entity),
+      entity: this.snapshot(entity),
+      references,
+      deletedAt: new Date().toISOString(),
+    };
+    this.getTrash().push(item);
+    this.recordChange('trash', null, item);
+  }
+
+  // Put a deleted entity back together with the relationships it had
+  async restoreFromTrash(itemId: string): Promise<void> {
+    this.assertWritable();
+    const trash = this.getTrash();
+    const index = trash.findIndex(item => item.id === itemId);
+    if (index === -1) return;
+    const item = trash[index];
+    const entity = this.snapshot(item.entity);
+
+    await this.groupChanges(`Restored ${HISTORY_NOUNS[item.collection]} '${item.name}'`, async () => {
+      this.recordChange('trash', item, null, { index });
+      trash.splice(index, 1);
+
+      const items: any[] = (this.getData() as any)[item.collection];
+      if (!items.some(existing => existing.id === entity.id)) {
+        items.push(entity);
+        this.recordChange(item.collection, null, entity);
+        if (item.collection === 'documents') this.changedDocumentIds.add(entity.id);
+      }
+
+      // Records that pointed at the entity point at it again, if they still exist
+      for (const reference of item.references) {
+        const record = this.findReferencingRecord(reference);
+        const updates = record && getReattachUpdates(record, reference);
+        if (updates) await this.updateReferencingRecord(reference, updates);
+      }
+
+      await this.releaseMissingReferences(item.collection, entity.id);
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
+  }
+
+  // A restored entity can point at entities that are still in the trash. Detach those references
+  // and hand them to the trashed entity, so restoring it later reconnects the two.
+  private async releaseMissingReferences(collection: TrashCollection, id: string): Promise<void> {
+    const missing = findDanglingReferences(this.getData()).filter(r => r.collection === collection && r.entityId === id);
+    for (const reference of missing) {
+      const trashIndex = this.getTrash().findIndex(
+        item => item.collection === reference.targetCollection && item.entity.id === reference.targetId
+      );
+      if (trashIndex !== -1) {
+        const before = this.snapshot(this.getTrash()[trashIndex]);
+        const after = { ...before, references: [...before.references, reference] };
+        this.getTrash()[trashIndex] = after;
+        this.recordChange('trash', before, after);
+      }
+
+      const record = this.findReferencingRecord(reference);
+      if (record) await this.updateReferencingRecord(reference, getReferenceUpdates(record, reference));
+    }
+  }
+
+  // Delete trash items for good. This can't be undone.
+  async purgeFromTrash(itemIds: string[]): Promise<void> {
+    this.assertWritable();
+    const ids = new Set(itemIds);
+    const purged = this.getTrash().filter(item => ids.has(item.id));
+    if (purged.length === 0) return;
+
+    this.getData().trash = this.getTrash().filter(item => !ids.has(item.id));
+    purged.forEach(item => this.queueChangeEvent({ kind: 'trashItem', op: 'delete', id: item.id }));
+    this.needsProjectSave = true;
+    await this.saveData();
+    for (const item of purged) {
+      if (item.collection === 'documents') await this.queueDocumentDelete(item.entity.id);
+    }
+  }
+
+  async emptyTrash(): Promise<void> {
+    this.assertWritable();
+    await this.purgeFromTrash(this.getTrash().map(item => item.id));
+  }
+
+  // Purge items that have been in the trash longer than the retention setting
+  async purgeExpiredTrash(): Promise<void> {
+    if (!this.data || this.readOnly) return;
+    const days = this.getSettings().trashRetentionDays;
+    if (!days || days <= 0) return;
+
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    const expired = this.getTrash().filter(item => new Date(item.deletedAt).getTime() < cutoff);
+    if (expired.length > 0) {
+      console.log(`🗑️ Purging ${expired.length} trash item(s) older than ${days} days`);
+      await this.purgeFromTrash(expired.map(item => item.id));
+    }
+  }
+
+  // SNAPSHOTS
+  // Snapshot the project as it is now. Returns null when there's nowhere to store it.
+  async createSnapshot(name: string, trigger: SnapshotTrigger = 'manual'): Promise<SnapshotInfo | null> {
+    if (!this.data || !this.backend || !this.projectId || this.readOnly) return null;
+    const info = await storeSnapshot(this.backend, this.projectId, this.data, name, trigger);
+    this.lastSnapshotAt = Date.now();
+    this.notifySnapshotListeners();
+    return info;
+  }
+
+  // Newest first
+  async getSnapshots(): Promise<SnapshotInfo[]> {
+    if (!this.backend || !this.projectId) return [];
+    return this.backend.listSnapshots(this.projectId);
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    if (!this.backend || !this.projectId || this.readOnly) return;
+    await this.backend.deleteSnapshot(this.projectId, snapshotId);
+    this.notifySnapshotListeners();
+  }
+
+  onSnapshotsChange(listener: () => void): () => void {
+    this.snapshotListeners.push(listener);
+    return () => {
+      this.snapshotListeners = this.snapshotListeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifySnapshotListeners(): void {
+    this.snapshotListeners.forEach(listener => listener());
+  }
+
+  private async readSnapshot(snapshotId: string): Promise<{ info: SnapshotInfo; data: ProjectData }> {
+    if (!this.backend || !this.projectId) {
+      throw new Error('No project storage to load snapshots from');
+    }
+    return readSnapshotArchive(await this.backend.loadSnapshot(this.projectId, snapshotId));
+  }
+
+  // The project as it was when the snapshot was taken
+  async loadSnapshot(snapshotId: string): Promise<ProjectData> {
+    return (await this.readSnapshot(snapshotId)).data;
+  }
+
+  // Entities and documents that changed between two snapshots. Leave toId out to compare with the project as it is now.
+  async compareSnapshots(fromId: string, toId?: string): Promise<SnapshotChange[]> {
+    const from = await this.loadSnapshot(fromId);
+    const to = toId ? await this.loadSnapshot(toId) : this.getData();
+    return diffProjects(from, to);
+  }
+
+  // Replace the whole project with a snapshot. The current state is snapshotted first, so this can be reversed.
+  async restoreSnapshot(snapshotId: string): Promise<void> {
+    if (!this.data || this.readOnly) return;
+    const { info, data } = await this.readSnapshot(snapshotId);
+    await this.createSnapshot(`Before restoring "${info.name}"`, 'restore');
+
+    const report = validateProject(data);
+    const restored = report.valid ? data : repairProject(data, 'repair');
+    const restoredIds = new Set(restored.documents.map(doc => doc.id));
+    const removedDocumentIds = this.data.documents.filter(doc => doc.id && !restoredIds.has(doc.id)).map(doc => doc.id!);
+
+    console.log(`⏪ Restoring snapshot "${info.name}" from ${info.createdAt}`);
+    this.data = {
+      ...restored,
+      trash: restored.trash || [],
+      settings: { ...this.getDefaultData().settings, ...restored.settings },
+    };
+    this.history.clear();
+    this.queueChangeEvent({ kind: 'project', op: 'reload' });
+    await this.saveAll();
+    for (const id of removedDocumentIds) {
+      await this.queueDocumentDelete(id);
+    }
+    this.checkIntegrity();
+  }
+
+  // Put individual records and documents back the way they were in a snapshot, as one undo step
+  async restoreFromSnapshot(snapshotId: string, items: Array<{ collection: SnapshotCollection; id: string }>): Promise<void> {
+    if (!this.data || this.readOnly) return;
+    const { info, data } = await this.readSnapshot(snapshotId);
+
+    await this.groupChanges(`Restored ${items.length} item${items.length === 1 ? '' : 's'} from snapshot "${info.name}"`, async () => {
+      for (const { collection, id } of items) {
+        const entity = ((data as any)[collection] as any[]).find(item => item.id === id);
+        if (!entity) continue;
+
+        const restored = this.snapshot(entity);
+        const current: any[] = (this.getData() as any)[collection];
+        const index = current.findIndex(item => item.id === id);
+        if (index !== -1) {
+          this.recordChange(collection, current[index], restored);
+          current[index] = restored;
+        } else {
+          current.push(restored);
+          this.recordChange(collection, null, restored);
+        }
+        if (collection === 'documents') this.changedDocumentIds.add(id);
+
+        // A restored entity no longer belongs in the trash
+        const trashIndex = this.getTrash().findIndex(item => item.collection === collection && item.entity.id === id);
+        if (trashIndex !== -1) {
+          this.recordChange('trash', this.getTrash()[trashIndex], null, { index: trashIndex });
+          this.getTrash().splice(trashIndex, 1);
+        }
+      }
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
+
+    // Restored records can point at entities deleted since the snapshot
+    this.checkIntegrity();
+  }
+
+  // REVISIONS
+  private loadRevisionLog(documentId: string): Promise<RevisionLog> {
+    let log = this.revisionLogs.get(documentId);
+    if (!log) {
+      const backend = this.backend;
+      const projectId = this.projectId;
+      log = backend && projectId
+        ? backend.loadRevisions(projectId, documentId).then(stored => stored || createEmptyRevisionLog(documentId))
+        : Promise.resolve(createEmptyRevisionLog(documentId));
+      // Try again next time instead of caching the failure
+      log.catch(() => this.revisionLogs.delete(documentId));
+      this.revisionLogs.set(documentId, log);
+    }
+    return log;
+  }
+
+  // Newest first
+  async getRevisions(documentId: string): Promise<RevisionInfo[]> {
+    if (!this.backend || !this.projectId) return [];
+    return listRevisions(await this.loadRevisionLog(documentId));
+  }
+
+  // The document's content as it was when the revision was captured
+  async loadRevisionContent(documentId: string, revisionId: string): Promise<string> {
+    return getRevisionContent(await this.loadRevisionLog(documentId), revisionId);
+  }
+
+  // Save the document as it is now as a named version. Returns null when there's nowhere to store it.
+  async createRevision(documentId: string, name: string): Promise<RevisionInfo | null> {
+    return this.captureRevision(documentId, 'manual', name);
+  }
+
+  // Revisions go through the save queue, so one captured as the page closes is kept and written on
+  // the next visit. Automatic revisions are skipped when nothing changed since the last one.
+  private async captureRevision(documentId: string, trigger: RevisionTrigger, name?: string, session?: RevisionSession): Promise<RevisionInfo | null> {
+    const projectId = this.projectId;
+    const document = this.data?.documents.find(d => d.id === documentId);
+    if (!this.backend || !projectId || !document || this.readOnly) return null;
+
+    const content = document.content || '';
+    const info = createRevisionInfo(trigger, content, name);
+    await saveQueue.enqueueRevision(projectId, {
+      documentId,
+      info,
+      content,
+      startContent: session?.startContent,
+      startedAt: session?.startedAt,
+    });
+    console.log(`🕓 Captured ${trigger} revision of document ${documentId}`);
+    await saveQueue.flush();
+    return info;
+  }
+
+  // The document editor opened a document
+  beginRevisionSession(documentId: string): void {
+    const document = this.data?.documents.find(d => d.id === documentId);
+    if (!document || this.revisionSessions.has(documentId)) return;
+    this.revisionSessions.set(documentId, {
+      startContent: document.content || '',
+      startedAt: new Date().toISOString(),
+      lastCheckAt: Date.now(),
+    });
+  }
+
+  // The document was closed or the page is going away: keep what was written in this session
+  async endRevisionSession(documentId: string): Promise<void> {
+    const session = this.revisionSessions.get(documentId);
+    if (!session) return;
+    this.revisionSessions.delete(documentId);
+
+    const document = this.data?.documents.find(d => d.id === documentId);
+    if (!document || (document.content || '') === session.startContent) return;
+    try {
+      await this.captureRevision(documentId, 'session', undefined, session);
+    } catch (error) {
+      console.error('❌ Failed to capture revision:', error);
+    }
+  }
+
+  // Don't wait for the session to end when a lot was written since the last revision
+  private async captureLargeChanges(documentIds: string[]): Promise<void> {
+    for (const documentId of documentIds) {
+      const session = this.revisionSessions.get(documentId);
+      if (!session || Date.now() - session.lastCheckAt < REVISION_CHECK_INTERVAL) continue;
+      session.lastCheckAt = Date.now();
+
+      try {
+        const document = this.data?.documents.find(d => d.id === documentId);
+        const log = await this.loadRevisionLog(documentId);
+        const base = getLatestRevisionContent(log) ?? session.startContent;
+        if (document && countChangedWords(base, document.content || '') >= REVISION_CHANGE_THRESHOLD) {
+          await this.captureRevision(documentId, 'size', undefined, session);
+        }
+      } catch (error) {
+        console.error('❌ Failed to capture revision:', error);
+      }
+    }
+  }
+
+  // Put a document's content back the way it was in a revision. The current content is captured as a
+  // revision first, so this can be reversed.
+  async restoreRevision(documentId: string, revisionId: string): Promise<void> {
+    if (this.readOnly) return;
+    const content = await this.loadRevisionContent(documentId, revisionId);
+    await this.captureRevision(documentId, 'restore');
+    console.log(`⏪ Restoring revision ${revisionId} of document ${documentId}`);
+    await this.updateDocument(documentId, { content });
+  }
+
+  onRevisionsChange(listener: (documentId: string) => void): () => void {
+    this.revisionListeners.push(listener);
+    return () => {
+      this.revisionListeners = this.revisionListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Snapshot the project at most once an hour while it is being edited
+  private async takeAutoSnapshot(): Promise<void> {
+    if (this.isAutoSnapshotting || !this.backend || !this.projectId || this.readOnly) return;
+    this.isAutoSnapshotting = true;
+    try {
+      if (this.lastSnapshotAt === null) {
+        const [latest] = await this.getSnapshots();
+        this.lastSnapshotAt = latest ? new Date(latest.createdAt).getTime() : 0;
+      }
+      if (Date.now() - this.lastSnapshotAt < AUTO_SNAPSHOT_INTERVAL) return;
+
+      await this.createSnapshot('Automatic snapshot', 'auto');
+      const automatic = (await this.getSnapshots()).filter(snapshot => snapshot.trigger === 'auto');
+      for (const old of automatic.slice(MAX_AUTO_SNAPSHOTS)) {
+        await this.backend.deleteSnapshot(this.projectId, old.id);
+      }
+    } catch (error) {
+      console.error('❌ Failed to take automatic snapshot:', error);
+    } finally {
+      this.isAutoSnapshotting = false;
+    }
+  }
+
   // CHARACTERS
   async getCharacters(): Promise<Character[]> {
     return this.getData().characters;
@@ -616,6 +1712,7 @@ class StorageService {
   }
 
   async addCharacter(character: Omit<Character, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
     const now = new Date().toISOString();
     
     // Generate unique pastel color if not provided
@@ -635,24 +1732,43 @@ class StorageService {
       updatedAt: now,
     };
     this.getData().characters.push(newCharacter);
+    this.recordChange('characters', null, newCharacter);
     this.needsProjectSave = true;
     await this.saveData();
     return newCharacter.id!;
   }
 
   async updateCharacter(id: string, updates: Partial<Character>): Promise<void> {
+    this.assertWritable();
     const char = this.getData().characters.find(c => c.id === id);
     if (char) {
+      const before = this.snapshot(char);
       Object.assign(char, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('characters', before, char, updates);
       this.needsProjectSave = true;
       await this.saveData();
     }
   }
 
-  async deleteCharacter(id: string): Promise<void> {
-    this.getData().characters = this.getData().characters.filter(c => c.id !== id);
-    this.needsProjectSave = true;
-    await this.saveData();
+  // Records pointing at the character are detached unless resolution says otherwise
+  async deleteCharacter(id: string, resolution: ReferenceResolution = { action: 'detach' }): Promise<void> {
+    this.assertWritable();
+    const index = this.getData().characters.findIndex(c => c.id === id);
+    if (index === -1) return;
+    const cName = getEntityName(this.getData().characters[index]);
+
+    await this.groupChanges(`Deleted character '${cName}'`, async () => {
+      const detached = await this.resolveReferences('characters', id, resolution);
+      // Resolving references can move records around, so look the character up again
+      const position = this.getData().characters.findIndex(c => c.id === id);
+      if (position !== -1) {
+        this.recordChange('characters', this.getData().characters[position], null, { index: position });
+        this.moveToTrash('characters', this.getData().characters[position], detached);
+      }
+      this.getData().characters = this.getData().characters.filter(c => c.id !== id);
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
   }
 
   // LOCATIONS
@@ -665,6 +1781,7 @@ class StorageService {
   }
 
   async addLocation(location: Omit<Location, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
     const now = new Date().toISOString();
     
     // Generate unique pastel color if not provided
@@ -684,24 +1801,43 @@ class StorageService {
       updatedAt: now,
     };
     this.getData().locations.push(newLocation);
+    this.recordChange('locations', null, newLocation);
     this.needsProjectSave = true;
     await this.saveData();
     return newLocation.id!;
   }
 
   async updateLocation(id: string, updates: Partial<Location>): Promise<void> {
+    this.assertWritable();
     const loc = this.getData().locations.find(l => l.id === id);
     if (loc) {
+      const before = this.snapshot(loc);
       Object.assign(loc, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('locations', before, loc, updates);
       this.needsProjectSave = true;
       await this.saveData();
     }
   }
 
-  async deleteLocation(id: string): Promise<void> {
-    this.getData().locations = this.getData().locations.filter(l => l.id !== id);
-    this.needsProjectSave = true;
-    await this.saveData();
+  // Records pointing at the location are detached unless resolution says otherwise
+  async deleteLocation(id: string, resolution: ReferenceResolution = { action: 'detach' }): Promise<void> {
+    this.assertWritable();
+    const index = this.getData().locations.findIndex(l => l.id === id);
+    if (index === -1) return;
+    const lName = getEntityName(this.getData().locations[index]);
+
+    await this.groupChanges(`Deleted location '${lName}'`, async () => {
+      const detached = await this.resolveReferences('locations', id, resolution);
+      // Resolving references can move records around, so look the location up again
+      const position = this.getData().locations.findIndex(l => l.id === id);
+      if (position !== -1) {
+        this.recordChange('locations', this.getData().locations[position], null, { index: position });
+        this.moveToTrash('locations', this.getData().locations[position], detached);
+      }
+      this.getData().locations = this.getData().locations.filter(l => l.id !== id);
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
   }
 
   // PLOT POINTS
@@ -714,6 +1850,7 @@ class StorageService {
   }
 
   async addPlotPoint(plotPoint: Omit<PlotPoint, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
     const now = new Date().toISOString();
     const newPlotPoint: PlotPoint = {
       ...plotPoint,
@@ -722,24 +1859,43 @@ class StorageService {
       updatedAt: now,
     };
     this.getData().plotPoints.push(newPlotPoint);
+    this.recordChange('plotPoints', null, newPlotPoint);
     this.needsProjectSave = true;
     await this.saveData();
     return newPlotPoint.id!;
   }
 
   async updatePlotPoint(id: string, updates: Partial<PlotPoint>): Promise<void> {
+    this.assertWritable();
     const pp = this.getData().plotPoints.find(p => p.id === id);
     if (pp) {
+      const before = this.snapshot(pp);
       Object.assign(pp, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('plotPoints', before, pp, updates);
       this.needsProjectSave = true;
       await this.saveData();
     }
   }
 
-  async deletePlotPoint(id: string): Promise<void> {
-    this.getData().plotPoints = this.getData().plotPoints.filter(p => p.id !== id);
-    this.needsProjectSave = true;
-    await this.saveData();
+  // Records pointing at the plot point are detached unless resolution says otherwise
+  async deletePlotPoint(id: string, resolution: ReferenceResolution = { action: 'detach' }): Promise<void> {
+    this.assertWritable();
+    const index = this.getData().plotPoints.findIndex(p => p.id === id);
+    if (index === -1) return;
+    const pName = getEntityName(this.getData().plotPoints[index]);
+
+    await this.groupChanges(`Deleted plot point '${pName}'`, async () => {
+      const detached = await this.resolveReferences('plotPoints', id, resolution);
+      // Resolving references can move records around, so look the plot point up again
+      const position = this.getData().plotPoints.findIndex(p => p.id === id);
+      if (position !== -1) {
+        this.recordChange('plotPoints', this.getData().plotPoints[position], null, { index: position });
+        this.moveToTrash('plotPoints', this.getData().plotPoints[position], detached);
+      }
+      this.getData().plotPoints = this.getData().plotPoints.filter(p => p.id !== id);
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
   }
 
   // CHAPTERS
@@ -752,6 +1908,7 @@ class StorageService {
   }
 
   async addChapter(chapter: Omit<Chapter, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
     const now = new Date().toISOString();
     const newChapter: Chapter = {
       ...chapter,
@@ -760,24 +1917,43 @@ class StorageService {
       updatedAt: now,
     };
     this.getData().chapters.push(newChapter);
+    this.recordChange('chapters', null, newChapter);
     this.needsProjectSave = true;
     await this.saveData();
     return newChapter.id!;
   }
 
   async updateChapter(id: string, updates: Partial<Chapter>): Promise<void> {
+    this.assertWritable();
     const ch = this.getData().chapters.find(c => c.id === id);
     if (ch) {
+      const before = this.snapshot(ch);
       Object.assign(ch, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('chapters', before, ch, updates);
       this.needsProjectSave = true;
       await this.saveData();
     }
   }
 
-  async deleteChapter(id: string): Promise<void> {
-    this.getData().chapters = this.getData().chapters.filter(c => c.id !== id);
-    this.needsProjectSave = true;
-    await this.saveData();
+  // Records pointing at the chapter are detached unless resolution says otherwise
+  async deleteChapter(id: string, resolution: ReferenceResolution = { action: 'detach' }): Promise<void> {
+    this.assertWritable();
+    const index = this.getData().chapters.findIndex(c => c.id === id);
+    if (index === -1) return;
+    const cName = getEntityName(this.getData().chapters[index]);
+
+    await this.groupChanges(`Deleted chapter '${cName}'`, async () => {
+      const detached = await this.resolveReferences('chapters', id, resolution);
+      // Resolving references can move records around, so look the chapter up again
+      const position = this.getData().chapters.findIndex(c => c.id === id);
+      if (position !== -1) {
+        this.recordChange('chapters', this.getData().chapters[position], null, { index: position });
+        this.moveToTrash('chapters', this.getData().chapters[position], detached);
+      }
+      this.getData().chapters = this.getData().chapters.filter(c => c.id !== id);
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
   }
 
   // DOCUMENTS
@@ -790,6 +1966,7 @@ class StorageService {
   }
 
   async addDocument(document: Omit<Document, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
     const now = new Date().toISOString();
     const newDocument: Document = {
       ...document,
@@ -799,6 +1976,7 @@ class StorageService {
     };
     console.log('📄 Adding new document:', { title: document.title });
     this.getData().documents.push(newDocument);
+    this.recordChange('documents', null, newDocument);
     // Mark as changed - will be saved by debounced save
     if (newDocument.id) {
       this.changedDocumentIds.add(newDocument.id);
@@ -811,9 +1989,12 @@ class StorageService {
 
 
   async updateDocument(id: string, updates: Partial<Document>): Promise<void> {
+    this.assertWritable();
     const doc = this.getData().documents.find(d => d.id === id);
     if (doc) {
+      const before = this.snapshot(doc);
       Object.assign(doc, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('documents', before, doc, updates);
       // Mark this document as changed - will be saved by debounced save
       if (id) {
         this.changedDocumentIds.add(id);
@@ -824,24 +2005,99 @@ class StorageService {
     }
   }
 
+  // Save a document's comment threads. Unlike updateDocument this is allowed for commenters, who may
+  // also save the content with comment anchors added or removed (see withoutCommentAnchors) but
+  // nothing else changed.
+  async updateDocumentComments(id: string, comments: CommentThread[], content?: string): Promise<void> {
+    if (!this.canComment()) {
+      throw new ReadOnlyProjectError();
+    }
+    const doc = this.getData().documents.find(d => d.id === id);
+    if (!doc) {
+      console.error('❌ Document not found for comment update:', id);
+      return;
+    }
+    const updates: Partial<Document> = content === undefined ? { comments } : { comments, content };
+    if (this.readOnly && content !== undefined && withoutCommentAnchors(content) !== withoutCommentAnchors(doc.content || '')) {
+      throw new ReadOnlyProjectError();
+    }
+
+    const before = this.snapshot(doc);
+    Object.assign(doc, updates, { updatedAt: new Date().toISOString() });
+    this.recordUpdate('documents', before, doc, updates);
+    if (!this.readOnly) {
+      this.changedDocumentIds.add(id);
+      await this.saveData();
+      return;
+    }
+
+    // Commenters only write the document; the rest of the project is left as it is in storage
+    this.notifyListeners();
+    if (this.backend && this.projectId) {
+      await saveQueue.enqueueDocument(this.projectId, doc);
+      await saveQueue.flush();
+    }
+  }
+
+  // Replace search matches in the project's documents as one undo step. `selected` limits it to some
+  // matches of some documents, by index (see documentSearch.ts); leave it out to replace every match.
+  // Resolves to the number of matches replaced.
+  async replaceInDocuments(options: SearchOptions, replacement: string, selected?: Record<string, number[]>): Promise<number> {
+    this.assertWritable();
+    const updates = this.getData().documents
+      .filter(doc => doc.id && (!selected || selected[doc.id]?.length))
+      .map(doc => ({ id: doc.id!, ...replaceInHtml(doc.content || '', options, replacement, selected?.[doc.id!]) }))
+      .filter(update => update.count > 0);
+    const total = updates.reduce((sum, update) => sum + update.count, 0);
+    if (total === 0) return 0;
+
+    console.log(`🔁 Replacing ${total} match(es) of "${options.query}" in ${updates.length} document(s)`);
+    await this.groupChanges(`Replaced ${total} occurrence${total === 1 ? '' : 's'} of '${options.query}'`, async () => {
+      for (const update of updates) {
+        await this.updateDocument(update.id, { content: update.content });
+      }
+    });
+    return total;
+  }
+
   async deleteDocument(id: string): Promise<void> {
+    this.assertWritable();
     console.log('🗑️ Deleting document:', { id });
-    this.getData().documents = this.getData().documents.filter(d => d.id !== id);
-    this.needsProjectSave = true; // Document deleted, need to update project metadata
-    await this.saveData();
-    
-    // Also delete the document file from Google Drive
+    const index = this.getData().documents.findIndex(d => d.id === id);
+    if (index === -1) return;
+    const document = this.getData().documents[index];
+
+    await this.groupChanges(`Deleted document '${getEntityName(document)}'`, async () => {
+      this.recordChange('documents', document, null, { index });
+      this.moveToTrash('documents', document);
+      this.getData().documents = this.getData().documents.filter(d => d.id !== id);
+      this.needsProjectSave = true; // Document deleted, need to update project metadata
+      await this.saveData();
+    });
+    await this.queueDocumentTrash(id);
+  }
+
+  // Set the document file aside in the backend's trash (queued, so it survives going offline)
+  private async queueDocumentTrash(id: string): Promise<void> {
     try {
-      const folderId = localStorage.getItem('current_project_folder_id');
-      const isAuthenticated = localStorage.getItem('google_authenticated') === 'true';
-      
-      if (folderId && isAuthenticated && folderId !== 'placeholder') {
-        const { googleDriveService } = await import('./googleDriveService');
-        await googleDriveService.deleteDocumentFromFolder(folderId, id);
-        console.log('✅ Deleted document from Google Drive');
+      if (this.backend && this.projectId && !this.readOnly) {
+        await saveQueue.enqueueDocumentTrash(this.projectId, id);
+        await saveQueue.flush();
       }
     } catch (error) {
-      console.error('❌ Failed to delete document from Google Drive:', error);
+      console.error('❌ Failed to move document to the trash in storage backend:', error);
+    }
+  }
+
+  // Delete the document file from the storage backend (queued, so it survives going offline)
+  private async queueDocumentDelete(id: string): Promise<void> {
+    try {
+      if (this.backend && this.projectId) {
+        await saveQueue.enqueueDocumentDelete(this.projectId, id);
+        await saveQueue.flush();
+      }
+    } catch (error) {
+      console.error('❌ Failed to delete document from storage backend:', error);
     }
   }
 
@@ -855,29 +2111,47 @@ class StorageService {
   }
 
   async addMap(map: Omit<MapData, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
     const now = new Date().toISOString();
     const newMap: MapData = {
       ...map,
+      elements: map.elements || [],
       id: this.generateId(),
       createdAt: now,
       updatedAt: now,
     };
     this.getData().maps.push(newMap);
+    this.recordChange('maps', null, newMap);
+    this.needsProjectSave = true;
     await this.saveData();
     return newMap.id!;
   }
 
   async updateMap(id: string, updates: Partial<MapData>): Promise<void> {
+    this.assertWritable();
     const map = this.getData().maps.find(m => m.id === id);
     if (map) {
+      const before = this.snapshot(map);
       Object.assign(map, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('maps', before, map, updates);
+      this.needsProjectSave = true;
       await this.saveData();
     }
   }
 
   async deleteMap(id: string): Promise<void> {
-    this.getData().maps = this.getData().maps.filter(m => m.id !== id);
-    await this.saveData();
+    this.assertWritable();
+    const index = this.getData().maps.findIndex(m => m.id === id);
+    if (index === -1) return;
+    const map = this.getData().maps[index];
+
+    await this.groupChanges(`Deleted map '${getEntityName(map)}'`, async () => {
+      this.recordChange('maps', map, null, { index });
+      this.moveToTrash('maps', map);
+      this.getData().maps = this.getData().maps.filter(m => m.id !== id);
+      this.needsProjectSave = true;
+      await this.saveData();
+    });
   }
 
   // MAP ELEMENTS
@@ -885,17 +2159,159 @@ class StorageService {
     return this.getData().mapElements;
   }
 
+  async addMapElement(mapId: string, element: Omit<MapElement, 'id' | 'createdAt' | 'updatedAt'>): Promise<string | undefined> {
+    this.assertWritable();
+    const map = this.getData().maps.find(m => m.id === mapId);
+    if (!map) {
+      console.error('❌ Map not found for new element:', mapId);
+      return undefined;
+    }
+    const now = new Date().toISOString();
+    const newElement: MapElement = {
+      ...element,
+      id: this.generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    const before = this.snapshot(map);
+    map.elements = [...(map.elements || []), newElement];
+    map.updatedAt = now;
+    this.recordChange('maps', before, map, { label: `Added map element '${getEntityName(newElement)}'` });
+    this.needsProjectSave = true;
+    await this.saveData();
+    return newElement.id!;
+  }
+
+  async updateMapElement(mapId: string, elementId: string, updates: Partial<MapElement>): Promise<void> {
+    this.assertWritable();
+    const map = this.getData().maps.find(m => m.id === mapId);
+    const element = map?.elements.find(e => e.id === elementId);
+    if (map && element) {
+      const now = new Date().toISOString();
+      const before = this.snapshot(map);
+      Object.assign(element, updates, { updatedAt: now });
+      map.updatedAt = now;
+      this.recordChange('maps', before, map, {
+        label: `Edited map element '${getEntityName(element)}'`,
+        coalesceKey: `maps:${mapId}:${elementId}:${Object.keys(updates).sort().join(',')}`,
+      });
+      this.needsProjectSave = true;
+      await this.saveData();
+    }
+  }
+
+  async deleteMapElement(mapId: string, elementId: string): Promise<void> {
+    this.assertWritable();
+    const map = this.getData().maps.find(m => m.id === mapId);
+    const element = map?.elements.find(e => e.id === elementId);
+    if (map && element) {
+      const before = this.snapshot(map);
+      map.elements = map.elements.filter(e => e.id !== elementId);
+      map.updatedAt = new Date().toISOString();
+      this.recordChange('maps', before, map, { label: `Deleted map element '${getEntityName(element)}'` });
+      this.needsProjectSave = true;
+      await this.saveData();
+    }
+  }
+
   // STORYBOARD ELEMENTS
   async getStoryboardElements(): Promise<StoryboardElement[]> {
     return this.getData().storyboardElements;
   }
 
+  async getStoryboardElement(id: string): Promise<StoryboardElement | undefined> {
+    return this.getData().storyboardElements.find(e => e.id === id);
+  }
+
+  async addStoryboardElement(element: Omit<StoryboardElement, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    this.assertWritable();
+    const now = new Date().toISOString();
+    const newElement: StoryboardElement = {
+      ...element,
+      id: this.generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.getData().storyboardElements.push(newElement);
+    this.recordChange('storyboardElements', null, newElement);
+    this.needsProjectSave = true;
+    await this.saveData();
+    return newElement.id!;
+  }
+
+  async updateStoryboardElement(id: string, updates: Partial<StoryboardElement>): Promise<void> {
+    this.assertWritable();
+    const element = this.getData().storyboardElements.find(e => e.id === id);
+    if (element) {
+      const before = this.snapshot(element);
+      Object.assign(element, updates, { updatedAt: new Date().toISOString() });
+      this.recordUpdate('storyboardElements', before, element, updates);
+      this.needsProjectSave = true;
+      await this.saveData();
+    }
+  }
+
+  async deleteStoryboardElement(id: string): Promise<void> {
+    this.assertWritable();
+    const data = this.getData();
+    const index = data.storyboardElements.findIndex(e => e.id === id);
+    if (index === -1) return;
+    const removed = data.storyboardElements[index];
+    const changes = [this.entityChange('storyboardElements', removed, null, index)];
+    data.storyboardElements = data.storyboardElements.filter(e => e.id !== id);
+    // Drop connections pointing at the removed element
+    data.storyboardElements.forEach(e => {
+      if (e.connections.includes(id)) {
+        const before = this.snapshot(e);
+        e.connections = e.connections.filter(c => c !== id);
+        changes.push(this.entityChange('storyboardElements', before, e));
+      }
+    });
+    this.history.record(`Deleted storyboard element '${getEntityName(removed)}'`, changes);
+    changes.forEach(change => this.queueEntityEvent('storyboardElements', change.id, change.before, change.after));
+    this.needsProjectSave = true;
+    await this.saveData();
+  }
+
+  // Connect two elements in both directions (no-op if already connected)
+  async connectStoryboardElements(fromId: string, toId: string): Promise<void> {
+    this.assertWritable();
+    if (fromId === toId) return;
+    const elements = this.getData().storyboardElements;
+    const from = elements.find(e => e.id === fromId);
+    const to = elements.find(e => e.id === toId);
+    if (!from || !to) return;
+
+    if (from.connections.includes(toId) && to.connections.includes(fromId)) return;
+
+    const now = new Date().toISOString();
+    const fromBefore = this.snapshot(from);
+    const toBefore = this.snapshot(to);
+    if (!from.connections.includes(toId)) {
+      from.connections = [...from.connections, toId];
+      from.updatedAt = now;
+    }
+    if (!to.connections.includes(fromId)) {
+      to.connections = [...to.connections, fromId];
+      to.updatedAt = now;
+    }
+    this.history.record(`Connected '${getEntityName(from)}' to '${getEntityName(to)}'`, [
+      this.entityChange('storyboardElements', fromBefore, from),
+      this.entityChange('storyboardElements', toBefore, to),
+    ]);
+    this.queueEntityEvent('storyboardElements', from.id, fromBefore, from);
+    this.queueEntityEvent('storyboardElements', to.id, toBefore, to);
+    this.needsProjectSave = true;
+    await this.saveData();
+  }
+
   // SETTINGS
   getSettings(): Settings {
     return this.getData().settings;
   }
 
   async updateSettings(settings: Partial<Settings>): Promise<void> {
+    this.assertWritable();
     const currentSettings = this.getData().settings;
     Object.assign(currentSettings, settings);
     
@@ -905,6 +2321,7 @@ class StorageService {
     console.log('💾 Updating settings in storage:', settings);
     console.log('💾 Full settings object:', this.getData().settings);
     
+    this.queueChangeEvent({ kind: 'settings', op: 'update', changedFields: Object.keys(settings) });
     this.needsProjectSave = true;
     await this.saveData();
     
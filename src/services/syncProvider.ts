@@ -0,0 +1,179 @@
+// Sync providers carry a project's shared document and presence between collaborators
+// Any transport works as long as it implements SyncProvider. WebSocketSyncProvider talks to a relay
+// that forwards messages between the clients of a room, such as scripts/collab-relay.mjs.
+
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+
+export type SyncStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface SyncProvider {
+  // Start exchanging the document's updates and presence with everyone in the room
+  connect(room: string, doc: Y.Doc, awareness: awarenessProtocol.Awareness): void;
+  disconnect(): void;
+  getStatus(): SyncStatus;
+  // Returns an unsubscribe function
+  onStatusChange(listener: (status: SyncStatus) => void): () => void;
+}
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const RECONNECT_DELAY = 2000;
+
+export class WebSocketSyncProvider implements SyncProvider {
+  private socket: WebSocket | null = null;
+  private room: string | null = null;
+  private doc: Y.Doc | null = null;
+  private awareness: awarenessProtocol.Awareness | null = null;
+  private status: SyncStatus = 'disconnected';
+  private statusListeners: Array<(status: SyncStatus) => void> = [];
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private url: string) {}
+
+  connect(room: string, doc: Y.Doc, awareness: awarenessProtocol.Awareness): void {
+    this.disconnect();
+    this.room = room;
+    this.doc = doc;
+    this.awareness = awareness;
+    doc.on('update', this.handleDocUpdate);
+    awareness.on('update', this.handleAwarenessUpdate);
+    this.open();
+  }
+
+  disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.doc && this.awareness) {
+      // Let collaborators know right away instead of waiting for our presence to time out
+      awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], 'disconnect');
+      this.doc.off('update', this.handleDocUpdate);
+      this.awareness.off('update', this.handleAwarenessUpdate);
+    }
+    const socket = this.socket;
+    this.socket = null;
+    this.room = null;
+    this.doc = null;
+    this.awareness = null;
+    socket?.close();
+    this.setStatus('disconnected');
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(l => l !== listener);
+    };
+  }
+
+  private open(): void {
+    const room = this.room;
+    if (!room) return;
+
+    this.setStatus('connecting');
+    const socket = new WebSocket(`${this.url.replace(/\/$/, '')}/${encodeURIComponent(room)}`);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket || !this.doc || !this.awareness) return;
+      this.setStatus('connected');
+      this.sendSyncStep1();
+      // The relay keeps no state, so send what we have too instead of waiting to be asked
+      this.sendSync(encoder => syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(this.doc!)));
+      this.sendAwareness([this.doc.clientID]);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (this.socket !== socket) return;
+      this.handleMessage(new Uint8Array(event.data as ArrayBuffer));
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setStatus('connecting');
+      console.warn('⚠️ Lost connection to the collaboration server, retrying...');
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.open();
+      }, RECONNECT_DELAY);
+    };
+  }
+
+  private handleMessage(message: Uint8Array): void {
+    const doc = this.doc;
+    const awareness = this.awareness;
+    if (!doc || !awareness) return;
+
+    const decoder = decoding.createDecoder(message);
+    const type = decoding.readVarUint(decoder);
+    if (type === MESSAGE_SYNC) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      const syncType = syncProtocol.readSyncMessage(decoder, encoder, doc, this);
+      if (encoding.length(encoder) > 1) {
+        this.send(encoding.toUint8Array(encoder));
+      }
+      if (syncType === syncProtocol.messageYjsSyncStep1) {
+        // Someone joined: tell them who's here
+        this.sendAwareness(Array.from(awareness.getStates().keys()));
+      }
+    } else if (type === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), this);
+    }
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: any): void => {
+    if (origin === this) return;
+    this.sendSync(encoder => syncProtocol.writeUpdate(encoder, update));
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: any
+  ): void => {
+    if (origin === this) return;
+    this.sendAwareness([...added, ...updated, ...removed]);
+  };
+
+  private sendSyncStep1(): void {
+    this.sendSync(encoder => syncProtocol.writeSyncStep1(encoder, this.doc!));
+  }
+
+  private sendSync(write: (encoder: encoding.Encoder) => void): void {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    write(encoder);
+    this.send(encoding.toUint8Array(encoder));
+  }
+
+  private sendAwareness(clients: number[]): void {
+    if (!this.awareness || clients.length === 0) return;
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, clients));
+    this.send(encoding.toUint8Array(encoder));
+  }
+
+  private send(message: Uint8Array): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  private setStatus(status: SyncStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
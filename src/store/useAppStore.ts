@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { AppState, WindowState, StoryboardCanvas, DocumentState, DatabaseViewState, SnapZone, SnapPreview, WindowSnapConfig } from '../types';
-import { storageService, Document } from '../services/storageService';
+import { storageService, Document, Settings } from '../services/storageService';
 
 interface AppStore extends AppState {
   // Settings
@@ -112,6 +112,15 @@ const initialSnapPreview: SnapPreview = {
   visible: false,
 };
 
+// Save view preferences with the project. Read-only projects can't be saved, so there they only
+// last for this session.
+const saveSettings = (settings: Partial<Settings>): void => {
+  if (storageService.isReadOnly()) return;
+  storageService.updateSettings(settings).catch(error => {
+    console.error('❌ Error saving settings:', error);
+  });
+};
+
 export const useAppStore = create<AppStore>()(
   devtools(
     (set, get) => ({
@@ -134,29 +143,29 @@ export const useAppStore = create<AppStore>()(
       // Settings
       setCharacterRecognitionEnabled: (enabled) => {
         set({ characterRecognitionEnabled: enabled });
-        storageService.updateSettings({ characterRecognitionEnabled: enabled });
+        saveSettings({ characterRecognitionEnabled: enabled });
       },
       toggleCharacterRecognition: () => {
         const newValue = !get().characterRecognitionEnabled;
         set({ characterRecognitionEnabled: newValue });
-        storageService.updateSettings({ characterRecognitionEnabled: newValue });
+        saveSettings({ characterRecognitionEnabled: newValue });
       },
       setCharacterNameCapitalization: (mode) => {
         set({ characterNameCapitalization: mode });
-        storageService.updateSettings({ characterNameCapitalization: mode });
+        saveSettings({ characterNameCapitalization: mode });
       },
       setLocationRecognitionEnabled: (enabled) => {
         set({ locationRecognitionEnabled: enabled });
-        storageService.updateSettings({ locationRecognitionEnabled: enabled });
+        saveSettings({ locationRecognitionEnabled: enabled });
       },
       toggleLocationRecognition: () => {
         const newValue = !get().locationRecognitionEnabled;
         set({ locationRecognitionEnabled: newValue });
-        storageService.updateSettings({ locationRecognitionEnabled: newValue });
+        saveSettings({ locationRecognitionEnabled: newValue });
       },
       setLocationNameCapitalization: (mode) => {
         set({ locationNameCapitalization: mode });
-        storageService.updateSettings({ locationNameCapitalization: mode });
+        saveSettings({ locationNameCapitalization: mode });
       },
       setTooltipFields: (fields) => {
         // Merge the new fields with existing ones BEFORE updating state
@@ -167,12 +176,7 @@ export const useAppStore = create<AppStore>()(
         
         // Update state and storage simultaneously
         set({ tooltipFields: newFields });
-        // Use await to ensure settings are saved before continuing
-        storageService.updateSettings({ tooltipFields: newFields }).then(() => {
-          console.log('✅ Tooltip fields saved successfully');
-        }).catch((error) => {
-          console.error('❌ Error saving tooltip fields:', error);
-        });
+        saveSettings({ tooltipFields: newFields });
       },
 
       // Window management
@@ -421,12 +425,12 @@ export const useAppStore = create<AppStore>()(
       toggleTheme: () => {
         const newTheme = get().theme === 'light' ? 'dark' : 'light';
         set({ theme: newTheme });
-        storageService.updateSettings({ theme: newTheme });
+        saveSettings({ theme: newTheme });
       },
 
       setTheme: (theme) => {
         set({ theme });
-        storageService.updateSettings({ theme });
+        saveSettings({ theme });
       },
 
       // Sidebar
@@ -470,7 +474,7 @@ export const useAppStore = create<AppStore>()(
             
             // Reset recognition toggles to OFF when opening a document
             set({ characterRecognitionEnabled: false, locationRecognitionEnabled: false });
-            storageService.updateSettings({ 
+            saveSettings({ 
               characterRecognitionEnabled: false, 
               locationRecognitionEnabled: false 
             });
@@ -493,7 +497,7 @@ export const useAppStore = create<AppStore>()(
         
         // Reset recognition toggles to OFF when creating a new document
         set({ characterRecognitionEnabled: false, locationRecognitionEnabled: false });
-        storageService.updateSettings({ 
+        saveSettings({ 
           characterRecognitionEnabled: false, 
           locationRecognitionEnabled: false 
         });
@@ -0,0 +1,164 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import {
+  storageService,
+  Character,
+  Location,
+  PlotPoint,
+  Chapter,
+  StoryboardElement,
+  Document,
+  MapData,
+} from '../services/storageService';
+import { ChangeEvent, EntityKind } from '../services/changeEvents';
+
+// The open project's entities, kept in sync with storageService through its change events.
+// Components read them with the selectors below and still edit through storageService.
+
+export interface EntityTable<T> {
+  byId: Record<string, T>;
+  ids: string[]; // In storage order
+}
+
+export interface ProjectEntities {
+  characters: EntityTable<Character>;
+  locations: EntityTable<Location>;
+  plotPoints: EntityTable<PlotPoint>;
+  chapters: EntityTable<Chapter>;
+  storyboardElements: EntityTable<StoryboardElement>;
+  documents: EntityTable<Document>;
+  maps: EntityTable<MapData>;
+}
+
+type ProjectCollection = keyof ProjectEntities;
+
+interface ProjectStore extends ProjectEntities {
+  isLoaded: boolean;
+  // Copy every entity from storageService, e.g. after a project was loaded
+  reload: () => void;
+  // Copy only the entity an event is about
+  applyChange: (event: ChangeEvent) => void;
+}
+
+const COLLECTIONS: ProjectCollection[] = [
+  'characters',
+  'locations',
+  'plotPoints',
+  'chapters',
+  'storyboardElements',
+  'documents',
+  'maps',
+];
+
+const KIND_COLLECTIONS: Partial<Record<EntityKind, ProjectCollection>> = {
+  character: 'characters',
+  location: 'locations',
+  plotPoint: 'plotPoints',
+  chapter: 'chapters',
+  storyboardElement: 'storyboardElements',
+  document: 'documents',
+  map: 'maps',
+};
+
+// Storage edits entities in place, so the store keeps its own copies and replaces
+// them when they change. Unchanged entities keep their identity between updates.
+const copy = <T>(entity: T): T => JSON.parse(JSON.stringify(entity));
+
+const emptyTable = <T>(): EntityTable<T> => ({ byId: {}, ids: [] });
+
+const toTable = <T extends { id?: string }>(items: T[]): EntityTable<T> => {
+  const table = emptyTable<T>();
+  items.forEach(item => {
+    if (!item.id) return;
+    table.byId[item.id] = copy(item);
+    table.ids.push(item.id);
+  });
+  return table;
+};
+
+const emptyEntities = (): ProjectEntities => ({
+  characters: emptyTable(),
+  locations: emptyTable(),
+  plotPoints: emptyTable(),
+  chapters: emptyTable(),
+  storyboardElements: emptyTable(),
+  documents: emptyTable(),
+  maps: emptyTable(),
+});
+
+const loadEntities = (): ProjectEntities => {
+  const data = storageService.getData();
+  const entities = emptyEntities();
+  COLLECTIONS.forEach(collection => {
+    (entities as any)[collection] = toTable((data as any)[collection] || []);
+  });
+  return entities;
+};
+
+export const useProjectStore = create<ProjectStore>()(
+  devtools(
+    (set, get) => ({
+      ...(storageService.isReady() ? loadEntities() : emptyEntities()),
+      isLoaded: storageService.isReady(),
+
+      reload: () => {
+        set({ ...loadEntities(), isLoaded: true });
+      },
+
+      applyChange: (event) => {
+        if (event.kind === 'project') {
+          get().reload();
+          return;
+        }
+        if (event.kind === 'settings') return;
+
+        const collection = KIND_COLLECTIONS[event.kind];
+        if (!collection) return;
+
+        const items: any[] = (storageService.getData() as any)[collection] || [];
+        const table = get()[collection] as EntityTable<any>;
+        const byId = { ...table.byId };
+        const entity = items.find(item => item.id === event.id);
+        if (entity) {
+          byId[event.id] = copy(entity);
+        } else {
+          delete byId[event.id];
+        }
+
+        // Deletes, undos and restores can move entities, so take the order from storage
+        const ids = items.map(item => item.id).filter(id => id && byId[id]);
+        set({ [collection]: { byId, ids } } as Partial<ProjectStore>);
+      },
+    }),
+    {
+      name: 'storyboard-project-store',
+    }
+  )
+);
+
+storageService.onChange(event => useProjectStore.getState().applyChange(event));
+
+// SELECTORS
+// Lists are cached per table, so a selector returns the same array until that collection changes
+const lists = new WeakMap<EntityTable<any>, any[]>();
+
+const toList = <T>(table: EntityTable<T>): T[] => {
+  let list = lists.get(table);
+  if (!list) {
+    list = table.ids.map(id => table.byId[id]);
+    lists.set(table, list);
+  }
+  return list;
+};
+
+export const selectCharacters = (state: ProjectStore) => toList(state.characters);
+export const selectLocations = (state: ProjectStore) => toList(state.locations);
+export const selectPlotPoints = (state: ProjectStore) => toList(state.plotPoints);
+export const selectChapters = (state: ProjectStore) => toList(state.chapters);
+export const selectStoryboardElements = (state: ProjectStore) => toList(state.storyboardElements);
+export const selectDocuments = (state: ProjectStore) => toList(state.documents);
+export const selectMaps = (state: ProjectStore) => toList(state.maps);
+
+export const selectCharacter = (id?: string) => (state: ProjectStore) => (id ? state.characters.byId[id] : undefined);
+export const selectLocation = (id?: string) => (state: ProjectStore) => (id ? state.locations.byId[id] : undefined);
+export const selectMap = (id?: string) => (state: ProjectStore) => (id ? state.maps.byId[id] : undefined);
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as Y from 'yjs';
+import { Awareness } from 'y-protocols/awareness';
+import { ProjectCrdt, RemoteEntityChange, mergeText } from '../services/projectCrdt';
+import { WebSocketSyncProvider } from '../services/syncProvider';
+import { Document } from '../services/storageService';
+import { startRelay, Relay } from '../../scripts/collab-relay.mjs';
+import { createProject } from './fixtures';
+
+const doc = (content: string): Document => ({
+  id: 'doc1',
+  title: 'Chapter 1',
+  content,
+  type: 'story',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+} as Document);
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for sync');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('Project CRDT', () => {
+  it('should merge concurrent edits to the same text', () => {
+    expect(mergeText('<p>Hello world</p>', '<p>Hello brave world</p>', '<p>Hello world!</p>')).toBe(
+      '<p>Hello brave world!</p>'
+    );
+  });
+
+  it('should only report changes made by others', () => {
+    const a = new ProjectCrdt();
+    const b = new ProjectCrdt();
+    a.load(createProject({ documents: [doc('<p>Once</p>')] }));
+    const changes: RemoteEntityChange[] = [];
+    b.onRemoteChange(change => changes.push(change));
+    a.onRemoteChange(() => {
+      throw new Error('Local edits are not remote changes');
+    });
+
+    a.applyLocal('documents', 'doc1', doc('<p>Once upon a time</p>'));
+    // Sharing the same entity again changes nothing
+    a.applyLocal('documents', 'doc1', doc('<p>Once upon a time</p>'));
+
+    Y.applyUpdate(b.doc, Y.encodeStateAsUpdate(a.doc), 'remote');
+    expect(changes.map(change => change.id)).toEqual(['doc1']);
+    expect(changes[0].entity.content).toBe('<p>Once upon a time</p>');
+  });
+});
+
+describe('Collaboration relay', () => {
+  let relay: Relay;
+
+  beforeAll(async () => {
+    relay = await startRelay({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterAll(async () => {
+    await relay.close();
+  });
+
+  it('should merge concurrent edits and share presence between clients', async () => {
+    const url = `ws://127.0.0.1:${relay.port}`;
+    const alice = new ProjectCrdt();
+    const bob = new ProjectCrdt();
+    alice.load(createProject({ documents: [doc('<p>The end</p>')] }));
+    const aliceAwareness = new Awareness(alice.doc);
+    const bobAwareness = new Awareness(bob.doc);
+    aliceAwareness.setLocalState({ user: { id: 'alice', name: 'Alice', color: '#E11D48' } });
+    bobAwareness.setLocalState({ user: { id: 'bob', name: 'Bob', color: '#2563EB' } });
+    const aliceProvider = new WebSocketSyncProvider(url);
+    const bobProvider = new WebSocketSyncProvider(url);
+
+    try {
+      aliceProvider.connect('project-1', alice.doc, aliceAwareness);
+      bobProvider.connect('project-1', bob.doc, bobAwareness);
+      await waitFor(() => bob.getEntity('documents', 'doc1')?.content === '<p>The end</p>');
+      await waitFor(() => aliceAwareness.getStates().size === 2 && bobAwareness.getStates().size === 2);
+
+      // Both type at once, before seeing each other's edit
+      alice.applyLocal('documents', 'doc1', doc('<p>The very end</p>'));
+      bob.applyLocal('documents', 'doc1', doc('<p>The end.</p>'));
+      await waitFor(() => alice.getEntity('documents', 'doc1')?.content === '<p>The very end.</p>');
+      await waitFor(() => bob.getEntity('documents', 'doc1')?.content === '<p>The very end.</p>');
+
+      bobAwareness.setLocalStateField('editing', { kind: 'character', id: 'c1' });
+      await waitFor(() => (aliceAwareness.getStates().get(bob.doc.clientID) as any)?.editing?.id === 'c1');
+    } finally {
+      aliceProvider.disconnect();
+      bobProvider.disconnect();
+      aliceAwareness.destroy();
+      bobAwareness.destroy();
+      alice.destroy();
+      bob.destroy();
+    }
+  });
+});
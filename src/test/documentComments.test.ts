@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { createCommentThread, addReply, setThreadResolved, getCommentAuthors, filterThreads } from '../services/documentComments';
+
+describe('Document comments', () => {
+  it('should add replies and resolve and reopen threads', () => {
+    const thread = createCommentThread('old mill', 'Ann', 'Is this the same mill as in chapter 2?');
+    let threads = addReply([thread], thread.id, 'Ben', 'Yes, I will make it clearer.');
+    expect(threads[0].comments.map(c => c.author)).toEqual(['Ann', 'Ben']);
+
+    threads = setThreadResolved(threads, thread.id, true, 'Ben');
+    expect(threads[0]).toMatchObject({ resolved: true, resolvedBy: 'Ben' });
+    threads = setThreadResolved(threads, thread.id, false, 'Ann');
+    expect(threads[0].resolved).toBe(false);
+    expect(threads[0].resolvedBy).toBeUndefined();
+  });
+
+  it('should filter threads by author and resolved state', () => {
+    const first = createCommentThread('a', 'Ann', 'One');
+    const second = createCommentThread('b', 'Ben', 'Two');
+    const threads = [first, ...setThreadResolved([second], second.id, true, 'Ann')];
+
+    expect(getCommentAuthors(threads)).toEqual(['Ann', 'Ben']);
+    expect(filterThreads(threads, null, false).map(t => t.quote)).toEqual(['a']);
+    expect(filterThreads(threads, 'Ben', true).map(t => t.quote)).toEqual(['b']);
+    expect(filterThreads(threads, 'Ben', false)).toEqual([]);
+  });
+});
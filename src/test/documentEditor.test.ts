@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Editor } from '@tiptap/core';
+import { createDocumentExtensions } from '../components/DocumentEditor/documentExtensions';
+import { findNameMatches, setRecognizedEntities } from '../components/DocumentEditor/EntityRecognitionExtension';
+import { getTrackedChanges } from '../components/DocumentEditor/TrackChangesExtension';
+import { getCommentAnchors } from '../components/DocumentEditor/CommentExtension';
+import { getSearchMatches } from '../components/DocumentEditor/SearchExtension';
+import { createSearchPattern, findInHtml } from '../services/documentSearch';
+
+let editor: Editor | null = null;
+
+const createEditor = (content: string) => {
+  editor = new Editor({ extensions: createDocumentExtensions(), content });
+  return editor;
+};
+
+describe('Document editor', () => {
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it('should highlight names without writing the highlights into the document', () => {
+    const editor = createEditor('<p>Alice met Bob in Rivendell.</p>');
+    setRecognizedEntities(editor, 'characterHighlight', [{ id: 'c1', name: 'Alice', color: '#ff0000' }]);
+    setRecognizedEntities(editor, 'locationHighlight', [{ id: 'l1', name: 'Rivendell' }]);
+
+    const highlight = editor.view.dom.querySelector('.character-highlight');
+    expect(highlight?.textContent).toBe('Alice');
+    expect(highlight?.getAttribute('data-character-id')).toBe('c1');
+    expect(editor.view.dom.querySelector('.location-highlight')?.textContent).toBe('Rivendell');
+    expect(editor.getHTML()).toBe('<p>Alice met Bob in Rivendell.</p>');
+
+    // Highlights follow the text as it changes, and go away when recognition is turned off
+    editor.commands.insertContentAt(1, 'Then ');
+    expect(editor.view.dom.querySelector('.character-highlight')?.textContent).toBe('Alice');
+    setRecognizedEntities(editor, 'characterHighlight', []);
+    expect(editor.view.dom.querySelector('.character-highlight')).toBeNull();
+  });
+
+  it('should clean documents saved by the old editor', () => {
+    const editor = createEditor(
+      '<h1 id="chapter-one">Chapter One</h1>' +
+      '<p><span class="character-highlight" data-character-id="c1" style="color: red;">Alice</span> waited. <font size="5">Big</font></p>' +
+      '<div class="page-break" style="page-break-after: always;"><hr></div>' +
+      '<div>Second page</div>'
+    );
+
+    const html = editor.getHTML();
+    expect(html).not.toContain('character-highlight');
+    expect(html).toContain('<h1 id="chapter-one">Chapter One</h1>');
+    expect(html).toContain('<span style="font-size: x-large;">Big</span>');
+    expect(html).toContain('class="page-break"');
+    expect(html).toContain('<p>Second page</p>');
+  });
+
+  it('should match whole names only, without overlaps', () => {
+    const entities = [{ id: '1', name: 'Ann' }, { id: '2', name: 'Ann Lee' }];
+    const matches = findNameMatches('Anne saw Ann Lee and ann.', entities);
+    expect(matches.map(m => [m.start, m.end, m.entity.id])).toEqual([[9, 12, '1'], [21, 24, '1']]);
+  });
+
+  it('should record edits as suggestions that survive saving', () => {
+    const editor = createEditor('<p>Hello world</p>');
+    editor.commands.setSuggestionMode('Ann');
+
+    editor.commands.insertContentAt(7, 'big ');
+    editor.commands.deleteRange({ from: 1, to: 6 });
+    editor.commands.insertContentAt(1, 'Hi');
+
+    const changes = getTrackedChanges(editor.state.doc);
+    expect(changes.map(c => [c.type, c.text, c.author])).toEqual([
+      ['insertion', 'Hi', 'Ann'],
+      ['deletion', 'Hello', 'Ann'],
+      ['insertion', 'big ', 'Ann'],
+    ]);
+    expect(editor.state.doc.textContent).toBe('HiHello big world');
+
+    // Reloading the saved HTML keeps the changes and their attribution
+    const reloaded = createEditor(editor.getHTML());
+    expect(reloaded.getHTML()).toBe(editor.getHTML());
+    expect(reloaded.getHTML()).toContain('data-author="Ann"');
+    editor.destroy();
+
+    reloaded.commands.rejectChange(changes[2].id);
+    expect(reloaded.state.doc.textContent).toBe('HiHello world');
+    reloaded.commands.acceptAllChanges();
+    expect(reloaded.getHTML()).toBe('<p>Hi world</p>');
+  });
+
+  it('should drop the author\'s own suggestions when they delete them again', () => {
+    const editor = createEditor('<p>Hello</p>');
+    editor.commands.setSuggestionMode('Ann');
+    editor.commands.insertContentAt(6, ' there');
+    editor.commands.deleteRange({ from: 6, to: 12 });
+
+    expect(getTrackedChanges(editor.state.doc)).toEqual([]);
+    expect(editor.getHTML()).toBe('<p>Hello</p>');
+
+    editor.commands.setSuggestionMode(null);
+    editor.commands.insertContentAt(6, '!');
+    expect(editor.getHTML()).toBe('<p>Hello!</p>');
+  });
+
+  it('should keep comment anchors on their text as the document is edited', () => {
+    const editor = createEditor('<p>The old mill stood by the river.</p>');
+    editor.chain().setTextSelection({ from: 5, to: 13 }).setComment('thread-1').run();
+    expect(getCommentAnchors(editor.state.doc)['thread-1'].text).toBe('old mill');
+
+    editor.commands.insertContentAt(1, 'At dawn, ');
+    editor.commands.insertContentAt(editor.state.doc.content.size - 1, ' Nobody came.');
+    expect(getCommentAnchors(editor.state.doc)['thread-1'].text).toBe('old mill');
+
+    const reloaded = createEditor(editor.getHTML());
+    expect(reloaded.getHTML()).toContain('<span class="comment-anchor" data-comment-id="thread-1">old mill</span>');
+    editor.destroy();
+  });
+
+  it('should number search matches like the saved document does', () => {
+    const editor = createEditor('<p>The <strong>mill</strong> and the mill<br>pond</p><ul><li><p>Mill road</p></li></ul>');
+    const pattern = createSearchPattern({ query: 'mill', caseSensitive: false, wholeWord: false, regex: false })!;
+
+    const matches = getSearchMatches(editor.state.doc, pattern);
+    expect(matches.map(({ from, to }) => editor.state.doc.textBetween(from, to))).toEqual(['mill', 'mill', 'Mill']);
+    expect(findInHtml(editor.getHTML(), pattern).map(m => m.text)).toEqual(['mill', 'mill', 'Mill']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEmptyRevisionLog,
+  createRevisionInfo,
+  addRevision,
+  getRevisionContent,
+  listRevisions,
+  createDelta,
+  applyDelta,
+  diffRevisionText,
+} from '../services/documentRevisions';
+
+const versions = [
+  '<p>The mill stood by the river.</p>',
+  '<p>The old mill stood by the river.</p><p>Nobody went there.</p>',
+  '<p>The old mill stood by the dark river.</p>',
+];
+
+describe('Document revisions', () => {
+  it('should store older revisions as deltas and read every version back', () => {
+    let log = createEmptyRevisionLog('doc_1');
+    versions.forEach(content => {
+      log = addRevision(log, createRevisionInfo('session', content), content);
+    });
+
+    expect(log.revisions.map(r => r.content !== undefined)).toEqual([false, false, true]);
+    listRevisions(log).reverse().forEach((info, index) => {
+      expect(getRevisionContent(log, info.id)).toBe(versions[index]);
+    });
+    expect(applyDelta(versions[2], createDelta(versions[2], versions[0]))).toBe(versions[0]);
+  });
+
+  it('should prune the oldest automatic revisions and keep named versions', () => {
+    let log = createEmptyRevisionLog('doc_1');
+    versions.forEach((content, index) => {
+      const info = index === 0 ? createRevisionInfo('manual', content, 'Draft 1') : createRevisionInfo('size', content);
+      log = addRevision(log, info, content, 1);
+    });
+
+    expect(listRevisions(log).map(r => r.name || r.trigger)).toEqual(['size', 'Draft 1']);
+    expect(getRevisionContent(log, log.revisions[0].id)).toBe(versions[0]);
+  });
+
+  it('should diff the text of two versions word by word', () => {
+    const parts = diffRevisionText(versions[0], versions[2]);
+    expect(parts.filter(p => p.added).map(p => p.value.trim())).toEqual(['old', 'dark']);
+    expect(parts.some(p => p.removed)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { searchDocuments, replaceInHtml, createSearchPattern, SearchOptions } from '../services/documentSearch';
+import { Document } from '../services/storageService';
+
+const options = (query: string, overrides: Partial<SearchOptions> = {}): SearchOptions => ({
+  query,
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  ...overrides,
+});
+
+const documents = [
+  { id: 'd1', title: 'Chapter 1', content: '<p>The <strong>mill</strong> stood by the Mill<em>pond</em>.</p>', type: 'story' },
+  { id: 'd2', title: 'Notes', content: '<p>Nothing here.</p>', type: 'notes' },
+] as Document[];
+
+describe('Document search', () => {
+  it('should search only the text, in every mode', () => {
+    const [result] = searchDocuments(documents, options('mill'));
+    expect(result.documentId).toBe('d1');
+    expect(result.matches.map(m => m.text)).toEqual(['mill', 'Mill']);
+    expect(result.matches[0]).toMatchObject({ before: 'The ', after: ' stood by the Millpond.' });
+
+    expect(searchDocuments(documents, options('mill', { caseSensitive: true }))[0].matches).toHaveLength(1);
+    expect(searchDocuments(documents, options('mill', { wholeWord: true }))[0].matches.map(m => m.text)).toEqual(['mill']);
+    expect(searchDocuments(documents, options('m\\w+pond', { regex: true }))[0].matches[0].text).toBe('Millpond');
+    expect(searchDocuments(documents, options('strong'))).toEqual([]);
+    expect(() => createSearchPattern(options('(', { regex: true }))).toThrow(SyntaxError);
+  });
+
+  it('should replace selected matches without touching the markup', () => {
+    const html = documents[0].content;
+    expect(replaceInHtml(html, options('mill'), 'barn', [1])).toEqual({
+      content: '<p>The <strong>mill</strong> stood by the barn<em>pond</em>.</p>',
+      count: 1,
+    });
+    expect(replaceInHtml(html, options('(m)ill(?=p)', { regex: true }), '$1arsh').content)
+      .toBe('<p>The <strong>mill</strong> stood by the Marsh<em>pond</em>.</p>');
+  });
+});
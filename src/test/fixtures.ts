@@ -0,0 +1,19 @@
+import { ProjectData } from '../services/storageService';
+import { CURRENT_PROJECT_VERSION } from '../services/projectMigrations';
+
+// An empty project in the current format, with whatever a test needs put in
+export const createProject = (overrides: Partial<ProjectData> = {}): ProjectData => ({
+  version: CURRENT_PROJECT_VERSION,
+  projectName: 'Test Project',
+  lastModified: '2024-01-01T00:00:00.000Z',
+  characters: [],
+  locations: [],
+  plotPoints: [],
+  chapters: [],
+  storyboardElements: [],
+  documents: [],
+  mapElements: [],
+  maps: [],
+  settings: { theme: 'dark' } as ProjectData['settings'],
+  ...overrides,
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createProjectKeys,
+  withoutOldKeys,
+  sealProjectKeys,
+  openProjectKeys,
+  generateRecoveryKey,
+  encryptJson,
+  decryptJson,
+  encryptBytes,
+  decryptBytes,
+  isEncryptedFile,
+  WrongPassphraseError,
+} from '../services/projectEncryption';
+
+// Few PBKDF2 rounds keep the tests fast
+const ITERATIONS = 1000;
+
+describe('Project encryption', () => {
+  it('should round-trip JSON and bytes without exposing the plaintext', async () => {
+    const keys = await createProjectKeys();
+    const file = await encryptJson(keys, { projectName: 'Secret Novel', documents: [] });
+
+    expect(isEncryptedFile(file)).toBe(true);
+    expect(JSON.stringify(file)).not.toContain('Secret Novel');
+    expect(await decryptJson(keys, file)).toEqual({ projectName: 'Secret Novel', documents: [] });
+
+    const bytes = new Uint8Array([1, 2, 3, 4, 5]);
+    const encrypted = await encryptBytes(keys, bytes);
+    expect(await decryptBytes(keys, encrypted.keyId, encrypted.data)).toEqual(bytes);
+  });
+
+  it('should open the project keys with the passphrase or the recovery key only', async () => {
+    const keys = await createProjectKeys();
+    const recoveryKey = generateRecoveryKey();
+    const keyFile = await sealProjectKeys(keys, 'correct horse', recoveryKey, ITERATIONS);
+    const file = await encryptJson(keys, { title: 'Chapter 1' });
+
+    const withPassphrase = await openProjectKeys(keyFile, { passphrase: 'correct horse' });
+    expect(await decryptJson(withPassphrase, file)).toEqual({ title: 'Chapter 1' });
+
+    // Recovery keys may be typed in lower case and without dashes
+    const typed = recoveryKey.replace(/-/g, '').toLowerCase();
+    const withRecoveryKey = await openProjectKeys(keyFile, { recoveryKey: typed });
+    expect(await decryptJson(withRecoveryKey, file)).toEqual({ title: 'Chapter 1' });
+
+    await expect(openProjectKeys(keyFile, { passphrase: 'wrong horse' })).rejects.toBeInstanceOf(WrongPassphraseError);
+    await expect(openProjectKeys(keyFile, { recoveryKey: generateRecoveryKey() })).rejects.toMatchObject({ usedRecoveryKey: true });
+  });
+
+  it('should keep reading old files until the old keys are dropped', async () => {
+    const oldKeys = await createProjectKeys();
+    const oldFile = await encryptJson(oldKeys, { title: 'Old' });
+
+    const rotated = await createProjectKeys(oldKeys);
+    const newFile = await encryptJson(rotated, { title: 'New' });
+    expect(newFile.keyId).not.toBe(oldFile.keyId);
+
+    const reopened = await openProjectKeys(await sealProjectKeys(rotated, 'new passphrase', generateRecoveryKey(), ITERATIONS), { passphrase: 'new passphrase' });
+    expect(await decryptJson(reopened, oldFile)).toEqual({ title: 'Old' });
+    expect(await decryptJson(reopened, newFile)).toEqual({ title: 'New' });
+
+    const current = withoutOldKeys(rotated);
+    expect(await decryptJson(current, newFile)).toEqual({ title: 'New' });
+    await expect(decryptJson(current, oldFile)).rejects.toThrow('unknown key');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { mergeProjects } from '../services/projectMerge';
+import { ProjectData, Character } from '../services/storageService';
+import { createProject } from './fixtures';
+
+const character = (id: string, overrides: Partial<Character> = {}): Character => ({
+  id,
+  name: `Character ${id}`,
+  description: '',
+  role: 'minor',
+  occupation: '',
+  notes: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+} as Character);
+
+describe('Project Merge', () => {
+  it('should combine edits to different entities and fields', () => {
+    const base = createProject({ characters: [character('1'), character('2')] });
+    const local = createProject({ characters: [character('1', { age: 30, updatedAt: '2024-01-02T00:00:00.000Z' }), character('2')] });
+    const remote = createProject({
+      characters: [
+        character('1', { role: 'protagonist', updatedAt: '2024-01-03T00:00:00.000Z' }),
+        character('2', { notes: 'Remote note' }),
+        character('3'),
+      ],
+    });
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.characters.map(c => c.id)).toEqual(['1', '2', '3']);
+    expect(merged.characters[0]).toMatchObject({ age: 30, role: 'protagonist', updatedAt: '2024-01-03T00:00:00.000Z' });
+    expect(merged.characters[1].notes).toBe('Remote note');
+  });
+
+  it('should report a conflict when both sides change the same field', () => {
+    const base = createProject({ characters: [character('1')] });
+    const local = createProject({ characters: [character('1', { name: 'Mara' })] });
+    const remote = createProject({ characters: [character('1', { name: 'Marion' })] });
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ collection: 'characters', entityId: '1', field: 'name', local: 'Mara', remote: 'Marion' });
+    expect(merged.characters[0].name).toBe('Mara');
+  });
+
+  it('should apply deletions unless the other side edited the entity', () => {
+    const base = createProject({ characters: [character('1'), character('2')] });
+    const local = createProject({ characters: [character('2', { notes: 'Still needed' })] });
+    const remote = createProject({ characters: [character('1')] });
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(merged.characters.map(c => c.id)).toEqual(['2']);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ id: 'characters:2:*', entityId: '2' });
+    expect(conflicts[0].remote).toBeUndefined();
+  });
+
+  it('should merge settings field by field', () => {
+    const base = createProject({ settings: { theme: 'dark', characterRecognitionEnabled: false } as ProjectData['settings'] });
+    const local = createProject({ settings: { theme: 'light', characterRecognitionEnabled: false } as ProjectData['settings'] });
+    const remote = createProject({ settings: { theme: 'dark', characterRecognitionEnabled: true } as ProjectData['settings'] });
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.settings).toMatchObject({ theme: 'light', characterRecognitionEnabled: true });
+  });
+});
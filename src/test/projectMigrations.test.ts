@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { migrateProject, compareVersions, CURRENT_PROJECT_VERSION, NewerProjectVersionError } from '../services/projectMigrations';
+
+describe('Project Migrations', () => {
+  it('should upgrade a 1.0 project with numeric IDs', () => {
+    const legacy = {
+      version: '1.0',
+      projectName: 'Old Project',
+      lastModified: '2024-01-01T00:00:00.000Z',
+      characters: [{ id: 1, name: 'Mara' }],
+      plotPoints: [{ id: 2, title: 'Arrival', chapterId: 3, characterIds: [1], locationIds: [] }],
+      chapters: [{ id: 3, title: 'Chapter 1', plotPointIds: [2] }],
+      storyboardElements: [{ id: 4, type: 'character', elementId: 1, connections: [5] }],
+      documents: [],
+      settings: {},
+    };
+
+    const { data, migrated, fromVersion } = migrateProject(legacy);
+
+    expect(migrated).toBe(true);
+    expect(fromVersion).toBe('1.0');
+    expect(data.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(data.characters[0]).toMatchObject({ id: '1', skills: [], customFields: {} });
+    expect(data.plotPoints[0]).toMatchObject({ chapterId: '3', characterIds: ['1'] });
+    expect(data.chapters[0].plotPointIds).toEqual(['2']);
+    expect(data.storyboardElements[0]).toMatchObject({ id: '4', elementId: '1', connections: ['5'] });
+    expect(data.locations).toEqual([]);
+    expect(data.maps).toEqual([]);
+  });
+
+  it('should leave current projects untouched', () => {
+    const current = { version: CURRENT_PROJECT_VERSION, projectName: 'New Project', characters: [] };
+
+    const { data, migrated } = migrateProject(current);
+
+    expect(migrated).toBe(false);
+    expect(data).toBe(current);
+  });
+
+  it('should refuse projects written by a newer version', () => {
+    expect(() => migrateProject({ version: '99.0', projectName: 'Future Project' })).toThrow(NewerProjectVersionError);
+  });
+
+  it('should compare versions numerically', () => {
+    expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.0', '1')).toBe(0);
+  });
+});
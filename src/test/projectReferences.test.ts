@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findReferences, findDanglingReferences, getReferenceUpdates } from '../services/projectReferences';
+import { ProjectData, Character } from '../services/storageService';
+import { createProject } from './fixtures';
+
+// Mara (c1) is referenced from every kind of record
+const entities = {
+  characters: [{ id: 'c1', name: 'Mara' }, { id: 'c2', name: 'Ash' }],
+  locations: [{ id: 'l1', name: 'Harbour', frequentCharacters: ['c1'], connectedLocations: [] }],
+  plotPoints: [{ id: 'p1', title: 'Arrival', characterIds: ['c1', 'c2'], locationIds: ['l1'], chapterId: 'ch1' }],
+  chapters: [{ id: 'ch1', title: 'One', plotPointIds: ['p1'], povCharacter: 'c1', mainLocation: '' }],
+  storyboardElements: [{ id: 's1', type: 'character', elementId: 'c1', content: '', connections: [] }],
+  maps: [{ id: 'm1', title: 'Town', elements: [{ id: 'e1', name: 'Inn', characterId: 'c1' }] }],
+} as Partial<ProjectData>;
+
+describe('Project References', () => {
+  it('should find every record pointing at an entity', () => {
+    const references = findReferences(createProject(entities), 'characters', 'c1');
+
+    expect(references.map(r => `${r.collection}.${r.field}`).sort()).toEqual([
+      'chapters.povCharacter',
+      'locations.frequentCharacters',
+      'mapElements.characterId',
+      'plotPoints.characterIds',
+      'storyboardElements.elementId',
+    ]);
+    expect(references.find(r => r.collection === 'mapElements')).toMatchObject({ entityId: 'e1', mapId: 'm1', entityName: 'Inn' });
+  });
+
+  it('should find references to entities that no longer exist', () => {
+    const project = createProject({ ...entities, characters: [{ id: 'c2', name: 'Ash' } as Character] });
+
+    const dangling = findDanglingReferences(project);
+
+    expect(dangling).toHaveLength(5);
+    expect(dangling.every(r => r.targetId === 'c1')).toBe(true);
+    expect(findDanglingReferences(createProject(entities))).toEqual([]);
+  });
+
+  it('should detach or reassign a reference', () => {
+    const project = createProject(entities);
+    const [plotPointRef] = findReferences(project, 'characters', 'c1').filter(r => r.collection === 'plotPoints');
+    const [cardRef] = findReferences(project, 'characters', 'c1').filter(r => r.collection === 'storyboardElements');
+
+    expect(getReferenceUpdates(project.plotPoints[0], plotPointRef)).toEqual({ characterIds: ['c2'] });
+    expect(getReferenceUpdates(project.plotPoints[0], plotPointRef, 'c2')).toEqual({ characterIds: ['c2'] });
+    expect(getReferenceUpdates(project.chapters[0], { ...plotPointRef, collection: 'chapters', field: 'povCharacter' })).toEqual({ povCharacter: '' });
+    expect(getReferenceUpdates(project.storyboardElements[0], cardRef, undefined, 'Mara')).toMatchObject({ type: 'note', content: 'Mara' });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createSnapshotInfo, createSnapshotArchive, readSnapshotArchive, diffProjects } from '../services/projectSnapshots';
+import { ProjectData, Character } from '../services/storageService';
+import { createProject } from './fixtures';
+
+const entities = {
+  characters: [{ id: 'c1', name: 'Mara', updatedAt: '2024-01-01' }, { id: 'c2', name: 'Ash' }],
+  documents: [{ id: 'd1', title: 'Chapter 1', content: '<p>Hello</p>', type: 'story' }],
+} as Partial<ProjectData>;
+
+describe('Project Snapshots', () => {
+  it('should pack the project and its documents into an archive and read it back', async () => {
+    const project = createProject(entities);
+    const info = createSnapshotInfo('Draft 1', 'manual', project);
+
+    const archive = await createSnapshotArchive(project, info);
+    const { info: readInfo, data } = await readSnapshotArchive(archive);
+
+    expect(readInfo).toEqual(info);
+    expect(data.characters.map(c => c.name)).toEqual(['Mara', 'Ash']);
+    expect(data.documents).toEqual(project.documents);
+  });
+
+  it('should upgrade snapshots of older project formats', async () => {
+    const project = createProject({ ...entities, version: undefined });
+    const archive = await createSnapshotArchive(project, createSnapshotInfo('Before upgrade', 'migration', project));
+
+    const { data } = await readSnapshotArchive(archive);
+
+    expect(data.version).toBe('1.1');
+  });
+
+  it('should list added, removed and modified entities and documents', () => {
+    const from = createProject(entities);
+    const to = createProject({
+      characters: [{ id: 'c1', name: 'Mara', updatedAt: '2024-02-01' }, { id: 'c3', name: 'Kit' }] as Character[],
+      documents: [{ ...from.documents[0], content: '<p>Hello there</p>' }],
+    });
+
+    const changes = diffProjects(from, to);
+
+    expect(changes.map(c => `${c.kind} ${c.collection} ${c.name}`)).toEqual([
+      'removed characters Ash',
+      'added characters Kit',
+      'modified documents Chapter 1',
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { validateProject, repairProject } from '../services/projectValidation';
+import { Character, Location } from '../services/storageService';
+import { createProject } from './fixtures';
+
+const timestamps = { createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' };
+
+describe('Project Validation', () => {
+  it('should accept a valid project', () => {
+    const project = createProject({
+      characters: [{ id: 'c1', name: 'Mara', role: 'protagonist', ...timestamps }] as Character[],
+    });
+
+    expect(validateProject(project)).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should report the entity, field and expected type', () => {
+    // Invalid on purpose, as a project file can be
+    const project = createProject({
+      characters: [{ id: 'c1', name: 'Mara', role: 'hero', ...timestamps }] as any[],
+      chapters: [{ id: 'ch1', title: 'One', order: '2', ...timestamps }] as any[],
+    });
+
+    const { valid, issues } = validateProject(project);
+
+    expect(valid).toBe(false);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatchObject({
+      path: 'characters[0].role',
+      collection: 'characters',
+      entityId: 'c1',
+      entityName: 'Mara',
+      field: 'role',
+      expected: 'one of protagonist, antagonist, supporting, minor',
+      received: '"hero"',
+    });
+    expect(issues[1]).toMatchObject({ path: 'chapters[0].order', expected: 'a number' });
+  });
+
+  it('should repair invalid fields or drop invalid records', () => {
+    const project = createProject({
+      characters: [
+        { id: 'c1', name: 'Mara', ...timestamps },
+        { id: 'c2', name: 42, ...timestamps },
+        'not a character',
+      ] as any[],
+      chapters: [{ id: 'ch1', title: 'One', order: '2', ...timestamps }] as any[],
+    });
+
+    const repaired = repairProject(project, 'repair');
+    expect(repaired.characters.map(c => c.name)).toEqual(['Mara', '42']);
+    expect(repaired.chapters[0].order).toBe(2);
+    expect(validateProject(repaired).valid).toBe(true);
+
+    const dropped = repairProject(project, 'drop');
+    expect(dropped.characters.map(c => c.id)).toEqual(['c1']);
+    expect(dropped.chapters).toEqual([]);
+  });
+
+  it('should give duplicate IDs a new ID when repairing', () => {
+    const project = createProject({
+      locations: [
+        { id: 'l1', name: 'Harbour', ...timestamps },
+        { id: 'l1', name: 'Market', ...timestamps },
+      ] as Location[],
+    });
+
+    expect(validateProject(project).issues[0]).toMatchObject({ field: 'id', expected: 'a unique ID' });
+
+    const repaired = repairProject(project, 'repair');
+    expect(new Set(repaired.locations.map(l => l.id)).size).toBe(2);
+  });
+});
@@ -0,0 +1,674 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { storageService, ReadOnlyProjectError } from '../services/storageService';
+import { MemoryStorageBackend } from '../services/memoryBackend';
+import { saveQueue, MemoryOutboxStore } from '../services/saveQueue';
+import { SaveConflictError, AuthExpiredError, copyProject } from '../services/storageBackend';
+import { createCommentThread } from '../services/documentComments';
+import { createProject } from './fixtures';
+
+const newElement = (type: 'note' | 'character' = 'note') => ({
+  type,
+  x: 10,
+  y: 20,
+  width: 150,
+  height: 80,
+  content: 'Note',
+  style: {},
+  connections: [],
+});
+
+// Wait for the debounced background save to finish
+const waitForSave = () => new Promise(resolve => setTimeout(resolve, 200));
+
+describe('Storage Service', () => {
+  beforeEach(async () => {
+    saveQueue.setStore(new MemoryOutboxStore());
+    storageService.setBackend(null, null);
+    await storageService.initialize(createProject());
+  });
+
+  describe('Storyboard Elements', () => {
+    it('should add an element with a string ID and timestamps', async () => {
+      const id = await storageService.addStoryboardElement(newElement());
+      const element = await storageService.getStoryboardElement(id);
+
+      expect(typeof id).toBe('string');
+      expect(element?.content).toBe('Note');
+      expect(element?.createdAt).toBeDefined();
+      expect(storageService.getData().storyboardElements).toHaveLength(1);
+    });
+
+    it('should update an element', async () => {
+      const id = await storageService.addStoryboardElement(newElement());
+
+      await storageService.updateStoryboardElement(id, { x: 300, y: 400 });
+
+      const element = await storageService.getStoryboardElement(id);
+      expect(element?.x).toBe(300);
+      expect(element?.y).toBe(400);
+    });
+
+    it('should connect elements in both directions only once', async () => {
+      const a = await storageService.addStoryboardElement(newElement());
+      const b = await storageService.addStoryboardElement(newElement());
+
+      await storageService.connectStoryboardElements(a, b);
+      await storageService.connectStoryboardElements(a, b);
+
+      expect((await storageService.getStoryboardElement(a))?.connections).toEqual([b]);
+      expect((await storageService.getStoryboardElement(b))?.connections).toEqual([a]);
+    });
+
+    it('should remove connections to a deleted element', async () => {
+      const a = await storageService.addStoryboardElement(newElement());
+      const b = await storageService.addStoryboardElement(newElement());
+      await storageService.connectStoryboardElements(a, b);
+
+      await storageService.deleteStoryboardElement(b);
+
+      expect(await storageService.getStoryboardElement(b)).toBeUndefined();
+      expect((await storageService.getStoryboardElement(a))?.connections).toEqual([]);
+    });
+  });
+
+  describe('Map Elements', () => {
+    const newMap = () => ({
+      title: 'Town',
+      description: '',
+      width: 1200,
+      height: 800,
+      backgroundColor: '#f0f8ff',
+      gridSize: 20,
+      showGrid: true,
+      elements: [],
+    });
+
+    const newMapElement = () => ({
+      type: 'building',
+      name: 'Inn',
+      description: '',
+      x: 40,
+      y: 60,
+      width: 80,
+      height: 60,
+      color: '#8B4513',
+      notes: '',
+    });
+
+    it('should add, update and delete elements within a map', async () => {
+      const mapId = await storageService.addMap(newMap());
+
+      const elementId = await storageService.addMapElement(mapId, newMapElement());
+      expect((await storageService.getMap(mapId))?.elements).toHaveLength(1);
+
+      await storageService.updateMapElement(mapId, elementId!, { name: 'Tavern' });
+      expect((await storageService.getMap(mapId))?.elements[0].name).toBe('Tavern');
+
+      await storageService.deleteMapElement(mapId, elementId!);
+      expect((await storageService.getMap(mapId))?.elements).toHaveLength(0);
+    });
+
+    it('should not add an element to a missing map', async () => {
+      const elementId = await storageService.addMapElement('missing', newMapElement());
+
+      expect(elementId).toBeUndefined();
+    });
+  });
+
+  describe('History', () => {
+    it('should undo a delete and redo it', async () => {
+      const a = await storageService.addCharacter({ name: 'Ash', color: '#ABCDEF' } as any);
+      const b = await storageService.addCharacter({ name: 'Mara', color: '#FEDCBA' } as any);
+      await storageService.addCharacter({ name: 'Wren', color: '#123456' } as any);
+
+      await storageService.deleteCharacter(b);
+      const { undo } = storageService.getHistory();
+      expect(undo[undo.length - 1].label).toBe("Deleted character 'Mara'");
+
+      await storageService.undo();
+      expect(storageService.getData().characters.map(c => c.name)).toEqual(['Ash', 'Mara', 'Wren']);
+
+      await storageService.redo();
+      expect(storageService.getData().characters.map(c => c.id)).not.toContain(b);
+      expect(storageService.getData().characters[0].id).toBe(a);
+    });
+
+    it('should merge repeated edits of a field into one step', async () => {
+      const id = await storageService.addLocation({ name: 'Harbour', color: '#ABCDEF' } as any);
+
+      await storageService.updateLocation(id, { name: 'Harbour Town' });
+      await storageService.updateLocation(id, { name: 'Harbour Town East' });
+      expect(storageService.getHistory().undo).toHaveLength(2);
+
+      await storageService.undo();
+      expect((await storageService.getLocation(id))?.name).toBe('Harbour');
+    });
+
+    it('should replace across documents as one undo step', async () => {
+      const a = await storageService.addDocument({ title: 'One', content: '<p>Mara ran.</p>', type: 'story' });
+      const b = await storageService.addDocument({ title: 'Two', content: '<p>Mara and Maralyn.</p>', type: 'story' });
+
+      const options = { query: 'Mara', caseSensitive: true, wholeWord: true, regex: false };
+      expect(await storageService.replaceInDocuments(options, 'Wren')).toBe(2);
+      expect((await storageService.getDocument(b))?.content).toBe('<p>Wren and Maralyn.</p>');
+
+      await storageService.undo();
+      expect((await storageService.getDocument(a))?.content).toBe('<p>Mara ran.</p>');
+      expect((await storageService.getDocument(b))?.content).toBe('<p>Mara and Maralyn.</p>');
+    });
+
+    it('should not record changes made without history', async () => {
+      await storageService.addCharacter({ name: 'Ash', color: '#ABCDEF' } as any);
+      await storageService.withoutHistory(async () => {
+        const a = await storageService.addStoryboardElement(newElement());
+        const b = await storageService.addStoryboardElement(newElement());
+        await storageService.connectStoryboardElements(a, b);
+      });
+
+      expect(storageService.getHistory().undo.map(entry => entry.label)).toEqual(["Added character 'Ash'"]);
+      await storageService.undo();
+      expect(storageService.getData().storyboardElements).toHaveLength(2);
+    });
+
+    it('should undo a group of changes at once', async () => {
+      const a = await storageService.addStoryboardElement(newElement());
+      const b = await storageService.addStoryboardElement(newElement());
+
+      await storageService.groupChanges('Moved 2 elements', async () => {
+        await storageService.updateStoryboardElement(a, { x: 500 });
+        await storageService.updateStoryboardElement(b, { x: 600 });
+      });
+      const { undo } = storageService.getHistory();
+      expect(undo[undo.length - 1].label).toBe('Moved 2 elements');
+
+      await storageService.undo();
+      expect((await storageService.getStoryboardElement(a))?.x).toBe(10);
+      expect((await storageService.getStoryboardElement(b))?.x).toBe(10);
+      expect(storageService.canRedo()).toBe(true);
+    });
+  });
+
+  describe('Change Events', () => {
+    it('should emit typed events once a change has been applied', async () => {
+      const events: any[] = [];
+      const unsubscribe = storageService.onKindChange('character', event => {
+        events.push({ ...event, name: storageService.getData().characters[0]?.name });
+      });
+
+      const id = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      await storageService.updateCharacter(id, { name: 'Mara Vell' });
+      await storageService.addLocation({ name: 'Harbour' } as any);
+      unsubscribe();
+
+      expect(events).toEqual([
+        { kind: 'character', op: 'add', id, name: 'Mara' },
+        { kind: 'character', op: 'update', id, changedFields: ['name'], name: 'Mara Vell' },
+      ]);
+    });
+
+    it('should notify per-entity listeners about their entity, undo and reloads', async () => {
+      const mara = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const ash = await storageService.addCharacter({ name: 'Ash', color: '#FEDCBA' } as any);
+      const ops: string[] = [];
+      const unsubscribe = storageService.onEntityChange('character', mara, event => ops.push(event.op));
+
+      await storageService.updateCharacter(ash, { name: 'Ash Grey' });
+      await storageService.deleteCharacter(mara);
+      await storageService.undo();
+      await storageService.importData(JSON.stringify(createProject()));
+      unsubscribe();
+
+      expect(ops).toEqual(['delete', 'add', 'reload']);
+    });
+  });
+
+  describe('References', () => {
+    const setUp = async () => {
+      const mara = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const ash = await storageService.addCharacter({ name: 'Ash', color: '#FEDCBA' } as any);
+      const plotPoint = await storageService.addPlotPoint({ title: 'Arrival', characterIds: [mara], locationIds: [] } as any);
+      const card = await storageService.addStoryboardElement({ ...newElement('character'), elementId: mara, content: '' });
+      return { mara, ash, plotPoint, card };
+    };
+
+    it('should detach references when deleting and undo it in one step', async () => {
+      const { mara, plotPoint, card } = await setUp();
+
+      await storageService.deleteCharacter(mara);
+
+      expect((await storageService.getPlotPoint(plotPoint))?.characterIds).toEqual([]);
+      expect(await storageService.getStoryboardElement(card)).toMatchObject({ type: 'note', content: 'Mara' });
+      expect(storageService.checkIntegrity()).toEqual([]);
+
+      await storageService.undo();
+      expect((await storageService.getPlotPoint(plotPoint))?.characterIds).toEqual([mara]);
+      expect((await storageService.getStoryboardElement(card))?.elementId).toBe(mara);
+    });
+
+    it('should delete dependent records or reassign them', async () => {
+      const { mara, ash, plotPoint, card } = await setUp();
+
+      await storageService.deleteCharacter(mara, { action: 'reassign', targetId: ash });
+      expect((await storageService.getPlotPoint(plotPoint))?.characterIds).toEqual([ash]);
+      expect((await storageService.getStoryboardElement(card))?.elementId).toBe(ash);
+
+      await storageService.deleteCharacter(ash, { action: 'delete' });
+      expect(await storageService.getPlotPoint(plotPoint)).toBeUndefined();
+      expect(await storageService.getStoryboardElement(card)).toBeUndefined();
+    });
+  });
+
+  describe('Trash', () => {
+    it('should move deleted entities to the trash and restore their references', async () => {
+      const mara = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const plotPoint = await storageService.addPlotPoint({ title: 'Arrival', characterIds: [mara], locationIds: [] } as any);
+
+      await storageService.deleteCharacter(mara);
+      const [item] = storageService.getTrashItems();
+      expect(item).toMatchObject({ collection: 'characters', name: 'Mara' });
+      expect(item.references.map(r => r.entityId)).toEqual([plotPoint]);
+
+      await storageService.restoreFromTrash(item.id);
+      expect(await storageService.getCharacter(mara)).toBeDefined();
+      expect((await storageService.getPlotPoint(plotPoint))?.characterIds).toEqual([mara]);
+      expect(storageService.getTrashItems()).toEqual([]);
+    });
+
+    it('should purge items older than the retention period', async () => {
+      const mara = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const ash = await storageService.addCharacter({ name: 'Ash', color: '#FEDCBA' } as any);
+      await storageService.deleteCharacter(mara);
+      await storageService.deleteCharacter(ash);
+      storageService.getData().trash![0].deletedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+
+      await storageService.purgeExpiredTrash();
+
+      expect(storageService.getTrashItems().map(item => item.name)).toEqual(['Ash']);
+    });
+  });
+
+  describe('Storage Backend', () => {
+    it('should save project metadata and changed documents through the backend', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+
+      await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const docId = await storageService.addDocument({ title: 'Chapter 1', content: '<p>Hi</p>', type: 'story' });
+      await waitForSave();
+
+      const saved = await backend.loadProject(projectId);
+      const documents = await backend.loadDocuments(projectId);
+      expect(saved.characters.map(c => c.name)).toEqual(['Mara']);
+      expect(saved.documents).toEqual([]);
+      expect(documents.map(d => d.id)).toEqual([docId]);
+    });
+
+    it('should delete documents from the backend', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+
+      const docId = await storageService.addDocument({ title: 'Notes', content: '', type: 'notes' });
+      await waitForSave();
+      await storageService.deleteDocument(docId);
+
+      expect(await backend.loadDocuments(projectId)).toEqual([]);
+    });
+
+    it('should save a restored document again', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+
+      const docId = await storageService.addDocument({ title: 'Notes', content: '<p>Keep</p>', type: 'notes' });
+      await waitForSave();
+      await storageService.deleteDocument(docId);
+      await waitForSave();
+      await storageService.restoreFromTrash(storageService.getTrashItems()[0].id);
+      await waitForSave();
+
+      const documents = await backend.loadDocuments(projectId);
+      expect(documents.map(d => d.content)).toEqual(['<p>Keep</p>']);
+    });
+
+    it('should copy a project and its documents to another backend', async () => {
+      const source = new MemoryStorageBackend();
+      const target = new MemoryStorageBackend();
+      const projectId = await source.createProject('Offline Draft', createProject());
+      storageService.setBackend(source, projectId);
+      await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const docId = await storageService.addDocument({ title: 'Chapter 1', content: '<p>Hi</p>', type: 'story' });
+      await waitForSave();
+
+      const copyId = await copyProject(source, projectId, target, 'Offline Draft');
+
+      expect((await target.listProjects()).map(p => p.name)).toEqual(['Offline Draft']);
+      expect((await target.loadProject(copyId)).characters.map(c => c.name)).toEqual(['Mara']);
+      expect((await target.loadDocuments(copyId)).map(d => d.id)).toEqual([docId]);
+    });
+
+    it('should pick up changes saved elsewhere while the project is open', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+      await storageService.initialize(await backend.loadProject(projectId));
+
+      const remote = await backend.loadProject(projectId);
+      remote.characters = [{ id: 'c1', name: 'Mara' } as any];
+      await backend.saveProjectMetadata(projectId, remote);
+      await backend.saveDocument(projectId, { id: 'd1', title: 'Notes', content: '<p>From another tab</p>', type: 'notes' } as any);
+      await waitForSave();
+
+      expect(storageService.getData().characters.map(c => c.name)).toEqual(['Mara']);
+      expect((await storageService.getDocument('d1'))?.content).toBe('<p>From another tab</p>');
+
+      // Not watched any more once the project is closed
+      storageService.setBackend(null, null);
+      await backend.saveDocument(projectId, { id: 'd1', title: 'Notes', content: '<p>Later</p>', type: 'notes' } as any);
+      await waitForSave();
+      expect((await storageService.getDocument('d1'))?.content).toBe('<p>From another tab</p>');
+    });
+
+    it('should keep the word count listed with the project current', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+
+      const docId = await storageService.addDocument({ title: 'Chapter 1', content: '<p>It was a dark night.</p>', type: 'story' });
+      await waitForSave();
+      expect((await backend.listProjects())[0].wordCount).toBe(5);
+
+      await storageService.updateDocument(docId, { content: '<p>Dark</p><p>night</p>' });
+      await waitForSave();
+      expect((await backend.listProjects())[0].wordCount).toBe(2);
+    });
+
+    it('should refuse every change to a read-only project', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Shared Project', createProject());
+      storageService.setBackend(backend, projectId);
+      const docId = await storageService.addDocument({ title: 'Chapter 1', content: '<p>Hi</p>', type: 'story' });
+      await waitForSave();
+
+      storageService.setReadOnly(true);
+      try {
+        await expect(storageService.addCharacter({ name: 'Mara' } as any)).rejects.toThrow(ReadOnlyProjectError);
+        await expect(storageService.updateDocument(docId, { content: '<p>Changed</p>' })).rejects.toThrow(ReadOnlyProjectError);
+        await expect(storageService.deleteDocument(docId)).rejects.toThrow(ReadOnlyProjectError);
+        await expect(storageService.updateSettings({ trashRetentionDays: 1 })).rejects.toThrow(ReadOnlyProjectError);
+        await waitForSave();
+      } finally {
+        storageService.setReadOnly(false);
+      }
+
+      expect(storageService.getData().characters).toEqual([]);
+      expect((await backend.loadDocuments(projectId)).map(d => d.content)).toEqual(['<p>Hi</p>']);
+    });
+
+    it('should let commenters comment on a read-only project and nothing else', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Shared Project', createProject());
+      storageService.setBackend(backend, projectId);
+      const docId = await storageService.addDocument({ title: 'Chapter 1', content: '<p>Hello there</p>', type: 'story' });
+      await waitForSave();
+
+      const thread = createCommentThread('there', 'Ann', 'Where?');
+      const anchored = `<p>Hello <span class="comment-anchor" data-comment-id="${thread.id}">there</span></p>`;
+      storageService.setReadOnly(true, true);
+      try {
+        expect(storageService.canComment()).toBe(true);
+        await expect(storageService.updateDocument(docId, { comments: [thread] })).rejects.toThrow(ReadOnlyProjectError);
+        await expect(storageService.updateDocumentComments(docId, [thread], '<p>Hello you</p>')).rejects.toThrow(ReadOnlyProjectError);
+        await storageService.updateDocumentComments(docId, [thread], anchored);
+        await waitForSave();
+      } finally {
+        storageService.setReadOnly(false);
+      }
+
+      const [saved] = await backend.loadDocuments(projectId);
+      expect(saved.content).toBe(anchored);
+      expect(saved.comments!.map(t => t.id)).toEqual([thread.id]);
+
+      storageService.setReadOnly(true);
+      try {
+        expect(storageService.canComment()).toBe(false);
+        await expect(storageService.updateDocumentComments(docId, [])).rejects.toThrow(ReadOnlyProjectError);
+      } finally {
+        storageService.setReadOnly(false);
+      }
+    });
+  });
+
+  describe('Snapshots', () => {
+    const setUpBackend = async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+      return backend;
+    };
+
+    it('should snapshot the project before an import', async () => {
+      await setUpBackend();
+      await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+
+      await storageService.importData(JSON.stringify({ ...createProject(), characters: [] }));
+
+      const [snapshot] = (await storageService.getSnapshots()).filter(s => s.trigger === 'import');
+      expect((await storageService.loadSnapshot(snapshot.id)).characters.map(c => c.name)).toEqual(['Mara']);
+      expect(storageService.getData().characters).toEqual([]);
+    });
+
+    it('should restore single records or the whole project from a snapshot', async () => {
+      await setUpBackend();
+      const mara = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      const docId = await storageService.addDocument({ title: 'Notes', content: '<p>First</p>', type: 'notes' });
+      const snapshot = await storageService.createSnapshot('Draft 1');
+      await storageService.updateCharacter(mara, { name: 'Mara Vell' });
+      await storageService.updateDocument(docId, { content: '<p>Second</p>' });
+
+      const changes = await storageService.compareSnapshots(snapshot!.id);
+      expect(changes.map(c => `${c.kind} ${c.collection}`).sort()).toEqual(['modified characters', 'modified documents']);
+
+      await storageService.restoreFromSnapshot(snapshot!.id, [{ collection: 'characters', id: mara }]);
+      expect((await storageService.getCharacter(mara))?.name).toBe('Mara');
+      expect((await storageService.getDocument(docId))?.content).toBe('<p>Second</p>');
+
+      await storageService.restoreSnapshot(snapshot!.id);
+      expect((await storageService.getDocument(docId))?.content).toBe('<p>First</p>');
+      expect((await storageService.getSnapshots()).some(s => s.trigger === 'restore')).toBe(true);
+    });
+  });
+
+  describe('Revisions', () => {
+    it('should capture a revision when an editing session ends and restore it', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+      const docId = await storageService.addDocument({ title: 'Notes', content: '<p>First</p>', type: 'notes' });
+
+      storageService.beginRevisionSession(docId);
+      await storageService.updateDocument(docId, { content: '<p>Second</p>' });
+      await storageService.endRevisionSession(docId);
+
+      const revisions = await storageService.getRevisions(docId);
+      expect(revisions.map(r => r.trigger)).toEqual(['session', 'session']);
+      expect((await backend.loadRevisions(projectId, docId))?.revisions).toHaveLength(2);
+
+      await storageService.updateDocument(docId, { content: '<p>Third</p>' });
+      await storageService.restoreRevision(docId, revisions[1].id);
+      expect((await storageService.getDocument(docId))?.content).toBe('<p>First</p>');
+      const [latest] = await storageService.getRevisions(docId);
+      expect(latest.trigger).toBe('restore');
+      expect(await storageService.loadRevisionContent(docId, latest.id)).toBe('<p>Third</p>');
+    });
+
+    it('should keep a revision that could not be saved in the outbox', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      const saveRevisions = backend.saveRevisions.bind(backend);
+      let signedIn = false;
+      backend.saveRevisions = async (id, log) => {
+        if (!signedIn) throw new AuthExpiredError(backend.name);
+        return saveRevisions(id, log);
+      };
+      storageService.setBackend(backend, projectId);
+      const docId = await storageService.addDocument({ title: 'Notes', content: '<p>First</p>', type: 'notes' });
+
+      storageService.beginRevisionSession(docId);
+      await storageService.updateDocument(docId, { content: '<p>Second</p>' });
+      await storageService.endRevisionSession(docId);
+      expect((await saveQueue.getPending(projectId)).map(entry => entry.kind)).toEqual(['revision']);
+
+      signedIn = true;
+      await saveQueue.resume();
+      expect(await saveQueue.getPending(projectId)).toHaveLength(0);
+      expect((await storageService.getRevisions(docId)).map(r => r.trigger)).toEqual(['session', 'session']);
+    });
+  });
+
+  describe('Save Queue', () => {
+    it('should keep failed writes pending and re-apply them on load', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      backend.saveDocument = async () => {
+        throw new Error('Network error');
+      };
+      storageService.setBackend(backend, projectId);
+
+      const docId = await storageService.addDocument({ title: 'Draft', content: '<p>Offline</p>', type: 'story' });
+      await waitForSave();
+
+      expect(storageService.getPendingCount()).toBe(1);
+      expect(storageService.getSaveStatus()).toBe('pending');
+
+      const reloaded = await saveQueue.applyPending(projectId, await backend.loadProject(projectId));
+      expect(reloaded.documents.map(d => d.id)).toEqual([docId]);
+    });
+
+    it('should coalesce repeated writes to the same document', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(null, null);
+
+      const docId = await storageService.addDocument({ title: 'Draft', content: 'one', type: 'story' });
+      const doc = (await storageService.getDocuments()).find(d => d.id === docId)!;
+      await saveQueue.enqueueDocument(projectId, { ...doc, content: 'one' });
+      await saveQueue.enqueueDocument(projectId, { ...doc, content: 'two' });
+
+      const pending = await saveQueue.getPending(projectId);
+      expect(pending).toHaveLength(1);
+
+      storageService.setBackend(backend, projectId);
+      await waitForSave();
+      const documents = await backend.loadDocuments(projectId);
+      expect(documents.map(d => d.content)).toEqual(['two']);
+    });
+
+    it('should hold writes while signed out and replay them after reconnecting', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      const saveDocument = backend.saveDocument.bind(backend);
+      let signedIn = false;
+      backend.saveDocument = async (id, document) => {
+        if (!signedIn) throw new AuthExpiredError(backend.name);
+        return saveDocument(id, document);
+      };
+      Object.assign(backend, { reconnect: async () => (signedIn = true) });
+      storageService.setBackend(backend, projectId);
+
+      const docId = await storageService.addDocument({ title: 'Draft', content: '<p>Kept</p>', type: 'story' });
+      await waitForSave();
+
+      expect(storageService.getSaveStatus()).toBe('signed-out');
+      expect((await saveQueue.getPending(projectId)).map(entry => entry.attempts)).toEqual([0]);
+
+      expect(await storageService.reconnect()).toBe(true);
+      expect(storageService.getSaveStatus()).toBe('saved');
+      expect((await backend.loadDocuments(projectId)).map(d => d.id)).toEqual([docId]);
+    });
+  });
+
+  describe('Conflict Merge', () => {
+    it('should merge with changes saved elsewhere and keep conflicts for the user', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+      const charId = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      await waitForSave();
+      await storageService.initialize(await backend.loadProject(projectId));
+
+      // Someone else renames the character and adds a location
+      const remote = await backend.loadProject(projectId);
+      remote.characters[0] = { ...remote.characters[0], name: 'Marion' };
+      remote.locations = [{ id: 'loc1', name: 'Harbour' } as any];
+      await backend.saveProjectMetadata(projectId, remote);
+
+      // Our next save is rejected once, as Drive would after a remote edit
+      const save = backend.saveProjectMetadata.bind(backend);
+      let rejected = false;
+      backend.saveProjectMetadata = async (id, data) => {
+        if (!rejected) {
+          rejected = true;
+          throw new SaveConflictError(id);
+        }
+        return save(id, data);
+      };
+
+      await storageService.updateCharacter(charId, { name: 'Mara Vance' });
+      await waitForSave();
+
+      const conflicts = storageService.getConflicts();
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({ entityId: charId, field: 'name', local: 'Mara Vance', remote: 'Marion' });
+
+      const saved = await backend.loadProject(projectId);
+      expect(saved.locations.map(l => l.name)).toEqual(['Harbour']);
+      expect(saved.characters[0].name).toBe('Mara Vance');
+
+      await storageService.resolveConflicts({ [conflicts[0].id]: 'remote' });
+      await waitForSave();
+
+      expect(storageService.getConflicts()).toEqual([]);
+      expect((await backend.loadProject(projectId)).characters[0].name).toBe('Marion');
+    });
+
+    it('should retry later when the changes saved elsewhere cannot be loaded', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+      backend.saveProjectMetadata = async id => {
+        throw new SaveConflictError(id);
+      };
+      backend.loadProject = async () => {
+        throw new Error('Network error');
+      };
+
+      await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      await waitForSave();
+
+      const pending = await saveQueue.getPending(projectId);
+      expect(pending).toHaveLength(1);
+      expect(pending[0].attempts).toBeGreaterThan(0);
+      expect(pending[0].lastError).toBe('Network error');
+    });
+
+    it('should pause saves when signed out while loading the changes to merge', async () => {
+      const backend = new MemoryStorageBackend();
+      const projectId = await backend.createProject('Test Project', createProject());
+      storageService.setBackend(backend, projectId);
+      backend.saveProjectMetadata = async id => {
+        throw new SaveConflictError(id);
+      };
+      backend.loadProject = async () => {
+        throw new AuthExpiredError(backend.name);
+      };
+
+      await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+      await waitForSave();
+
+      expect(storageService.getSaveStatus()).toBe('signed-out');
+      expect((await saveQueue.getPending(projectId)).map(entry => entry.attempts)).toEqual([0]);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { useAppStore } from '../store/useAppStore';
+import { useProjectStore, selectCharacters, selectLocations, selectStoryboardElements } from '../store/useProjectStore';
+import { storageService, Location } from '../services/storageService';
+import { saveQueue, MemoryOutboxStore } from '../services/saveQueue';
+import { createProject } from './fixtures';
 
 describe('App Store', () => {
   beforeEach(() => {
@@ -107,3 +111,67 @@ describe('App Store', () => {
     expect(useAppStore.getState().windows[0].isMinimized).toBe(false);
   });
 });
+
+describe('Project Store', () => {
+  beforeEach(async () => {
+    saveQueue.setStore(new MemoryOutboxStore());
+    storageService.setBackend(null, null);
+    await storageService.initialize(createProject());
+  });
+
+  it('should replace only the entity that changed', async () => {
+    const mara = await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+    const ash = await storageService.addCharacter({ name: 'Ash', color: '#FEDCBA' } as any);
+    await storageService.addLocation({ name: 'Harbour' } as any);
+    const before = useProjectStore.getState();
+
+    await storageService.updateCharacter(mara, { name: 'Mara Vell' });
+
+    const after = useProjectStore.getState();
+    expect(selectCharacters(after).map(c => c.name)).toEqual(['Mara Vell', 'Ash']);
+    expect(selectCharacters(after)).not.toBe(selectCharacters(before));
+    expect(after.characters.byId[ash]).toBe(before.characters.byId[ash]);
+    expect(selectLocations(after)).toBe(selectLocations(before));
+  });
+
+  it('should follow storyboard elements being connected and deleted', async () => {
+    const element = { type: 'note' as const, x: 0, y: 0, width: 150, height: 80, content: 'Note', style: {}, connections: [] };
+    const first = await storageService.addStoryboardElement(element);
+    const second = await storageService.addStoryboardElement(element);
+
+    await storageService.connectStoryboardElements(first, second);
+
+    let elements = selectStoryboardElements(useProjectStore.getState());
+    expect(elements.map(e => e.connections)).toEqual([[second], [first]]);
+
+    await storageService.deleteStoryboardElement(second);
+
+    elements = selectStoryboardElements(useProjectStore.getState());
+    expect(elements.map(e => e.id)).toEqual([first]);
+    expect(elements[0].connections).toEqual([]);
+  });
+
+  it('should keep view preferences to the session in read-only projects', () => {
+    useAppStore.setState({ characterRecognitionEnabled: false });
+    storageService.setReadOnly(true);
+    try {
+      useAppStore.getState().toggleCharacterRecognition();
+      expect(useAppStore.getState().characterRecognitionEnabled).toBe(true);
+      expect(storageService.getSettings().characterRecognitionEnabled).toBe(false);
+    } finally {
+      storageService.setReadOnly(false);
+    }
+  });
+
+  it('should reload everything when a project is imported', async () => {
+    await storageService.addCharacter({ name: 'Mara', color: '#ABCDEF' } as any);
+
+    const harbour = { id: 'l1', name: 'Harbour', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' } as Location;
+    await storageService.importData(JSON.stringify(createProject({ locations: [harbour] })));
+
+    const state = useProjectStore.getState();
+    expect(state.isLoaded).toBe(true);
+    expect(selectCharacters(state)).toEqual([]);
+    expect(selectLocations(state).map(l => l.name)).toEqual(['Harbour']);
+  });
+});